@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { customerTemplates } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { customerTemplateSchema } from '@/lib/schemas';
+import { toCustomerTemplate, toTemplateRow } from '@/services/extraction.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// PUT: Replace a template
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const template = customerTemplateSchema.parse(await req.json());
+    const [updated] = await db
+      .update(customerTemplates)
+      .set({ ...toTemplateRow(template), updatedAt: new Date() })
+      .where(eq(customerTemplates.id, id))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: toCustomerTemplate(updated) });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const message = getErrorMessage(error);
+    if (message.includes('unique') || message.includes('duplicate')) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const [deleted] = await db
+      .delete(customerTemplates)
+      .where(eq(customerTemplates.id, id))
+      .returning();
+    if (!deleted) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
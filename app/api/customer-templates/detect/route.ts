@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { customerTemplateSchema } from '@/lib/schemas';
+import { detectCustomerTemplate } from '@/lib/extraction/templates';
+import { loadCustomerTemplates } from '@/services/extraction.service';
+
+export const dynamic = 'force-dynamic';
+
+const detectSchema = z.object({
+  text: z.string().min(1, 'Text is required'),
+  // Test an unsaved draft on its own instead of the saved templates.
+  template: customerTemplateSchema.optional(),
+});
+
+// POST: Which template would be applied to this document text
+export async function POST(req: Request) {
+  try {
+    const { text, template } = detectSchema.parse(await req.json());
+    const templates = template ? [{ ...template, enabled: true }] : await loadCustomerTemplates();
+    const match = detectCustomerTemplate(templates, text);
+
+    return NextResponse.json({
+      success: true,
+      data: match
+        ? {
+            name: match.template.name,
+            score: match.score,
+            minScore: match.template.minScore,
+            matchedKeywords: match.matchedKeywords,
+            matchedHeaders: match.matchedHeaders,
+          }
+        : null,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
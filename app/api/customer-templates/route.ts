@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { customerTemplates } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { customerTemplateSchema } from '@/lib/schemas';
+import { toCustomerTemplate, toTemplateRow } from '@/services/extraction.service';
+
+export const dynamic = 'force-dynamic';
+
+function isUniqueViolation(error: unknown) {
+  const message = getErrorMessage(error);
+  return message.includes('unique') || message.includes('duplicate');
+}
+
+// GET: All customer templates, including disabled ones
+export async function GET() {
+  try {
+    const rows = await db
+      .select()
+      .from(customerTemplates)
+      .orderBy(asc(customerTemplates.priority), asc(customerTemplates.name));
+    return NextResponse.json({ success: true, data: rows.map(toCustomerTemplate) });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Create a template
+export async function POST(req: Request) {
+  try {
+    const template = customerTemplateSchema.parse(await req.json());
+    const [created] = await db
+      .insert(customerTemplates)
+      .values(toTemplateRow(template))
+      .returning();
+    return NextResponse.json({ success: true, data: toCustomerTemplate(created) }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (isUniqueViolation(error)) {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { customsEntrySchema } from '@/lib/schemas';
+import {
+  deleteCustomsEntry,
+  listCustomsEntries,
+  saveCustomsEntries,
+} from '@/services/customs.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Customs entries, newest first
+export async function GET() {
+  try {
+    const data = await listCustomsEntries();
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Record one entry by hand (an existing entry number is replaced)
+export async function POST(req: NextRequest) {
+  try {
+    const entry = customsEntrySchema.parse(await req.json());
+    const data = await saveCustomsEntries([entry], 'MANUAL');
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    await deleteCustomsEntry(id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = getErrorMessage(error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { parseBrokerEntries } from '@/lib/customs-entry';
+import { isSpreadsheetFile } from '@/lib/spreadsheet-import';
+import { readSpreadsheet } from '@/lib/spreadsheet-read';
+import { saveCustomsEntries } from '@/services/customs.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// POST: Import a broker's entry file (CSV or XLSX, one row per entry line)
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!isSpreadsheetFile(file.name)) {
+      return NextResponse.json({ error: 'File must be a CSV, XLSX or XLS file' }, { status: 400 });
+    }
+
+    const [sheet] = readSpreadsheet(new Uint8Array(await file.arrayBuffer())).filter(
+      (table) => table.rows.length
+    );
+    if (!sheet) {
+      return NextResponse.json({ error: 'The file is empty' }, { status: 422 });
+    }
+
+    const { entries, errors } = parseBrokerEntries(sheet);
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: errors[0] || 'No entry lines found', details: errors },
+        { status: 422 }
+      );
+    }
+
+    const data = await saveCustomsEntries(entries, 'CSV');
+    return NextResponse.json({ success: true, data: { ...data, skippedRows: errors } });
+  } catch (error: unknown) {
+    console.error('Customs Import Error:', error);
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
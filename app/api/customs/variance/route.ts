@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { DUTY_VARIANCE_GROUPS, type DutyVarianceGroup } from '@/lib/customs-entry';
+import { getDutyVarianceReport } from '@/services/customs.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Actual vs estimated duty, grouped by item, order or tariff key
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const groupBy = (params.get('groupBy') || 'order') as DutyVarianceGroup;
+    if (!DUTY_VARIANCE_GROUPS.includes(groupBy)) {
+      return NextResponse.json(
+        { error: `groupBy must be one of ${DUTY_VARIANCE_GROUPS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const data = await getDutyVarianceReport({
+      groupBy,
+      orderId: params.get('orderId'),
+      containerId: params.get('containerId'),
+    });
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse, after } from 'next/server';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import { ingestEmail } from '@/services/email.service';
+import { startImportJob } from '@/services/import.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// POST: Ingest raw emails, either as the request body (message/rfc822, as mail
+// gateways forward them) or as .eml files in the multipart field `files`. PO
+// attachments are queued as a batch import of draft orders.
+export async function POST(req: Request) {
+  try {
+    const contentType = req.headers.get('content-type') || '';
+    const messages: Buffer[] = [];
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await req.formData();
+      for (const entry of formData.getAll('files')) {
+        if (entry instanceof File) messages.push(Buffer.from(await entry.arrayBuffer()));
+      }
+    } else {
+      const body = Buffer.from(await req.arrayBuffer());
+      if (body.length > 0) messages.push(body);
+    }
+
+    if (messages.length === 0) {
+      return NextResponse.json({ error: 'No email provided' }, { status: 400 });
+    }
+
+    const createdBy = getRequestActor(req);
+    const results = [];
+    for (const raw of messages) {
+      results.push(await ingestEmail(raw, { source: 'UPLOAD', createdBy }));
+    }
+
+    const jobIds = results
+      .map((result) => result.job)
+      .filter((job) => job && job.status !== 'COMPLETED')
+      .map((job) => job!.id);
+    if (jobIds.length > 0) {
+      after(() => Promise.all(jobIds.map(startImportJob)));
+    }
+
+    return NextResponse.json({ success: true, data: results }, { status: 202 });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
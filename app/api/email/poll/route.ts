@@ -0,0 +1,30 @@
+import { NextResponse, after } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { pollMailSources } from '@/services/email.service';
+import { startImportJob } from '@/services/import.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// POST: Check the configured maildir / IMAP inbox once (call from cron)
+export async function POST() {
+  try {
+    const result = await pollMailSources();
+    if (!result.configured) {
+      return NextResponse.json(
+        { error: 'No mail source configured (set MAIL_MAILDIR or MAIL_IMAP_HOST)' },
+        { status: 400 }
+      );
+    }
+
+    const jobIds = result.results.flatMap((source) => source.jobIds);
+    if (jobIds.length > 0) {
+      after(() => Promise.all(jobIds.map(startImportJob)));
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
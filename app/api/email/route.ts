@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { listInboundEmails } from '@/services/email.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET: Recently received emails with the import job each one started
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: await listInboundEmails() });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { readStoredFile } from '@/services/document.service';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: Stream a stored source document inline (used by the workspace PDF viewer).
+// `?name=` names the download after the caller's upload; the same bytes may have been
+// uploaded before under another name.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    // Ids are UUIDs; anything else can't exist and would only make Postgres reject the query
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const stored = await readStoredFile(id);
+    if (!stored) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const { file, data } = stored;
+    const fileName = req.nextUrl.searchParams.get('name')?.trim() || file.fileName;
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        // Content-addressed: the bytes behind an id never change.
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ETag: `"${file.fileHash}"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Fetch File Error:', error);
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { commercialInvoices, payments } from '@/db/schema';
+import { commercialInvoices, financeNotes, payments } from '@/db/schema';
 import { and, desc, eq } from 'drizzle-orm';
 import { parseDecimalInput } from '@/lib/finance-math';
+import { noteLimitError } from '@/lib/finance-notes';
+import { normalizeCurrency } from '@/lib/fx';
 import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
 import { commercialInvoiceSchema } from '@/lib/schemas';
-import { createCommercialInvoice } from '@/services/finance.service';
+import { createCommercialInvoice, refreshBillStatus } from '@/services/finance.service';
 import { z } from 'zod';
 
 function getErrorMessage(error: unknown): string {
@@ -79,6 +81,17 @@ export async function DELETE(req: NextRequest) {
       );
     }
 
+    const noteRows = await db
+      .select({ id: financeNotes.id })
+      .from(financeNotes)
+      .where(and(eq(financeNotes.targetType, 'CUSTOMER_INVOICE'), eq(financeNotes.targetId, id)));
+    if (noteRows.length > 0) {
+      return NextResponse.json(
+        { error: 'Cannot delete invoice with credit or debit notes. Delete related notes first.' },
+        { status: 409 }
+      );
+    }
+
     await db.delete(commercialInvoices).where(eq(commercialInvoices.id, id));
     await recomputeOrderWorkflowStatus(current.orderId);
 
@@ -143,12 +156,46 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
 
-    const [saved] = await db
+    // Notes are in the document's currency and may not credit it below zero
+    const amountChanged = updateData.amount !== undefined || updateData.currency !== undefined;
+    if (amountChanged) {
+      const noteRows = await db
+        .select({ noteType: financeNotes.noteType, amount: financeNotes.amount })
+        .from(financeNotes)
+        .where(and(eq(financeNotes.targetType, 'CUSTOMER_INVOICE'), eq(financeNotes.targetId, id)));
+      if (
+        noteRows.length > 0 &&
+        updateData.currency !== undefined &&
+        updateData.currency !== normalizeCurrency(current.currency)
+      ) {
+        return NextResponse.json(
+          { error: 'Cannot change the currency of an invoice with credit or debit notes.' },
+          { status: 409 }
+        );
+      }
+      const limitError = noteLimitError(
+        parseDecimalInput(updateData.amount ?? current.amount, 0),
+        noteRows.map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) }))
+      );
+      if (limitError) {
+        return NextResponse.json({ error: limitError }, { status: 409 });
+      }
+    }
+
+    let [saved] = await db
       .update(commercialInvoices)
       .set(updateData)
       .where(eq(commercialInvoices.id, id))
       .returning();
 
+    // A status sent with the edit is kept; otherwise it follows the new amount
+    if (amountChanged && updateData.status === undefined) {
+      await refreshBillStatus('CUSTOMER_INVOICE', id);
+      const refreshed = await db.query.commercialInvoices.findFirst({
+        where: eq(commercialInvoices.id, id),
+      });
+      if (refreshed) saved = refreshed;
+    }
     await recomputeOrderWorkflowStatus(current.orderId);
 
     return NextResponse.json({ success: true, data: saved });
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { parseFxRates } from '@/lib/fx';
+import { isSpreadsheetFile } from '@/lib/spreadsheet-import';
+import { readSpreadsheet } from '@/lib/spreadsheet-read';
+import { saveFxRates } from '@/services/fx.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// POST: Import a rate sheet (CSV or XLSX with currency, date and rate columns)
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!isSpreadsheetFile(file.name)) {
+      return NextResponse.json({ error: 'File must be a CSV, XLSX or XLS file' }, { status: 400 });
+    }
+
+    const [sheet] = readSpreadsheet(new Uint8Array(await file.arrayBuffer())).filter(
+      (table) => table.rows.length
+    );
+    if (!sheet) {
+      return NextResponse.json({ error: 'The file is empty' }, { status: 422 });
+    }
+
+    const { rates, errors } = parseFxRates(sheet);
+    if (rates.length === 0) {
+      return NextResponse.json(
+        { error: errors[0] || 'No rates found', details: errors },
+        { status: 422 }
+      );
+    }
+
+    const data = await saveFxRates(rates, 'CSV');
+    return NextResponse.json({ success: true, data: { ...data, skippedRows: errors } });
+  } catch (error: unknown) {
+    console.error('FX Rate Import Error:', error);
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
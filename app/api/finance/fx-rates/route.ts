@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { BASE_CURRENCY } from '@/lib/fx';
+import { fxRateSchema } from '@/lib/schemas';
+import { deleteFxRate, listFxRates, saveFxRates } from '@/services/fx.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Stored exchange rates into the base currency
+export async function GET() {
+  try {
+    const rates = await listFxRates();
+    return NextResponse.json({ success: true, data: { baseCurrency: BASE_CURRENCY, rates } });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Enter one rate by hand (replaces the rate for the same currency and date)
+export async function POST(req: NextRequest) {
+  try {
+    const rate = fxRateSchema.parse(await req.json());
+    if (rate.currency === BASE_CURRENCY) {
+      return NextResponse.json(
+        { error: `${BASE_CURRENCY} is the base currency and needs no rate` },
+        { status: 400 }
+      );
+    }
+    const data = await saveFxRates([rate], 'MANUAL');
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    await deleteFxRate(id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = getErrorMessage(error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
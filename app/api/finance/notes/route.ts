@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { financeNoteSchema } from '@/lib/schemas';
+import { createFinanceNote, deleteFinanceNote, listFinanceNotes } from '@/services/finance.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Credit and debit notes, optionally for one order (?orderId=)
+export async function GET(req: NextRequest) {
+  try {
+    const data = await listFinanceNotes(req.nextUrl.searchParams.get('orderId'));
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Issue a credit or debit note against a commercial invoice or vendor bill
+export async function POST(req: NextRequest) {
+  try {
+    const data = financeNoteSchema.parse(await req.json());
+    const saved = await createFinanceNote(data);
+    return NextResponse.json({ success: true, data: saved });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const message = getErrorMessage(error);
+    let status = 500;
+    if (message.includes('not found')) status = 404;
+    else if (message === 'amount must be a positive number') status = 400;
+    else if (message.startsWith('Credit exceeds')) status = 409;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    await deleteFinanceNote(id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const message = getErrorMessage(error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
@@ -1,8 +1,18 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/db';
-import { commercialInvoices, logisticsBills, payments, vendorBills } from '@/db/schema';
-import { and, eq } from 'drizzle-orm';
-import { parseDecimalInput, round2 } from '@/lib/finance-math';
+import {
+  commercialInvoices,
+  financeNotes,
+  logisticsBills,
+  orders,
+  payments,
+  vendorBills,
+} from '@/db/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { parseDecimalInput, round2, round4 } from '@/lib/finance-math';
+import { netAdjustment } from '@/lib/finance-notes';
+import { BASE_CURRENCY, settleDocument, sumInBase, type FxConverter } from '@/lib/fx';
+import { loadFxConverter } from '@/services/fx.service';
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
@@ -10,91 +20,168 @@ function getErrorMessage(error: unknown): string {
 
 type RouteContext = { params: Promise<{ id: string }> };
 
-async function paidAmount(targetType: string, targetId: string) {
-  const rows = await db
-    .select({ amount: payments.amount })
-    .from(payments)
-    .where(and(eq(payments.targetType, targetType), eq(payments.targetId, targetId)));
-  return round2(rows.reduce((sum, row) => sum + parseDecimalInput(row.amount, 0), 0));
+type PaymentRow = typeof payments.$inferSelect;
+type NoteRow = typeof financeNotes.$inferSelect;
+
+type FinanceDoc = {
+  id: string;
+  amount: string | null;
+  currency: string | null;
+  issueDate: Date | null;
+  dueDate: Date | null;
+  status: string | null;
+};
+
+function summarize<T extends FinanceDoc>(
+  docs: T[],
+  code: (doc: T) => string,
+  targetType: string,
+  paymentRows: PaymentRow[],
+  noteRows: NoteRow[],
+  fx: FxConverter
+) {
+  const isTarget = (row: { targetType: string; targetId: string }, doc: T) =>
+    row.targetType === targetType && row.targetId === doc.id;
+  return docs.map((doc) => ({
+    id: doc.id,
+    code: code(doc),
+    ...settleDocument(
+      {
+        ...doc,
+        amount: parseDecimalInput(doc.amount, 0),
+        adjustment: netAdjustment(
+          noteRows
+            .filter((row) => isTarget(row, doc))
+            .map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) }))
+        ),
+      },
+      paymentRows
+        .filter((row) => isTarget(row, doc))
+        .map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) })),
+      fx,
+      targetType === 'CUSTOMER_INVOICE' ? 'IN' : 'OUT'
+    ),
+    dueDate: doc.dueDate,
+    status: doc.status,
+  }));
 }
 
+// Amounts stay in each document's currency, net of credit and debit notes; totals are
+// in the base currency
 export async function GET(_req: Request, { params }: RouteContext) {
   try {
     const { id } = await params;
 
-    const [invoices, vendor, logistics] = await Promise.all([
+    const [order, invoices, vendor, logistics, fx] = await Promise.all([
+      db.query.orders.findFirst({
+        columns: { estimatedMargin: true },
+        where: eq(orders.id, id),
+      }),
       db.select().from(commercialInvoices).where(eq(commercialInvoices.orderId, id)),
       db.select().from(vendorBills).where(eq(vendorBills.orderId, id)),
       db.select().from(logisticsBills).where(eq(logisticsBills.orderId, id)),
+      loadFxConverter(),
     ]);
 
-    const invoiceSummaries = await Promise.all(
-      invoices.map(async (doc) => {
-        const paid = await paidAmount('CUSTOMER_INVOICE', doc.id);
-        const amount = parseDecimalInput(doc.amount, 0);
-        return {
-          id: doc.id,
-          code: doc.invoiceNo,
-          amount,
-          paid,
-          outstanding: round2(Math.max(0, amount - paid)),
-          dueDate: doc.dueDate,
-          status: doc.status,
-        };
-      })
-    );
+    const docIds = [...invoices, ...vendor, ...logistics].map((doc) => doc.id);
+    const [paymentRows, noteRows] = docIds.length
+      ? await Promise.all([
+          db.select().from(payments).where(inArray(payments.targetId, docIds)),
+          db
+            .select()
+            .from(financeNotes)
+            .where(inArray(financeNotes.targetId, docIds))
+            .orderBy(asc(financeNotes.issueDate)),
+        ])
+      : [[], []];
 
-    const vendorSummaries = await Promise.all(
-      vendor.map(async (doc) => {
-        const paid = await paidAmount('VENDOR_BILL', doc.id);
-        const amount = parseDecimalInput(doc.amount, 0);
-        return {
-          id: doc.id,
-          code: doc.billNo,
-          amount,
-          paid,
-          outstanding: round2(Math.max(0, amount - paid)),
-          dueDate: doc.dueDate,
-          status: doc.status,
-        };
-      })
+    const invoiceSummaries = summarize(
+      invoices,
+      (doc) => doc.invoiceNo,
+      'CUSTOMER_INVOICE',
+      paymentRows,
+      noteRows,
+      fx
     );
-
-    const logisticsSummaries = await Promise.all(
-      logistics.map(async (doc) => {
-        const paid = await paidAmount('LOGISTICS_BILL', doc.id);
-        const amount = parseDecimalInput(doc.amount, 0);
-        return {
-          id: doc.id,
-          code: doc.billNo,
-          amount,
-          paid,
-          outstanding: round2(Math.max(0, amount - paid)),
-          dueDate: doc.dueDate,
-          status: doc.status,
-        };
-      })
+    const vendorSummaries = summarize(
+      vendor,
+      (doc) => doc.billNo,
+      'VENDOR_BILL',
+      paymentRows,
+      noteRows,
+      fx
+    );
+    const logisticsSummaries = summarize(
+      logistics,
+      (doc) => doc.billNo,
+      'LOGISTICS_BILL',
+      paymentRows,
+      noteRows,
+      fx
     );
 
+    const receivable = sumInBase(invoiceSummaries);
+    const vendorPayable = sumInBase(vendorSummaries);
+    const logisticsPayable = sumInBase(logisticsSummaries);
+
     const totals = {
-      receivable: round2(invoiceSummaries.reduce((sum, x) => sum + x.amount, 0)),
-      receivablePaid: round2(invoiceSummaries.reduce((sum, x) => sum + x.paid, 0)),
-      receivableOutstanding: round2(invoiceSummaries.reduce((sum, x) => sum + x.outstanding, 0)),
-      vendorPayable: round2(vendorSummaries.reduce((sum, x) => sum + x.amount, 0)),
-      vendorPaid: round2(vendorSummaries.reduce((sum, x) => sum + x.paid, 0)),
-      vendorOutstanding: round2(vendorSummaries.reduce((sum, x) => sum + x.outstanding, 0)),
-      logisticsPayable: round2(logisticsSummaries.reduce((sum, x) => sum + x.amount, 0)),
-      logisticsPaid: round2(logisticsSummaries.reduce((sum, x) => sum + x.paid, 0)),
-      logisticsOutstanding: round2(logisticsSummaries.reduce((sum, x) => sum + x.outstanding, 0)),
+      receivable: receivable.amount,
+      receivablePaid: receivable.paid,
+      receivableOutstanding: receivable.outstanding,
+      vendorPayable: vendorPayable.amount,
+      vendorPaid: vendorPayable.paid,
+      vendorOutstanding: vendorPayable.outstanding,
+      logisticsPayable: logisticsPayable.amount,
+      logisticsPaid: logisticsPayable.paid,
+      logisticsOutstanding: logisticsPayable.outstanding,
+      fxGainLoss: round2(
+        receivable.fxGainLoss + vendorPayable.fxGainLoss + logisticsPayable.fxGainLoss
+      ),
+    };
+
+    const codes = new Map(
+      [...invoiceSummaries, ...vendorSummaries].map((doc) => [doc.id, doc.code])
+    );
+    const notes = noteRows.map((row) => ({
+      ...row,
+      amount: parseDecimalInput(row.amount, 0),
+      targetCode: codes.get(row.targetId) ?? row.targetId,
+    }));
+
+    // Margin as invoiced and billed, against the order's estimate
+    const actualCost = vendorPayable.amount + logisticsPayable.amount;
+    const actualMargin = {
+      revenue: receivable.amount,
+      vendorCost: vendorPayable.amount,
+      logisticsCost: logisticsPayable.amount,
+      margin: round2(receivable.amount - actualCost),
+      marginRate:
+        receivable.amount > 0 ? round4((receivable.amount - actualCost) / receivable.amount) : 0,
+      estimatedMargin: order ? parseDecimalInput(order.estimatedMargin, 0) : null,
     };
 
     return NextResponse.json({
       success: true,
       data: {
+        baseCurrency: BASE_CURRENCY,
         invoices: invoiceSummaries,
         vendorBills: vendorSummaries,
         logisticsBills: logisticsSummaries,
+        notes,
         totals,
+        actualMargin,
+        byCurrency: {
+          receivable: receivable.byCurrency,
+          vendor: vendorPayable.byCurrency,
+          logistics: logisticsPayable.byCurrency,
+        },
+        unconverted: [
+          ...new Set([
+            ...receivable.unconverted,
+            ...vendorPayable.unconverted,
+            ...logisticsPayable.unconverted,
+          ]),
+        ],
       },
     });
   } catch (error: unknown) {
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { logisticsBills, orders, payments, vendorBills } from '@/db/schema';
+import { financeNotes, logisticsBills, orders, payments, vendorBills } from '@/db/schema';
 import { and, asc, eq, inArray } from 'drizzle-orm';
 import { parseDecimalInput, round2 } from '@/lib/finance-math';
+import { netAdjustment } from '@/lib/finance-notes';
+import { BASE_CURRENCY, settleDocument, sumInBase, type FxPayment } from '@/lib/fx';
 import { getErrorMessage } from '@/lib/api-helpers';
+import { loadFxConverter } from '@/services/fx.service';
 
 type PayScheduleItem = {
   id: string;
@@ -15,28 +18,65 @@ type PayScheduleItem = {
   issueDate: string | null;
   dueDate: string | null;
   amount: number;
+  /** Net of credit and debit notes (vendor bills only). */
+  adjustment: number;
   paid: number;
   outstanding: number;
   status: string;
   currency: string;
+  /** Base-currency figures; null when the currency has no rate. */
+  baseAmount: number | null;
+  baseOutstanding: number | null;
 };
 
-async function sumPaidForBills(
+async function paymentsForBills(
   targetType: 'VENDOR_BILL' | 'LOGISTICS_BILL',
   billIds: string[]
-): Promise<Map<string, number>> {
+): Promise<Map<string, FxPayment[]>> {
   if (billIds.length === 0) return new Map();
   const rows = await db
-    .select({ targetId: payments.targetId, amount: payments.amount })
+    .select({
+      targetId: payments.targetId,
+      amount: payments.amount,
+      currency: payments.currency,
+      paymentDate: payments.paymentDate,
+    })
     .from(payments)
     .where(and(eq(payments.targetType, targetType), inArray(payments.targetId, billIds)));
 
-  const totals = new Map<string, number>();
+  const byBill = new Map<string, FxPayment[]>();
   for (const row of rows) {
-    const prev = totals.get(row.targetId) ?? 0;
-    totals.set(row.targetId, prev + parseDecimalInput(row.amount, 0));
+    byBill.set(row.targetId, [
+      ...(byBill.get(row.targetId) ?? []),
+      { ...row, amount: parseDecimalInput(row.amount, 0) },
+    ]);
   }
-  return totals;
+  return byBill;
+}
+
+async function adjustmentsForVendorBills(billIds: string[]): Promise<Map<string, number>> {
+  if (billIds.length === 0) return new Map();
+  const rows = await db
+    .select({
+      targetId: financeNotes.targetId,
+      noteType: financeNotes.noteType,
+      amount: financeNotes.amount,
+    })
+    .from(financeNotes)
+    .where(
+      and(eq(financeNotes.targetType, 'VENDOR_BILL'), inArray(financeNotes.targetId, billIds))
+    );
+
+  return new Map(
+    billIds.map((id) => [
+      id,
+      netAdjustment(
+        rows
+          .filter((row) => row.targetId === id)
+          .map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) }))
+      ),
+    ])
+  );
 }
 
 /**
@@ -45,7 +85,8 @@ async function sumPaidForBills(
  * Returns the "资金计划表" — upcoming factory (vendor) and 3PL (logistics) payments
  * sorted by dueDate. Each bill's dueDate was computed from the shipment date plus
  * the relevant term days when the bill was created; this endpoint just aggregates
- * and exposes that view so you can see what you owe and when.
+ * and exposes that view so you can see what you owe and when. Bills stay in their
+ * own currency; the totals are in the base currency at each bill's issue-date rate.
  *
  * Optional query params:
  *   ?orderId=<uuid>     — filter to a single VPO
@@ -122,19 +163,40 @@ export async function GET(req: NextRequest) {
           .leftJoin(orders, eq(logisticsBills.orderId, orders.id))
           .orderBy(asc(logisticsBills.dueDate));
 
-    const vendorPaidMap = await sumPaidForBills(
+    const vendorPaymentMap = await paymentsForBills(
       'VENDOR_BILL',
       vendorBillRows.map((r) => r.id)
     );
-    const logisticsPaidMap = await sumPaidForBills(
+    const logisticsPaymentMap = await paymentsForBills(
       'LOGISTICS_BILL',
       logisticsBillRows.map((r) => r.id)
     );
+    const vendorAdjustments = await adjustmentsForVendorBills(vendorBillRows.map((r) => r.id));
+    const fx = await loadFxConverter();
+    const settle = (
+      row: (typeof vendorBillRows)[number] | (typeof logisticsBillRows)[number],
+      billPayments: FxPayment[] | undefined
+    ) =>
+      settleDocument(
+        {
+          ...row,
+          amount: parseDecimalInput(row.amount, 0),
+          adjustment: vendorAdjustments.get(row.id) ?? 0,
+        },
+        billPayments ?? [],
+        fx,
+        'OUT'
+      );
+    const settled = new Map([
+      ...vendorBillRows.map((row) => [row.id, settle(row, vendorPaymentMap.get(row.id))] as const),
+      ...logisticsBillRows.map(
+        (row) => [row.id, settle(row, logisticsPaymentMap.get(row.id))] as const
+      ),
+    ]);
 
     const items: PayScheduleItem[] = [
       ...vendorBillRows.map((row) => {
-        const amount = round2(parseDecimalInput(row.amount, 0));
-        const paid = round2(vendorPaidMap.get(row.id) ?? 0);
+        const bill = settled.get(row.id)!;
         return {
           id: row.id,
           orderId: row.orderId,
@@ -144,16 +206,18 @@ export async function GET(req: NextRequest) {
           provider: null,
           issueDate: row.issueDate ? new Date(row.issueDate).toISOString() : null,
           dueDate: row.dueDate ? new Date(row.dueDate).toISOString() : null,
-          amount,
-          paid,
-          outstanding: round2(Math.max(0, amount - paid)),
+          amount: bill.amount,
+          adjustment: bill.adjustment,
+          paid: bill.paid,
+          outstanding: bill.outstanding,
           status: row.status ?? 'OPEN',
-          currency: row.currency ?? 'USD',
+          currency: bill.currency,
+          baseAmount: bill.baseAmount,
+          baseOutstanding: bill.baseOutstanding,
         };
       }),
       ...logisticsBillRows.map((row) => {
-        const amount = round2(parseDecimalInput(row.amount, 0));
-        const paid = round2(logisticsPaidMap.get(row.id) ?? 0);
+        const bill = settled.get(row.id)!;
         return {
           id: row.id,
           orderId: row.orderId,
@@ -163,11 +227,14 @@ export async function GET(req: NextRequest) {
           provider: row.provider,
           issueDate: row.issueDate ? new Date(row.issueDate).toISOString() : null,
           dueDate: row.dueDate ? new Date(row.dueDate).toISOString() : null,
-          amount,
-          paid,
-          outstanding: round2(Math.max(0, amount - paid)),
+          amount: bill.amount,
+          adjustment: bill.adjustment,
+          paid: bill.paid,
+          outstanding: bill.outstanding,
           status: row.status ?? 'OPEN',
-          currency: row.currency ?? 'USD',
+          currency: bill.currency,
+          baseAmount: bill.baseAmount,
+          baseOutstanding: bill.baseOutstanding,
         };
       }),
     ].sort((a, b) => {
@@ -176,23 +243,29 @@ export async function GET(req: NextRequest) {
       return da - dbDate;
     });
 
+    const all = sumInBase([...settled.values()]);
+    const baseOutstanding = (type: PayScheduleItem['type']) =>
+      round2(
+        items.filter((x) => x.type === type).reduce((sum, x) => sum + (x.baseOutstanding ?? 0), 0)
+      );
     const totals = {
-      totalAmount: round2(items.reduce((sum, x) => sum + x.amount, 0)),
-      totalPaid: round2(items.reduce((sum, x) => sum + x.paid, 0)),
-      totalOutstanding: round2(items.reduce((sum, x) => sum + x.outstanding, 0)),
-      vendorOutstanding: round2(
-        items
-          .filter((x) => x.type === 'VENDOR_BILL')
-          .reduce((sum, x) => sum + x.outstanding, 0)
-      ),
-      logisticsOutstanding: round2(
-        items
-          .filter((x) => x.type === 'LOGISTICS_BILL')
-          .reduce((sum, x) => sum + x.outstanding, 0)
-      ),
+      totalAmount: all.amount,
+      totalPaid: all.paid,
+      totalOutstanding: all.outstanding,
+      vendorOutstanding: baseOutstanding('VENDOR_BILL'),
+      logisticsOutstanding: baseOutstanding('LOGISTICS_BILL'),
     };
 
-    return NextResponse.json({ success: true, data: { items, totals } });
+    return NextResponse.json({
+      success: true,
+      data: {
+        items,
+        totals,
+        baseCurrency: BASE_CURRENCY,
+        byCurrency: all.byCurrency,
+        unconverted: all.unconverted,
+      },
+    });
   } catch (error: unknown) {
     return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
   }
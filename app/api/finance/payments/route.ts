@@ -5,7 +5,12 @@ import { and, desc, eq, inArray } from 'drizzle-orm';
 import { parseDecimalInput } from '@/lib/finance-math';
 import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
 import { paymentSchema } from '@/lib/schemas';
-import { createPayment, refreshBillStatus, PaymentTargetType } from '@/services/finance.service';
+import {
+  createPayment,
+  paymentRateError,
+  refreshBillStatus,
+  PaymentTargetType,
+} from '@/services/finance.service';
 import { z } from 'zod';
 
 function getErrorMessage(error: unknown): string {
@@ -173,6 +178,7 @@ export async function PATCH(req: NextRequest) {
 
     const body = (await req.json()) as {
       amount?: number | string;
+      currency?: string | null;
       paymentDate?: string | null;
       direction?: 'IN' | 'OUT';
       method?: string | null;
@@ -195,6 +201,13 @@ export async function PATCH(req: NextRequest) {
       }
       updateData.amount = amount.toFixed(2);
     }
+    if (body.currency !== undefined) {
+      const currency = body.currency?.trim().toUpperCase() || null;
+      if (currency && !/^[A-Z]{3}$/.test(currency)) {
+        return NextResponse.json({ error: 'currency must be a 3-letter code' }, { status: 400 });
+      }
+      updateData.currency = currency;
+    }
     if (body.paymentDate !== undefined) {
       updateData.paymentDate = body.paymentDate ? new Date(body.paymentDate) : null;
     }
@@ -215,13 +228,27 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
 
+    // Same rate check as a new payment, against the currency and date it ends up with
+    const targetType = resolveTargetType(current.targetType);
+    if (targetType && (updateData.currency !== undefined || updateData.paymentDate !== undefined)) {
+      const rateError = await paymentRateError(
+        targetType,
+        current.targetId,
+        updateData.currency !== undefined ? updateData.currency : current.currency,
+        (updateData.paymentDate !== undefined ? updateData.paymentDate : current.paymentDate) ??
+          new Date()
+      );
+      if (rateError) {
+        return NextResponse.json({ error: rateError }, { status: 400 });
+      }
+    }
+
     const [saved] = await db
       .update(payments)
       .set(updateData)
       .where(eq(payments.id, id))
       .returning();
 
-    const targetType = resolveTargetType(current.targetType);
     if (targetType) {
       const orderId = await refreshBillStatus(targetType, current.targetId);
       if (orderId) {
@@ -0,0 +1,29 @@
+import { NextResponse, after } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { getImportJob, isImportJobActive, startImportJob } from '@/services/import.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: Import job with per-file status
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    const job = await getImportJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'COMPLETED' && !isImportJobActive(id)) {
+      after(() => startImportJob(id));
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, after } from 'next/server';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import type { ImportUpload } from '@/lib/import-files';
+import {
+  createImportJob,
+  findStalledImportJobs,
+  listImportJobs,
+  startImportJob,
+} from '@/services/import.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// GET: Recent batch import jobs, newest first
+export async function GET() {
+  try {
+    // Jobs interrupted by a restart pick up again the next time someone looks.
+    const stalled = await findStalledImportJobs();
+    if (stalled.length > 0) {
+      after(() => Promise.all(stalled.map(startImportJob)));
+    }
+
+    return NextResponse.json({ success: true, data: await listImportJobs() });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Queue PDFs and/or ZIP archives (multipart field `files`) for import as draft orders
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+
+    const uploads: ImportUpload[] = await Promise.all(
+      files.map(async (file) => ({
+        fileName: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+      }))
+    );
+
+    const job = await createImportJob(uploads, getRequestActor(req));
+    if (job.status !== 'COMPLETED') {
+      after(() => startImportJob(job.id));
+    }
+
+    return NextResponse.json({ success: true, data: job }, { status: 202 });
+  } catch (error: unknown) {
+    // e.g. a ZIP with nothing in it
+    const message = getErrorMessage(error);
+    const status = message === 'No files to import' ? 400 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { DEFAULT_LANDED_COST_COMPONENTS } from '@/lib/landed-cost';
+import { landedCostComponentsSchema } from '@/lib/schemas';
+import { getLandedCostConfig, saveLandedCostComponents } from '@/services/landed-cost.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: The live landed-cost components (the built-in defaults until some are saved)
+export async function GET() {
+  try {
+    const config = await getLandedCostConfig();
+    return NextResponse.json({
+      success: true,
+      ...config,
+      defaults: DEFAULT_LANDED_COST_COMPONENTS,
+    });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// PUT: Replace every landed-cost component
+export async function PUT(req: Request) {
+  try {
+    const { components } = landedCostComponentsSchema.parse(await req.json());
+    const config = await saveLandedCostComponents(components);
+    return NextResponse.json({ success: true, ...config });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -50,7 +50,12 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
-    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+    const message = getErrorMessage(error);
+    if (message === 'Order not found') {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    const status = message.startsWith('Approve the draft order') ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
   }
 }
 
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import { approveOrder } from '@/services/order.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST: Approve a reviewed draft order, promoting it to Confirmed
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!id) return NextResponse.json({ error: 'Order ID is required' }, { status: 400 });
+
+    const order = await approveOrder(id, getRequestActor(req));
+    if (!order) return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+
+    return NextResponse.json({ success: true, data: order });
+  } catch (error: unknown) {
+    const message = getErrorMessage(error);
+    const status = message === 'Order is not a draft' ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orderExtractions, orders } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { getErrorMessage } from '@/lib/api-helpers';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const rows = await db
+      .select()
+      .from(orderExtractions)
+      .where(eq(orderExtractions.orderId, id))
+      .orderBy(desc(orderExtractions.createdAt));
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((row) => ({
+        ...row,
+        warnings: parseJson(row.warnings, []),
+        fieldConfidence: parseJson(row.fieldConfidence, {}),
+      })),
+    });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
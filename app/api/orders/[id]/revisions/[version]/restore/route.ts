@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import { restoreOrderVersion } from '@/services/order.service';
+
+type RouteContext = { params: Promise<{ id: string; version: string }> };
+
+// POST: Restore the order to a stored version (recorded as a new version)
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, version } = await params;
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const result = await restoreOrderVersion(id, versionNumber, getRequestActor(req));
+    if (!result) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: unknown) {
+    console.error('Restore Order Version Error:', error);
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { diffOrderRevisions } from '@/services/revision.service';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+// GET: Diff two versions (?from=1&to=3); without `to`, diff against the current order
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { from, to } = diffQuerySchema.parse({
+      from: req.nextUrl.searchParams.get('from') ?? undefined,
+      to: req.nextUrl.searchParams.get('to') ?? undefined,
+    });
+
+    const diff = await diffOrderRevisions(id, from, to);
+    if (!diff) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: diff });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
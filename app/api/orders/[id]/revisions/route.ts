@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { orders } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { listOrderRevisions } from '@/services/revision.service';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: Version history of an order, newest first
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: await listOrderRevisions(id) });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { orders, orderItems, tariffRates } from '@/db/schema';
+import { orders, orderItems } from '@/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { calculateEstimatedMargin, parseDecimalInput, round2, round4 } from '@/lib/finance-math';
 import {
   deriveTariffKey,
-  inferOriginCountry,
-  normalizeTariffKey,
   resolveTariffRate,
+  savedOriginCountry,
+  suggestHtsCode,
+  toTariffDate,
 } from '@/lib/tariffs';
-import { getErrorMessage } from '@/lib/api-helpers';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import { isDraftOrder } from '@/lib/constants';
+import { sameCostScope } from '@/lib/landed-cost';
+import {
+  ensureBaselineRevision,
+  recordOrderEdit,
+  type DbExecutor,
+} from '@/services/revision.service';
+import { loadLandedCostComponents } from '@/services/landed-cost.service';
+import { loadTariffMap, loadTariffRules, resolveOriginFor } from '@/services/tariff.service';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -29,8 +39,8 @@ const ITEM_STRING_FIELDS = [
 
 
 
-async function recalculateOrderTotals(orderId: string) {
-  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+async function recalculateOrderTotals(executor: DbExecutor, orderId: string) {
+  const items = await executor.select().from(orderItems).where(eq(orderItems.orderId, orderId));
   const totalRevenue = round2(
     items.reduce((sum, item) => sum + parseDecimalInput(item.total, 0), 0)
   );
@@ -40,7 +50,7 @@ async function recalculateOrderTotals(orderId: string) {
   const totalEstimatedMarginRate =
     totalRevenue > 0 ? round4(totalEstimatedMargin / totalRevenue) : 0;
 
-  await db
+  await executor
     .update(orders)
     .set({
       totalAmount: totalRevenue.toFixed(2),
@@ -120,6 +130,15 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
       const updateData: Partial<typeof orders.$inferInsert> = {};
       const { items, ...orderFields } = parsedBody.data;
 
+      // Same rule as the workflow status route: drafts have no workflow yet. Nothing
+      // is written yet, so returning here needs no rollback
+      if (orderFields.workflowStatus !== undefined && isDraftOrder(currentOrder)) {
+        return NextResponse.json(
+          { error: 'Approve the draft order before starting its workflow' },
+          { status: 409 }
+        );
+      }
+
       // Directly assign validated fields to updateData
       Object.assign(updateData, orderFields);
 
@@ -130,46 +149,103 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
       if (orderFields.deliveredAt !== undefined) updateData.deliveredAt = orderFields.deliveredAt ? new Date(orderFields.deliveredAt) : null;
       if (orderFields.closedAt !== undefined) updateData.closedAt = orderFields.closedAt ? new Date(orderFields.closedAt) : null;
 
-      const hasItemUpdates = items !== undefined;
+      // Tariffs as of the expected ship date, edited or saved
+      const tariffDate =
+        orderFields.expShipDate !== undefined
+          ? orderFields.expShipDate
+          : currentOrder.expShipDate;
+      const tariffRules = await loadTariffRules(tx, tariffDate);
+
+      // A set origin is kept as typed; clearing it (or changing the supplier of an
+      // origin nobody set) goes back to the vendor master or the supplier guess
+      const originInputChanged =
+        orderFields.originCountry !== undefined ||
+        orderFields.supplierName !== undefined ||
+        orderFields.supplierAddress !== undefined;
+      if (originInputChanged) {
+        const origin = await resolveOriginFor(
+          tx,
+          {
+            originCountry:
+              orderFields.originCountry !== undefined
+                ? orderFields.originCountry
+                : currentOrder.originCountry,
+            originSource:
+              orderFields.originCountry !== undefined
+                ? orderFields.originCountry
+                  ? 'MANUAL'
+                  : null
+                : currentOrder.originSource,
+            supplierName:
+              orderFields.supplierName !== undefined
+                ? orderFields.supplierName
+                : currentOrder.supplierName,
+            supplierAddress:
+              orderFields.supplierAddress !== undefined
+                ? orderFields.supplierAddress
+                : currentOrder.supplierAddress,
+          },
+          tariffRules
+        );
+        Object.assign(updateData, origin);
+      }
+      const originCountry = updateData.originCountry ?? savedOriginCountry(currentOrder, tariffRules);
+      const originChanged = originCountry !== savedOriginCountry(currentOrder, tariffRules);
+
+      // Tariffs are looked up as of the ship date, so moving it can change every rate
+      const tariffDateChanged =
+        orderFields.expShipDate !== undefined &&
+        toTariffDate(orderFields.expShipDate) !== toTariffDate(currentOrder.expShipDate);
+
+      // Landed-cost components are picked by ship mode and customer
+      const costScopeChanged = !sameCostScope(currentOrder, {
+        shipVia: orderFields.shipVia !== undefined ? orderFields.shipVia : currentOrder.shipVia,
+        customerName:
+          orderFields.customerName !== undefined
+            ? orderFields.customerName
+            : currentOrder.customerName,
+      });
+
+      const repriceAll = originChanged || tariffDateChanged || costScopeChanged;
+      const hasItemUpdates = items !== undefined || repriceAll;
 
       if (Object.keys(updateData).length === 0 && !hasItemUpdates) {
         tx.rollback();
         return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
       }
 
+      // Orders saved before history existed get their pre-edit state as version 1
+      await ensureBaselineRevision(tx, id);
+
       if (Object.keys(updateData).length > 0) {
         await tx.update(orders).set(updateData).where(eq(orders.id, id));
       }
 
       if (hasItemUpdates) {
-        // Zod has already ensured items is an array of validated order items
-        if (!items) {
-          tx.rollback();
-          return NextResponse.json({ error: 'Invalid item data' }, { status: 400 });
+        // A new origin, ship date or cost scope reprices every line, not just the ones sent
+        const itemsToPrice: NonNullable<typeof items> = [...(items ?? [])];
+        if (repriceAll) {
+          const sentIds = new Set(itemsToPrice.map((item) => item.id));
+          const savedLines = await tx
+            .select({ id: orderItems.id })
+            .from(orderItems)
+            .where(eq(orderItems.orderId, id));
+          itemsToPrice.push(...savedLines.filter((line) => !sentIds.has(line.id)));
         }
 
-        const supplierNameForTariff =
-          (orderFields.supplierName !== undefined ? orderFields.supplierName : undefined) ??
-          currentOrder.supplierName;
-        const supplierAddressForTariff =
-          (orderFields.supplierAddress !== undefined
-            ? orderFields.supplierAddress
-            : undefined) ?? currentOrder.supplierAddress;
-        const originCountry = inferOriginCountry(supplierNameForTariff, supplierAddressForTariff);
-
-        const tariffRows = await tx
-          .select({ productClass: tariffRates.productClass, tariffRate: tariffRates.tariffRate })
-          .from(tariffRates);
-        const tariffMap = new Map<string, number>(
-          tariffRows.map((row) => [
-            normalizeTariffKey(row.productClass),
-            parseDecimalInput(row.tariffRate, 0),
-          ])
-        );
+        const tariffMap = await loadTariffMap(tx, tariffDate);
+        const costComponents = await loadLandedCostComponents(tx, {
+          shipVia: orderFields.shipVia !== undefined ? orderFields.shipVia : currentOrder.shipVia,
+          originCountry,
+          customerName:
+            orderFields.customerName !== undefined
+              ? orderFields.customerName
+              : currentOrder.customerName,
+        });
 
         const itemUpdateActions: Promise<any>[] = [];
 
-        for (const item of items) {
+        for (const item of itemsToPrice) {
           if (!item.id) {
             // For new items, we might need a different flow (e.g., insert) or reject if not supported
             // For now, let's skip items without an ID as this is a PATCH (update) endpoint
@@ -208,6 +284,29 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
             itemUpdate.vendorUnitPrice = item.vendorUnitPrice;
           }
 
+          // Clearing the override drops its reason too
+          if (item.htsCodeOverride !== undefined) {
+            itemUpdate.htsCodeOverride = item.htsCodeOverride;
+            itemUpdate.htsOverrideReason = item.htsCodeOverride ? item.htsOverrideReason : null;
+          }
+          const htsCodeOverride =
+            itemUpdate.htsCodeOverride !== undefined
+              ? itemUpdate.htsCodeOverride
+              : existing.htsCodeOverride;
+
+          if (item.unitCbm !== undefined) {
+            itemUpdate.unitCbm = item.unitCbm === null ? null : item.unitCbm.toFixed(5);
+          }
+          const unitCbm = itemUpdate.unitCbm !== undefined ? itemUpdate.unitCbm : existing.unitCbm;
+
+          if (item.originCountry !== undefined) {
+            itemUpdate.originCountry = item.originCountry;
+          }
+          const itemOrigin =
+            itemUpdate.originCountry !== undefined
+              ? itemUpdate.originCountry
+              : existing.originCountry;
+
           const qtyVal = parseDecimalInput(itemUpdate.quantity ?? existing.quantity, 0);
           const customerUnitVal = parseDecimalInput(
             itemUpdate.customerUnitPrice ??
@@ -227,8 +326,10 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
           });
           const tariffRateVal = resolveTariffRate({
             baseTariffKey,
-            originCountry,
+            originCountry: itemOrigin || originCountry,
             tariffMap,
+            rules: tariffRules,
+            htsCode: htsCodeOverride,
           }).rate;
 
           const estimate = calculateEstimatedMargin({
@@ -236,16 +337,20 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
             vendorUnitPrice: vendorUnitVal,
             qty: qtyVal,
             tariffRate: tariffRateVal,
+            costComponents,
+            unitCbm: unitCbm === null ? null : Number(unitCbm),
           });
 
           itemUpdate.unitPrice = customerUnitVal.toFixed(2);
           itemUpdate.customerUnitPrice = customerUnitVal.toFixed(2);
           itemUpdate.total = estimate.customerRevenue.toFixed(2);
           itemUpdate.productClass = baseTariffKey;
+          itemUpdate.suggestedHtsCode = suggestHtsCode(baseTariffKey, tariffRules);
           itemUpdate.tariffRate = round4(tariffRateVal).toFixed(4);
           itemUpdate.estimatedDutyCost = estimate.dutyCost.toFixed(2);
           itemUpdate.estimated3plCost = estimate.estimated3plCost.toFixed(2);
           itemUpdate.estimatedMargin = estimate.estimatedMargin.toFixed(2);
+          itemUpdate.landedCostBreakdown = JSON.stringify(estimate.costBreakdown);
 
           if (Object.keys(itemUpdate).length > 0) {
             itemUpdateActions.push(
@@ -255,10 +360,12 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
         }
 
         await Promise.all(itemUpdateActions);
-        await recalculateOrderTotals(id);
+        await recalculateOrderTotals(tx, id);
       }
 
-      return NextResponse.json({ success: true });
+      const revision = await recordOrderEdit(tx, id, getRequestActor(req));
+
+      return NextResponse.json({ success: true, version: revision?.version ?? null });
     });
   } catch (error: unknown) {
     console.error('Update Order Error:', error);
@@ -4,6 +4,7 @@ import {
   commercialInvoices,
   containerAllocations,
   containers,
+  financeNotes,
   logisticsBills,
   orders,
   payments,
@@ -12,11 +13,13 @@ import {
 } from '@/db/schema';
 import { and, eq, inArray } from 'drizzle-orm';
 import { parseDecimalInput, round2 } from '@/lib/finance-math';
+import { normalizeCurrency } from '@/lib/fx';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
 type TimelineEventType =
   | 'ORDER_CREATED'
+  | 'ORDER_APPROVED'
   | 'ORDER_DELIVERED'
   | 'ORDER_CLOSED'
   | 'SHIPPING_DOC_ISSUED'
@@ -27,7 +30,9 @@ type TimelineEventType =
   | 'AR_OPENED'
   | 'VENDOR_AP_OPENED'
   | 'LOGISTICS_AP_OPENED'
-  | 'PAYMENT_POSTED';
+  | 'PAYMENT_POSTED'
+  | 'CREDIT_NOTE_ISSUED'
+  | 'DEBIT_NOTE_ISSUED';
 
 type TimelineEntityType =
   | 'ORDER'
@@ -37,7 +42,8 @@ type TimelineEntityType =
   | 'COMMERCIAL_INVOICE'
   | 'VENDOR_BILL'
   | 'LOGISTICS_BILL'
-  | 'PAYMENT';
+  | 'PAYMENT'
+  | 'FINANCE_NOTE';
 
 type TimelineEvent = {
   id: string;
@@ -49,6 +55,8 @@ type TimelineEvent = {
   entityType: TimelineEntityType;
   entityId: string;
   amount: number | null;
+  /** Set on finance events, whose amounts are in the document's own currency. */
+  currency?: string;
 };
 
 function getErrorMessage(error: unknown): string {
@@ -84,14 +92,21 @@ export async function GET(_req: Request, { params }: RouteContext) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    const [shippingDocRows, allocationRows, invoiceRows, vendorBillRows, logisticsBillRows] =
-      await Promise.all([
-        db.select().from(shippingDocuments).where(eq(shippingDocuments.orderId, id)),
-        db.select().from(containerAllocations).where(eq(containerAllocations.orderId, id)),
-        db.select().from(commercialInvoices).where(eq(commercialInvoices.orderId, id)),
-        db.select().from(vendorBills).where(eq(vendorBills.orderId, id)),
-        db.select().from(logisticsBills).where(eq(logisticsBills.orderId, id)),
-      ]);
+    const [
+      shippingDocRows,
+      allocationRows,
+      invoiceRows,
+      vendorBillRows,
+      logisticsBillRows,
+      noteRows,
+    ] = await Promise.all([
+      db.select().from(shippingDocuments).where(eq(shippingDocuments.orderId, id)),
+      db.select().from(containerAllocations).where(eq(containerAllocations.orderId, id)),
+      db.select().from(commercialInvoices).where(eq(commercialInvoices.orderId, id)),
+      db.select().from(vendorBills).where(eq(vendorBills.orderId, id)),
+      db.select().from(logisticsBills).where(eq(logisticsBills.orderId, id)),
+      db.select().from(financeNotes).where(eq(financeNotes.orderId, id)),
+    ]);
 
     const containerIds = new Set<string>();
     for (const row of shippingDocRows) {
@@ -154,6 +169,16 @@ export async function GET(_req: Request, { params }: RouteContext) {
     for (const row of invoiceRows) targetCode.set(`CUSTOMER_INVOICE:${row.id}`, row.invoiceNo);
     for (const row of vendorBillRows) targetCode.set(`VENDOR_BILL:${row.id}`, row.billNo);
     for (const row of logisticsBillRows) targetCode.set(`LOGISTICS_BILL:${row.id}`, row.billNo);
+    const targetCurrency = new Map<string, string>();
+    for (const row of invoiceRows) {
+      targetCurrency.set(`CUSTOMER_INVOICE:${row.id}`, normalizeCurrency(row.currency));
+    }
+    for (const row of vendorBillRows) {
+      targetCurrency.set(`VENDOR_BILL:${row.id}`, normalizeCurrency(row.currency));
+    }
+    for (const row of logisticsBillRows) {
+      targetCurrency.set(`LOGISTICS_BILL:${row.id}`, normalizeCurrency(row.currency));
+    }
 
     const events: TimelineEvent[] = [];
 
@@ -169,6 +194,20 @@ export async function GET(_req: Request, { params }: RouteContext) {
       amount: parseDecimalInput(order.totalAmount, 0),
     });
 
+    if (order.approvedAt) {
+      events.push({
+        id: `ORDER_APPROVED:${order.id}`,
+        at: toIso(order.approvedAt),
+        type: 'ORDER_APPROVED',
+        title: 'Draft Approved',
+        description: order.approvedBy ? `Approved by ${order.approvedBy}` : null,
+        status: order.status ?? null,
+        entityType: 'ORDER',
+        entityId: order.id,
+        amount: null,
+      });
+    }
+
     if (order.deliveredAt) {
       events.push({
         id: `ORDER_DELIVERED:${order.id}`,
@@ -285,6 +324,7 @@ export async function GET(_req: Request, { params }: RouteContext) {
         entityType: 'COMMERCIAL_INVOICE',
         entityId: row.id,
         amount: round2(parseDecimalInput(row.amount, 0)),
+        currency: normalizeCurrency(row.currency),
       });
     }
 
@@ -300,6 +340,7 @@ export async function GET(_req: Request, { params }: RouteContext) {
         entityType: 'VENDOR_BILL',
         entityId: row.id,
         amount: round2(parseDecimalInput(row.amount, 0)),
+        currency: normalizeCurrency(row.currency),
       });
     }
 
@@ -315,6 +356,7 @@ export async function GET(_req: Request, { params }: RouteContext) {
         entityType: 'LOGISTICS_BILL',
         entityId: row.id,
         amount: round2(parseDecimalInput(row.amount, 0)),
+        currency: normalizeCurrency(row.currency),
       });
     }
 
@@ -330,6 +372,28 @@ export async function GET(_req: Request, { params }: RouteContext) {
         entityType: 'PAYMENT',
         entityId: row.id,
         amount: round2(parseDecimalInput(row.amount, 0)),
+        currency: normalizeCurrency(
+          row.currency ?? targetCurrency.get(`${row.targetType}:${row.targetId}`)
+        ),
+      });
+    }
+
+    for (const row of noteRows) {
+      const targetLabel = targetCode.get(`${row.targetType}:${row.targetId}`) ?? row.targetId;
+      const isCredit = row.noteType === 'CREDIT';
+      events.push({
+        id: `NOTE:${row.id}`,
+        at: toIso(row.issueDate ?? row.createdAt),
+        type: isCredit ? 'CREDIT_NOTE_ISSUED' : 'DEBIT_NOTE_ISSUED',
+        title: isCredit ? 'Credit Note Issued' : 'Debit Note Issued',
+        description: [row.noteNo, targetLabel, row.reason, row.description]
+          .filter(Boolean)
+          .join(' | '),
+        status: null,
+        entityType: 'FINANCE_NOTE',
+        entityId: row.id,
+        amount: round2(parseDecimalInput(row.amount, 0)),
+        currency: normalizeCurrency(row.currency),
       });
     }
 
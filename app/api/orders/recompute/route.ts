@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage, getRequestActor } from '@/lib/api-helpers';
+import { orderRecomputeSchema } from '@/lib/schemas';
+import { applyOrderRecompute, previewOrderRecompute } from '@/services/order.service';
+
+export const dynamic = 'force-dynamic';
+
+// POST: Preview (default) or apply recomputed tariff estimates for the matching orders
+export async function POST(req: Request) {
+  try {
+    const { apply, ...filters } = orderRecomputeSchema.parse(await req.json());
+    const data = apply
+      ? await applyOrderRecompute(filters, getRequestActor(req))
+      : await previewOrderRecompute(filters);
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
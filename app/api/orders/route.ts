@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/db';
 import { orders } from '@/db/schema';
-import { desc, sql, eq } from 'drizzle-orm';
+import { and, sql, eq, not } from 'drizzle-orm';
+import { excludeDraftOrders } from '@/lib/order-status';
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
@@ -18,6 +19,8 @@ export async function GET(request: Request) {
     const statusFilter = searchParams.get('status');
     const workflowStatusFilter = searchParams.get('workflowStatus');
     const vpoNumberFilter = searchParams.get('vpoNumber');
+    // `exclude` for pickers that feed the workflow, `only` for the review queue
+    const draftsFilter = searchParams.get('drafts');
 
     const offset = (page - 1) * pageSize;
 
@@ -34,6 +37,11 @@ export async function GET(request: Request) {
     if (vpoNumberFilter) {
       whereConditions.push(eq(orders.vpoNumber, vpoNumberFilter));
     }
+    if (draftsFilter === 'exclude') {
+      whereConditions.push(excludeDraftOrders());
+    } else if (draftsFilter === 'only') {
+      whereConditions.push(not(excludeDraftOrders()));
+    }
 
     const orderByClause =
       sortOrder === 'asc'
@@ -46,13 +54,14 @@ export async function GET(request: Request) {
         vpoNumber: orders.vpoNumber,
         customerName: orders.customerName,
         supplierName: orders.supplierName,
+        status: orders.status,
         workflowStatus: orders.workflowStatus,
         totalAmount: orders.totalAmount,
         createdAt: orders.createdAt,
       })
       .from(orders)
       .$dynamic()
-      .where(whereConditions.length > 0 ? sql.join(whereConditions, 'and') : undefined)
+      .where(and(...whereConditions))
       .orderBy(orderByClause)
       .limit(pageSize)
       .offset(offset);
@@ -61,7 +70,7 @@ export async function GET(request: Request) {
       .select({ count: sql<number>`count(*)` })
       .from(orders)
       .$dynamic()
-      .where(whereConditions.length > 0 ? sql.join(whereConditions, 'and') : undefined);
+      .where(and(...whereConditions));
 
     const [rows, totalCountResult] = await Promise.all([dataQuery, countQuery]);
 
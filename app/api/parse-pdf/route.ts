@@ -1,47 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
-import { PDFParse } from 'pdf-parse';
 import { getErrorMessage } from '@/lib/api-helpers';
+import { describePdfError, extractPdfText, initParserRuntime } from '@/lib/pdf-text';
+import { hashFile, storeUploadedFile } from '@/services/document.service';
 import { pdfParseRateLimiter } from '@/lib/rate-limiter'; // Import the rate limiter
 
-let parserInitPromise: Promise<void> | null = null;
-
-async function initParserRuntime() {
-  if (parserInitPromise) return parserInitPromise;
-
-  parserInitPromise = (async () => {
-    // Polyfill DOMMatrix for PDF.js in Node.js environment.
-    if (typeof globalThis.DOMMatrix === 'undefined') {
-      try {
-        const domMatrixModule = await import('dommatrix');
-        const domMatrixCtor = (domMatrixModule as { default?: unknown }).default;
-
-        if (typeof domMatrixCtor === 'function') {
-          globalThis.DOMMatrix = domMatrixCtor as unknown as typeof DOMMatrix;
-        }
-      } catch (error: unknown) {
-        console.warn('Failed to polyfill DOMMatrix', error);
-      }
-    }
-
-    // Ensure Canvas is available for PDF.js.
-    try {
-      await import('@napi-rs/canvas');
-    } catch (error: unknown) {
-      console.warn('Failed to load @napi-rs/canvas', error);
-    }
-
-    // Point worker to installed module path.
-    const workerPath = path.resolve(
-      process.cwd(),
-      'node_modules/pdf-parse/dist/pdf-parse/cjs/pdf.worker.mjs'
-    );
-    PDFParse.setWorker(workerPath);
-  })();
-
-  return parserInitPromise;
-}
-
 export const maxDuration = 60; // Max for Vercel Hobby plan
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs'; // Ensure Node.js runtime (not Edge)
@@ -78,8 +40,6 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    await initParserRuntime();
-
     const formData = await req.formData();
     const file = formData.get('file') as File;
 
@@ -95,32 +55,37 @@ export async function POST(req: NextRequest) {
     const uint8 = new Uint8Array(arrayBuffer);
     const buffer = Buffer.from(uint8);
 
-    const parser = new PDFParse({ data: buffer });
-    const textResult = await parser.getText();
-    const infoResult = await parser.getInfo();
+    const extracted = await extractPdfText(buffer);
 
-    if (!textResult.text) {
-      console.warn('PDF Parse WARNING: Extracted text is empty or null');
+    // Keep the original so the order workspace can show it later; parsing still succeeds
+    // if storage or the database is unavailable.
+    let fileId: string | null = null;
+    try {
+      const stored = await storeUploadedFile({
+        data: buffer,
+        fileName: file.name,
+        contentType: file.type,
+      });
+      fileId = stored.id;
+    } catch (error: unknown) {
+      console.warn('PDF storage failed:', getErrorMessage(error));
     }
 
     return NextResponse.json({
-      text: textResult.text || '',
-      pages: [],
-      numpages: infoResult.total,
-      info: infoResult.info,
-      tables: [],
+      text: extracted.text,
+      fileId,
+      fileHash: hashFile(buffer),
+      pages: extracted.pages,
+      numpages: extracted.numpages,
+      info: extracted.info,
+      tables: extracted.tables,
+      textSource: extracted.textSource,
+      ocr: extracted.ocr,
     });
   } catch (error: unknown) {
     console.error('PDF Parse Error (Full):', error);
 
-    let errorMessage = getErrorMessage(error);
-    if (errorMessage.includes('Invalid PDF structure')) {
-      errorMessage =
-        'Failed to parse PDF: Invalid PDF structure. The file may be corrupted, encrypted, or not a valid PDF.';
-    } else if (errorMessage.includes('PasswordException')) {
-      errorMessage = 'Failed to parse PDF: The file is password protected.';
-    }
-
+    const errorMessage = describePdfError(error);
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
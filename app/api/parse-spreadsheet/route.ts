@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { isSpreadsheetFile } from '@/lib/spreadsheet-import';
+import { readSpreadsheet } from '@/lib/spreadsheet-read';
+import { hashFile } from '@/services/document.service';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// POST: Read an XLSX/XLS/CSV purchase order into per-sheet grids for column mapping
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!isSpreadsheetFile(file.name)) {
+      return NextResponse.json({ error: 'File must be an XLSX, XLS or CSV file' }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const sheets = readSpreadsheet(new Uint8Array(buffer)).filter((sheet) => sheet.rows.length);
+    if (sheets.length === 0) {
+      return NextResponse.json({ error: 'The spreadsheet is empty' }, { status: 422 });
+    }
+
+    return NextResponse.json({ success: true, fileHash: hashFile(buffer), sheets });
+  } catch (error: unknown) {
+    console.error('Spreadsheet Parse Error:', error);
+    return NextResponse.json(
+      { error: `Failed to read spreadsheet: ${getErrorMessage(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,216 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getErrorMessage } from '@/lib/api-helpers';
-
-// -------------------------------------------------------------------
-// MiniMax fallback helper (OpenAI-compatible API)
-// -------------------------------------------------------------------
-async function callMiniMax(systemPrompt: string, userMessage: string): Promise<string> {
-  const apiKey = process.env.MINIMAX_API_KEY;
-  if (!apiKey) throw new Error('MINIMAX_API_KEY not configured');
-
-  const response = await fetch('https://api.minimaxi.com/v1/text/chatcompletion_v2', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'MiniMax-M2.7',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage },
-      ],
-      temperature: 0.1,
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`MiniMax API error ${response.status}: ${err}`);
-  }
-
-  const json = (await response.json()) as {
-    choices?: { message?: { content?: string } }[];
-  };
-  const content = json.choices?.[0]?.message?.content;
-  if (!content) throw new Error('MiniMax returned empty content');
-  return content;
-}
+import { isExtractionFailure } from '@/lib/extraction/pipeline';
+import { ocrPageResultSchema, pdfTableGridSchema } from '@/lib/schemas';
+import { extractOrderFromText } from '@/services/extraction.service';
+import { z } from 'zod';
 
 export const maxDuration = 60; // Max for Vercel Hobby plan
 
-const SYSTEM_PROMPT = `You are a purchase order data extraction assistant. You receive raw text extracted from a Vendor Purchase Order (VPO) PDF and must return a structured JSON object.
-
-The VPOs typically come from C-Life Group's ERP system. They are multi-page documents with repeated headers on each page. Extract the data from ALL pages and deduplicate.
-
-Return ONLY valid JSON with this exact structure (no markdown, no code fences, just raw JSON):
-
-{
-  "vpoNumber": "string - the VPO document number, e.g. VPO-1138183",
-  "orderDate": "string - order date, e.g. 3/3/2025",
-  "expShipDate": "string - expected ship date",
-  "cancelDate": "string or null - R Whs Date (Received to Warehouse / ETW / Estimated to Warehouse) or Cancel Date",
-  "soReference": "string - SO reference number, e.g. So-1558761",
-  "customerName": "string - the buying company, usually C-Life Group, Ltd.",
-  "customerAddress": "string - buyer address",
-  "supplierName": "string - the factory/supplier name",
-  "supplierAddress": "string - supplier full address",
-  "shipTo": "string - ship-to address (may be different from supplier)",
-  "shipVia": "string - shipping method, e.g. Ocean Frt",
-  "shipmentTerms": "string - e.g. Free On Board, Delivered Duty Paid",
-  "paymentTerms": "string - e.g. Net 7 ROG, Net 30 Days ROG",
-  "agent": "string - agent code, e.g. MJR, MJI, MJHK",
-  "customerNotes": "string - Full text of the 'Notes' or 'Special Instructions' section. Include all lines like 'Customer:', 'Testing:', 'Packing:', 'Additional Information'. Preserve newlines.",
-  "items": [
-    {
-      "productCode": "string - product code, e.g. 7VND2A6805TY",
-      "description": "string - product description/name",
-      "productClass": "string - e.g. R - Licensed",
-      "collection": "string - e.g. Junior, Kids Mix",
-      "material": "string - fabric composition",
-      "color": "string - color name",
-      "unitPrice": "string - unit price (e.g. '2.75')",
-      "totalQty": number,
-      "extension": "string - total value (e.g. '16,533.00')",
-      "sizeBreakdown": {"size_label": quantity} 
-    }
-  ]
-}
-
-IMPORTANT RULES:
-1. Extract ALL line items across ALL pages. Do NOT duplicate items that appear on different pages because of repeated headers.
-2. For assortment items (marked with *Assortment Detail), these are sub-items of a parent product. List each sub-item separately with the parent's price info.
-3. Size breakdown should map size labels (XS, S, M, L, XL, 2XL, 3XL, 2T, 3T, 4T, 5, 6, 7, etc.) to their quantities.
-4. If a field is not found, use null for strings and 0 for numbers.
-5. Prices (unitPrice, extension) MUST be strings. Remove currency symbols ($) but keep commas and decimals if present.
-6. **CRITICAL - QUANTITY ACCURACY**: 
-   - The "totalQty" for each item is the SUM of all size quantities in that line item's size breakdown.
-   - Each line item row in the PO table has a "Qty" column that shows the totalQty. Use this value directly.
-   - Cross-verify: the sum of the size breakdown quantities MUST equal totalQty. If they don't match, trust the "Qty" column value.
-   - The PO typically has a "Subtotal" row at the bottom showing the grand total quantity and dollar amount. Use this to verify your extraction.
-   - Do NOT confuse the item's line number or row index with a quantity.
-7. The "extension" is usually unitPrice × totalQty. Use the value shown in the "Extension" column of the PO.
-8. **IMPORTANT - TABULAR DATA**: The PO uses a wide table format where size labels appear as column headers and size-specific quantities appear in cells below. Read each row carefully:
-   - Column order is typically: Cat, Product Class, Product Code, Color Ref, Disc, [size columns...], Qty, Price, Extension
-   - The "Qty" column comes AFTER all the size columns and contains the total quantity for that line.
-   - Some items have multiple color rows under the same product code.
-9. **IMPORTANT**: Capture the 'Notes' or 'Special Instructions' section into 'customerNotes'. 
-   - **EXCLUDE**: Standard legal disclaimers, forced labor warnings (e.g., Uzbekistan, Turkmenistan, XUAR), or "contracting terms" that are normally part of the generic PO footer.
-   - **INCLUDE**: Specific operational notes like 'Customer: [Name]', 'Testing: [Requirements]', 'Packing: [Method]', or any unique 'Additional Information'. 
-   - Preserve original formatting and newlines for the included parts.`;
+// AI providers share this much of `maxDuration`; the rest is left for the rule-based
+// fallback (5s timeout) and the response
+const EXTRACTION_DEADLINE_MS = 45_000;
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey || apiKey === 'YOUR_GOOGLE_API_KEY_HERE') {
-      return NextResponse.json(
-        { error: 'Google API Key not configured. Please set GOOGLE_API_KEY in .env.local' },
-        { status: 500 }
-      );
-    }
-
-    const body = (await req.json()) as { text?: unknown };
+    const body = (await req.json()) as { text?: unknown; tables?: unknown; ocr?: unknown };
     const { text } = body;
 
     if (!text || typeof text !== 'string') {
       return NextResponse.json({ error: 'No text provided for AI parsing' }, { status: 400 });
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-
-    // Strict fallbacks to ensure we always have an available model
-    const MODELS = [
-      'gemini-2.5-flash',
-      'gemini-3.0-flash',
-      'gemini-3.1-flash-lite',
-    ];
-    let result: { response: { text: () => string } } | null = null;
-    let lastError: unknown;
-
-    for (const modelName of MODELS) {
-      try {
-        let retries = 2;
-        let delay = 1000;
-        const model = genAI.getGenerativeModel({ model: modelName });
-
-        while (retries >= 0) {
-          try {
-            result = await model.generateContent([
-              SYSTEM_PROMPT,
-              `Here is the raw text extracted from a VPO PDF. Parse it and return the structured JSON:\n\n${text}`,
-            ]);
-            break;
-          } catch (error: unknown) {
-            const message = getErrorMessage(error);
-            const status =
-              typeof error === 'object' && error !== null && 'response' in error
-                ? (error as { response?: { status?: number } }).response?.status
-                : undefined;
-
-            if (status === 429 || message.includes('429')) {
-              if (retries === 0) throw error;
-              await new Promise((resolve) => setTimeout(resolve, delay));
-              delay *= 2;
-              retries--;
-            } else {
-              throw error;
-            }
-          }
-        }
+    // `ocr` holds the per-page OCR results from /api/parse-pdf when the PDF was scanned
+    const { tables = [], ocr = [] } = z
+      .object({
+        tables: z.array(pdfTableGridSchema).optional(),
+        ocr: z.array(ocrPageResultSchema).optional(),
+      })
+      .parse(body);
+    const result = await extractOrderFromText({
+      text,
+      tables,
+      ocr,
+      deadlineMs: EXTRACTION_DEADLINE_MS,
+    });
 
-        if (result) break;
-      } catch (error: unknown) {
-        console.warn(`Model ${modelName} failed:`, getErrorMessage(error));
-        lastError = error;
-      }
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      source: result.provider,
+      model: result.model,
+      rawResponse: result.rawResponse,
+      warnings: result.warnings,
+      confidence: result.confidence,
+      templateName: result.templateName ?? null,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
     }
 
-    // -------------------------------------------------------------------
-    // Fallback: MiniMax 2.7 when all Gemini models fail
-    // -------------------------------------------------------------------
-    let responseText: string;
-    if (!result) {
-      console.warn('All Gemini models failed, falling back to MiniMax 2.7...');
-      try {
-        responseText = await callMiniMax(
-          SYSTEM_PROMPT,
-          `Here is the raw text extracted from a VPO PDF. Parse it and return the structured JSON:\n\n${text}`
-        );
-        console.log('MiniMax 2.7 fallback succeeded.');
-      } catch (miniMaxError) {
-        console.error('MiniMax fallback also failed:', miniMaxError);
-        throw (
-          lastError ?? new Error('All AI models (Gemini + MiniMax) failed to process the request')
-        );
-      }
-    } else {
-      responseText = result.response.text();
-    }
+    console.error('AI Parse Error:', error);
 
-    let parsed: unknown;
-    try {
-      const cleaned = responseText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      parsed = JSON.parse(cleaned);
-    } catch {
-      console.error('Failed to parse AI response as JSON:', responseText);
+    // A model answered but never produced usable data, even after the repair pass.
+    if (isExtractionFailure(error) && error.rawResponse) {
       return NextResponse.json(
-        { error: 'AI returned invalid JSON. Raw response saved.', rawResponse: responseText },
+        {
+          error: 'AI returned invalid data. Raw response saved.',
+          details: error.attempts,
+          rawResponse: error.rawResponse,
+        },
         { status: 422 }
       );
     }
 
-    return NextResponse.json({
-      success: true,
-      data: parsed,
-    });
-  } catch (error: unknown) {
-    console.error('AI Parse Error:', error);
     return NextResponse.json(
-      { error: `AI parsing failed: ${getErrorMessage(error)}` },
+      {
+        error: `AI parsing failed: ${getErrorMessage(error)}`,
+        ...(isExtractionFailure(error) ? { details: error.attempts } : {}),
+      },
       { status: 500 }
     );
   }
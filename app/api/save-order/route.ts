@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { saveOrderSchema } from '@/lib/schemas';
-import { createOrderFromExtraction } from '@/services/order.service';
+import {
+  applyOrderRevision,
+  createOrderFromExtraction,
+  findOrderByVpoNumber,
+  previewOrderRevision,
+} from '@/services/order.service';
 import { z } from 'zod';
 
 export async function POST(req: NextRequest) {
@@ -10,10 +15,36 @@ export async function POST(req: NextRequest) {
     // 1. Zod Validation
     const parsedData = saveOrderSchema.parse(body);
 
-    // 2. Main Logic Execution via Service Layer
+    // 2a. Re-issued VPO confirmed by the user: update the existing order
+    if (parsedData.revisionOf) {
+      const result = await applyOrderRevision(parsedData.revisionOf, parsedData);
+      return NextResponse.json({
+        success: true,
+        orderId: result.orderId,
+        totals: result.totals,
+        version: result.version,
+      });
+    }
+
+    // 2b. Same VPO already saved: return the diff so the user can choose
+    if (!parsedData.allowDuplicate) {
+      const existing = await findOrderByVpoNumber(parsedData.vpoNumber);
+      if (existing) {
+        const changes = await previewOrderRevision(existing.id, parsedData);
+        return NextResponse.json(
+          {
+            error: `VPO ${existing.vpoNumber} already exists`,
+            duplicate: { ...existing, changes },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // 3. Main Logic Execution via Service Layer
     const result = await createOrderFromExtraction(parsedData);
 
-    // 3. Response
+    // 4. Response
     return NextResponse.json({
       success: true,
       orderId: result.orderId,
@@ -29,6 +60,13 @@ export async function POST(req: NextRequest) {
     }
 
     const message = error instanceof Error ? error.message : 'Unknown error';
+    // `revisionOf` names a missing order, or one with another VPO
+    if (message === 'Order not found') {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    if (message.includes('does not match the order being revised')) {
+      return NextResponse.json({ error: message }, { status: 409 });
+    }
     console.error('Save Order Error:', error);
     // 500 Internal Server Error for execution failures
     return NextResponse.json({ error: `Failed to save order: ${message}` }, { status: 500 });
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { spreadsheetMappings } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { saveSpreadsheetMappingSchema } from '@/lib/schemas';
+import type { SpreadsheetMapping } from '@/lib/spreadsheet-import';
+
+export const dynamic = 'force-dynamic';
+
+const customerKey = (name: string) => name.trim().toUpperCase();
+
+// GET: Saved column mappings, one per customer
+export async function GET() {
+  try {
+    const rows = await db
+      .select()
+      .from(spreadsheetMappings)
+      .orderBy(asc(spreadsheetMappings.customerName));
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((row) => ({
+        customerName: row.customerName,
+        mapping: JSON.parse(row.mapping) as SpreadsheetMapping,
+        updatedAt: row.updatedAt,
+      })),
+    });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// PUT: Create or replace a customer's mapping
+export async function PUT(req: Request) {
+  try {
+    const { customerName, mapping } = saveSpreadsheetMappingSchema.parse(await req.json());
+    const values = { customerName, mapping: JSON.stringify(mapping), updatedAt: new Date() };
+
+    const [saved] = await db
+      .insert(spreadsheetMappings)
+      .values({ customerKey: customerKey(customerName), ...values })
+      .onConflictDoUpdate({ target: spreadsheetMappings.customerKey, set: values })
+      .returning();
+
+    return NextResponse.json({
+      success: true,
+      data: { customerName: saved.customerName, mapping, updatedAt: saved.updatedAt },
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { tariffRates } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { parseDecimalInput, round4 } from '@/lib/finance-math';
+import { parseDecimalInput } from '@/lib/finance-math';
+import { setTariffKeyRate } from '@/services/tariff.service';
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
@@ -13,28 +14,32 @@ type RouteContext = { params: Promise<{ id: string }> };
 export async function PATCH(req: NextRequest, { params }: RouteContext) {
   try {
     const { id } = await params;
-    const body = (await req.json()) as { tariffRate?: number | string; notes?: string };
+    const body = (await req.json()) as {
+      tariffRate?: number | string;
+      notes?: string;
+      /** YYYY-MM-DD the new rate applies from; today when omitted. */
+      effectiveFrom?: string;
+    };
 
     const rate = parseDecimalInput(body.tariffRate, NaN);
     if (!Number.isFinite(rate)) {
       return NextResponse.json({ error: 'tariffRate is required' }, { status: 400 });
     }
 
-    const [updated] = await db
-      .update(tariffRates)
-      .set({
-        tariffRate: round4(Math.max(0, rate)).toFixed(4),
-        notes: body.notes,
-        source: 'manual',
-        updatedAt: new Date(),
-      })
-      .where(eq(tariffRates.id, id))
-      .returning();
-
-    if (!updated) {
+    const row = await db.query.tariffRates.findFirst({ where: eq(tariffRates.id, id) });
+    if (!row) {
       return NextResponse.json({ error: 'Tariff row not found' }, { status: 404 });
     }
 
+    // A rate change is a new version of the key; the edited row keeps its history.
+    const updated = await setTariffKeyRate(db, {
+      productClass: row.productClass,
+      rate,
+      source: 'manual',
+      notes: body.notes,
+      effectiveFrom: body.effectiveFrom || null,
+    });
+
     return NextResponse.json({
       success: true,
       data: {
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { getTariffKeyHistory } from '@/services/tariff.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Stored rate versions of one tariff key and the rate its rules gave over time
+export async function GET(req: NextRequest) {
+  try {
+    const key = req.nextUrl.searchParams.get('key')?.trim();
+    if (!key) {
+      return NextResponse.json({ error: 'key is required' }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, data: await getTariffKeyHistory(key) });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { tariffRates } from '@/db/schema';
-import { asc, eq } from 'drizzle-orm';
+import { asc, sql } from 'drizzle-orm';
 import { defaultTariffRateByTariffKey, normalizeTariffKey } from '@/lib/tariffs';
-import { parseDecimalInput, round4 } from '@/lib/finance-math';
+import { parseDecimalInput } from '@/lib/finance-math';
+import {
+  loadTariffRules,
+  refreshSyncedTariffRates,
+  setTariffKeyRate,
+} from '@/services/tariff.service';
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
@@ -11,32 +16,31 @@ function getErrorMessage(error: unknown): string {
 
 const REFRESH_INTERVAL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
+// Every version of every key, oldest first within a key
+const listTariffRows = () =>
+  db
+    .select()
+    .from(tariffRates)
+    .orderBy(asc(tariffRates.productClass), sql`${tariffRates.effectiveFrom} asc nulls first`);
+
 export async function GET() {
   try {
-    const rows = await db.select().from(tariffRates).orderBy(asc(tariffRates.productClass));
+    const rows = await listTariffRows();
 
-    // ── Auto-refresh: if any auto-synced row is older than 30 days, recompute all ──
+    // ── Auto-refresh: if any open auto-synced row is older than 30 days, recompute all ──
     const now = Date.now();
     const needsRefresh = rows.some(
       (row) =>
         row.source === 'sync' &&
+        !row.effectiveTo &&
         row.updatedAt &&
         now - new Date(row.updatedAt).getTime() > REFRESH_INTERVAL_MS
     );
 
     if (needsRefresh) {
-      const autoSynced = rows.filter((r) => r.source === 'sync');
-      await Promise.all(
-        autoSynced.map((row) => {
-          const newRate = round4(defaultTariffRateByTariffKey(normalizeTariffKey(row.productClass)));
-          return db
-            .update(tariffRates)
-            .set({ tariffRate: newRate.toFixed(4), updatedAt: new Date() })
-            .where(eq(tariffRates.id, row.id));
-        })
-      );
+      await refreshSyncedTariffRates(await loadTariffRules());
       // Re-fetch fresh data after update
-      const refreshed = await db.select().from(tariffRates).orderBy(asc(tariffRates.productClass));
+      const refreshed = await listTariffRows();
       return NextResponse.json({
         success: true,
         autoRefreshed: true,
@@ -68,6 +72,8 @@ export async function POST(req: NextRequest) {
       productClass?: string;
       tariffRate?: number | string;
       notes?: string;
+      /** YYYY-MM-DD; a new key without one applies to all dates, a changed rate from today. */
+      effectiveFrom?: string;
     };
 
     const tariffKey = body.tariffKey?.trim() || body.productClass?.trim();
@@ -78,27 +84,23 @@ export async function POST(req: NextRequest) {
     const normalizedClass = normalizeTariffKey(tariffKey);
     const rate = Math.max(
       0,
-      parseDecimalInput(body.tariffRate, defaultTariffRateByTariffKey(normalizedClass))
+      parseDecimalInput(
+        body.tariffRate,
+        defaultTariffRateByTariffKey(
+          normalizedClass,
+          undefined,
+          await loadTariffRules(db, body.effectiveFrom)
+        )
+      )
     );
 
-    const [saved] = await db
-      .insert(tariffRates)
-      .values({
-        productClass: normalizedClass,
-        tariffRate: round4(rate).toFixed(4),
-        source: 'manual',
-        notes: body.notes,
-      })
-      .onConflictDoUpdate({
-        target: tariffRates.productClass,
-        set: {
-          tariffRate: round4(rate).toFixed(4),
-          source: 'manual',
-          notes: body.notes,
-          updatedAt: new Date(),
-        },
-      })
-      .returning();
+    const saved = await setTariffKeyRate(db, {
+      productClass: normalizedClass,
+      rate,
+      source: 'manual',
+      notes: body.notes,
+      effectiveFrom: body.effectiveFrom || null,
+    });
 
     return NextResponse.json({
       success: true,
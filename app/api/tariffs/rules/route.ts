@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { tariffRuleSetSchema } from '@/lib/schemas';
+import { DEFAULT_TARIFF_RULES } from '@/lib/tariffs';
+import { getTariffRuleConfig, saveTariffRules } from '@/services/tariff.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: The live tariff rules (the built-in defaults until rules are saved)
+export async function GET() {
+  try {
+    const config = await getTariffRuleConfig();
+    return NextResponse.json({ success: true, ...config, defaults: DEFAULT_TARIFF_RULES });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// PUT: Replace headings, base rates, surcharges and origin keywords
+export async function PUT(req: Request) {
+  try {
+    const rules = tariffRuleSetSchema.parse(await req.json());
+    const config = await saveTariffRules(rules);
+    return NextResponse.json({ success: true, ...config });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { tariffScenarioSchema } from '@/lib/schemas';
+import { loadTariffRules } from '@/services/tariff.service';
+import { listOpenOrders, runTariffScenario } from '@/services/tariff-scenario.service';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Open orders to pick from and today's surcharges as the starting scenario
+export async function GET() {
+  try {
+    const [orders, rules] = await Promise.all([listOpenOrders(), loadTariffRules()]);
+    return NextResponse.json({
+      success: true,
+      data: { orders, surcharges: rules.surcharges },
+    });
+  } catch (error: unknown) {
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
+
+// POST: Reprice the orders under a scenario without saving anything
+export async function POST(req: Request) {
+  try {
+    const { orderIds, ...scenario } = tariffScenarioSchema.parse(await req.json());
+    const data = await runTariffScenario(orderIds, scenario);
+    return NextResponse.json({ success: true, data });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
@@ -4,11 +4,12 @@ import { orderItems, orders, tariffRates } from '@/db/schema';
 import {
   defaultTariffRateByTariffKey,
   deriveTariffKey,
-  inferOriginCountry,
   normalizeTariffKey,
+  savedOriginCountry,
 } from '@/lib/tariffs';
 import { parseDecimalInput, round4 } from '@/lib/finance-math';
 import { eq } from 'drizzle-orm';
+import { loadTariffRules, refreshSyncedTariffRates } from '@/services/tariff.service';
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
@@ -16,11 +17,14 @@ function getErrorMessage(error: unknown): string {
 
 export async function POST() {
   try {
+    const rules = await loadTariffRules();
     const rows = await db
       .select({
         description: orderItems.description,
         collection: orderItems.collection,
         material: orderItems.material,
+        itemOriginCountry: orderItems.originCountry,
+        originCountry: orders.originCountry,
         supplierName: orders.supplierName,
         supplierAddress: orders.supplierAddress,
       })
@@ -35,9 +39,8 @@ export async function POST() {
             collection: row.collection,
             material: row.material,
           });
-          const originCountry = inferOriginCountry(
-            row.supplierName,
-            row.supplierAddress
+          const originCountry = (
+            row.itemOriginCountry || savedOriginCountry(row, rules)
           ).toLowerCase();
           return normalizeTariffKey(`${originCountry} | ${baseTariffKey}`);
         })
@@ -62,7 +65,7 @@ export async function POST() {
       await db.insert(tariffRates).values(
         missingKeys.map((tariffKey) => ({
           productClass: tariffKey,
-          tariffRate: round4(defaultTariffRateByTariffKey(tariffKey)).toFixed(4),
+          tariffRate: round4(defaultTariffRateByTariffKey(tariffKey, undefined, rules)).toFixed(4),
           source: 'sync',
           notes: 'Auto-synced from description + collection + material',
         }))
@@ -70,14 +73,7 @@ export async function POST() {
     }
 
     // Also refresh rates on existing auto-synced rows so HTS / surcharge changes propagate
-    const autoSyncedRows = existingRows.filter((row) => row.source === 'sync');
-    for (const row of autoSyncedRows) {
-      const newRate = round4(defaultTariffRateByTariffKey(normalizeTariffKey(row.productClass)));
-      await db
-        .update(tariffRates)
-        .set({ tariffRate: newRate.toFixed(4) })
-        .where(eq(tariffRates.id, row.id));
-    }
+    await refreshSyncedTariffRates(rules);
 
     const refreshed = await db.select().from(tariffRates);
 
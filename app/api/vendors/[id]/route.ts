@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { vendors } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { optionalCountryCode } from '@/lib/schemas';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -17,6 +18,7 @@ const updateVendorSchema = z.object({
     .nullable()
     .optional(),
   phone: z.string().nullable().optional(),
+  countryCode: optionalCountryCode, // Where the vendor produces; blank clears it
 });
 
 function getErrorMessage(error: unknown): string {
@@ -38,13 +40,14 @@ export async function PATCH(req: Request, { params }: RouteContext) {
     }
 
     const updateData: Partial<typeof vendors.$inferInsert> = {};
-    const { name, address, contactName, email, phone } = parsed.data;
+    const { name, address, contactName, email, phone, countryCode } = parsed.data;
 
     if (name !== undefined) updateData.name = name.trim();
     if (address !== undefined) updateData.address = address?.trim() || null;
     if (contactName !== undefined) updateData.contactName = contactName?.trim() || null;
     if (email !== undefined) updateData.email = email?.trim() || null;
     if (phone !== undefined) updateData.phone = phone?.trim() || null;
+    if (countryCode !== undefined) updateData.countryCode = countryCode;
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
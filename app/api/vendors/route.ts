@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { vendors } from '@/db/schema';
 import { asc, eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { optionalCountryCode } from '@/lib/schemas';
 
 const createVendorSchema = z.object({
     name: z.string().min(1, 'Name is required'),
@@ -10,6 +11,7 @@ const createVendorSchema = z.object({
     contactName: z.string().optional().nullable(),
     email: z.string().email('Invalid email').optional().nullable(),
     phone: z.string().optional().nullable(),
+    countryCode: optionalCountryCode,
 });
 
 export async function GET() {
@@ -34,7 +36,7 @@ export async function POST(req: Request) {
             );
         }
 
-        const { name, address, contactName, email, phone } = result.data;
+        const { name, address, contactName, email, phone, countryCode } = result.data;
 
         // Check if vendor already exists to provide a friendly error
         const existing = await db.select().from(vendors).where(eq(vendors.name, name)).limit(1);
@@ -44,7 +46,7 @@ export async function POST(req: Request) {
 
         const [newVendor] = await db
             .insert(vendors)
-            .values({ name, address, contactName, email, phone })
+            .values({ name, address, contactName, email, phone, countryCode })
             .returning();
 
         return NextResponse.json(newVendor, { status: 201 });
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import {
   commercialInvoices,
   containers,
+  financeNotes,
   logisticsBills,
   orders,
   payments,
@@ -43,6 +44,18 @@ async function deletePaymentsByTarget(
   return rows.length;
 }
 
+async function deleteNotesByTarget(
+  targetType: 'CUSTOMER_INVOICE' | 'VENDOR_BILL',
+  targetIds: string[]
+) {
+  if (targetIds.length === 0) return 0;
+  const deleted = await db
+    .delete(financeNotes)
+    .where(and(eq(financeNotes.targetType, targetType), inArray(financeNotes.targetId, targetIds)))
+    .returning({ id: financeNotes.id });
+  return deleted.length;
+}
+
 export async function POST(req: NextRequest, { params }: RouteContext) {
   try {
     const { id } = await params;
@@ -101,6 +114,7 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
       vendorBills: 0,
       logisticsBills: 0,
       payments: 0,
+      financeNotes: 0,
     };
 
     if (
@@ -120,6 +134,8 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
     if (action === 'UNDO_START_TRANSIT' || action === 'UNDO_SHIPPING_DOC') {
       removed.payments += await deletePaymentsByTarget('CUSTOMER_INVOICE', invoiceIds);
       removed.payments += await deletePaymentsByTarget('VENDOR_BILL', vendorIds);
+      removed.financeNotes += await deleteNotesByTarget('CUSTOMER_INVOICE', invoiceIds);
+      removed.financeNotes += await deleteNotesByTarget('VENDOR_BILL', vendorIds);
 
       if (invoiceIds.length > 0) {
         await db.delete(commercialInvoices).where(eq(commercialInvoices.orderId, id));
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { orders } from '@/db/schema';
 import { getErrorMessage } from '@/lib/api-helpers';
+import { isDraftOrder } from '@/lib/constants';
 import { eq } from 'drizzle-orm';
 
 type RouteContext = { params: Promise<{ id: string }> };
@@ -21,6 +22,15 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
       return NextResponse.json({ error: 'status is required' }, { status: 400 });
     }
 
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
+    if (!order) return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    if (isDraftOrder(order)) {
+      return NextResponse.json(
+        { error: 'Approve the draft order before starting its workflow' },
+        { status: 409 }
+      );
+    }
+
     const [updated] = await db
       .update(orders)
       .set({
@@ -11,6 +11,7 @@ import {
   logisticsBills,
 } from '@/db/schema';
 import { and, eq } from 'drizzle-orm';
+import { isDraftOrder } from '@/lib/constants';
 import { addDays, parseDecimalInput, round2 } from '@/lib/finance-math';
 import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
 import { getErrorMessage, createDefaultCode } from '@/lib/api-helpers';
@@ -59,6 +60,12 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
 
     const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
     if (!order) return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    if (isDraftOrder(order)) {
+      return NextResponse.json(
+        { error: 'Approve the draft order before starting its workflow' },
+        { status: 409 }
+      );
+    }
 
     const items = await db
       .select({
@@ -2,6 +2,7 @@ import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LanguageSwitcher } from '@/components/language-switcher';
 import { FinanceManager } from '@/components/finance/finance-manager';
+import { FxRates } from '@/components/finance/fx-rates';
 import { getServerLocale } from '@/lib/i18n-server';
 import { translate } from '@/lib/i18n';
 
@@ -37,6 +38,15 @@ export default async function FinancePage() {
           <FinanceManager />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('Finance.fxRatesTitle', 'Exchange Rates')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FxRates />
+        </CardContent>
+      </Card>
     </div>
   );
 }
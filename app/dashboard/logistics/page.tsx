@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LanguageSwitcher } from '@/components/language-switcher';
+import { CustomsEntries } from '@/components/logistics/customs-entries';
 import { LogisticsManager } from '@/components/logistics/logistics-manager';
 import { getServerLocale } from '@/lib/i18n-server';
 import { translate } from '@/lib/i18n';
@@ -37,6 +38,15 @@ export default async function LogisticsPage() {
           <LogisticsManager />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('Logistics.customsTitle', 'Customs Entries & Duty Variance')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CustomsEntries />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -8,7 +8,7 @@ import {
   shippingDocuments,
   vendorBills,
 } from '@/db/schema';
-import { desc, sql } from 'drizzle-orm';
+import { and, desc, sql } from 'drizzle-orm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LanguageSwitcher } from '@/components/language-switcher';
 import { OrdersTable } from '@/components/orders-table';
@@ -18,6 +18,7 @@ import Link from 'next/link';
 import { type Order, type SerializedOrder } from '@/lib/types';
 import { getServerLocale } from '@/lib/i18n-server';
 import { translate } from '@/lib/i18n';
+import { excludeDraftOrders } from '@/lib/order-status';
 
 const PAGE_SIZE = 10;
 
@@ -31,6 +32,7 @@ function serializeDatesInOrder(order: Order): SerializedOrder {
     deliveredAt: order.deliveredAt?.toISOString() || null,
     closedAt: order.closedAt?.toISOString() || null,
     createdAt: order.createdAt?.toISOString() || null,
+    approvedAt: order.approvedAt?.toISOString() || null,
   };
 }
 
@@ -65,23 +67,29 @@ async function getStats() {
       logisticsStats,
       paymentStats,
       salesByMonthStats,
+      draftAgg,
     ] = await Promise.all([
       db
         .select({ total: sql<number>`sum(CAST(${orders.totalAmount} AS NUMERIC))`.mapWith(Number) })
-        .from(orders),
+        .from(orders)
+        .where(excludeDraftOrders()),
       db
         .select({
           total: sql<number>`sum(CAST(${orders.estimatedMargin} AS NUMERIC))`.mapWith(Number),
         })
-        .from(orders),
-      db.select({ count: sql<number>`count(*)` }).from(orders),
+        .from(orders)
+        .where(excludeDraftOrders()),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(orders)
+        .where(excludeDraftOrders()),
       db
         .select({
           status: orders.workflowStatus,
           count: sql<number>`count(*)`,
         })
         .from(orders)
-        .where(sql`${orders.workflowStatus} IS NOT NULL`)
+        .where(and(sql`${orders.workflowStatus} IS NOT NULL`, excludeDraftOrders()))
         .groupBy(orders.workflowStatus),
       db.select({ count: sql<number>`count(*)` }).from(shippingDocuments),
       db
@@ -103,14 +111,19 @@ async function getStats() {
           total: sql<number>`sum(CAST(${orders.totalAmount} AS NUMERIC))`.mapWith(Number),
         })
         .from(orders)
-        .where(sql`${orders.createdAt} IS NOT NULL`)
+        .where(and(sql`${orders.createdAt} IS NOT NULL`, excludeDraftOrders()))
         .groupBy(sql`TO_CHAR(${orders.createdAt}, 'Mon')`)
         .orderBy(sql`MIN(${orders.createdAt})`),
+      db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(orders)
+        .where(sql`not (${excludeDraftOrders()})`),
     ]);
 
     const totalSales = salesAgg[0]?.total || 0;
     const totalEstimatedMargin = marginAgg[0]?.total || 0;
     const totalOrders = countAgg[0]?.count || 0;
+    const draftOrders = draftAgg[0]?.count || 0;
 
     const stageCounts: Record<string, number> = {};
     stageAgg.forEach((row) => {
@@ -150,6 +163,7 @@ async function getStats() {
       totalSales,
       totalEstimatedMargin,
       totalOrders,
+      draftOrders,
       chartData,
       flowSnapshot,
     };
@@ -160,6 +174,7 @@ async function getStats() {
       totalSales: 0,
       totalEstimatedMargin: 0,
       totalOrders: 0,
+      draftOrders: 0,
       chartData: [],
       flowSnapshot: {
         totalOrders: 0,
@@ -179,7 +194,7 @@ export default async function DashboardPage() {
   const t = (key: string, fallback: string, params?: Record<string, string | number>) =>
     translate(locale, key, fallback, params);
 
-  const { totalSales, totalOrders, flowSnapshot } = await getStats();
+  const { totalSales, totalOrders, draftOrders, flowSnapshot } = await getStats();
 
   const { orders: recentOrders, hasMore: initialHasMore } = await getRecentOrders(1, PAGE_SIZE);
 
@@ -251,6 +266,13 @@ export default async function DashboardPage() {
             <p className="text-xs text-muted-foreground">
               {t('Dashboard.processedAndConfirmed', 'Processed & Confirmed')}
             </p>
+            {draftOrders > 0 && (
+              <p className="mt-1 text-xs text-amber-700">
+                {t('Dashboard.draftsAwaitingReview', '{count} drafts awaiting review', {
+                  count: draftOrders,
+                })}
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card>
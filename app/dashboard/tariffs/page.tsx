@@ -19,6 +19,12 @@ export default async function TariffsPage() {
           {t('Tariffs.title', 'Tariff Sync Table')}
         </h2>
         <div className="flex items-center gap-2">
+          <Link
+            href="/dashboard/tariffs/simulator"
+            className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent h-9 px-4 py-2"
+          >
+            {t('Tariffs.simulator', 'Scenario Simulator')}
+          </Link>
           <Link
             href="/dashboard"
             className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent h-9 px-4 py-2"
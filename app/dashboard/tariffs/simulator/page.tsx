@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { LanguageSwitcher } from '@/components/language-switcher';
+import { TariffSimulator } from '@/components/tariff/tariff-simulator';
+import { getServerLocale } from '@/lib/i18n-server';
+import { translate } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+export default async function TariffSimulatorPage() {
+  const locale = await getServerLocale();
+  const t = (key: string, fallback: string, params?: Record<string, string | number>) =>
+    translate(locale, key, fallback, params);
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">
+          {t('Tariffs.simulatorTitle', 'Tariff Scenario Simulator')}
+        </h2>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/dashboard/tariffs"
+            className="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent h-9 px-4 py-2"
+          >
+            {t('Tariffs.backToTariffs', 'Back to Tariffs')}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+      </div>
+
+      <TariffSimulator />
+    </div>
+  );
+}
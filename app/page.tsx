@@ -5,11 +5,13 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { PdfUploader } from '@/components/pdf-viewer/pdf-uploader';
 import { OrderForm } from '@/components/order-form/order-form';
 import { FileList } from '@/components/sidebar/file-list';
+import { ColumnMappingPanel, SheetPreview } from '@/components/spreadsheet/column-mapping-panel';
 import { LanguageSwitcher } from '@/components/language-switcher';
 import { useOrders } from '@/components/orders-provider';
 import { useI18n } from '@/components/locale-provider';
-import { FileText, Activity } from 'lucide-react';
+import { FileText, Activity, Table2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { selectSheet } from '@/lib/spreadsheet-import';
 
 export default function Home() {
   const { t } = useI18n();
@@ -31,6 +33,9 @@ export default function Home() {
   };
 
   const activeOrder = orders.find((o) => o.id === activeOrderId);
+  const activeSheet = activeOrder?.spreadsheet
+    ? selectSheet(activeOrder.spreadsheet.sheets, activeOrder.spreadsheet.mapping)
+    : undefined;
 
   // --- Resizer ---
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -150,8 +155,23 @@ export default function Home() {
                         activeOrder.file?.name ||
                         t('HomePage.unknownFile', 'Unknown File')}
                     </span>
+                    {activeOrder.spreadsheet && activeOrder.status === 'completed' && (
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-muted-foreground hover:text-foreground shrink-0"
+                        onClick={() => updateOrder(activeOrder.id, { status: 'mapping' })}
+                      >
+                        <Table2 className="h-3 w-3" />
+                        {t('HomePage.editMapping', 'Edit column mapping')}
+                      </button>
+                    )}
                   </div>
-                  {activeOrder.file ? (
+                  {activeSheet ? (
+                    <SheetPreview
+                      table={activeSheet}
+                      headerRow={activeOrder.spreadsheet?.mapping.headerRow}
+                    />
+                  ) : activeOrder.file ? (
                     <iframe
                       src={URL.createObjectURL(activeOrder.file)}
                       className="w-full h-full border-0"
@@ -169,7 +189,7 @@ export default function Home() {
                         {t('HomePage.reuploadPdf', 'Re-upload PDF')}
                         <input
                           type="file"
-                          accept=".pdf"
+                          accept=".pdf,.xlsx,.xlsm,.xls,.csv"
                           className="hidden"
                           onChange={(e) => {
                             const file = e.target.files?.[0];
@@ -183,16 +203,35 @@ export default function Home() {
                   )}
                 </div>
 
-                {/* Order Form */}
+                {/* Order Form, or the column mapping while a spreadsheet awaits it */}
                 <div className="flex-1 h-full overflow-hidden bg-background">
-                  <OrderForm
-                    key={activeOrder.id}
-                    data={activeOrder.data}
-                    isLoading={activeOrder.status === 'processing' || activeOrder.status === 'idle'}
-                    processingStep={activeOrder.processingStep}
-                    rawText={activeOrder.originalText}
-                    error={activeOrder.error}
-                  />
+                  {activeOrder.status === 'mapping' ? (
+                    <ColumnMappingPanel key={activeOrder.id} order={activeOrder} />
+                  ) : (
+                    <OrderForm
+                      key={activeOrder.id}
+                      data={activeOrder.data}
+                      isLoading={
+                        activeOrder.status === 'processing' || activeOrder.status === 'idle'
+                      }
+                      processingStep={activeOrder.processingStep}
+                      rawText={activeOrder.originalText}
+                      error={activeOrder.error}
+                      extraction={{
+                        fileId: activeOrder.fileId,
+                        fileName: activeOrder.fileName,
+                        fileHash: activeOrder.fileHash,
+                        fileSize: activeOrder.fileSize,
+                        extractedText: activeOrder.originalText,
+                        provider: activeOrder.provider,
+                        model: activeOrder.model,
+                        rawResponse: activeOrder.rawResponse,
+                        warnings: activeOrder.warnings,
+                        fieldConfidence: activeOrder.fieldConfidence,
+                        templateName: activeOrder.templateName,
+                      }}
+                    />
+                  )}
                 </div>
               </div>
             </div>
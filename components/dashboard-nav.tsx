@@ -3,7 +3,16 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, FileText, Truck, DollarSign, Factory, ArrowLeft } from 'lucide-react';
+import {
+  LayoutDashboard,
+  FileText,
+  Truck,
+  DollarSign,
+  Factory,
+  FolderInput,
+  FileCog,
+  ArrowLeft,
+} from 'lucide-react';
 import { useI18n } from '@/components/locale-provider';
 
 export function DashboardNav({ className, ...props }: React.HTMLAttributes<HTMLElement>) {
@@ -36,6 +45,16 @@ export function DashboardNav({ className, ...props }: React.HTMLAttributes<HTMLE
       href: '/dashboard/vendors',
       icon: Factory,
     },
+    {
+      title: t('Dashboard.imports', 'Imports'),
+      href: '/dashboard/imports',
+      icon: FolderInput,
+    },
+    {
+      title: t('Dashboard.templates', 'Templates'),
+      href: '/dashboard/templates',
+      icon: FileCog,
+    },
   ];
 
   return (
@@ -18,7 +18,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { money, formatDate } from '@/lib/format';
+import { money, moneyIn, formatDate } from '@/lib/format';
 import { usePromptDialog, PromptDialog } from '@/components/ui/prompt-dialog';
 import { useI18n } from '@/components/locale-provider';
 import { getStageLabelZh } from '@/lib/workflow-stages';
@@ -33,14 +33,21 @@ interface OrderOption {
 interface DocSummary {
   id: string;
   code: string;
+  currency: string;
   amount: number;
+  adjustment: number;
   paid: number;
   outstanding: number;
+  baseAmount: number | null;
+  baseOutstanding: number | null;
+  fxGainLoss: number;
   dueDate: string | null;
   status: string | null;
 }
 
 interface FinanceSummary {
+  baseCurrency: string;
+  unconverted: string[];
   invoices: DocSummary[];
   vendorBills: DocSummary[];
   logisticsBills: DocSummary[];
@@ -54,6 +61,7 @@ interface FinanceSummary {
     logisticsPayable: number;
     logisticsPaid: number;
     logisticsOutstanding: number;
+    fxGainLoss: number;
   };
 }
 
@@ -71,6 +79,7 @@ interface LogisticsBillRow {
   provider: string | null;
   dueDate: string | null;
   amount: string | null;
+  currency: string | null;
   status: string | null;
 }
 
@@ -100,7 +109,7 @@ export function FinanceManager() {
   }, [summary]);
 
   const loadOrders = useCallback(async () => {
-    const res = await fetch('/api/orders', { cache: 'no-store' });
+    const res = await fetch('/api/orders?drafts=exclude', { cache: 'no-store' });
     const data = await res.json();
     if (!res.ok || !data.success || !Array.isArray(data.data)) return;
 
@@ -375,6 +384,11 @@ export function FinanceManager() {
               <TableHead className="text-right">
                 {t('FinanceManager.outstanding', 'Outstanding')}
               </TableHead>
+              <TableHead className="text-right">
+                {t('FinanceManager.baseOutstanding', 'Outstanding ({base})', {
+                  base: summary?.baseCurrency ?? 'USD',
+                })}
+              </TableHead>
               <TableHead>{t('FinanceManager.status', 'Status')}</TableHead>
               <TableHead className="text-right">{t('FinanceManager.action', 'Action')}</TableHead>
             </TableRow>
@@ -382,7 +396,7 @@ export function FinanceManager() {
           <TableBody>
             {docs.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
                   {t('FinanceManager.noDocuments', 'No documents yet')}
                 </TableCell>
               </TableRow>
@@ -393,9 +407,29 @@ export function FinanceManager() {
                   <TableRow key={doc.id}>
                     <TableCell className="font-medium">{doc.code}</TableCell>
                     <TableCell>{formatDate(doc.dueDate)}</TableCell>
-                    <TableCell className="text-right">{money(doc.amount)}</TableCell>
-                    <TableCell className="text-right">{money(doc.paid)}</TableCell>
-                    <TableCell className="text-right">{money(doc.outstanding)}</TableCell>
+                    <TableCell className="text-right">
+                      {moneyIn(doc.amount, doc.currency)}
+                      {doc.adjustment !== 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {t('FinanceManager.notesAdjustment', 'Notes')}{' '}
+                          {doc.adjustment > 0 ? '+' : ''}
+                          {moneyIn(doc.adjustment, doc.currency)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{moneyIn(doc.paid, doc.currency)}</TableCell>
+                    <TableCell className="text-right">
+                      {moneyIn(doc.outstanding, doc.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {doc.baseOutstanding === null ? '-' : money(doc.baseOutstanding)}
+                      {doc.fxGainLoss !== 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {t('FinanceManager.fx', 'FX')} {doc.fxGainLoss > 0 ? '+' : ''}
+                          {money(doc.fxGainLoss)}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>{doc.status || 'OPEN'}</TableCell>
                     <TableCell className="text-right">
                       <Button
@@ -514,7 +548,10 @@ export function FinanceManager() {
         <Card>
           <CardHeader>
             <CardTitle className="text-sm">
-              {t('FinanceManager.orderFinancialSummary', 'Order Financial Summary (AR / AP)')}
+              {t('FinanceManager.orderFinancialSummary', 'Order Financial Summary (AR / AP)')}{' '}
+              <span className="font-normal text-muted-foreground">
+                {t('FinanceManager.inBase', 'in {base}', { base: summary.baseCurrency })}
+              </span>
             </CardTitle>
           </CardHeader>
           <CardContent className="grid md:grid-cols-2 gap-4 text-sm">
@@ -545,6 +582,31 @@ export function FinanceManager() {
                 {t('FinanceManager.outstanding', 'Outstanding')}: {money(apTotals.outstanding)}
               </p>
             </div>
+            <div className="md:col-span-2 space-y-1 text-xs text-muted-foreground">
+              <p>
+                {t('FinanceManager.fxGainLoss', 'Realized FX gain / loss')}:{' '}
+                <span
+                  className={
+                    summary.totals.fxGainLoss < 0
+                      ? 'text-red-600'
+                      : summary.totals.fxGainLoss > 0
+                        ? 'text-green-600'
+                        : ''
+                  }
+                >
+                  {money(summary.totals.fxGainLoss)}
+                </span>
+              </p>
+              {summary.unconverted.length > 0 && (
+                <p className="text-amber-600">
+                  {t(
+                    'FinanceManager.unconverted',
+                    'No exchange rate for {currencies}; those documents are left out of the totals above.',
+                    { currencies: summary.unconverted.join(', ') }
+                  )}
+                </p>
+              )}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -605,7 +667,7 @@ export function FinanceManager() {
                         </TableCell>
                         <TableCell>{formatDate(doc.dueDate)}</TableCell>
                         <TableCell className="text-right">
-                          {money(Number(doc.amount || 0))}
+                          {moneyIn(Number(doc.amount || 0), doc.currency)}
                         </TableCell>
                         <TableCell>{doc.status || 'OPEN'}</TableCell>
                         <TableCell className="text-right">
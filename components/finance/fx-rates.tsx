@@ -0,0 +1,253 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useI18n } from '@/components/locale-provider';
+
+interface FxRateRow {
+  id: string;
+  currency: string;
+  rateDate: string;
+  rate: number;
+  source: string | null;
+  notes: string | null;
+}
+
+interface FxRateList {
+  baseCurrency: string;
+  rates: FxRateRow[];
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(payload.error || `HTTP error! status: ${res.status}`);
+  return payload.data;
+};
+
+/**
+ * Exchange rates into the base currency. Finance totals convert each document at the
+ * rate on its issue date and each payment at the rate on its payment date.
+ */
+export function FxRates() {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState({
+    currency: '',
+    rateDate: new Date().toISOString().slice(0, 10),
+    rate: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [deleting, setDeleting] = useState<FxRateRow | null>(null);
+  const [busyDelete, setBusyDelete] = useState(false);
+
+  const { data, isLoading, mutate } = useSWR<FxRateList>('/api/finance/fx-rates', fetcher);
+  const baseCurrency = data?.baseCurrency ?? 'USD';
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/finance/fx-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, rate: Number(draft.rate) }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const details = payload.details ? Object.values(payload.details).flat() : [];
+        throw new Error(String(details[0] || payload.error || 'Save failed'));
+      }
+      setDraft((current) => ({ ...current, rate: '' }));
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch('/api/finance/fx-rates/import', { method: 'POST', body: formData });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Import failed');
+
+      const { saved, skippedRows } = payload.data;
+      toast.success(t('FxRates.imported', 'Imported {saved} rates', { saved }));
+      if (skippedRows.length > 0) {
+        toast.error(
+          t('FxRates.skippedRows', '{count} rows skipped: {first}', {
+            count: skippedRows.length,
+            first: skippedRows[0],
+          })
+        );
+      }
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setBusyDelete(true);
+    try {
+      const res = await fetch(`/api/finance/fx-rates?id=${deleting.id}`, { method: 'DELETE' });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Delete failed');
+      setDeleting(null);
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Delete failed');
+    } finally {
+      setBusyDelete(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {t(
+          'FxRates.hint',
+          'Rates are {base} per one unit of the currency and apply from their date until the next rate. Import a CSV or Excel sheet with currency, date and rate columns; a rate for the same currency and date is replaced.',
+          { base: baseCurrency }
+        )}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="w-24"
+          placeholder="HKD"
+          maxLength={3}
+          value={draft.currency}
+          onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+        />
+        <Input
+          className="w-40"
+          type="date"
+          value={draft.rateDate}
+          onChange={(e) => setDraft({ ...draft, rateDate: e.target.value })}
+        />
+        <Input
+          className="w-36"
+          type="number"
+          step="any"
+          min="0"
+          placeholder={t('FxRates.ratePlaceholder', '{base} per unit', { base: baseCurrency })}
+          value={draft.rate}
+          onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+        />
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={saving || !draft.currency || !draft.rate || !draft.rateDate}
+        >
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          {t('FxRates.add', 'Add rate')}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+        />
+        <Button className="ml-auto" onClick={() => fileInput.current?.click()} disabled={importing}>
+          {importing ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          {t('FxRates.import', 'Import rates')}
+        </Button>
+      </div>
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('FxRates.currency', 'Currency')}</TableHead>
+              <TableHead>{t('FxRates.rateDate', 'From')}</TableHead>
+              <TableHead className="text-right">
+                {t('FxRates.rate', 'Rate ({base})', { base: baseCurrency })}
+              </TableHead>
+              <TableHead>{t('FxRates.source', 'Source')}</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.rates ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                  {isLoading
+                    ? t('FxRates.loading', 'Loading...')
+                    : t(
+                        'FxRates.noRates',
+                        'No exchange rates yet; every amount is taken as {base}',
+                        {
+                          base: baseCurrency,
+                        }
+                      )}
+                </TableCell>
+              </TableRow>
+            ) : (
+              data!.rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">{rate.currency}</TableCell>
+                  <TableCell>{rate.rateDate}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">{rate.rate}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{rate.source || 'MANUAL'}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setDeleting(rate)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title={t('FxRates.deleteTitle', 'Delete exchange rate?')}
+        description={t(
+          'FxRates.deleteDescription',
+          'The {currency} rate from {date} will no longer be used for conversion.',
+          { currency: deleting?.currency ?? '', date: deleting?.rateDate ?? '' }
+        )}
+        onConfirm={handleDelete}
+        loading={busyDelete}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { useDropzone } from 'react-dropzone';
+import toast from 'react-hot-toast';
+import { FileArchive, Inbox, Loader2, Mail, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+
+type ImportJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED';
+type ImportFileStatus = 'PENDING' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED';
+
+interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  totalFiles: number;
+  processedFiles: number;
+  succeededFiles: number;
+  failedFiles: number;
+  createdBy: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+  emailFrom: string | null;
+  emailFromName: string | null;
+  emailSubject: string | null;
+}
+
+interface ImportJobFile {
+  id: string;
+  fileName: string;
+  status: ImportFileStatus;
+  orderId: string | null;
+  duplicateOfOrderId: string | null;
+  provider: string | null;
+  warningCount: number | null;
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const FILE_BADGE_CLASS: Record<ImportFileStatus, string> = {
+  PENDING: 'bg-slate-100 text-slate-700 border-slate-200',
+  PROCESSING: 'bg-blue-100 text-blue-700 border-blue-200',
+  SUCCEEDED: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  FAILED: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const isRunning = (job?: { status: ImportJobStatus } | null) => !!job && job.status !== 'COMPLETED';
+
+const isEmailFile = (file: File) => /\.eml$/i.test(file.name);
+
+async function postFiles(url: string, files: File[]) {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('files', file));
+  const res = await fetch(url, { method: 'POST', body: formData });
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(payload.error || 'Upload failed');
+  return payload.data;
+}
+
+/**
+ * Upload PDFs, spreadsheets, ZIPs or saved emails (.eml) for server-side import and
+ * follow each job's progress.
+ */
+export function BatchImportManager() {
+  const { t } = useI18n();
+  const [uploading, setUploading] = useState(false);
+  const [polling, setPolling] = useState(false);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  const { data: jobsRes, mutate: mutateJobs } = useSWR(`/api/import-jobs`, fetcher, {
+    refreshInterval: (latest) =>
+      (latest?.data as ImportJob[] | undefined)?.some(isRunning) ? POLL_INTERVAL_MS : 0,
+  });
+  const jobs: ImportJob[] = jobsRes?.data ?? [];
+  const activeJobId = selectedJobId ?? jobs[0]?.id ?? null;
+
+  const { data: jobRes } = useSWR(activeJobId ? `/api/import-jobs/${activeJobId}` : null, fetcher, {
+    refreshInterval: (latest) => (isRunning(latest?.data) ? POLL_INTERVAL_MS : 0),
+  });
+  const activeJob: (ImportJob & { files: ImportJobFile[] }) | null = jobRes?.data ?? null;
+
+  const onDrop = useCallback(
+    async (acceptedFiles: File[]) => {
+      if (acceptedFiles.length === 0) return;
+      setUploading(true);
+      try {
+        const emails = acceptedFiles.filter(isEmailFile);
+        const documents = acceptedFiles.filter((file) => !isEmailFile(file));
+
+        let latestJobId: string | null = null;
+        if (documents.length > 0) {
+          latestJobId = (await postFiles('/api/import-jobs', documents)).id;
+        }
+        if (emails.length > 0) {
+          const results: { job: { id: string } | null; duplicate: boolean }[] = await postFiles(
+            '/api/email/ingest',
+            emails
+          );
+          latestJobId = results.find((result) => result.job)?.job?.id ?? latestJobId;
+          const skipped = results.filter((result) => result.duplicate || !result.job).length;
+          if (skipped > 0) {
+            toast(
+              t(
+                'Imports.emailsSkipped',
+                '{count} emails were already imported or had no PO attachments',
+                { count: skipped }
+              )
+            );
+          }
+        }
+
+        if (latestJobId) {
+          setSelectedJobId(latestJobId);
+          toast.success(t('Imports.queued', 'Import queued'));
+        }
+        await mutateJobs();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Upload failed');
+      } finally {
+        setUploading(false);
+      }
+    },
+    [mutateJobs, t]
+  );
+
+  const checkInbox = async () => {
+    setPolling(true);
+    try {
+      const res = await fetch('/api/email/poll', { method: 'POST' });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Inbox check failed');
+      const results: { imported: number }[] = payload.data.results;
+      const errors: { source: string; error: string }[] = payload.data.errors;
+      errors.forEach((entry) => toast.error(`${entry.source}: ${entry.error}`));
+      toast.success(
+        t('Imports.inboxChecked', '{count} new emails', {
+          count: results.reduce((sum, result) => sum + result.imported, 0),
+        })
+      );
+      await mutateJobs();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Inbox check failed');
+    } finally {
+      setPolling(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'application/pdf': ['.pdf'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel.sheet.macroEnabled.12': ['.xlsm'],
+      'application/vnd.ms-excel': ['.xls'],
+      'text/csv': ['.csv'],
+      'message/rfc822': ['.eml'],
+    },
+    multiple: true,
+    disabled: uploading,
+  });
+
+  const jobStatusLabel = (status: ImportJobStatus) =>
+    status === 'COMPLETED'
+      ? t('Imports.statusCompleted', 'Completed')
+      : status === 'RUNNING'
+        ? t('Imports.statusRunning', 'Running')
+        : t('Imports.statusQueued', 'Queued');
+
+  const fileStatusLabel = (status: ImportFileStatus) =>
+    ({
+      PENDING: t('Imports.filePending', 'Pending'),
+      PROCESSING: t('Imports.fileProcessing', 'Processing'),
+      SUCCEEDED: t('Imports.fileSucceeded', 'Imported'),
+      FAILED: t('Imports.fileFailed', 'Failed'),
+    })[status];
+
+  return (
+    <div className="space-y-6">
+      <div
+        {...getRootProps()}
+        className={`flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center transition-colors hover:border-primary/50 hover:bg-primary/5 ${
+          isDragActive ? 'border-primary bg-primary/10' : 'border-muted-foreground/25'
+        }`}
+      >
+        <input {...getInputProps()} />
+        {uploading ? (
+          <Loader2 className="mb-3 h-8 w-8 animate-spin text-primary" />
+        ) : (
+          <div className="mb-3 flex gap-2 text-primary">
+            <Upload className="h-8 w-8" />
+            <FileArchive className="h-8 w-8" />
+          </div>
+        )}
+        <p className="font-medium">
+          {uploading
+            ? t('Imports.uploading', 'Uploading...')
+            : t(
+                'Imports.dropTitle',
+                'Drop PDFs, spreadsheets, ZIP archives or emails (.eml) here, or click to browse'
+              )}
+        </p>
+        <p className="mt-1 text-sm text-muted-foreground">
+          {t(
+            'Imports.dropSubtitle',
+            'Each PDF is parsed on the server and saved as a draft order for review.'
+          )}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+        <p className="text-sm text-muted-foreground">
+          {t(
+            'Imports.inboxHint',
+            'PO attachments emailed to the configured inbox are imported the same way.'
+          )}
+        </p>
+        <Button variant="outline" size="sm" onClick={checkInbox} disabled={polling}>
+          {polling ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Inbox className="mr-2 h-4 w-4" />
+          )}
+          {t('Imports.checkInbox', 'Check inbox')}
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <div>
+          <h3 className="mb-2 text-sm font-semibold">{t('Imports.jobsTitle', 'Import jobs')}</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('Imports.createdAt', 'Started')}</TableHead>
+                <TableHead>{t('Imports.status', 'Status')}</TableHead>
+                <TableHead className="text-right">{t('Imports.progress', 'Progress')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    {t('Imports.noJobs', 'No imports yet.')}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                jobs.map((job) => (
+                  <TableRow
+                    key={job.id}
+                    className={`cursor-pointer ${job.id === activeJobId ? 'bg-muted/60' : ''}`}
+                    onClick={() => setSelectedJobId(job.id)}
+                  >
+                    <TableCell className="text-xs">
+                      {new Date(job.createdAt).toLocaleString()}
+                      {job.createdBy && (
+                        <span className="block text-muted-foreground">{job.createdBy}</span>
+                      )}
+                      {job.emailFrom && (
+                        <span className="mt-1 flex items-start gap-1 text-muted-foreground">
+                          <Mail className="mt-0.5 h-3 w-3 shrink-0" />
+                          <span className="break-all">
+                            {job.emailSubject || t('Imports.noSubject', '(no subject)')}
+                            <span className="block">
+                              {job.emailFromName
+                                ? `${job.emailFromName} <${job.emailFrom}>`
+                                : job.emailFrom}
+                            </span>
+                          </span>
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {isRunning(job) && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                        {jobStatusLabel(job.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">
+                      {t('Imports.progressValue', '{done} / {total} ({failed} failed)', {
+                        done: job.processedFiles,
+                        total: job.totalFiles,
+                        failed: job.failedFiles,
+                      })}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div>
+          <h3 className="mb-2 text-sm font-semibold">{t('Imports.filesTitle', 'Files')}</h3>
+          {activeJob ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('Imports.fileName', 'File')}</TableHead>
+                  <TableHead>{t('Imports.status', 'Status')}</TableHead>
+                  <TableHead>{t('Imports.result', 'Result')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {activeJob.files.map((file) => (
+                  <TableRow key={file.id}>
+                    <TableCell className="max-w-[240px] break-all font-mono text-xs">
+                      {file.fileName}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={FILE_BADGE_CLASS[file.status]}>
+                        {fileStatusLabel(file.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="space-y-1 text-xs">
+                      {file.orderId && (
+                        <Link
+                          href={`/dashboard/orders/${file.orderId}`}
+                          className="block text-primary underline-offset-4 hover:underline"
+                        >
+                          {t('Imports.openDraft', 'Open draft order')}
+                        </Link>
+                      )}
+                      {file.duplicateOfOrderId && (
+                        <Link
+                          href={`/dashboard/orders/${file.duplicateOfOrderId}`}
+                          className="block text-amber-700 underline-offset-4 hover:underline"
+                        >
+                          {t('Imports.duplicateOf', 'VPO already exists — view existing order')}
+                        </Link>
+                      )}
+                      {!!file.warningCount && (
+                        <span className="block text-amber-700">
+                          {t('Imports.warningCount', '{count} validation warnings', {
+                            count: file.warningCount,
+                          })}
+                        </span>
+                      )}
+                      {file.error && <span className="block text-destructive">{file.error}</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {t('Imports.selectJob', 'Select a job to see its files.')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { Loader2, Trash2, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useI18n } from '@/components/locale-provider';
+import type { DutyVarianceGroup, DutyVarianceRow } from '@/lib/customs-entry';
+import { formatDate, money, num } from '@/lib/format';
+
+interface CustomsEntryRow {
+  id: string;
+  entryNo: string;
+  entryDate: string | null;
+  containerNo: string | null;
+  broker: string | null;
+  enteredValue: string;
+  dutyAmount: string;
+  mpfAmount: string | null;
+  hmfAmount: string | null;
+  source: string | null;
+  lineCount: number;
+  unmatchedLines: number;
+  vpoNumbers: string[];
+}
+
+interface VarianceReport {
+  rows: DutyVarianceRow[];
+  totals: Omit<DutyVarianceRow, 'key' | 'label' | 'entries' | 'htsMismatch'>;
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(payload.error || `HTTP error! status: ${res.status}`);
+  return payload.data;
+};
+
+const percent = (rate: number | null) => (rate === null ? '-' : `${(rate * 100).toFixed(1)}%`);
+
+/**
+ * Customs entries filed by the broker and the duty variance they show against the
+ * orders' estimates.
+ */
+export function CustomsEntries() {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [groupBy, setGroupBy] = useState<DutyVarianceGroup>('order');
+  const [importing, setImporting] = useState(false);
+  const [deleting, setDeleting] = useState<CustomsEntryRow | null>(null);
+  const [busyDelete, setBusyDelete] = useState(false);
+
+  const entries = useSWR<CustomsEntryRow[]>('/api/customs/entries', fetcher);
+  const variance = useSWR<VarianceReport>(`/api/customs/variance?groupBy=${groupBy}`, fetcher);
+
+  const refresh = async () => {
+    await Promise.all([entries.mutate(), variance.mutate()]);
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch('/api/customs/import', { method: 'POST', body: formData });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Import failed');
+
+      const { saved, replaced, unmatchedLines, skippedRows } = payload.data;
+      toast.success(
+        t(
+          'Customs.imported',
+          'Imported {saved} entries ({replaced} replaced); {unmatched} lines not matched to an order line',
+          { saved, replaced, unmatched: unmatchedLines }
+        )
+      );
+      if (skippedRows.length > 0) {
+        toast.error(
+          t('Customs.skippedRows', '{count} rows skipped: {first}', {
+            count: skippedRows.length,
+            first: skippedRows[0],
+          })
+        );
+      }
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setBusyDelete(true);
+    try {
+      const res = await fetch(`/api/customs/entries?id=${deleting.id}`, { method: 'DELETE' });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Delete failed');
+      setDeleting(null);
+      await refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Delete failed');
+    } finally {
+      setBusyDelete(false);
+    }
+  };
+
+  const varianceClass = (value: number) =>
+    value > 0 ? 'text-red-600' : value < 0 ? 'text-green-600' : '';
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm text-muted-foreground">
+            {t(
+              'Customs.importHint',
+              'Import the broker’s entry file (CSV or Excel, one row per entry line with entry number, entered value and duty; entry date, container, PO, style, HTS, quantity, MPF and HMF when present). Lines are matched to order lines by PO and style; re-importing an entry number replaces it.'
+            )}
+          </p>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <Button
+            className="ml-auto"
+            onClick={() => fileInput.current?.click()}
+            disabled={importing}
+          >
+            {importing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {t('Customs.import', 'Import broker file')}
+          </Button>
+        </div>
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('Customs.entryNo', 'Entry No.')}</TableHead>
+                <TableHead>{t('Customs.entryDate', 'Entry Date')}</TableHead>
+                <TableHead>{t('Customs.container', 'Container')}</TableHead>
+                <TableHead>{t('Customs.orders', 'Orders')}</TableHead>
+                <TableHead className="text-right">
+                  {t('Customs.enteredValue', 'Entered Value')}
+                </TableHead>
+                <TableHead className="text-right">{t('Customs.duty', 'Duty')}</TableHead>
+                <TableHead className="text-right">{t('Customs.mpf', 'MPF')}</TableHead>
+                <TableHead className="text-right">{t('Customs.hmf', 'HMF')}</TableHead>
+                <TableHead>{t('Customs.lines', 'Lines')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(entries.data ?? []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={10} className="py-6 text-center text-muted-foreground">
+                    {entries.isLoading
+                      ? t('Customs.loading', 'Loading...')
+                      : t('Customs.noEntries', 'No customs entries yet')}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.data!.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-mono text-xs">
+                      {entry.entryNo}
+                      {entry.broker && (
+                        <div className="font-sans text-muted-foreground">{entry.broker}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(entry.entryDate)}</TableCell>
+                    <TableCell>{entry.containerNo || '-'}</TableCell>
+                    <TableCell className="text-xs">{entry.vpoNumbers.join(', ') || '-'}</TableCell>
+                    <TableCell className="text-right">{money(num(entry.enteredValue))}</TableCell>
+                    <TableCell className="text-right">{money(num(entry.dutyAmount))}</TableCell>
+                    <TableCell className="text-right">{money(num(entry.mpfAmount))}</TableCell>
+                    <TableCell className="text-right">{money(num(entry.hmfAmount))}</TableCell>
+                    <TableCell>
+                      {entry.lineCount}
+                      {entry.unmatchedLines > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 text-[10px] h-5 text-amber-700 border-amber-300"
+                        >
+                          {t('Customs.unmatchedCount', '{count} unmatched', {
+                            count: entry.unmatchedLines,
+                          })}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button size="icon" variant="ghost" onClick={() => setDeleting(entry)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-semibold">{t('Customs.varianceTitle', 'Duty Variance')}</h3>
+          <span className="text-sm text-muted-foreground">
+            {t(
+              'Customs.varianceHint',
+              'Actual duty minus the estimate; items entered in part are compared with their share of the estimate.'
+            )}
+          </span>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as DutyVarianceGroup)}>
+            <SelectTrigger className="ml-auto h-9 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="order">{t('Customs.byOrder', 'By order')}</SelectItem>
+              <SelectItem value="item">{t('Customs.byItem', 'By item')}</SelectItem>
+              <SelectItem value="tariffKey">{t('Customs.byTariffKey', 'By tariff key')}</SelectItem>
+              <SelectItem value="origin">{t('Customs.byOrigin', 'By origin')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  {groupBy === 'order'
+                    ? t('Customs.order', 'Order')
+                    : groupBy === 'item'
+                      ? t('Customs.item', 'Item')
+                      : groupBy === 'origin'
+                        ? t('Customs.origin', 'Origin')
+                        : t('TariffManager.tariffKey', 'Tariff Key')}
+                </TableHead>
+                <TableHead>{t('Customs.entries', 'Entries')}</TableHead>
+                <TableHead className="text-right">{t('Customs.qty', 'Qty')}</TableHead>
+                <TableHead className="text-right">
+                  {t('Customs.estimatedDuty', 'Est. Duty')}
+                </TableHead>
+                <TableHead className="text-right">
+                  {t('Customs.actualDuty', 'Actual Duty')}
+                </TableHead>
+                <TableHead className="text-right">{t('Customs.variance', 'Variance')}</TableHead>
+                <TableHead className="text-right">{t('Customs.fees', 'MPF + HMF')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(variance.data?.rows ?? []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                    {variance.isLoading
+                      ? t('Customs.loading', 'Loading...')
+                      : t('Customs.noVariance', 'Import entries to compare duty')}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {variance.data!.rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-medium">
+                        {row.key === 'unmatched'
+                          ? t('Customs.unmatched', 'Unmatched entry lines')
+                          : row.label}
+                        {row.htsMismatch && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 text-[10px] h-5 text-amber-700 border-amber-300"
+                          >
+                            {t('Customs.htsMismatch', 'HTS differs')}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{row.entries.join(', ')}</TableCell>
+                      <TableCell className="text-right">{row.enteredQty || '-'}</TableCell>
+                      <TableCell className="text-right">{money(row.estimatedDuty)}</TableCell>
+                      <TableCell className="text-right">{money(row.actualDuty)}</TableCell>
+                      <TableCell className={`text-right ${varianceClass(row.variance)}`}>
+                        {money(row.variance)} ({percent(row.varianceRate)})
+                      </TableCell>
+                      <TableCell className="text-right">{money(row.fees)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/30 font-medium">
+                    <TableCell colSpan={2}>{t('Customs.totals', 'Totals')}</TableCell>
+                    <TableCell className="text-right">
+                      {variance.data!.totals.enteredQty || '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(variance.data!.totals.estimatedDuty)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(variance.data!.totals.actualDuty)}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right ${varianceClass(variance.data!.totals.variance)}`}
+                    >
+                      {money(variance.data!.totals.variance)} (
+                      {percent(variance.data!.totals.varianceRate)})
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {money(variance.data!.totals.fees)}
+                    </TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title={t('Customs.deleteTitle', 'Delete customs entry?')}
+        description={t(
+          'Customs.deleteDescription',
+          'Entry {entryNo} and its lines will be removed from the variance report.',
+          { entryNo: deleting?.entryNo ?? '' }
+        )}
+        onConfirm={handleDelete}
+        loading={busyDelete}
+      />
+    </div>
+  );
+}
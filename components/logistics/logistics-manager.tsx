@@ -19,6 +19,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { formatDate } from '@/lib/format';
+import { declaredHtsCode } from '@/lib/tariffs';
 import { usePromptDialog, PromptDialog } from '@/components/ui/prompt-dialog';
 import { useI18n } from '@/components/locale-provider';
 import { getStageLabelZh } from '@/lib/workflow-stages';
@@ -69,6 +70,9 @@ interface OrderItemRow {
   customerUnitPrice: string | null;
   color: string | null;
   material: string | null;
+  suggestedHtsCode: string | null;
+  htsCodeOverride: string | null;
+  originCountry: string | null;
 }
 
 interface OrderDetails {
@@ -83,12 +87,17 @@ interface OrderDetails {
   expShipDate: string | null;
   shipTo: string | null;
   shipVia: string | null;
+  originCountry: string | null;
   paymentTerms: string | null;
   shipmentTerms: string | null;
   totalAmount: string | null;
   items: OrderItemRow[];
 }
 
+/** Split-sourced lines declare their own origin; the rest ship from the order's. */
+const countryOfOrigin = (order: OrderDetails, item: OrderItemRow) =>
+  item.originCountry || order.originCountry || '';
+
 export function LogisticsManager() {
   const { t } = useI18n();
   const [orders, setOrders] = useState<OrderOption[]>([]);
@@ -121,7 +130,7 @@ export function LogisticsManager() {
   );
 
   const loadOrders = useCallback(async () => {
-    const res = await fetch('/api/orders', { cache: 'no-store' });
+    const res = await fetch('/api/orders?drafts=exclude', { cache: 'no-store' });
     const data = await res.json();
     if (!res.ok || !data.success || !Array.isArray(data.data)) return;
     const rows = data.data as OrderOption[];
@@ -665,24 +674,27 @@ export function LogisticsManager() {
       invHeader.values = [
         t('LogisticsManager.export.poNo', 'PO NO.'),
         t('LogisticsManager.export.styleNo', 'STYLE NO.'),
-        '',
+        t('LogisticsManager.export.htsCodeUpper', 'HTS CODE'),
         t('LogisticsManager.export.descriptionUpper', 'DESCRIPTION'),
         t('LogisticsManager.export.qtyUpper', 'QTY.'),
         t('LogisticsManager.export.priceUpper', 'PRICE'),
         t('LogisticsManager.export.amountUpper', 'AMOUNT'),
+        t('LogisticsManager.export.countryOfOriginUpper', 'COUNTRY OF ORIGIN'),
       ];
       invHeader.font = { bold: true };
+      inv.getColumn(8).width = 20;
       order.items.forEach((item) => {
         const qty = Number(item.quantity || 0);
         const price = Number(item.customerUnitPrice || 0);
         inv.addRow([
           order.soReference || order.vpoNumber || '',
           item.productCode || '',
-          '',
+          declaredHtsCode(item) || '',
           item.description || '',
           qty,
           price,
           qty * price,
+          countryOfOrigin(order, item),
         ]);
       });
       const invTotalQty = order.items.reduce((s, x) => s + Number(x.quantity || 0), 0);
@@ -808,6 +820,8 @@ export function LogisticsManager() {
         head: [
           [
             t('LogisticsManager.export.style', 'Style'),
+            t('LogisticsManager.export.htsCode', 'HTS Code'),
+            t('LogisticsManager.export.origin', 'Origin'),
             t('LogisticsManager.export.description', 'Description'),
             t('LogisticsManager.export.qty', 'Qty'),
             t('LogisticsManager.export.price', 'Price'),
@@ -819,6 +833,8 @@ export function LogisticsManager() {
           const price = Number(item.customerUnitPrice || 0);
           return [
             item.productCode || '',
+            declaredHtsCode(item) || '',
+            countryOfOrigin(order, item),
             item.description || '',
             qty,
             `$${price.toFixed(2)}`,
@@ -0,0 +1,155 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { useI18n } from '@/components/locale-provider';
+import type { DiffValue, FieldChange, ItemChange, OrderDiff } from '@/lib/order-diff';
+
+const FIELD_LABELS: Record<string, [key: string, fallback: string]> = {
+  vpoNumber: ['OrderDiff.fieldVpoNumber', 'VPO number'],
+  customerName: ['OrderDiff.fieldCustomerName', 'Customer'],
+  customerAddress: ['OrderDiff.fieldCustomerAddress', 'Customer address'],
+  supplierName: ['OrderDiff.fieldSupplierName', 'Supplier'],
+  supplierAddress: ['OrderDiff.fieldSupplierAddress', 'Supplier address'],
+  orderDate: ['OrderDiff.fieldOrderDate', 'Order date'],
+  expShipDate: ['OrderDiff.fieldExpShipDate', 'Ex-factory date'],
+  cancelDate: ['OrderDiff.fieldCancelDate', 'Cancel date'],
+  soReference: ['OrderDiff.fieldSoReference', 'SO reference'],
+  shipTo: ['OrderDiff.fieldShipTo', 'Ship to'],
+  shipVia: ['OrderDiff.fieldShipVia', 'Ship via'],
+  originCountry: ['OrderDiff.fieldOriginCountry', 'Origin'],
+  originSource: ['OrderDiff.fieldOriginSource', 'Origin source'],
+  shipmentTerms: ['OrderDiff.fieldShipmentTerms', 'Shipment terms'],
+  paymentTerms: ['OrderDiff.fieldPaymentTerms', 'Payment terms'],
+  customerNotes: ['OrderDiff.fieldCustomerNotes', 'Customer notes'],
+  status: ['OrderDiff.fieldStatus', 'Status'],
+  customerTermDays: ['OrderDiff.fieldCustomerTermDays', 'Customer terms (days)'],
+  vendorTermDays: ['OrderDiff.fieldVendorTermDays', 'Vendor terms (days)'],
+  logisticsTermDays: ['OrderDiff.fieldLogisticsTermDays', 'Logistics terms (days)'],
+  productCode: ['OrderDiff.fieldProductCode', 'Product code'],
+  color: ['OrderDiff.fieldColor', 'Color'],
+  description: ['OrderDiff.fieldDescription', 'Description'],
+  material: ['OrderDiff.fieldMaterial', 'Material'],
+  collection: ['OrderDiff.fieldCollection', 'Collection'],
+  quantity: ['OrderDiff.fieldQuantity', 'Qty'],
+  unitPrice: ['OrderDiff.fieldUnitPrice', 'Unit price'],
+  vendorUnitPrice: ['OrderDiff.fieldVendorUnitPrice', 'Vendor price'],
+  htsCodeOverride: ['OrderDiff.fieldHtsCodeOverride', 'HTS override'],
+  htsOverrideReason: ['OrderDiff.fieldHtsOverrideReason', 'HTS override reason'],
+  unitCbm: ['OrderDiff.fieldUnitCbm', 'CBM per piece'],
+};
+
+const ITEM_BADGE_CLASS: Record<ItemChange['type'], string> = {
+  added: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  removed: 'bg-red-100 text-red-700 border-red-200',
+  changed: 'bg-amber-100 text-amber-700 border-amber-200',
+};
+
+function display(value: DiffValue): string {
+  if (value === null) return '—';
+  return typeof value === 'number' ? value.toLocaleString() : value;
+}
+
+/** Renders an `OrderDiff`: header field changes, then added / removed / changed lines. */
+export function OrderDiffView({ diff }: { diff: OrderDiff }) {
+  const { t } = useI18n();
+
+  const label = (field: string) => {
+    const entry = FIELD_LABELS[field];
+    return entry ? t(entry[0], entry[1]) : field;
+  };
+
+  const changeText = (change: FieldChange) =>
+    `${label(change.field)}: ${display(change.before)} → ${display(change.after)}`;
+
+  if (!diff.hasChanges) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t('OrderDiff.noChanges', 'No differences.')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.fields.length > 0 && (
+        <div>
+          <div className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            {t('OrderDiff.headerChanges', 'Order fields')}
+          </div>
+          <table className="w-full text-left">
+            <thead className="text-xs text-muted-foreground">
+              <tr>
+                <th className="py-1 pr-2 font-medium">{t('OrderDiff.field', 'Field')}</th>
+                <th className="py-1 pr-2 font-medium">{t('OrderDiff.before', 'Before')}</th>
+                <th className="py-1 font-medium">{t('OrderDiff.after', 'After')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.fields.map((change) => (
+                <tr key={change.field} className="border-t align-top">
+                  <td className="py-1 pr-2 font-medium">{label(change.field)}</td>
+                  <td className="py-1 pr-2 text-muted-foreground line-through decoration-red-400">
+                    {display(change.before)}
+                  </td>
+                  <td className="py-1 text-emerald-700">{display(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff.items.length > 0 && (
+        <div>
+          <div className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            {t('OrderDiff.itemChanges', 'Line items')}
+          </div>
+          <ul className="space-y-2">
+            {diff.items.map((change, index) => {
+              const item = change.after ?? change.before;
+              return (
+                <li key={`${change.key}-${index}`} className="rounded-md border p-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={ITEM_BADGE_CLASS[change.type]}>
+                      {change.type === 'added'
+                        ? t('OrderDiff.added', 'Added')
+                        : change.type === 'removed'
+                          ? t('OrderDiff.removed', 'Removed')
+                          : t('OrderDiff.changed', 'Changed')}
+                    </Badge>
+                    <span className="font-mono font-medium">{change.productCode || '—'}</span>
+                    {change.color && <span className="text-muted-foreground">{change.color}</span>}
+                    {change.type !== 'changed' && item && (
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {t('OrderDiff.qtyAtPrice', '{qty} pcs @ {price}', {
+                          qty: item.quantity.toLocaleString(),
+                          price: item.unitPrice.toFixed(2),
+                        })}
+                      </span>
+                    )}
+                  </div>
+                  {(change.fields.length > 0 || change.sizes.length > 0) && (
+                    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+                      {change.fields.map((fieldChange) => (
+                        <span key={fieldChange.field}>{changeText(fieldChange)}</span>
+                      ))}
+                      {change.sizes.map((size) => (
+                        <span key={size.size}>
+                          {t('OrderDiff.sizeChange', 'Size {size}: {before} → {after}', {
+                            size: size.size,
+                            before: size.before,
+                            after: size.after,
+                          })}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
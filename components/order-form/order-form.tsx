@@ -39,17 +39,34 @@ import {
   Download,
   FileSpreadsheet,
   User,
+  FilePen,
 } from 'lucide-react';
 import { ExtractedOrderData } from '@/lib/parser';
+import { validateExtraction, type ExtractionWarning } from '@/lib/extraction-validation';
 import { useEffect, useMemo, useState } from 'react';
 import { PoPreviewDialog } from '@/components/po-preview/po-preview-dialog';
 import {
+  DEFAULT_TARIFF_RULES,
   deriveTariffKey,
-  inferOriginCountry,
+  isEffectiveOn,
   normalizeTariffKey,
+  resolveOrderOrigin,
   resolveTariffRate,
+  suggestHtsCode,
+  tariffRulesAsOf,
+  toTariffDate,
+  type TariffRuleSet,
 } from '@/lib/tariffs';
-import { BUYER_OPTIONS, PAYMENT_TERMS } from '@/lib/constants';
+import { BUYER_OPTIONS, ORDER_STATUS, PAYMENT_TERMS } from '@/lib/constants';
+import {
+  DEFAULT_LANDED_COST_COMPONENTS,
+  componentsForOrder,
+  landedCostLines,
+  type LandedCostComponent,
+} from '@/lib/landed-cost';
+import type { ExtractionProvenance } from '@/lib/types';
+import type { OrderDiff } from '@/lib/order-diff';
+import { OrderDiffView } from '@/components/order-diff/order-diff-view';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -66,6 +83,29 @@ interface OrderFormProps {
   processingStep?: string;
   rawText?: string;
   error?: string;
+  /** Source PDF and extraction details, saved with the order for traceability. */
+  extraction?: ExtractionProvenance;
+}
+
+const VALIDATION_MESSAGE_KEYS: Record<ExtractionWarning['code'], string> = {
+  NO_ITEMS: 'OrderForm.validationNoItems',
+  MISSING_QTY: 'OrderForm.validationMissingQty',
+  MISSING_PRICE: 'OrderForm.validationMissingPrice',
+  SIZE_SUM_MISMATCH: 'OrderForm.validationSizeSum',
+  EXTENSION_MISMATCH: 'OrderForm.validationExtension',
+  SUBTOTAL_QTY_MISMATCH: 'OrderForm.validationSubtotalQty',
+  SUBTOTAL_AMOUNT_MISMATCH: 'OrderForm.validationSubtotalAmount',
+  OCR_TEXT: 'OrderForm.validationOcrText',
+};
+
+/** Body of the 409 returned by /api/save-order when the VPO number is already saved. */
+interface DuplicateOrder {
+  id: string;
+  vpoNumber: string;
+  customerName: string | null;
+  workflowStatus: string | null;
+  createdAt: string | null;
+  changes: OrderDiff;
 }
 
 interface TariffRow {
@@ -73,9 +113,19 @@ interface TariffRow {
   tariffKey?: string;
   productClass: string;
   tariffRate: number;
+  source: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
 }
 
-export function OrderForm({ data, isLoading, processingStep, rawText, error }: OrderFormProps) {
+export function OrderForm({
+  data,
+  isLoading,
+  processingStep,
+  rawText,
+  error,
+  extraction,
+}: OrderFormProps) {
   const { t } = useI18n();
 
   // Data Refinement Logic on Init
@@ -126,7 +176,10 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
   const [isPoPreviewOpen, setIsPoPreviewOpen] = useState(false);
   const [showRawText, setShowRawText] = useState(false);
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
-  const [tariffByKey, setTariffByKey] = useState<Record<string, number>>({});
+  const [tariffRows, setTariffRows] = useState<TariffRow[]>([]);
+  const [tariffRules, setTariffRules] = useState<TariffRuleSet | undefined>();
+  const [costComponents, setCostComponents] = useState<LandedCostComponent[] | undefined>();
+  const [vendorCountries, setVendorCountries] = useState<Map<string, string>>(new Map());
 
   // Update form when new data is loaded
   useEffect(() => {
@@ -142,18 +195,54 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
         if (!res.ok) return;
         const payload = await res.json();
         if (!payload?.success || !Array.isArray(payload.data)) return;
-        const map = (payload.data as TariffRow[]).reduce<Record<string, number>>((acc, row) => {
-          const key = normalizeTariffKey((row.tariffKey || row.productClass || '').trim());
-          if (!key) return acc;
-          acc[key] = Number(row.tariffRate || 0);
-          return acc;
-        }, {});
-        setTariffByKey(map);
+        setTariffRows(payload.data as TariffRow[]);
       } catch {
         // keep fallback defaults in UI
       }
     };
+    const loadTariffRules = async () => {
+      try {
+        const res = await fetch('/api/tariffs/rules', { cache: 'no-store' });
+        if (!res.ok) return;
+        const payload = await res.json();
+        if (payload?.success && payload.rules) setTariffRules(payload.rules);
+      } catch {
+        // built-in rules apply until the live ones load
+      }
+    };
+    const loadCostComponents = async () => {
+      try {
+        const res = await fetch('/api/landed-costs', { cache: 'no-store' });
+        if (!res.ok) return;
+        const payload = await res.json();
+        if (payload?.success && Array.isArray(payload.components)) {
+          setCostComponents(payload.components);
+        }
+      } catch {
+        // the default 3PL estimate applies until the live components load
+      }
+    };
+    const loadVendorCountries = async () => {
+      try {
+        const res = await fetch('/api/vendors', { cache: 'no-store' });
+        if (!res.ok) return;
+        const vendors = (await res.json()) as { name: string; countryCode: string | null }[];
+        if (!Array.isArray(vendors)) return;
+        setVendorCountries(
+          new Map(
+            vendors
+              .filter((vendor) => vendor.countryCode)
+              .map((vendor) => [vendor.name, vendor.countryCode!])
+          )
+        );
+      } catch {
+        // origins are guessed from the supplier until the vendor master loads
+      }
+    };
     loadTariffs();
+    loadTariffRules();
+    loadCostComponents();
+    loadVendorCountries();
   }, []);
 
   // Auto-switch Buyer based on Supplier
@@ -262,11 +351,45 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
     setFormData({ ...formData, items: newItems });
   };
 
+  // Same lookup as the server: manual rates and rules in force on the expected ship date
   const tariffRateMap = useMemo(() => {
+    const day = toTariffDate(formData.expShipDate);
     return new Map<string, number>(
-      Object.entries(tariffByKey).map(([key, rate]) => [normalizeTariffKey(key), Number(rate || 0)])
+      tariffRows
+        .filter((row) => row.source === 'manual' && isEffectiveOn(row, day))
+        .map((row) => [
+          normalizeTariffKey((row.tariffKey || row.productClass || '').trim()),
+          Number(row.tariffRate || 0),
+        ])
     );
-  }, [tariffByKey]);
+  }, [tariffRows, formData.expShipDate]);
+
+  const activeTariffRules = useMemo(
+    () => tariffRulesAsOf(tariffRules ?? DEFAULT_TARIFF_RULES, formData.expShipDate),
+    [tariffRules, formData.expShipDate]
+  );
+
+  // Same order as on save: typed here, else the vendor master, else the supplier guess
+  const orderOrigin = useMemo(
+    () =>
+      resolveOrderOrigin(
+        {
+          originCountry: formData.originCountry?.trim(),
+          originSource: formData.originCountry?.trim() ? 'MANUAL' : null,
+          supplierName: formData.supplierName,
+          supplierAddress: formData.supplierAddress,
+        },
+        vendorCountries.get(formData.supplierName || ''),
+        activeTariffRules
+      ),
+    [
+      formData.originCountry,
+      formData.supplierName,
+      formData.supplierAddress,
+      vendorCountries,
+      activeTariffRules,
+    ]
+  );
 
   const getTariffContext = (item: ExtractedOrderData['items'][number]) => {
     const baseTariffKey = deriveTariffKey({
@@ -274,47 +397,54 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
       collection: item.collection,
       material: item.material,
     });
-    const originCountry = inferOriginCountry(formData.supplierName, formData.supplierAddress);
+    const { originCountry } = orderOrigin;
     const tariffRate = resolveTariffRate({
       baseTariffKey,
       originCountry,
       tariffMap: tariffRateMap,
+      rules: activeTariffRules,
     }).rate;
 
-    return { tariffRate, baseTariffKey, originCountry };
+    const htsCode = suggestHtsCode(baseTariffKey, activeTariffRules);
+
+    return { tariffRate, baseTariffKey, originCountry, htsCode };
   };
 
   const getEstimate = (item: ExtractedOrderData['items'][number]) => {
     const qty = Number(item.totalQty || 0);
     const customerUnitPrice = Number(item.customerUnitPrice ?? item.unitPrice ?? 0);
     const vendorUnitPrice = Number(item.vendorUnitPrice || 0);
-    const { tariffRate, baseTariffKey, originCountry } = getTariffContext(item);
+    const { tariffRate, baseTariffKey, originCountry, htsCode } = getTariffContext(item);
     const vendorCost = vendorUnitPrice * qty;
     const dutyCost = vendorCost * tariffRate; // real customs duty
-    const handlingCost = dutyCost * 0.4; // 3PL handling = duty × 0.4
-    const shippingCost = 0.1 * qty; // $0.10/pc freight
-    const est3pl = handlingCost + shippingCost; // total 3PL bill
+    const costLines = landedCostLines(
+      componentsForOrder(costComponents ?? DEFAULT_LANDED_COST_COMPONENTS, {
+        shipVia: formData.shipVia,
+        originCountry,
+        customerName: formData.customerName,
+      }),
+      { qty, vendorCost, dutyCost, volumeCbm: null }
+    );
+    const est3pl = costLines.reduce((sum, line) => sum + line.amount, 0); // total landed cost
     const revenue = customerUnitPrice * qty;
     const margin = revenue - vendorCost - est3pl;
     const marginRate = revenue > 0 ? margin / revenue : 0;
     // Per-unit
     const dutyPerUnit = qty > 0 ? dutyCost / qty : 0;
-    const handlingPerUnit = qty > 0 ? handlingCost / qty : 0;
     const est3plPerUnit = qty > 0 ? est3pl / qty : 0;
     return {
       tariffRate,
       baseTariffKey,
       originCountry,
+      htsCode,
       revenue,
       vendorCost,
       dutyCost,
-      handlingCost,
-      shippingCost,
+      costLines,
       est3pl,
       margin,
       marginRate,
       dutyPerUnit,
-      handlingPerUnit,
       est3plPerUnit,
     };
   };
@@ -937,6 +1067,28 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
   );
   const uniqueStyles = new Set(formData.items.map((item) => item.productCode).filter(Boolean)).size;
 
+  // Re-run the extraction checks on every edit so highlights clear as rows are fixed.
+  const validationWarnings = useMemo(
+    () => (data ? validateExtraction(formData) : []),
+    [data, formData]
+  );
+  const warningsByItem = useMemo(() => {
+    const grouped = new Map<number, ExtractionWarning[]>();
+    for (const warning of validationWarnings) {
+      if (warning.itemIndex === undefined) continue;
+      grouped.set(warning.itemIndex, [...(grouped.get(warning.itemIndex) ?? []), warning]);
+    }
+    return grouped;
+  }, [validationWarnings]);
+  const formatWarning = (warning: ExtractionWarning) => {
+    const item = warning.itemIndex !== undefined ? formData.items[warning.itemIndex] : undefined;
+    return t(VALIDATION_MESSAGE_KEYS[warning.code], warning.message, {
+      item: item?.productCode || `#${(warning.itemIndex ?? 0) + 1}`,
+      expected: warning.expected?.toLocaleString() ?? '',
+      actual: warning.actual?.toLocaleString() ?? '',
+    });
+  };
+
   // UI State for "Popups"
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [alertConfig, setAlertConfig] = useState<{
@@ -953,6 +1105,116 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
   // Tab state
   const [activeTab, setActiveTab] = useState('summary');
 
+  // Set when save finds an existing order with the same VPO number
+  const [duplicate, setDuplicate] = useState<DuplicateOrder | null>(null);
+  const [isResolvingDuplicate, setIsResolvingDuplicate] = useState(false);
+  // Whether the save that ran into the duplicate was "Save draft"
+  const [duplicateAsDraft, setDuplicateAsDraft] = useState(false);
+
+  const resolveDuplicate = async (options: { revisionOf?: string; allowDuplicate?: boolean }) => {
+    setIsResolvingDuplicate(true);
+    try {
+      await saveOrder({ ...options, asDraft: duplicateAsDraft });
+    } finally {
+      setIsResolvingDuplicate(false);
+    }
+  };
+
+  /**
+   * `asDraft` stores the order as DRAFT for review by someone else (it stays out of
+   * totals and the workflow until approved). `revisionOf` / `allowDuplicate` resolve
+   * a duplicate VPO: apply as a revision of that order, or save a copy.
+   */
+  const saveOrder = async ({
+    asDraft = false,
+    ...options
+  }: { revisionOf?: string; allowDuplicate?: boolean; asDraft?: boolean } = {}) => {
+    try {
+      const dbPayload = {
+        ...formData,
+        vpoNumber: data?.vpoNumber || formData.vpoNumber,
+        customerName: data?.customerName || formData.customerName,
+        customerAddress: data?.customerAddress || formData.customerAddress,
+        shipmentTerms: data?.shipmentTerms || formData.shipmentTerms,
+        paymentTerms: data?.paymentTerms || formData.paymentTerms,
+        items: formData.items.map((item) => ({
+          productCode: item.productCode,
+          description: item.description,
+          quantity: item.totalQty || 0,
+          unitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
+          customerUnitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
+          vendorUnitPrice: Number(item.vendorUnitPrice ?? 0),
+          color: item.color,
+          material: item.material,
+          sizeBreakdown: item.sizeBreakdown,
+          productClass: item.productClass,
+          collection: item.collection,
+        })),
+        sourceFileId: data ? extraction?.fileId : undefined,
+        sourceFileName: data ? extraction?.fileName : undefined,
+        extraction: data ? extraction : undefined,
+        status: asDraft ? ORDER_STATUS.DRAFT : ORDER_STATUS.CONFIRMED,
+        ...options,
+      };
+
+      const res = await fetch('/api/save-order', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(dbPayload),
+      });
+
+      if (res.status === 409) {
+        const conflict = await res.json().catch(() => ({}));
+        if (conflict.duplicate) {
+          setDuplicate(conflict.duplicate);
+          setDuplicateAsDraft(asDraft);
+          return;
+        }
+      }
+
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || t('OrderForm.failedToSave', 'Failed to save'));
+      }
+
+      const result = await res.json().catch(() => ({}));
+      setDuplicate(null);
+
+      setAlertConfig({
+        open: true,
+        title: t('Common.success', 'Success'),
+        message: options.revisionOf
+          ? t(
+              'OrderForm.revisionApplied',
+              'Revision applied to the existing order (version {version}).',
+              {
+                version: result.version ?? '',
+              }
+            )
+          : asDraft
+            ? t(
+                'OrderForm.savedAsDraft',
+                'Draft saved. It stays out of totals until approved on the dashboard.'
+              )
+            : t('OrderForm.savedToDashboard', 'Order saved to Dashboard!'),
+        isError: false,
+      });
+      setIsSaved(true);
+    } catch (e: unknown) {
+      const errorMessage =
+        e instanceof Error ? e.message : t('OrderForm.unknownError', 'Unknown error');
+      setAlertConfig({
+        open: true,
+        title: t('OrderForm.saveFailed', 'Save Failed'),
+        message: t('OrderForm.failedToSaveWithReason', 'Failed to save order: {error}', {
+          error: errorMessage,
+        }),
+        isError: true,
+      });
+      console.error('Save Error:', e);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col">
       {/* ── Header ─────────────────────────────────────── */}
@@ -986,66 +1248,26 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
           </div>
         </div>
         <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!data && formData.items.length === 0}
+            title={t('OrderForm.saveDraftHint', 'Save for review without confirming the order')}
+            onClick={(e) => {
+              e.preventDefault();
+              void saveOrder({ asDraft: true });
+            }}
+          >
+            <FilePen className="h-4 w-4 mr-2" />
+            {t('OrderForm.saveDraft', 'Save draft')}
+          </Button>
           <Button
             size="sm"
             disabled={!data && formData.items.length === 0}
             className="bg-secondary text-secondary-foreground hover:bg-secondary/80 shadow-sm"
-            onClick={async (e) => {
+            onClick={(e) => {
               e.preventDefault();
-              try {
-                const dbPayload = {
-                  ...formData,
-                  vpoNumber: data?.vpoNumber || formData.vpoNumber,
-                  customerName: data?.customerName || formData.customerName,
-                  customerAddress: data?.customerAddress || formData.customerAddress,
-                  shipmentTerms: data?.shipmentTerms || formData.shipmentTerms,
-                  paymentTerms: data?.paymentTerms || formData.paymentTerms,
-                  items: formData.items.map((item) => ({
-                    productCode: item.productCode,
-                    description: item.description,
-                    quantity: item.totalQty || 0,
-                    unitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
-                    customerUnitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
-                    vendorUnitPrice: Number(item.vendorUnitPrice ?? 0),
-                    color: item.color,
-                    material: item.material,
-                    sizeBreakdown: item.sizeBreakdown,
-                    productClass: item.productClass,
-                    collection: item.collection,
-                  })),
-                };
-
-                const res = await fetch('/api/save-order', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify(dbPayload),
-                });
-
-                if (!res.ok) {
-                  const errData = await res.json().catch(() => ({}));
-                  throw new Error(errData.error || t('OrderForm.failedToSave', 'Failed to save'));
-                }
-
-                setAlertConfig({
-                  open: true,
-                  title: t('Common.success', 'Success'),
-                  message: t('OrderForm.savedToDashboard', 'Order saved to Dashboard!'),
-                  isError: false,
-                });
-                setIsSaved(true);
-              } catch (e: unknown) {
-                const errorMessage =
-                  e instanceof Error ? e.message : t('OrderForm.unknownError', 'Unknown error');
-                setAlertConfig({
-                  open: true,
-                  title: t('OrderForm.saveFailed', 'Save Failed'),
-                  message: t('OrderForm.failedToSaveWithReason', 'Failed to save order: {error}', {
-                    error: errorMessage,
-                  }),
-                  isError: true,
-                });
-                console.error('Save Error:', e);
-              }
+              void saveOrder();
             }}
           >
             <Save className="h-4 w-4 mr-2" />
@@ -1180,7 +1402,8 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
               {tab === 'summary'
                 ? t('OrderForm.tabSummary', 'Summary')
                 : tab === 'items'
-                  ? t('OrderForm.tabItems', 'Items ({count})', { count: formData.items.length })
+                  ? t('OrderForm.tabItems', 'Items ({count})', { count: formData.items.length }) +
+                    (validationWarnings.length > 0 ? ` ⚠ ${validationWarnings.length}` : '')
                   : tab === 'shipping'
                     ? t('OrderForm.tabShipping', 'Shipping')
                     : t('OrderForm.tabNotes', 'Notes')}
@@ -1387,6 +1610,31 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
                   </Button>
                 </div>
 
+                {validationWarnings.length > 0 && (
+                  <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/20 px-3 py-2 text-xs space-y-1">
+                    <div className="flex items-center gap-1.5 font-medium text-amber-800 dark:text-amber-300">
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      {t('OrderForm.validationTitle', '{count} extraction checks need review', {
+                        count: validationWarnings.length,
+                      })}
+                    </div>
+                    <ul className="space-y-0.5 pl-5 list-disc">
+                      {validationWarnings.map((warning, i) => (
+                        <li
+                          key={`${warning.code}-${warning.itemIndex ?? 'order'}-${i}`}
+                          className={
+                            warning.severity === 'error'
+                              ? 'text-destructive'
+                              : 'text-amber-800 dark:text-amber-300'
+                          }
+                        >
+                          {formatWarning(warning)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {formData.items.length === 0 ? (
                   <div className="border-2 border-dashed rounded-xl p-10 text-center bg-muted/5">
                     <Package className="h-8 w-8 text-muted-foreground/40 mx-auto mb-3" />
@@ -1401,7 +1649,17 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
                 ) : (
                   <div className="space-y-2">
                     {formData.items.map((item, idx) => (
-                      <div key={idx} className="border rounded-xl overflow-hidden bg-card">
+                      <div
+                        key={idx}
+                        className={`border rounded-xl overflow-hidden bg-card ${
+                          warningsByItem.get(idx)?.some((w) => w.severity === 'error')
+                            ? 'border-destructive/60 bg-destructive/5'
+                            : warningsByItem.has(idx)
+                              ? 'border-amber-400 bg-amber-50/40 dark:bg-amber-950/10'
+                              : ''
+                        }`}
+                        title={warningsByItem.get(idx)?.map(formatWarning).join('\n')}
+                      >
                         {/* Item Header Row */}
                         <div className="grid grid-cols-[1fr_1.5fr_90px_90px_90px_110px_36px] gap-2 p-2.5 items-center text-sm">
                           <Input
@@ -1523,29 +1781,42 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
                                   </div>
                                   <div>
                                     <span className="text-muted-foreground">
-                                      {t('OrderForm.dutyRate', 'Duty Rate')}:{' '}
+                                      {t('OrderForm.suggestedHts', 'HTS')}:{' '}
                                     </span>
-                                    <span className="font-medium">
-                                      {(est.tariffRate * 100).toFixed(1)}%
+                                    <span className="font-mono font-medium">
+                                      {est.htsCode || '-'}
                                     </span>
                                   </div>
                                   <div>
                                     <span className="text-muted-foreground">
-                                      {t('OrderForm.thirdPartyDutyPerPc', '3PL Duty/pc')}:{' '}
+                                      {t('OrderForm.dutyRate', 'Duty Rate')}:{' '}
                                     </span>
                                     <span className="font-medium">
-                                      ${est.handlingPerUnit.toFixed(3)}
-                                    </span>
-                                  </div>
-                                  <div>
-                                    <span className="text-muted-foreground">
-                                      {t('OrderForm.thirdPartyShipPerPc', '3PL Ship/pc')}:{' '}
+                                      {(est.tariffRate * 100).toFixed(1)}%
                                     </span>
-                                    <span className="font-medium">$0.100</span>
                                   </div>
+                                  {est.costLines.map((line) => (
+                                    <div key={line.name}>
+                                      <span className="text-muted-foreground">
+                                        {line.name}/pc:{' '}
+                                      </span>
+                                      <span className="font-medium">
+                                        $
+                                        {(Number(item.totalQty) > 0
+                                          ? line.amount / Number(item.totalQty)
+                                          : 0
+                                        ).toFixed(3)}
+                                      </span>
+                                      {line.missingVolume && (
+                                        <span className="text-amber-700 ml-1">
+                                          ({t('OrderForm.needsCbm', 'needs CBM')})
+                                        </span>
+                                      )}
+                                    </div>
+                                  ))}
                                   <div className="font-semibold col-span-2">
                                     <span className="text-muted-foreground">
-                                      {t('OrderForm.thirdPartyTotalPerPc', '3PL Total/pc')}:{' '}
+                                      {t('OrderForm.landedCostPerPc', 'Landed cost/pc')}:{' '}
                                     </span>
                                     <span>${est.est3plPerUnit.toFixed(3)}</span>
                                     <span className="text-muted-foreground ml-1">
@@ -1658,6 +1929,30 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
                         className="h-8 text-sm"
                       />
                     </div>
+                    <div className="space-y-1">
+                      <Label className="text-[11px] text-muted-foreground flex items-center gap-1">
+                        {t('OrderForm.originCountry', 'Country of Origin')}
+                        {orderOrigin.originSource === 'GUESSED' && (
+                          <Badge
+                            variant="outline"
+                            className="text-[10px] h-4 px-1 text-amber-700 border-amber-300"
+                          >
+                            {t('OrderForm.originGuessed', 'Guessed')}
+                          </Badge>
+                        )}
+                      </Label>
+                      <Input
+                        value={formData.originCountry || ''}
+                        maxLength={2}
+                        onChange={(e) => updateField('originCountry', e.target.value.toUpperCase())}
+                        placeholder={orderOrigin.originCountry}
+                        title={t(
+                          'OrderForm.originHint',
+                          'Leave blank to use the vendor master, or the guess from the supplier'
+                        )}
+                        className="h-8 text-sm uppercase"
+                      />
+                    </div>
                     <div className="space-y-1">
                       <Label className="text-[11px] text-muted-foreground">
                         {t('OrdersTable.shipTerms', 'Ship Terms')}
@@ -1729,6 +2024,52 @@ export function OrderForm({ data, isLoading, processingStep, rawText, error }: O
         onDownloadPdf={() => handleDownloadPdf('vendor')}
       />
 
+      {/* Duplicate VPO: review the diff, then revise the saved order or keep both */}
+      <Dialog open={!!duplicate} onOpenChange={(open) => !open && setDuplicate(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {t('OrderForm.duplicateVpoTitle', 'VPO {vpo} already exists', {
+                vpo: duplicate?.vpoNumber ?? '',
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t(
+                'OrderForm.duplicateVpoDescription',
+                'Saved on {date}. Review what this PO changes, then apply it as a revision of the saved order.',
+                {
+                  date: duplicate?.createdAt
+                    ? new Date(duplicate.createdAt).toLocaleDateString()
+                    : '—',
+                }
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] overflow-y-auto pr-1">
+            {duplicate && <OrderDiffView diff={duplicate.changes} />}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="ghost" onClick={() => setDuplicate(null)}>
+              {t('Common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isResolvingDuplicate}
+              onClick={() => resolveDuplicate({ allowDuplicate: true })}
+            >
+              {t('OrderForm.saveAsNewOrder', 'Save as new order')}
+            </Button>
+            <Button
+              disabled={isResolvingDuplicate || !duplicate?.changes.hasChanges}
+              onClick={() => duplicate && resolveDuplicate({ revisionOf: duplicate.id })}
+            >
+              {isResolvingDuplicate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('OrderForm.applyRevision', 'Apply revision')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* General Alert Dialog */}
       <Dialog
         open={alertConfig.open}
@@ -2,6 +2,13 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { OrderFile } from '@/lib/types';
+import {
+  guessSpreadsheetMapping,
+  isSpreadsheetFile,
+  pickSavedMapping,
+  type SavedSpreadsheetMapping,
+  type SheetTable,
+} from '@/lib/spreadsheet-import';
 import toast from 'react-hot-toast';
 
 interface OrdersContextType {
@@ -19,6 +26,48 @@ function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'Unknown error';
 }
 
+/**
+ * Spreadsheets skip the AI step: a saved customer mapping that fits the file (see
+ * `pickSavedMapping`) is applied straight away, anything else waits in `mapping` for
+ * the user to confirm.
+ */
+async function processSpreadsheet(file: File): Promise<Partial<OrderFile>> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch('/api/parse-spreadsheet', { method: 'POST', body: formData });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Spreadsheet import failed (${response.status})`);
+  }
+  const sheets: SheetTable[] = result.sheets;
+
+  const mappingsResponse = await fetch('/api/spreadsheet-mappings');
+  const saved: SavedSpreadsheetMapping[] = mappingsResponse.ok
+    ? ((await mappingsResponse.json()).data ?? [])
+    : [];
+
+  const { match } = pickSavedMapping(sheets, saved);
+  if (match) {
+    const { entry, extraction } = match;
+    return {
+      status: 'completed',
+      data: extraction.data,
+      originalText: extraction.text,
+      warnings: extraction.warnings,
+      fileHash: result.fileHash,
+      provider: 'spreadsheet',
+      spreadsheet: { sheets, mapping: entry.mapping, customerName: entry.customerName },
+    };
+  }
+
+  return {
+    status: 'mapping',
+    fileHash: result.fileHash,
+    provider: 'spreadsheet',
+    spreadsheet: { sheets, mapping: guessSpreadsheetMapping(sheets[0]) },
+  };
+}
+
 export function OrdersProvider({ children }: { children: ReactNode }) {
   // Session-only state: starts empty on fresh page load, persists during session
   const [orders, setOrders] = useState<OrderFile[]>([]);
@@ -61,6 +110,21 @@ export function OrdersProvider({ children }: { children: ReactNode }) {
           );
         }
 
+        if (isSpreadsheetFile(nextOrder.file.name)) {
+          const updates = await processSpreadsheet(nextOrder.file);
+          if (updates.status === 'completed') {
+            toast.success(`Successfully processed ${nextOrder.fileName}!`, { id: toastId });
+          } else {
+            toast(`Map the columns of ${nextOrder.fileName}`, { id: toastId });
+          }
+          setOrders((prev) =>
+            prev.map((o) =>
+              o.id === nextOrder.id ? { ...o, ...updates, processingStep: undefined } : o
+            )
+          );
+          return;
+        }
+
         // Step 1: Extract Text
         const formData = new FormData();
         formData.append('file', nextOrder.file);
@@ -97,7 +161,11 @@ export function OrdersProvider({ children }: { children: ReactNode }) {
         const aiResponse = await fetch('/api/parse-with-ai', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ text: extractedText }),
+          body: JSON.stringify({
+            text: extractedText,
+            tables: pdfResult.tables ?? [],
+            ocr: pdfResult.ocr ?? [],
+          }),
         });
 
         let aiResult;
@@ -128,6 +196,15 @@ export function OrdersProvider({ children }: { children: ReactNode }) {
                   status: 'completed',
                   data: aiResult.data,
                   originalText: extractedText,
+                  warnings: aiResult.warnings ?? [],
+                  fileHash: pdfResult.fileHash,
+                  fileId: pdfResult.fileId ?? undefined,
+                  provider: aiResult.source,
+                  model: aiResult.model,
+                  rawResponse: aiResult.rawResponse,
+                  fieldConfidence: aiResult.confidence,
+                  ocr: pdfResult.ocr?.length ? pdfResult.ocr : undefined,
+                  templateName: aiResult.templateName ?? undefined,
                 }
               : o
           )
@@ -13,12 +13,23 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Trash2, Loader2, Pencil, Save, X, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  Trash2,
+  Loader2,
+  Pencil,
+  Save,
+  X,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { ConfirmDialog } from '@/components/confirm-dialog';
 import { useI18n } from '@/components/locale-provider';
 
 import { type SerializedOrder, type OrderItem, type OrderWithItems } from '@/lib/types';
 import { getStageLabelZh } from '@/lib/workflow-stages';
+import { isDraftOrder, ORDER_STATUS } from '@/lib/constants';
 
 interface OrdersTableProps {
   initialOrders: SerializedOrder[];
@@ -36,6 +47,7 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
   const [hasMore, setHasMore] = useState(initialHasMore);
   const [loadingMore, setLoadingMore] = useState(false);
   const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [approvingId, setApprovingId] = useState<string | null>(null);
 
   const loadMoreOrders = async () => {
     setLoadingMore(true);
@@ -197,6 +209,28 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
     }
   };
 
+  // --- Approve draft ---
+  const approveOrder = async (id: string) => {
+    setApprovingId(id);
+    try {
+      const res = await fetch(`/api/orders/${id}/approve`, { method: 'POST' });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Failed to approve');
+      setOrders((prev) =>
+        prev.map((o) => (o.id === id ? { ...o, status: ORDER_STATUS.CONFIRMED } : o))
+      );
+      setExpandedData((prev) =>
+        prev && prev.id === id ? { ...prev, status: ORDER_STATUS.CONFIRMED } : prev
+      );
+      router.refresh();
+    } catch (error) {
+      console.error('Approve failed:', error);
+      alert(t('OrdersTable.approveFailed', 'Failed to approve order'));
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
   // --- Delete ---
   const handleDeleteClick = (id: string) => {
     setDeleteId(id);
@@ -295,7 +329,24 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
                     {order.soReference || '-'}
                   </TableCell>
                   <TableCell className="whitespace-nowrap">{order.customerName || '-'}</TableCell>
-                  <TableCell className="whitespace-nowrap">{order.supplierName || '-'}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {order.supplierName || '-'}
+                    {order.originCountry && (
+                      <Badge
+                        variant="outline"
+                        className={`ml-1 text-[10px] ${
+                          order.originSource === 'GUESSED' ? 'text-amber-700 border-amber-300' : ''
+                        }`}
+                        title={
+                          order.originSource === 'GUESSED'
+                            ? t('OrdersTable.originGuessed', 'Origin guessed from the supplier')
+                            : t('OrdersTable.origin', 'Country of origin')
+                        }
+                      >
+                        {order.originCountry}
+                      </Badge>
+                    )}
+                  </TableCell>
                   <TableCell className="text-xs whitespace-nowrap">
                     {order.orderDate || '-'}
                   </TableCell>
@@ -309,7 +360,16 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
                     {order.paymentTerms || '-'}
                   </TableCell>
                   <TableCell className="text-xs whitespace-nowrap">
-                    {getStageLabelZh(order.workflowStatus)}
+                    {isDraftOrder(order) ? (
+                      <Badge
+                        variant="outline"
+                        className="bg-amber-100 text-amber-800 border-amber-200"
+                      >
+                        {t('OrdersTable.draft', 'Draft')}
+                      </Badge>
+                    ) : (
+                      getStageLabelZh(order.workflowStatus)
+                    )}
                   </TableCell>
                   <TableCell className="text-right font-medium whitespace-nowrap">
                     ${order.totalAmount || '0'}
@@ -324,6 +384,22 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
                       >
                         {t('OrdersTable.open', 'Open')}
                       </Button>
+                      {isDraftOrder(order) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => approveOrder(order.id)}
+                          disabled={approvingId === order.id}
+                          title={t('OrdersTable.approve', 'Approve draft')}
+                        >
+                          {approvingId === order.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                          )}
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -359,7 +435,9 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
                                 <Button
                                   size="sm"
                                   variant="secondary"
-                                  disabled={!!workflowLoading || editMode}
+                                  disabled={
+                                    !!workflowLoading || editMode || isDraftOrder(expandedData)
+                                  }
                                   onClick={() => triggerWorkflow('START_TRANSIT')}
                                 >
                                   {workflowLoading === 'START_TRANSIT' ? (
@@ -370,7 +448,9 @@ export function OrdersTable({ initialOrders, initialHasMore, pageSize }: OrdersT
                                 <Button
                                   size="sm"
                                   variant="secondary"
-                                  disabled={!!workflowLoading || editMode}
+                                  disabled={
+                                    !!workflowLoading || editMode || isDraftOrder(expandedData)
+                                  }
                                   onClick={() => triggerWorkflow('MARK_DELIVERED')}
                                 >
                                   {workflowLoading === 'MARK_DELIVERED' ? (
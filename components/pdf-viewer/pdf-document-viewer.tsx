@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+import 'react-pdf/dist/Page/TextLayer.css';
+import { ChevronLeft, ChevronRight, ExternalLink, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/components/locale-provider';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.mjs',
+  import.meta.url
+).toString();
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2.5;
+
+interface PdfDocumentViewerProps {
+  /** URL of the PDF, e.g. `/api/files/<id>`. */
+  url: string;
+  className?: string;
+}
+
+/** Paged PDF viewer that fits the page to the container width; zoom scales from there. */
+export function PdfDocumentViewer({ url, className }: PdfDocumentViewerProps) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number>();
+  const [numPages, setNumPages] = useState(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setPageNumber(1);
+    setNumPages(0);
+  }, [url]);
+
+  return (
+    <div className={`flex flex-col rounded-lg border bg-muted/20 ${className ?? ''}`}>
+      <div className="flex items-center justify-between gap-2 border-b bg-background px-3 py-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={pageNumber <= 1}
+            onClick={() => setPageNumber((page) => page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {t('PdfViewer.pageOf', 'Page {page} / {total}', {
+              page: numPages ? pageNumber : 0,
+              total: numPages,
+            })}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={pageNumber >= numPages}
+            onClick={() => setPageNumber((page) => page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={scale <= MIN_SCALE}
+            onClick={() => setScale((value) => Math.max(MIN_SCALE, value - 0.25))}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-10 text-center text-xs text-muted-foreground tabular-nums">
+            {Math.round(scale * 100)}%
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={scale >= MAX_SCALE}
+            onClick={() => setScale((value) => Math.min(MAX_SCALE, value + 0.25))}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+            <a
+              href={url}
+              target="_blank"
+              rel="noreferrer"
+              title={t('PdfViewer.openInNewTab', 'Open in new tab')}
+            >
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto p-2">
+        <Document
+          file={url}
+          onLoadSuccess={({ numPages: total }) => setNumPages(total)}
+          loading={
+            <div className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('PdfViewer.loading', 'Loading PDF...')}
+            </div>
+          }
+          error={
+            <div className="p-8 text-center text-sm text-destructive">
+              {t('PdfViewer.loadFailed', 'The original PDF could not be loaded.')}
+            </div>
+          }
+        >
+          {width ? (
+            <Page
+              pageNumber={pageNumber}
+              width={Math.max(width - 16, 200)}
+              scale={scale}
+              className="mx-auto w-fit shadow-sm"
+            />
+          ) : null}
+        </Document>
+      </div>
+    </div>
+  );
+}
@@ -29,6 +29,9 @@ export function PdfUploader({ onFilesSelect }: PdfUploaderProps) {
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx', '.xlsm'],
+      'application/vnd.ms-excel': ['.xls'],
+      'text/csv': ['.csv'],
     },
     multiple: true, // Enable multiple
   });
@@ -53,7 +56,7 @@ export function PdfUploader({ onFilesSelect }: PdfUploaderProps) {
         <p className="text-sm text-muted-foreground max-w-xs mb-6">
           {t(
             'HomePage.uploadSubtitle',
-            'Drag and drop multiple PO files here, or click to browse.'
+            'Drag and drop PO files (PDF, Excel or CSV) here, or click to browse.'
           )}
         </p>
         <Button variant={isDragActive ? 'default' : 'outline'}>
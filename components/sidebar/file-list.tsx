@@ -1,4 +1,4 @@
-import { FileText, Loader2, CheckCircle2, AlertCircle, X, Plus } from 'lucide-react';
+import { FileText, Loader2, CheckCircle2, AlertCircle, X, Plus, Table2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
@@ -53,12 +53,26 @@ export function FileList({
                 {order.status === 'processing' && (
                   <Loader2 className="h-3.5 w-3.5 animate-spin text-amber-500" />
                 )}
-                {order.status === 'completed' && (
-                  <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />
-                )}
+                {order.status === 'completed' &&
+                  (order.warnings && order.warnings.length > 0 ? (
+                    <span
+                      title={t('FileList.needsReview', '{count} extraction warnings', {
+                        count: order.warnings.length,
+                      })}
+                    >
+                      <AlertCircle className="h-3.5 w-3.5 text-amber-500" />
+                    </span>
+                  ) : (
+                    <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />
+                  ))}
                 {order.status === 'error' && (
                   <AlertCircle className="h-3.5 w-3.5 text-destructive" />
                 )}
+                {order.status === 'mapping' && (
+                  <span title={t('FileList.needsMapping', 'Column mapping needed')}>
+                    <Table2 className="h-3.5 w-3.5 text-blue-500" />
+                  </span>
+                )}
                 {order.status === 'idle' && <FileText className="h-3.5 w-3.5 opacity-40" />}
               </div>
 
@@ -67,6 +81,26 @@ export function FileList({
                 <p className="truncate">
                   {order.fileName || order.file?.name || t('FileList.unknown', 'Unknown')}
                 </p>
+                {order.ocr && order.ocr.length > 0 && (
+                  <p
+                    className="text-[9px] text-amber-600 truncate mt-0.5"
+                    title={order.ocr
+                      .map((page) =>
+                        t('FileList.ocrPage', 'Page {page}: {confidence}%', {
+                          page: page.page,
+                          confidence: Math.round(page.confidence * 100),
+                        })
+                      )
+                      .join('\n')}
+                  >
+                    {t('FileList.ocrScanned', 'Scanned · OCR')}
+                  </p>
+                )}
+                {order.templateName && (
+                  <p className="text-[9px] text-blue-600 truncate mt-0.5">
+                    {t('FileList.template', 'Template: {name}', { name: order.templateName })}
+                  </p>
+                )}
                 {order.status === 'processing' && (
                   <p className="text-[9px] opacity-60 truncate mt-0.5">
                     {order.processingStep || t('FileList.processing', 'Processing...')}
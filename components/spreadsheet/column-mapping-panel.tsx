@@ -0,0 +1,357 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/components/locale-provider';
+import { useOrders } from '@/components/orders-provider';
+import type { OrderFile } from '@/lib/types';
+import {
+  SPREADSHEET_ITEM_FIELDS,
+  SPREADSHEET_ORDER_FIELDS,
+  buildSpreadsheetExtraction,
+  selectSheet,
+  sheetHeaders,
+  type SheetTable,
+  type SpreadsheetField,
+  type SpreadsheetMapping,
+} from '@/lib/spreadsheet-import';
+
+const FIELD_LABELS: Record<SpreadsheetField, [key: string, fallback: string]> = {
+  vpoNumber: ['SpreadsheetImport.fieldVpoNumber', 'VPO number'],
+  orderDate: ['SpreadsheetImport.fieldOrderDate', 'Order date'],
+  expShipDate: ['SpreadsheetImport.fieldExpShipDate', 'Ex-factory date'],
+  cancelDate: ['SpreadsheetImport.fieldCancelDate', 'Cancel date'],
+  soReference: ['SpreadsheetImport.fieldSoReference', 'SO reference'],
+  customerName: ['SpreadsheetImport.fieldCustomerName', 'Customer'],
+  customerAddress: ['SpreadsheetImport.fieldCustomerAddress', 'Customer address'],
+  supplierName: ['SpreadsheetImport.fieldSupplierName', 'Supplier'],
+  supplierAddress: ['SpreadsheetImport.fieldSupplierAddress', 'Supplier address'],
+  agent: ['SpreadsheetImport.fieldAgent', 'Agent'],
+  shipTo: ['SpreadsheetImport.fieldShipTo', 'Ship to'],
+  shipVia: ['SpreadsheetImport.fieldShipVia', 'Ship via'],
+  shipmentTerms: ['SpreadsheetImport.fieldShipmentTerms', 'Shipment terms'],
+  paymentTerms: ['SpreadsheetImport.fieldPaymentTerms', 'Payment terms'],
+  customerNotes: ['SpreadsheetImport.fieldCustomerNotes', 'Notes'],
+  productCode: ['SpreadsheetImport.fieldProductCode', 'Product code'],
+  description: ['SpreadsheetImport.fieldDescription', 'Description'],
+  color: ['SpreadsheetImport.fieldColor', 'Color'],
+  material: ['SpreadsheetImport.fieldMaterial', 'Material'],
+  collection: ['SpreadsheetImport.fieldCollection', 'Collection'],
+  productClass: ['SpreadsheetImport.fieldProductClass', 'Class'],
+  totalQty: ['SpreadsheetImport.fieldTotalQty', 'Qty'],
+  unitPrice: ['SpreadsheetImport.fieldUnitPrice', 'Unit price'],
+  vendorUnitPrice: ['SpreadsheetImport.fieldVendorUnitPrice', 'Vendor price'],
+  extension: ['SpreadsheetImport.fieldExtension', 'Amount'],
+};
+
+/** Radix Select does not allow an empty item value. */
+const UNMAPPED = '__none__';
+
+/** Rows drawn in the sheet preview; the mapping still reads the whole sheet. */
+const PREVIEW_ROWS = 200;
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+/** The raw sheet as a grid, with the header row picked by the mapping highlighted. */
+export function SheetPreview({ table, headerRow }: { table: SheetTable; headerRow?: number }) {
+  const width = Math.max(0, ...table.rows.map((row) => row.length));
+  return (
+    <ScrollArea className="h-full w-full">
+      <table className="text-[11px] border-collapse">
+        <tbody>
+          {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+            <tr
+              key={index}
+              className={cn(index + 1 === headerRow && 'bg-primary/10 font-semibold')}
+            >
+              <td className="sticky left-0 bg-muted px-1.5 text-right text-muted-foreground border">
+                {index + 1}
+              </td>
+              {Array.from({ length: width }, (_, column) => (
+                <td key={column} className="border px-1.5 py-0.5 whitespace-nowrap">
+                  {row[column] ?? ''}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </ScrollArea>
+  );
+}
+
+/**
+ * Column mapping for a spreadsheet PO. Confirming saves the mapping under the customer,
+ * so their next file with the same headers is imported without this step.
+ */
+export function ColumnMappingPanel({ order }: { order: OrderFile }) {
+  const { t } = useI18n();
+  const { updateOrder } = useOrders();
+  const spreadsheet = order.spreadsheet;
+  const [mapping, setMapping] = useState<SpreadsheetMapping | undefined>(spreadsheet?.mapping);
+  const [customerName, setCustomerName] = useState(spreadsheet?.customerName ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const { data: savedRes } = useSWR('/api/spreadsheet-mappings', fetcher);
+  const savedCustomers: string[] = (savedRes?.data ?? []).map(
+    (entry: { customerName: string }) => entry.customerName
+  );
+
+  const table = spreadsheet && mapping ? selectSheet(spreadsheet.sheets, mapping) : undefined;
+  const headers = useMemo(
+    () => (table && mapping ? sheetHeaders(table, mapping.headerRow).filter(Boolean) : []),
+    [table, mapping]
+  );
+  const preview = useMemo(
+    () => (table && mapping ? buildSpreadsheetExtraction(table, mapping, customerName) : null),
+    [table, mapping, customerName]
+  );
+
+  if (!spreadsheet || !mapping || !table || !preview) return null;
+
+  const setColumn = (field: SpreadsheetField, header: string) => {
+    const columns = { ...mapping.columns };
+    if (header === UNMAPPED) delete columns[field];
+    else columns[field] = header;
+    setMapping({
+      ...mapping,
+      columns,
+      sizeColumns: mapping.sizeColumns.filter((size) => size !== header),
+    });
+  };
+
+  const toggleSize = (header: string) => {
+    const sizeColumns = mapping.sizeColumns.includes(header)
+      ? mapping.sizeColumns.filter((size) => size !== header)
+      : [...mapping.sizeColumns, header];
+    setMapping({ ...mapping, sizeColumns });
+  };
+
+  const handleApply = async () => {
+    if (!customerName.trim()) {
+      toast.error(t('SpreadsheetImport.customerRequired', 'Enter the customer for this mapping'));
+      return;
+    }
+    if (preview.data.items.length === 0) {
+      toast.error(t('SpreadsheetImport.noItems', 'No line items found with this mapping'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/spreadsheet-mappings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ customerName: customerName.trim(), mapping }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+      }
+      updateOrder(order.id, {
+        status: 'completed',
+        data: preview.data,
+        warnings: preview.warnings,
+        originalText: preview.text,
+        spreadsheet: { ...spreadsheet, mapping, customerName: customerName.trim() },
+      });
+      toast.success(t('SpreadsheetImport.mappingSaved', 'Mapping saved'));
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderFieldSelect = (field: SpreadsheetField) => (
+    <div key={field} className="space-y-1">
+      <Label className="text-xs">{t(...FIELD_LABELS[field])}</Label>
+      <Select
+        value={mapping.columns[field] ?? UNMAPPED}
+        onValueChange={(value) => setColumn(field, value)}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNMAPPED}>
+            {t('SpreadsheetImport.unmapped', '— Not mapped —')}
+          </SelectItem>
+          {headers.map((header) => (
+            <SelectItem key={header} value={header}>
+              {header}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const mappedHeaders = new Set(Object.values(mapping.columns));
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">
+          {t('SpreadsheetImport.title', 'Map spreadsheet columns')}
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          {t(
+            'SpreadsheetImport.subtitle',
+            'Match the sheet headers to order fields. The mapping is saved for this customer.'
+          )}
+        </p>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-5">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('SpreadsheetImport.customer', 'Customer')}</Label>
+              <Input
+                className="h-8 text-xs"
+                list="spreadsheet-mapping-customers"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+              />
+              <datalist id="spreadsheet-mapping-customers">
+                {savedCustomers.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('SpreadsheetImport.sheet', 'Sheet')}</Label>
+              <Select
+                value={table.name}
+                onValueChange={(name) =>
+                  setMapping({
+                    ...mapping,
+                    sheetName: name,
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {spreadsheet.sheets.map((sheet) => (
+                    <SelectItem key={sheet.name} value={sheet.name}>
+                      {sheet.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('SpreadsheetImport.headerRow', 'Header row')}</Label>
+              <Input
+                className="h-8 text-xs"
+                type="number"
+                min={1}
+                max={table.rows.length}
+                value={mapping.headerRow}
+                onChange={(e) =>
+                  setMapping({ ...mapping, headerRow: Math.max(1, Number(e.target.value) || 1) })
+                }
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              {t('SpreadsheetImport.itemColumns', 'Line item columns')}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {SPREADSHEET_ITEM_FIELDS.map(renderFieldSelect)}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              {t('SpreadsheetImport.sizeColumns', 'Size quantity columns')}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {headers
+                .filter((header) => !mappedHeaders.has(header))
+                .map((header) => (
+                  <Button
+                    key={header}
+                    size="sm"
+                    variant={mapping.sizeColumns.includes(header) ? 'default' : 'outline'}
+                    className="h-7 text-xs"
+                    onClick={() => toggleSize(header)}
+                  >
+                    {header}
+                  </Button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              {t('SpreadsheetImport.orderColumns', 'Order columns')}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {SPREADSHEET_ORDER_FIELDS.map(renderFieldSelect)}
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-xs space-y-1">
+            <div className="font-medium">
+              {t('SpreadsheetImport.previewSummary', '{items} line items · {qty} pcs', {
+                items: preview.data.items.length,
+                qty: preview.data.items
+                  .reduce((sum, item) => sum + (item.totalQty || 0), 0)
+                  .toLocaleString(),
+              })}
+            </div>
+            {preview.skippedRows.length > 0 && (
+              <div className="text-amber-600">
+                {t(
+                  'SpreadsheetImport.skippedRows',
+                  'Rows without a product code were skipped: {rows}',
+                  {
+                    rows: preview.skippedRows.join(', '),
+                  }
+                )}
+              </div>
+            )}
+            {preview.warnings.map((warning, index) => (
+              <div key={index} className="text-amber-600">
+                {warning.message}
+              </div>
+            ))}
+          </div>
+        </div>
+      </ScrollArea>
+
+      <div className="px-4 py-3 border-t flex justify-end">
+        <Button size="sm" onClick={handleApply} disabled={saving}>
+          {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+          {t('SpreadsheetImport.apply', 'Save mapping & continue')}
+        </Button>
+      </div>
+    </div>
+  );
+}
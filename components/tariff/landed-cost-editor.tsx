@@ -0,0 +1,330 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+import { describeApiError } from '@/lib/api-helpers';
+import {
+  DEFAULT_CONTAINER_CBM,
+  LANDED_COST_BASES,
+  type LandedCostBasis,
+  type LandedCostComponent,
+} from '@/lib/landed-cost';
+
+/** Form state: numbers and scopes are edited as text; an empty scope means "any". */
+interface ComponentDraft {
+  name: string;
+  basis: LandedCostBasis;
+  rate: string;
+  containerCbm: string;
+  shipVia: string;
+  originCountry: string;
+  customerName: string;
+  enabled: boolean;
+  notes: string;
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const toDraft = (components: LandedCostComponent[]): ComponentDraft[] =>
+  components.map((component) => ({
+    name: component.name,
+    basis: component.basis,
+    rate: String(component.rate),
+    containerCbm: component.containerCbm ? String(component.containerCbm) : '',
+    shipVia: component.shipVia ?? '',
+    originCountry: component.originCountry ?? '',
+    customerName: component.customerName ?? '',
+    enabled: component.enabled,
+    notes: component.notes ?? '',
+  }));
+
+const toPayload = (draft: ComponentDraft[]): LandedCostComponent[] =>
+  draft.map((component, index) => ({
+    name: component.name.trim(),
+    basis: component.basis,
+    rate: Number(component.rate) || 0,
+    containerCbm:
+      component.basis === 'PER_CONTAINER' && Number(component.containerCbm) > 0
+        ? Number(component.containerCbm)
+        : null,
+    shipVia: component.shipVia.trim() || null,
+    originCountry: component.originCountry.trim() || null,
+    customerName: component.customerName.trim() || null,
+    enabled: component.enabled,
+    sortOrder: (index + 1) * 10,
+    notes: component.notes.trim() || null,
+  }));
+
+/**
+ * Editor for the landed-cost components that make up an order line's estimated
+ * cost beyond its vendor price. The list is saved as a whole; its order is the order
+ * the breakdown shows.
+ */
+export function LandedCostEditor() {
+  const { t } = useI18n();
+  const { data, isLoading, mutate } = useSWR('/api/landed-costs', fetcher);
+  const [draft, setDraft] = useState<ComponentDraft[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (data?.components) setDraft(toDraft(data.components));
+  }, [data]);
+
+  if (isLoading || !draft) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        {t('TariffManager.loading', 'Loading...')}
+      </div>
+    );
+  }
+
+  const update = (index: number, updates: Partial<ComponentDraft>) =>
+    setDraft(draft.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+
+  const basisLabel = (basis: LandedCostBasis) =>
+    ({
+      PER_UNIT: t('LandedCost.perUnit', 'Per piece ($)'),
+      PER_CBM: t('LandedCost.perCbm', 'Per CBM ($)'),
+      PER_CONTAINER: t('LandedCost.perContainer', 'Per container ($)'),
+      PERCENT_OF_VALUE: t('LandedCost.percentOfValue', '% of vendor value'),
+      PERCENT_OF_DUTY: t('LandedCost.percentOfDuty', '% of duty'),
+    })[basis];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/landed-costs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ components: toPayload(draft) }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Save failed'));
+      toast.success(t('LandedCost.saved', 'Landed-cost components saved'));
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {data?.configured ? (
+          <Badge variant="secondary">{t('LandedCost.live', 'Saved components in use')}</Badge>
+        ) : (
+          <Badge variant="outline">
+            {t('LandedCost.builtIn', 'Built-in 3PL estimate in use until components are saved')}
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => data?.defaults && setDraft(toDraft(data.defaults))}
+            disabled={saving}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {t('TariffRules.resetDefaults', 'Load defaults')}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              setDraft([
+                ...draft,
+                {
+                  name: '',
+                  basis: 'PER_UNIT',
+                  rate: '',
+                  containerCbm: '',
+                  shipVia: '',
+                  originCountry: '',
+                  customerName: '',
+                  enabled: true,
+                  notes: '',
+                },
+              ])
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t('LandedCost.add', 'Add component')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('LandedCost.save', 'Save components')}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {t(
+          'LandedCost.hint',
+          'Each order line is charged every enabled component whose ship via, origin and customer match the order (blank = any). When several components share a name, the most specific one applies. Percentages are fractions: 0.05 = 5%. Per-CBM and per-container components need the line’s CBM per piece; per-container rates are spread over the container volume ({cbm} CBM when blank). Saved orders keep their estimates until recomputed.',
+          { cbm: DEFAULT_CONTAINER_CBM }
+        )}
+      </p>
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('LandedCost.name', 'Component')}</TableHead>
+              <TableHead>{t('LandedCost.basis', 'Basis')}</TableHead>
+              <TableHead>{t('LandedCost.rate', 'Rate')}</TableHead>
+              <TableHead>{t('LandedCost.containerCbm', 'Container CBM')}</TableHead>
+              <TableHead>{t('LandedCost.shipVia', 'Ship via')}</TableHead>
+              <TableHead>{t('LandedCost.origin', 'Origin')}</TableHead>
+              <TableHead>{t('LandedCost.customer', 'Customer')}</TableHead>
+              <TableHead>{t('TariffRules.enabled', 'Enabled')}</TableHead>
+              <TableHead>{t('TariffManager.notes', 'Notes')}</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {draft.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="py-6 text-center text-muted-foreground">
+                  {t(
+                    'LandedCost.empty',
+                    'No components: saving an empty list restores the defaults'
+                  )}
+                </TableCell>
+              </TableRow>
+            ) : (
+              draft.map((component, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={component.name}
+                      onChange={(e) => update(index, { name: e.target.value })}
+                      placeholder={t('LandedCost.namePlaceholder', 'Ocean freight')}
+                      className="h-8 min-w-[140px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={component.basis}
+                      onValueChange={(value) => update(index, { basis: value as LandedCostBasis })}
+                    >
+                      <SelectTrigger className="h-8 min-w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LANDED_COST_BASES.map((basis) => (
+                          <SelectItem key={basis} value={basis}>
+                            {basisLabel(basis)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={component.rate}
+                      onChange={(e) => update(index, { rate: e.target.value })}
+                      className="h-8 w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={component.containerCbm}
+                      onChange={(e) => update(index, { containerCbm: e.target.value })}
+                      placeholder={String(DEFAULT_CONTAINER_CBM)}
+                      disabled={component.basis !== 'PER_CONTAINER'}
+                      className="h-8 w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={component.shipVia}
+                      onChange={(e) => update(index, { shipVia: e.target.value })}
+                      placeholder={t('LandedCost.any', 'Any')}
+                      className="h-8 w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={component.originCountry}
+                      onChange={(e) =>
+                        update(index, { originCountry: e.target.value.toUpperCase() })
+                      }
+                      placeholder={t('LandedCost.any', 'Any')}
+                      maxLength={2}
+                      className="h-8 w-16"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={component.customerName}
+                      onChange={(e) => update(index, { customerName: e.target.value })}
+                      placeholder={t('LandedCost.any', 'Any')}
+                      className="h-8 w-32"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={component.enabled}
+                      onChange={(e) => update(index, { enabled: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={component.notes}
+                      onChange={(e) => update(index, { notes: e.target.value })}
+                      className="h-8 min-w-[120px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
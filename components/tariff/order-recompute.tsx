@@ -0,0 +1,356 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChevronDown, ChevronRight, Loader2, RefreshCw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+import { describeApiError } from '@/lib/api-helpers';
+import { round2 } from '@/lib/finance-math';
+import { formatDate, money } from '@/lib/format';
+import type { EstimateTotals, LineEstimates } from '@/lib/order-recompute';
+import { WORKFLOW_STAGES, getStageLabelEn, getStageLabelZh } from '@/lib/workflow-stages';
+
+interface RecomputeLine {
+  itemId: string;
+  productCode: string | null;
+  description: string | null;
+  fields: string[];
+  before: LineEstimates;
+  after: LineEstimates;
+}
+
+interface RecomputeOrder {
+  orderId: string;
+  vpoNumber: string;
+  customerName: string | null;
+  workflowStatus: string | null;
+  expShipDate: string | null;
+  before: EstimateTotals;
+  after: EstimateTotals;
+  lines: RecomputeLine[];
+}
+
+interface RecomputeResult {
+  scanned: number;
+  orders: RecomputeOrder[];
+}
+
+const formatRate = (rate: string | null) => `${(Number(rate || 0) * 100).toFixed(2)}%`;
+
+const signedMoney = (value: number) => (value > 0 ? `+${money(value)}` : money(value));
+
+const deltaClass = (value: number, higherIsBetter: boolean) =>
+  value === 0
+    ? 'text-muted-foreground'
+    : value > 0 === higherIsBetter
+      ? 'text-green-700'
+      : 'text-red-600';
+
+/**
+ * Bring saved order estimates up to date after tariff keys or rules change: pick
+ * orders by stage, ship date or tariff key, preview what would change, then apply.
+ * Each updated order gets a version in its history.
+ */
+export function OrderRecompute({ tariffKeys }: { tariffKeys: string[] }) {
+  const { t, locale } = useI18n();
+  const [stages, setStages] = useState<Set<string>>(new Set());
+  const [shipFrom, setShipFrom] = useState('');
+  const [shipTo, setShipTo] = useState('');
+  const [tariffKey, setTariffKey] = useState('');
+  const [preview, setPreview] = useState<RecomputeResult | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<'preview' | 'apply' | null>(null);
+
+  const stageLabel = locale === 'zh' ? getStageLabelZh : getStageLabelEn;
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const request = async (body: Record<string, unknown>): Promise<RecomputeResult> => {
+    const res = await fetch('/api/orders/recompute', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        stages: Array.from(stages),
+        shipFrom,
+        shipTo,
+        tariffKey: tariffKey.trim() || null,
+        ...body,
+      }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(describeApiError(payload, 'Recompute failed'));
+    return payload.data;
+  };
+
+  const runPreview = async () => {
+    setBusy('preview');
+    try {
+      setPreview(await request({}));
+      setExpanded(new Set());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Recompute failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const apply = async () => {
+    if (!preview || preview.orders.length === 0) return;
+    const confirmed = window.confirm(
+      t('OrderRecompute.confirmApply', 'Update the estimates of {count} orders?', {
+        count: preview.orders.length,
+      })
+    );
+    if (!confirmed) return;
+
+    setBusy('apply');
+    try {
+      // Only the previewed orders are touched, even if more went stale meanwhile
+      const result = await request({
+        orderIds: preview.orders.map((order) => order.orderId),
+        apply: true,
+      });
+      toast.success(
+        t('OrderRecompute.applied', 'Updated {count} orders', { count: result.orders.length })
+      );
+      setPreview(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Recompute failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const totals = preview?.orders.reduce(
+    (sum, order) => ({
+      duty: round2(sum.duty + order.after.dutyCost - order.before.dutyCost),
+      threePl: round2(sum.threePl + order.after.estimated3plCost - order.before.estimated3plCost),
+      margin: round2(sum.margin + order.after.estimatedMargin - order.before.estimatedMargin),
+    }),
+    { duty: 0, threePl: 0, margin: 0 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {t(
+          'OrderRecompute.hint',
+          'Saved orders keep the duty, 3PL and margin estimates they were priced with. Recompute them here after changing tariff keys or rules.'
+        )}
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>{t('OrderRecompute.stages', 'Workflow stages')}</Label>
+          <div className="flex flex-wrap gap-3">
+            {WORKFLOW_STAGES.map((stage) => (
+              <label key={stage} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={stages.has(stage)}
+                  onChange={() => setStages(toggle(stages, stage))}
+                />
+                {stageLabel(stage)}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>{t('OrderRecompute.shipFrom', 'Ship date from')}</Label>
+          <Input
+            type="date"
+            value={shipFrom}
+            onChange={(e) => setShipFrom(e.target.value)}
+            className="h-9 w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{t('OrderRecompute.shipTo', 'to')}</Label>
+          <Input
+            type="date"
+            value={shipTo}
+            onChange={(e) => setShipTo(e.target.value)}
+            className="h-9 w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{t('OrderRecompute.tariffKey', 'Tariff key or HTS code')}</Label>
+          <Input
+            value={tariffKey}
+            onChange={(e) => setTariffKey(e.target.value)}
+            placeholder={t('OrderRecompute.anyKey', 'Any')}
+            list="recompute-tariff-keys"
+            className="h-9 w-64"
+          />
+          <datalist id="recompute-tariff-keys">
+            {tariffKeys.map((key) => (
+              <option key={key} value={key} />
+            ))}
+          </datalist>
+        </div>
+        <Button onClick={runPreview} disabled={busy !== null}>
+          {busy === 'preview' ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="mr-2 h-4 w-4" />
+          )}
+          {t('OrderRecompute.preview', 'Preview')}
+        </Button>
+      </div>
+
+      {preview && totals && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span>
+              {t('OrderRecompute.summary', '{changed} of {scanned} matching orders would change', {
+                changed: preview.orders.length,
+                scanned: preview.scanned,
+              })}
+            </span>
+            {preview.orders.length > 0 && (
+              <>
+                <span className={deltaClass(totals.duty, false)}>
+                  {t('OrderRecompute.duty', 'Duty')} {signedMoney(totals.duty)}
+                </span>
+                <span className={deltaClass(totals.threePl, false)}>
+                  {t('OrderRecompute.threePl', '3PL')} {signedMoney(totals.threePl)}
+                </span>
+                <span className={deltaClass(totals.margin, true)}>
+                  {t('OrderRecompute.margin', 'Margin')} {signedMoney(totals.margin)}
+                </span>
+                <Button size="sm" className="ml-auto" onClick={apply} disabled={busy !== null}>
+                  {busy === 'apply' ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  {t('OrderRecompute.apply', 'Apply to {count} orders', {
+                    count: preview.orders.length,
+                  })}
+                </Button>
+              </>
+            )}
+          </div>
+
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]" />
+                  <TableHead>{t('OrderRecompute.vpo', 'VPO')}</TableHead>
+                  <TableHead>{t('OrderRecompute.customer', 'Customer')}</TableHead>
+                  <TableHead>{t('OrderRecompute.stage', 'Stage')}</TableHead>
+                  <TableHead>{t('OrderRecompute.shipDate', 'Ship date')}</TableHead>
+                  <TableHead className="text-right">{t('OrderRecompute.duty', 'Duty')}</TableHead>
+                  <TableHead className="text-right">{t('OrderRecompute.threePl', '3PL')}</TableHead>
+                  <TableHead className="text-right">
+                    {t('OrderRecompute.margin', 'Margin')}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                      {t('OrderRecompute.upToDate', 'Every matching order is up to date')}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  preview.orders.map((order) => {
+                    const isExpanded = expanded.has(order.orderId);
+                    const marginDelta = round2(
+                      order.after.estimatedMargin - order.before.estimatedMargin
+                    );
+                    return (
+                      <Fragment key={order.orderId}>
+                        <TableRow>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => setExpanded(toggle(expanded, order.orderId))}
+                            >
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </TableCell>
+                          <TableCell className="font-medium">{order.vpoNumber}</TableCell>
+                          <TableCell>{order.customerName || '-'}</TableCell>
+                          <TableCell>{stageLabel(order.workflowStatus)}</TableCell>
+                          <TableCell>{formatDate(order.expShipDate)}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(order.before.dutyCost)} → {money(order.after.dutyCost)}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(order.before.estimated3plCost)} →{' '}
+                            {money(order.after.estimated3plCost)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right whitespace-nowrap ${deltaClass(marginDelta, true)}`}
+                          >
+                            {money(order.before.estimatedMargin)} →{' '}
+                            {money(order.after.estimatedMargin)}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded &&
+                          order.lines.map((line) => (
+                            <TableRow key={line.itemId} className="bg-muted/30 text-xs">
+                              <TableCell />
+                              <TableCell colSpan={2}>
+                                <span className="font-medium">{line.productCode || '-'}</span>{' '}
+                                <span className="text-muted-foreground">{line.description}</span>
+                              </TableCell>
+                              <TableCell colSpan={2} className="text-muted-foreground">
+                                {line.before.productClass !== line.after.productClass
+                                  ? `${line.before.productClass || '-'} → ${line.after.productClass}`
+                                  : line.after.productClass}
+                                {' · '}
+                                {formatRate(line.before.tariffRate)} →{' '}
+                                {formatRate(line.after.tariffRate)}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {money(Number(line.before.estimatedDutyCost || 0))} →{' '}
+                                {money(Number(line.after.estimatedDutyCost || 0))}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {money(Number(line.before.estimated3plCost || 0))} →{' '}
+                                {money(Number(line.after.estimated3plCost || 0))}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {money(Number(line.before.estimatedMargin || 0))} →{' '}
+                                {money(Number(line.after.estimatedMargin || 0))}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import useSWR from 'swr';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+import type { TariffRatePeriod } from '@/lib/tariffs';
+
+interface TariffVersion {
+  id: string;
+  tariffRate: number;
+  source: string;
+  notes: string | null;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  updatedAt: string | null;
+}
+
+interface TariffHistory {
+  tariffKey: string;
+  versions: TariffVersion[];
+  ruleTimeline: TariffRatePeriod[];
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+/** Rate history of one tariff key: its saved versions and what the rules gave over time. */
+export function TariffHistoryDialog({
+  tariffKey,
+  onOpenChange,
+}: {
+  tariffKey: string | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { t } = useI18n();
+  const { data, isLoading } = useSWR(
+    tariffKey ? `/api/tariffs/history?key=${encodeURIComponent(tariffKey)}` : null,
+    fetcher
+  );
+  const history: TariffHistory | undefined = data?.data;
+
+  const period = (from: string | null, to: string | null) =>
+    `${from ?? t('TariffHistory.always', 'always')} → ${to ?? t('TariffHistory.open', 'open')}`;
+
+  return (
+    <Dialog open={!!tariffKey} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('TariffHistory.title', 'Rate history')}</DialogTitle>
+          <DialogDescription>{tariffKey}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !history ? (
+          <div className="py-6 text-center text-muted-foreground">
+            {t('TariffManager.loading', 'Loading...')}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {t('TariffHistory.versions', 'Saved rates')}
+              </h4>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('TariffHistory.period', 'Period')}</TableHead>
+                      <TableHead>{t('TariffManager.tariffRate', 'Tariff Rate')}</TableHead>
+                      <TableHead>{t('TariffManager.source', 'Source')}</TableHead>
+                      <TableHead>{t('TariffManager.notes', 'Notes')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.versions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          {t('TariffHistory.noVersions', 'No saved rate for this key')}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      history.versions.map((version) => (
+                        <TableRow key={version.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {period(version.effectiveFrom, version.effectiveTo)}
+                          </TableCell>
+                          <TableCell>{formatRate(version.tariffRate)}</TableCell>
+                          <TableCell>{version.source}</TableCell>
+                          <TableCell>{version.notes}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {t('TariffHistory.rules', 'From the tariff rules')}
+              </h4>
+              <p className="text-xs text-muted-foreground">
+                {t(
+                  'TariffHistory.rulesHint',
+                  'Orders without a manual rate use these; auto-synced rates copy today’s value.'
+                )}
+              </p>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('TariffHistory.period', 'Period')}</TableHead>
+                      <TableHead>{t('TariffManager.tariffRate', 'Tariff Rate')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.ruleTimeline.map((entry) => (
+                      <TableRow key={entry.effectiveFrom ?? 'always'}>
+                        <TableCell className="whitespace-nowrap">
+                          {period(entry.effectiveFrom, entry.effectiveTo)}
+                        </TableCell>
+                        <TableCell>{formatRate(entry.rate)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
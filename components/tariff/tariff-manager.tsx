@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
+import { History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -11,7 +12,13 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useI18n } from '@/components/locale-provider';
+import { TariffRulesEditor } from '@/components/tariff/tariff-rules-editor';
+import { TariffHistoryDialog } from '@/components/tariff/tariff-history-dialog';
+import { OrderRecompute } from '@/components/tariff/order-recompute';
+import { LandedCostEditor } from '@/components/tariff/landed-cost-editor';
+import { toTariffDate } from '@/lib/tariffs';
 
 interface TariffRow {
   id: string;
@@ -19,6 +26,8 @@ interface TariffRow {
   tariffRate: number;
   source: string;
   notes: string | null;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
 }
 
 export function TariffManager() {
@@ -28,6 +37,9 @@ export function TariffManager() {
   const [loading, setLoading] = useState(false);
   const [savingId, setSavingId] = useState<string | null>(null);
   const [newClass, setNewClass] = useState('');
+  // Date that saved rates apply from; empty means today
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
 
   const loadRows = async () => {
     setLoading(true);
@@ -51,10 +63,17 @@ export function TariffManager() {
     loadRows();
   }, []);
 
-  const sortedRows = useMemo(
-    () => [...rows].sort((a, b) => a.tariffKey.localeCompare(b.tariffKey)),
-    [rows]
-  );
+  // Closed versions are only shown in the history dialog
+  const sortedRows = useMemo(() => {
+    const today = toTariffDate();
+    return rows
+      .filter((row) => !row.effectiveTo || row.effectiveTo > today)
+      .sort(
+        (a, b) =>
+          a.tariffKey.localeCompare(b.tariffKey) ||
+          (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? '')
+      );
+  }, [rows]);
 
   const handleSync = async () => {
     setLoading(true);
@@ -72,7 +91,11 @@ export function TariffManager() {
       const res = await fetch(`/api/tariffs/${row.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ tariffRate: row.tariffRate, notes: row.notes }),
+        body: JSON.stringify({
+          tariffRate: row.tariffRate,
+          notes: row.notes,
+          effectiveFrom: effectiveFrom || undefined,
+        }),
       });
       if (res.ok) {
         await loadRows();
@@ -89,7 +112,10 @@ export function TariffManager() {
       await fetch('/api/tariffs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ tariffKey: newClass.trim() }),
+        body: JSON.stringify({
+          tariffKey: newClass.trim(),
+          effectiveFrom: effectiveFrom || undefined,
+        }),
       });
       setNewClass('');
       await loadRows();
@@ -99,101 +125,152 @@ export function TariffManager() {
   };
 
   return (
-    <div className="space-y-4">
-      <div className="flex flex-wrap items-center gap-2">
-        <Button onClick={handleSync} disabled={loading}>
-          {t('TariffManager.syncTariffKeys', 'Sync Tariff Keys')}
-        </Button>
-        <Input
-          value={newClass}
-          onChange={(e) => setNewClass(e.target.value)}
-          placeholder={t(
-            'TariffManager.addTariffKeyPlaceholder',
-            'Add tariff key (e.g. cn | junior tee | cotton-rich)'
-          )}
-          className="max-w-xs"
-        />
-        <Button variant="outline" onClick={handleAdd} disabled={loading || !newClass.trim()}>
-          {t('TariffManager.addKey', 'Add Key')}
-        </Button>
-      </div>
+    <Tabs defaultValue="keys" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="keys">{t('TariffManager.tabKeys', 'Tariff keys')}</TabsTrigger>
+        <TabsTrigger value="rules">{t('TariffManager.tabRules', 'Rules')}</TabsTrigger>
+        <TabsTrigger value="landed-cost">
+          {t('TariffManager.tabLandedCost', 'Landed cost')}
+        </TabsTrigger>
+        <TabsTrigger value="recompute">
+          {t('TariffManager.tabRecompute', 'Recompute orders')}
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="keys">
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={handleSync} disabled={loading}>
+              {t('TariffManager.syncTariffKeys', 'Sync Tariff Keys')}
+            </Button>
+            <Input
+              value={newClass}
+              onChange={(e) => setNewClass(e.target.value)}
+              placeholder={t(
+                'TariffManager.addTariffKeyPlaceholder',
+                'Add tariff key (e.g. cn | junior tee | cotton-rich)'
+              )}
+              className="max-w-xs"
+            />
+            <Button variant="outline" onClick={handleAdd} disabled={loading || !newClass.trim()}>
+              {t('TariffManager.addKey', 'Add Key')}
+            </Button>
+            <label className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+              {t('TariffManager.effectiveFrom', 'Changes apply from')}
+              <Input
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="h-9 w-40"
+              />
+            </label>
+          </div>
 
-      <div className="rounded-md border overflow-hidden">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>{t('TariffManager.tariffKey', 'Tariff Key')}</TableHead>
-              <TableHead>{t('TariffManager.tariffRate', 'Tariff Rate')}</TableHead>
-              <TableHead>{t('TariffManager.source', 'Source')}</TableHead>
-              <TableHead>{t('TariffManager.notes', 'Notes')}</TableHead>
-              <TableHead className="text-right">{t('TariffManager.action', 'Action')}</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {sortedRows.length === 0 ? (
-              <TableRow>
-                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
-                  {loading
-                    ? t('TariffManager.loading', 'Loading...')
-                    : t('TariffManager.noRows', 'No tariff rows yet')}
-                </TableCell>
-              </TableRow>
-            ) : (
-              sortedRows.map((row) => (
-                <TableRow key={row.id}>
-                  <TableCell className="font-medium">{row.tariffKey}</TableCell>
-                  <TableCell>
-                    <Input
-                      type="number"
-                      step="0.0001"
-                      min="0"
-                      value={row.tariffRate}
-                      onChange={(e) => {
-                        const value = Number(e.target.value);
-                        setRows((prev) =>
-                          prev.map((item) =>
-                            item.id === row.id
-                              ? { ...item, tariffRate: Number.isFinite(value) ? value : 0 }
-                              : item
-                          )
-                        );
-                      }}
-                      className="h-8 max-w-[120px]"
-                    />
-                  </TableCell>
-                  <TableCell>{row.source}</TableCell>
-                  <TableCell>
-                    <Input
-                      value={row.notes || ''}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        setRows((prev) =>
-                          prev.map((item) =>
-                            item.id === row.id ? { ...item, notes: value } : item
-                          )
-                        );
-                      }}
-                      className="h-8"
-                    />
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleSaveRow(row)}
-                      disabled={savingId === row.id}
-                    >
-                      {savingId === row.id
-                        ? t('TariffManager.saving', 'Saving...')
-                        : t('TariffManager.save', 'Save')}
-                    </Button>
-                  </TableCell>
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('TariffManager.tariffKey', 'Tariff Key')}</TableHead>
+                  <TableHead>{t('TariffManager.tariffRate', 'Tariff Rate')}</TableHead>
+                  <TableHead>{t('TariffManager.source', 'Source')}</TableHead>
+                  <TableHead>{t('TariffManager.since', 'Since')}</TableHead>
+                  <TableHead>{t('TariffManager.notes', 'Notes')}</TableHead>
+                  <TableHead className="text-right">
+                    {t('TariffManager.action', 'Action')}
+                  </TableHead>
                 </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-      </div>
-    </div>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      {loading
+                        ? t('TariffManager.loading', 'Loading...')
+                        : t('TariffManager.noRows', 'No tariff rows yet')}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedRows.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">{row.tariffKey}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.0001"
+                          min="0"
+                          value={row.tariffRate}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            setRows((prev) =>
+                              prev.map((item) =>
+                                item.id === row.id
+                                  ? { ...item, tariffRate: Number.isFinite(value) ? value : 0 }
+                                  : item
+                              )
+                            );
+                          }}
+                          className="h-8 max-w-[120px]"
+                        />
+                      </TableCell>
+                      <TableCell>{row.source}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {row.effectiveFrom ?? '—'}
+                        {row.effectiveTo ? ` → ${row.effectiveTo}` : ''}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.notes || ''}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            setRows((prev) =>
+                              prev.map((item) =>
+                                item.id === row.id ? { ...item, notes: value } : item
+                              )
+                            );
+                          }}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title={t('TariffManager.history', 'Rate history')}
+                          onClick={() => setHistoryKey(row.tariffKey)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSaveRow(row)}
+                          disabled={savingId === row.id}
+                        >
+                          {savingId === row.id
+                            ? t('TariffManager.saving', 'Saving...')
+                            : t('TariffManager.save', 'Save')}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+        <TariffHistoryDialog
+          tariffKey={historyKey}
+          onOpenChange={(open) => !open && setHistoryKey(null)}
+        />
+      </TabsContent>
+      <TabsContent value="rules">
+        <TariffRulesEditor />
+      </TabsContent>
+      <TabsContent value="landed-cost">
+        <LandedCostEditor />
+      </TabsContent>
+      <TabsContent value="recompute">
+        <OrderRecompute tariffKeys={[...new Set(sortedRows.map((row) => row.tariffKey))]} />
+      </TabsContent>
+    </Tabs>
   );
 }
@@ -0,0 +1,693 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { CopyPlus, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+import { describeApiError } from '@/lib/api-helpers';
+import {
+  FABRIC_BUCKETS,
+  toTariffDate,
+  type FabricBucket,
+  type GenderGroup,
+  type TariffRuleSet,
+} from '@/lib/tariffs';
+
+/** Form state: numbers and keyword lists are edited as text (keywords comma-separated). */
+interface HeadingDraft {
+  code: string;
+  description: string;
+  categoryKeywords: string;
+  priority: string;
+  isFallback: boolean;
+  /**
+   * An empty rate means the bucket falls back to the "mixed" rate. Statistical codes
+   * are "group: code" pairs, comma-separated.
+   */
+  rates: Record<FabricBucket, { htsCode: string; statisticalCodes: string; rate: string }>;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+interface SurchargeDraft {
+  countryCode: string;
+  name: string;
+  rate: string;
+  enabled: boolean;
+  notes: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+interface OriginDraft {
+  countryCode: string;
+  keywords: string;
+  priority: string;
+}
+
+interface RulesDraft {
+  headings: HeadingDraft[];
+  surcharges: SurchargeDraft[];
+  originKeywords: OriginDraft[];
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const emptyRates = () =>
+  Object.fromEntries(
+    FABRIC_BUCKETS.map((bucket) => [bucket, { htsCode: '', statisticalCodes: '', rate: '' }])
+  ) as HeadingDraft['rates'];
+
+const formatCodes = (codes?: Partial<Record<GenderGroup, string>> | null) =>
+  Object.entries(codes ?? {})
+    .map(([group, code]) => `${group}: ${code}`)
+    .join(', ');
+
+const parseCodes = (value: string) =>
+  Object.fromEntries(
+    splitList(value).map((entry) => {
+      const [group, code = ''] = entry.split(':').map((part) => part.trim());
+      return [group.toLowerCase(), code];
+    })
+  );
+
+function toDraft(rules: TariffRuleSet): RulesDraft {
+  return {
+    headings: rules.headings.map((heading) => {
+      const rates = emptyRates();
+      for (const bucket of FABRIC_BUCKETS) {
+        const rate = heading.rates[bucket];
+        if (rate) {
+          rates[bucket] = {
+            htsCode: rate.htsCode ?? '',
+            statisticalCodes: formatCodes(rate.statisticalCodes),
+            rate: String(rate.rate),
+          };
+        }
+      }
+      return {
+        code: heading.code,
+        description: heading.description ?? '',
+        categoryKeywords: heading.categoryKeywords.join(', '),
+        priority: String(heading.priority),
+        isFallback: heading.isFallback,
+        rates,
+        effectiveFrom: heading.effectiveFrom ?? '',
+        effectiveTo: heading.effectiveTo ?? '',
+      };
+    }),
+    surcharges: rules.surcharges.map((surcharge) => ({
+      countryCode: surcharge.countryCode,
+      name: surcharge.name,
+      rate: String(surcharge.rate),
+      enabled: surcharge.enabled,
+      notes: surcharge.notes ?? '',
+      effectiveFrom: surcharge.effectiveFrom ?? '',
+      effectiveTo: surcharge.effectiveTo ?? '',
+    })),
+    originKeywords: rules.originKeywords.map((rule) => ({
+      countryCode: rule.countryCode,
+      keywords: rule.keywords.join(', '),
+      priority: String(rule.priority),
+    })),
+  };
+}
+
+function toPayload(draft: RulesDraft): TariffRuleSet {
+  return {
+    headings: draft.headings.map((heading) => ({
+      code: heading.code.trim(),
+      description: heading.description.trim() || null,
+      categoryKeywords: splitList(heading.categoryKeywords),
+      priority: Number(heading.priority) || 0,
+      isFallback: heading.isFallback,
+      rates: Object.fromEntries(
+        FABRIC_BUCKETS.filter((bucket) => heading.rates[bucket].rate.trim() !== '').map(
+          (bucket) => [
+            bucket,
+            {
+              htsCode: heading.rates[bucket].htsCode.trim() || null,
+              statisticalCodes: parseCodes(heading.rates[bucket].statisticalCodes),
+              rate: Number(heading.rates[bucket].rate) || 0,
+            },
+          ]
+        )
+      ),
+      effectiveFrom: heading.effectiveFrom || null,
+      effectiveTo: heading.effectiveTo || null,
+    })),
+    surcharges: draft.surcharges.map((surcharge) => ({
+      countryCode: surcharge.countryCode.trim(),
+      name: surcharge.name.trim(),
+      rate: Number(surcharge.rate) || 0,
+      enabled: surcharge.enabled,
+      notes: surcharge.notes.trim() || null,
+      effectiveFrom: surcharge.effectiveFrom || null,
+      effectiveTo: surcharge.effectiveTo || null,
+    })),
+    originKeywords: draft.originKeywords.map((rule) => ({
+      countryCode: rule.countryCode.trim(),
+      keywords: splitList(rule.keywords),
+      priority: Number(rule.priority) || 0,
+    })),
+  };
+}
+
+/**
+ * Editor for the tariff rule tables: HTS headings with a base rate per fiber bucket,
+ * surcharges by origin country and the keywords that detect a supplier's country.
+ * The whole set is saved at once.
+ */
+export function TariffRulesEditor() {
+  const { t } = useI18n();
+  const { data, isLoading, mutate } = useSWR('/api/tariffs/rules', fetcher);
+  const [draft, setDraft] = useState<RulesDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (data?.rules) setDraft(toDraft(data.rules));
+  }, [data]);
+
+  if (isLoading || !draft) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        {t('TariffManager.loading', 'Loading...')}
+      </div>
+    );
+  }
+
+  const updateHeading = (index: number, updates: Partial<HeadingDraft>) =>
+    setDraft({
+      ...draft,
+      headings: draft.headings.map((heading, i) =>
+        i === index ? { ...heading, ...updates } : heading
+      ),
+    });
+
+  const updateRate = (
+    index: number,
+    bucket: FabricBucket,
+    updates: Partial<HeadingDraft['rates'][FabricBucket]>
+  ) =>
+    updateHeading(index, {
+      rates: {
+        ...draft.headings[index].rates,
+        [bucket]: { ...draft.headings[index].rates[bucket], ...updates },
+      },
+    });
+
+  const updateSurcharge = (index: number, updates: Partial<SurchargeDraft>) =>
+    setDraft({
+      ...draft,
+      surcharges: draft.surcharges.map((surcharge, i) =>
+        i === index ? { ...surcharge, ...updates } : surcharge
+      ),
+    });
+
+  const updateOrigin = (index: number, updates: Partial<OriginDraft>) =>
+    setDraft({
+      ...draft,
+      originKeywords: draft.originKeywords.map((rule, i) =>
+        i === index ? { ...rule, ...updates } : rule
+      ),
+    });
+
+  /** Close a heading today and open a copy from today, ready for the new rates. */
+  const addHeadingVersion = (index: number) => {
+    const today = toTariffDate();
+    const heading = draft.headings[index];
+    const closed = { ...heading, effectiveTo: today };
+    const next = { ...heading, effectiveFrom: today, effectiveTo: heading.effectiveTo };
+    setDraft({
+      ...draft,
+      headings: [
+        ...draft.headings.slice(0, index),
+        closed,
+        next,
+        ...draft.headings.slice(index + 1),
+      ],
+    });
+  };
+
+  const dateInputs = (
+    entry: { effectiveFrom: string; effectiveTo: string },
+    onChange: (updates: { effectiveFrom?: string; effectiveTo?: string }) => void
+  ) => (
+    <div className="min-w-[140px] space-y-1">
+      <Input
+        type="date"
+        value={entry.effectiveFrom}
+        onChange={(e) => onChange({ effectiveFrom: e.target.value })}
+        title={t('TariffRules.effectiveFrom', 'Effective from')}
+        className="h-8"
+      />
+      <Input
+        type="date"
+        value={entry.effectiveTo}
+        onChange={(e) => onChange({ effectiveTo: e.target.value })}
+        title={t('TariffRules.effectiveTo', 'Effective until (exclusive)')}
+        className="h-8"
+      />
+    </div>
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/tariffs/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(draft)),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Save failed'));
+      toast.success(t('TariffRules.saved', 'Tariff rules saved'));
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const bucketLabel = (bucket: FabricBucket) =>
+    ({
+      'cotton-rich': t('TariffRules.cottonRich', 'Cotton-rich'),
+      'poly-rich': t('TariffRules.polyRich', 'Poly-rich'),
+      mixed: t('TariffRules.mixed', 'Mixed'),
+    })[bucket];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {data?.configured ? (
+          <Badge variant="secondary">{t('TariffRules.live', 'Saved rules in use')}</Badge>
+        ) : (
+          <Badge variant="outline">
+            {t('TariffRules.builtIn', 'Built-in defaults in use until rules are saved')}
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => data?.defaults && setDraft(toDraft(data.defaults))}
+            disabled={saving}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {t('TariffRules.resetDefaults', 'Load defaults')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('TariffRules.save', 'Save rules')}
+          </Button>
+        </div>
+      </div>
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">{t('TariffRules.headings', 'HTS headings')}</h3>
+            <p className="text-sm text-muted-foreground">
+              {t(
+                'TariffRules.headingsHint',
+                'A tariff key takes the first heading (lowest priority) whose keywords appear in its category. Rates are fractions: 0.165 = 16.5%. Orders use the versions in force on their expected ship date.'
+              )}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                headings: [
+                  ...draft.headings,
+                  {
+                    code: '',
+                    description: '',
+                    categoryKeywords: '',
+                    priority: '100',
+                    isFallback: false,
+                    rates: emptyRates(),
+                    effectiveFrom: '',
+                    effectiveTo: '',
+                  },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            {t('TariffRules.addHeading', 'Add heading')}
+          </Button>
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('TariffRules.heading', 'Heading')}</TableHead>
+                <TableHead>{t('TariffRules.categoryKeywords', 'Category keywords')}</TableHead>
+                <TableHead>{t('TariffRules.priority', 'Priority')}</TableHead>
+                {FABRIC_BUCKETS.map((bucket) => (
+                  <TableHead key={bucket}>{bucketLabel(bucket)}</TableHead>
+                ))}
+                <TableHead>{t('TariffRules.fallback', 'Fallback')}</TableHead>
+                <TableHead>{t('TariffRules.effective', 'Effective from / until')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.headings.map((heading, index) => (
+                <TableRow key={index}>
+                  <TableCell className="min-w-[180px] space-y-1">
+                    <Input
+                      value={heading.code}
+                      onChange={(e) => updateHeading(index, { code: e.target.value })}
+                      placeholder="6109"
+                      className="h-8"
+                    />
+                    <Input
+                      value={heading.description}
+                      onChange={(e) => updateHeading(index, { description: e.target.value })}
+                      placeholder={t('TariffRules.description', 'Description')}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell className="min-w-[160px]">
+                    <Input
+                      value={heading.categoryKeywords}
+                      onChange={(e) => updateHeading(index, { categoryKeywords: e.target.value })}
+                      placeholder="tee, tank"
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={heading.priority}
+                      onChange={(e) => updateHeading(index, { priority: e.target.value })}
+                      className="h-8 w-20"
+                    />
+                  </TableCell>
+                  {FABRIC_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket} className="min-w-[170px] space-y-1">
+                      <Input
+                        value={heading.rates[bucket].htsCode}
+                        onChange={(e) => updateRate(index, bucket, { htsCode: e.target.value })}
+                        placeholder={t('TariffRules.htsCode', 'HTS code')}
+                        className="h-8"
+                      />
+                      <Input
+                        value={heading.rates[bucket].statisticalCodes}
+                        onChange={(e) =>
+                          updateRate(index, bucket, { statisticalCodes: e.target.value })
+                        }
+                        placeholder="womens: 6109.10.0040"
+                        title={t(
+                          'TariffRules.statisticalCodesHint',
+                          '10-digit codes by group (mens, womens, junior, kids, general), comma-separated'
+                        )}
+                        className="h-8"
+                      />
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        max="1"
+                        value={heading.rates[bucket].rate}
+                        onChange={(e) => updateRate(index, bucket, { rate: e.target.value })}
+                        placeholder={t('TariffRules.rate', 'Rate')}
+                        className="h-8"
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={heading.isFallback}
+                      onChange={(e) => updateHeading(index, { isFallback: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {dateInputs(heading, (dates) => updateHeading(index, dates))}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title={t('TariffRules.newVersion', 'New version from today')}
+                      onClick={() => addHeadingVersion(index)}
+                    >
+                      <CopyPlus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          headings: draft.headings.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">{t('TariffRules.surcharges', 'Country surcharges')}</h3>
+            <p className="text-sm text-muted-foreground">
+              {t(
+                'TariffRules.surchargesHint',
+                'Enabled surcharges are added to the HTS base rate for goods from that country.'
+              )}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                surcharges: [
+                  ...draft.surcharges,
+                  {
+                    countryCode: '',
+                    name: '',
+                    rate: '',
+                    enabled: true,
+                    notes: '',
+                    effectiveFrom: '',
+                    effectiveTo: '',
+                  },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            {t('TariffRules.addSurcharge', 'Add surcharge')}
+          </Button>
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('TariffRules.country', 'Country')}</TableHead>
+                <TableHead>{t('TariffRules.program', 'Program')}</TableHead>
+                <TableHead>{t('TariffRules.rate', 'Rate')}</TableHead>
+                <TableHead>{t('TariffRules.notes', 'Notes')}</TableHead>
+                <TableHead>{t('TariffRules.enabled', 'Enabled')}</TableHead>
+                <TableHead>{t('TariffRules.effective', 'Effective from / until')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.surcharges.map((surcharge, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={surcharge.countryCode}
+                      onChange={(e) => updateSurcharge(index, { countryCode: e.target.value })}
+                      placeholder="CN"
+                      maxLength={2}
+                      className="h-8 w-16 uppercase"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={surcharge.name}
+                      onChange={(e) => updateSurcharge(index, { name: e.target.value })}
+                      placeholder="Section 301"
+                      className="h-8 min-w-[200px]"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      max="1"
+                      value={surcharge.rate}
+                      onChange={(e) => updateSurcharge(index, { rate: e.target.value })}
+                      className="h-8 w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={surcharge.notes}
+                      onChange={(e) => updateSurcharge(index, { notes: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={surcharge.enabled}
+                      onChange={(e) => updateSurcharge(index, { enabled: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {dateInputs(surcharge, (dates) => updateSurcharge(index, dates))}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          surcharges: draft.surcharges.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">{t('TariffRules.originKeywords', 'Origin keywords')}</h3>
+            <p className="text-sm text-muted-foreground">
+              {t(
+                'TariffRules.originKeywordsHint',
+                'Words in the supplier name or address that identify its country. The first matching country (lowest priority) wins.'
+              )}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                originKeywords: [
+                  ...draft.originKeywords,
+                  { countryCode: '', keywords: '', priority: '100' },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            {t('TariffRules.addCountry', 'Add country')}
+          </Button>
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('TariffRules.country', 'Country')}</TableHead>
+                <TableHead>{t('TariffRules.keywords', 'Keywords')}</TableHead>
+                <TableHead>{t('TariffRules.priority', 'Priority')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.originKeywords.map((rule, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={rule.countryCode}
+                      onChange={(e) => updateOrigin(index, { countryCode: e.target.value })}
+                      placeholder="VN"
+                      maxLength={2}
+                      className="h-8 w-16 uppercase"
+                    />
+                  </TableCell>
+                  <TableCell className="w-full">
+                    <Input
+                      value={rule.keywords}
+                      onChange={(e) => updateOrigin(index, { keywords: e.target.value })}
+                      placeholder="vietnam, hanoi"
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={rule.priority}
+                      onChange={(e) => updateOrigin(index, { priority: e.target.value })}
+                      className="h-8 w-20"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          originKeywords: draft.originKeywords.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,566 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { ChevronDown, ChevronRight, Loader2, Play, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18n } from '@/components/locale-provider';
+import { describeApiError } from '@/lib/api-helpers';
+import { formatDate, money } from '@/lib/format';
+import type { ScenarioFigures, ScenarioOrderResult } from '@/lib/tariff-scenario';
+import type { TariffSurchargeRule } from '@/lib/tariffs';
+
+interface OpenOrder {
+  id: string;
+  vpoNumber: string;
+  customerName: string | null;
+  supplierName: string | null;
+  expShipDate: string | null;
+}
+
+interface SurchargeDraft {
+  countryCode: string;
+  name: string;
+  rate: string;
+  enabled: boolean;
+}
+
+interface StyleMove {
+  productCode: string;
+  countryCode: string;
+}
+
+interface ScenarioResult {
+  orders: ScenarioOrderResult[];
+  totals: { baseline: ScenarioFigures; scenario: ScenarioFigures; delta: ScenarioFigures };
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+const signedMoney = (value: number) => (value > 0 ? `+${money(value)}` : money(value));
+
+const deltaClass = (value: number, higherIsBetter: boolean) =>
+  value === 0
+    ? 'text-muted-foreground'
+    : value > 0 === higherIsBetter
+      ? 'text-green-700'
+      : 'text-red-600';
+
+/**
+ * What-if duty and margin for open orders: move origins or change surcharge
+ * programs and compare with each order as priced for its ship date. Nothing is saved.
+ */
+export function TariffSimulator() {
+  const { t } = useI18n();
+  const { data, isLoading } = useSWR('/api/tariffs/scenarios', fetcher);
+  const openOrders: OpenOrder[] = data?.data?.orders ?? [];
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [originCountry, setOriginCountry] = useState('');
+  const [styleMoves, setStyleMoves] = useState<StyleMove[]>([]);
+  const [surcharges, setSurcharges] = useState<SurchargeDraft[]>([]);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    if (!data?.data) return;
+    setSelected(new Set(data.data.orders.map((order: OpenOrder) => order.id)));
+    setSurcharges(
+      data.data.surcharges.map((surcharge: TariffSurchargeRule) => ({
+        countryCode: surcharge.countryCode,
+        name: surcharge.name,
+        rate: String(surcharge.rate),
+        enabled: surcharge.enabled,
+      }))
+    );
+  }, [data]);
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const updateSurcharge = (index: number, updates: Partial<SurchargeDraft>) =>
+    setSurcharges(surcharges.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+
+  const updateStyleMove = (index: number, updates: Partial<StyleMove>) =>
+    setStyleMoves(styleMoves.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+
+  const runScenario = async () => {
+    if (selected.size === 0) {
+      toast.error(t('TariffSimulator.noOrdersSelected', 'Select at least one order'));
+      return;
+    }
+    setRunning(true);
+    try {
+      const res = await fetch('/api/tariffs/scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderIds: Array.from(selected),
+          originCountry: originCountry.trim() || null,
+          styleOrigins: Object.fromEntries(
+            styleMoves
+              .filter((move) => move.productCode.trim() && move.countryCode.trim())
+              .map((move) => [move.productCode.trim(), move.countryCode.trim()])
+          ),
+          surcharges: surcharges.map((surcharge) => ({
+            countryCode: surcharge.countryCode.trim(),
+            name: surcharge.name.trim(),
+            rate: Number(surcharge.rate) || 0,
+            enabled: surcharge.enabled,
+          })),
+        }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Simulation failed'));
+      setResult(payload.data);
+      setExpanded(new Set());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        {t('TariffManager.loading', 'Loading...')}
+      </div>
+    );
+  }
+
+  const summaryRows: {
+    label: string;
+    field: keyof ScenarioFigures;
+    higherIsBetter: boolean;
+    format: (value: number) => string;
+  }[] = [
+    {
+      label: t('TariffSimulator.duty', 'Duty'),
+      field: 'dutyCost',
+      higherIsBetter: false,
+      format: money,
+    },
+    {
+      label: t('TariffSimulator.threePl', '3PL cost'),
+      field: 'estimated3plCost',
+      higherIsBetter: false,
+      format: money,
+    },
+    {
+      label: t('TariffSimulator.margin', 'Margin'),
+      field: 'estimatedMargin',
+      higherIsBetter: true,
+      format: money,
+    },
+    {
+      label: t('TariffSimulator.marginRate', 'Margin rate'),
+      field: 'estimatedMarginRate',
+      higherIsBetter: true,
+      format: formatRate,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {t('TariffSimulator.origins', 'Origin changes')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <Label>{t('TariffSimulator.moveAll', 'Move every line to')}</Label>
+              <Input
+                value={originCountry}
+                onChange={(e) => setOriginCountry(e.target.value.toUpperCase())}
+                placeholder={t('TariffSimulator.keepOrigin', 'Keep current origin')}
+                maxLength={2}
+                className="w-48"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{t('TariffSimulator.styleMoves', 'Move single styles')}</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    setStyleMoves([...styleMoves, { productCode: '', countryCode: '' }])
+                  }
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  {t('TariffSimulator.addStyle', 'Add style')}
+                </Button>
+              </div>
+              {styleMoves.map((move, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={move.productCode}
+                    onChange={(e) => updateStyleMove(index, { productCode: e.target.value })}
+                    placeholder={t('TariffSimulator.style', 'Style')}
+                    className="h-8"
+                  />
+                  <Input
+                    value={move.countryCode}
+                    onChange={(e) =>
+                      updateStyleMove(index, { countryCode: e.target.value.toUpperCase() })
+                    }
+                    placeholder="VN"
+                    maxLength={2}
+                    className="h-8 w-20"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setStyleMoves(styleMoves.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base">
+              {t('TariffSimulator.surcharges', 'Surcharge programs')}
+            </CardTitle>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setSurcharges([
+                  ...surcharges,
+                  { countryCode: '', name: '', rate: '', enabled: true },
+                ])
+              }
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              {t('TariffSimulator.addSurcharge', 'Add surcharge')}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('TariffRules.country', 'Country')}</TableHead>
+                  <TableHead>{t('TariffRules.program', 'Program')}</TableHead>
+                  <TableHead>{t('TariffRules.rate', 'Rate')}</TableHead>
+                  <TableHead>{t('TariffRules.enabled', 'Enabled')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {surcharges.map((surcharge, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={surcharge.countryCode}
+                        onChange={(e) =>
+                          updateSurcharge(index, { countryCode: e.target.value.toUpperCase() })
+                        }
+                        maxLength={2}
+                        className="h-8 w-16"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={surcharge.name}
+                        onChange={(e) => updateSurcharge(index, { name: e.target.value })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        max="1"
+                        value={surcharge.rate}
+                        onChange={(e) => updateSurcharge(index, { rate: e.target.value })}
+                        className="h-8 w-24"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={surcharge.enabled}
+                        onChange={(e) => updateSurcharge(index, { enabled: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setSurcharges(surcharges.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">
+            {t('TariffSimulator.orders', 'Open orders ({selected}/{total})', {
+              selected: selected.size,
+              total: openOrders.length,
+            })}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setSelected(
+                  selected.size === openOrders.length
+                    ? new Set()
+                    : new Set(openOrders.map((order) => order.id))
+                )
+              }
+            >
+              {selected.size === openOrders.length
+                ? t('TariffSimulator.selectNone', 'Select none')
+                : t('TariffSimulator.selectAll', 'Select all')}
+            </Button>
+            <Button size="sm" onClick={runScenario} disabled={running}>
+              {running ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              {t('TariffSimulator.run', 'Run scenario')}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="max-h-64 overflow-y-auto">
+          {openOrders.length === 0 ? (
+            <div className="py-6 text-center text-muted-foreground">
+              {t('TariffSimulator.noOpenOrders', 'No open orders')}
+            </div>
+          ) : (
+            <div className="grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+              {openOrders.map((order) => (
+                <label key={order.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(order.id)}
+                    onChange={() => setSelected(toggle(selected, order.id))}
+                  />
+                  <span className="font-medium">{order.vpoNumber}</span>
+                  <span className="truncate text-muted-foreground">
+                    {order.customerName || '-'} · {formatDate(order.expShipDate)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t('TariffSimulator.results', 'Results')}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {t(
+                'TariffSimulator.notSaved',
+                'Baseline is each order priced with the rules of its ship date. Nothing is saved.'
+              )}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.baseline', 'Baseline')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.scenario', 'Scenario')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.change', 'Change')}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaryRows.map((row) => (
+                    <TableRow key={row.field}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">
+                        {row.format(result.totals.baseline[row.field])}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.format(result.totals.scenario[row.field])}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${deltaClass(
+                          result.totals.delta[row.field],
+                          row.higherIsBetter
+                        )}`}
+                      >
+                        {row.field === 'estimatedMarginRate'
+                          ? formatRate(result.totals.delta[row.field])
+                          : signedMoney(result.totals.delta[row.field])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]" />
+                    <TableHead>{t('TariffSimulator.vpo', 'VPO')}</TableHead>
+                    <TableHead>{t('TariffSimulator.customer', 'Customer')}</TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.duty', 'Duty')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.dutyChange', 'Duty change')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.threePlChange', '3PL change')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.margin', 'Margin')}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {t('TariffSimulator.marginChange', 'Margin change')}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.orders.map((order) => {
+                    const isExpanded = expanded.has(order.orderId);
+                    return (
+                      <Fragment key={order.orderId}>
+                        <TableRow>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => setExpanded(toggle(expanded, order.orderId))}
+                            >
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </TableCell>
+                          <TableCell className="font-medium">{order.vpoNumber}</TableCell>
+                          <TableCell>{order.customerName || '-'}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(order.baseline.dutyCost)} → {money(order.scenario.dutyCost)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right ${deltaClass(order.delta.dutyCost, false)}`}
+                          >
+                            {signedMoney(order.delta.dutyCost)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right ${deltaClass(order.delta.estimated3plCost, false)}`}
+                          >
+                            {signedMoney(order.delta.estimated3plCost)}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(order.baseline.estimatedMargin)} →{' '}
+                            {money(order.scenario.estimatedMargin)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${deltaClass(
+                              order.delta.estimatedMargin,
+                              true
+                            )}`}
+                          >
+                            {signedMoney(order.delta.estimatedMargin)}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded &&
+                          order.lines.map((line) => (
+                            <TableRow key={line.itemId} className="bg-muted/30 text-xs">
+                              <TableCell />
+                              <TableCell>{line.productCode || '-'}</TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {line.baselineOrigin} → {line.scenarioOrigin} ·{' '}
+                                {formatRate(line.baselineRate)} → {formatRate(line.scenarioRate)}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {money(line.baseline.dutyCost)} → {money(line.scenario.dutyCost)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {signedMoney(line.scenario.dutyCost - line.baseline.dutyCost)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {signedMoney(
+                                  line.scenario.estimated3plCost - line.baseline.estimated3plCost
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {money(line.baseline.estimatedMargin)} →{' '}
+                                {money(line.scenario.estimatedMargin)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {signedMoney(
+                                  line.scenario.estimatedMargin - line.baseline.estimatedMargin
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
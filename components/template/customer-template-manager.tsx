@@ -0,0 +1,572 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { useI18n } from '@/components/locale-provider';
+import { describeApiError } from '@/lib/api-helpers';
+import {
+  TEMPLATE_ITEM_FIELDS,
+  TEMPLATE_ORDER_FIELDS,
+  TEMPLATE_RULE_OPS,
+  type CustomerTemplate,
+  type TemplateRule,
+} from '@/lib/extraction/templates';
+
+/** Form state: list and map fields are edited as plain text, one entry per line. */
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  customerName: string;
+  enabled: boolean;
+  priority: string;
+  minScore: string;
+  keywords: string;
+  headerFingerprint: string;
+  promptAdditions: string;
+  fieldDefaults: string;
+  sizeAliases: string;
+  rules: TemplateRule[];
+}
+
+interface DetectResult {
+  name: string;
+  score: number;
+  minScore: number;
+  matchedKeywords: string[];
+  matchedHeaders: string[];
+}
+
+const emptyDraft: TemplateDraft = {
+  name: '',
+  customerName: '',
+  enabled: true,
+  priority: '100',
+  minScore: '1',
+  keywords: '',
+  headerFingerprint: '',
+  promptAdditions: '',
+  fieldDefaults: '',
+  sizeAliases: '',
+  rules: [],
+};
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
+  }
+  return res.json();
+};
+
+const splitLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/** "key = value" lines to an object; lines without "=" are ignored. */
+function parsePairs(value: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const line of splitLines(value)) {
+    const index = line.indexOf('=');
+    if (index <= 0) continue;
+    const key = line.slice(0, index).trim();
+    const entry = line.slice(index + 1).trim();
+    if (key && entry) pairs[key] = entry;
+  }
+  return pairs;
+}
+
+const formatPairs = (pairs: Record<string, string>) =>
+  Object.entries(pairs)
+    .map(([key, value]) => `${key} = ${value}`)
+    .join('\n');
+
+function toDraft(template: CustomerTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    customerName: template.customerName ?? '',
+    enabled: template.enabled,
+    priority: String(template.priority),
+    minScore: String(template.minScore),
+    keywords: template.keywords.join('\n'),
+    headerFingerprint: template.headerFingerprint.join('\n'),
+    promptAdditions: template.promptAdditions ?? '',
+    fieldDefaults: formatPairs(template.fieldDefaults as Record<string, string>),
+    sizeAliases: formatPairs(template.sizeAliases),
+    rules: template.rules,
+  };
+}
+
+function toPayload(draft: TemplateDraft) {
+  return {
+    name: draft.name.trim(),
+    customerName: draft.customerName.trim() || null,
+    enabled: draft.enabled,
+    priority: Number(draft.priority) || 0,
+    minScore: Math.max(1, Number(draft.minScore) || 1),
+    keywords: splitLines(draft.keywords),
+    headerFingerprint: splitLines(draft.headerFingerprint),
+    promptAdditions: draft.promptAdditions.trim() || null,
+    fieldDefaults: parsePairs(draft.fieldDefaults),
+    sizeAliases: parsePairs(draft.sizeAliases),
+    rules: draft.rules,
+  };
+}
+
+/** CRUD for customer extraction templates, with a detection test against pasted PO text. */
+export function CustomerTemplateManager() {
+  const { t } = useI18n();
+  const { data: templatesRes, isLoading, mutate } = useSWR('/api/customer-templates', fetcher);
+  const templates: CustomerTemplate[] = templatesRes?.data ?? [];
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<CustomerTemplate | null>(null);
+
+  const [sampleText, setSampleText] = useState('');
+  const [testing, setTesting] = useState(false);
+  const [detectResult, setDetectResult] = useState<DetectResult | null | undefined>(undefined);
+
+  const openDialog = (template?: CustomerTemplate) => {
+    setDraft(template ? toDraft(template) : emptyDraft);
+    setDetectResult(undefined);
+    setDialogOpen(true);
+  };
+
+  const updateDraft = (updates: Partial<TemplateDraft>) => setDraft({ ...draft, ...updates });
+
+  const updateRule = (index: number, updates: Partial<TemplateRule>) =>
+    updateDraft({
+      rules: draft.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)),
+    });
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error(t('Templates.nameRequired', 'Template name is required'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(
+        draft.id ? `/api/customer-templates/${draft.id}` : '/api/customer-templates',
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toPayload(draft)),
+        }
+      );
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Save failed'));
+      toast.success(t('Templates.saved', 'Template saved'));
+      setDialogOpen(false);
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (template: CustomerTemplate) => {
+    try {
+      const res = await fetch(`/api/customer-templates/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...template, enabled: !template.enabled }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Save failed'));
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Save failed');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      const res = await fetch(`/api/customer-templates/${deleteTarget.id}`, { method: 'DELETE' });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(payload.error || 'Delete failed');
+      toast.success(t('Templates.deleted', 'Template deleted'));
+      setDeleteTarget(null);
+      await mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Delete failed');
+    }
+  };
+
+  const handleTest = async () => {
+    if (!sampleText.trim()) return;
+    setTesting(true);
+    try {
+      const res = await fetch('/api/customer-templates/detect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: sampleText, template: toPayload(draft) }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(payload, 'Save failed'));
+      setDetectResult(payload.data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const ruleFields = (target: TemplateRule['target']) =>
+    target === 'order' ? TEMPLATE_ORDER_FIELDS : TEMPLATE_ITEM_FIELDS;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {t(
+            'Templates.hint',
+            'Documents are matched by keywords and item-table headers; the best match adds its instructions to the AI prompt.'
+          )}
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('Templates.add', 'New template')}
+        </Button>
+      </div>
+
+      <div className="rounded-md border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('Templates.name', 'Template')}</TableHead>
+              <TableHead>{t('Templates.customerName', 'Customer')}</TableHead>
+              <TableHead>{t('Templates.detection', 'Detection')}</TableHead>
+              <TableHead className="text-right">{t('Templates.priority', 'Priority')}</TableHead>
+              <TableHead>{t('Templates.status', 'Status')}</TableHead>
+              <TableHead className="text-right">{t('Templates.actions', 'Actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  {isLoading
+                    ? t('Templates.loading', 'Loading...')
+                    : t(
+                        'Templates.empty',
+                        'No templates yet. Documents use the default C-Life instructions.'
+                      )}
+                </TableCell>
+              </TableRow>
+            ) : (
+              templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>{template.customerName || '—'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {t('Templates.detectionSummary', '{keywords} keywords · {headers} headers', {
+                      keywords: template.keywords.length,
+                      headers: template.headerFingerprint.length,
+                    })}
+                  </TableCell>
+                  <TableCell className="text-right">{template.priority}</TableCell>
+                  <TableCell>
+                    <button type="button" onClick={() => toggleEnabled(template)}>
+                      <Badge variant={template.enabled ? 'default' : 'outline'}>
+                        {template.enabled
+                          ? t('Templates.enabled', 'Enabled')
+                          : t('Templates.disabled', 'Disabled')}
+                      </Badge>
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="icon" variant="ghost" onClick={() => openDialog(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => setDeleteTarget(template)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {draft.id
+                ? t('Templates.editTitle', 'Edit template')
+                : t('Templates.addTitle', 'New template')}
+            </DialogTitle>
+            <DialogDescription>
+              {t(
+                'Templates.dialogDescription',
+                'One entry per line. Field defaults and size aliases use "key = value".'
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>{t('Templates.name', 'Template')}</Label>
+              <Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.customerName', 'Customer')}</Label>
+              <Input
+                value={draft.customerName}
+                onChange={(e) => updateDraft({ customerName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.priority', 'Priority')}</Label>
+              <Input
+                type="number"
+                value={draft.priority}
+                onChange={(e) => updateDraft({ priority: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.minScore', 'Matches required')}</Label>
+              <Input
+                type="number"
+                min={1}
+                value={draft.minScore}
+                onChange={(e) => updateDraft({ minScore: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.keywords', 'Keywords')}</Label>
+              <Textarea
+                rows={4}
+                value={draft.keywords}
+                placeholder="Acme Retail Inc."
+                onChange={(e) => updateDraft({ keywords: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.headerFingerprint', 'Item table headers')}</Label>
+              <Textarea
+                rows={4}
+                value={draft.headerFingerprint}
+                placeholder={'Style #\nQty'}
+                onChange={(e) => updateDraft({ headerFingerprint: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label>{t('Templates.promptAdditions', 'Prompt additions')}</Label>
+              <Textarea
+                rows={4}
+                value={draft.promptAdditions}
+                onChange={(e) => updateDraft({ promptAdditions: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.fieldDefaults', 'Field defaults')}</Label>
+              <Textarea
+                rows={3}
+                value={draft.fieldDefaults}
+                placeholder="paymentTerms = Net 30"
+                onChange={(e) => updateDraft({ fieldDefaults: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('Templates.sizeAliases', 'Size aliases')}</Label>
+              <Textarea
+                rows={3}
+                value={draft.sizeAliases}
+                placeholder="SML = S"
+                onChange={(e) => updateDraft({ sizeAliases: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('Templates.rules', 'Post-processing rules')}</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  updateDraft({
+                    rules: [...draft.rules, { target: 'item', field: 'productCode', op: 'trim' }],
+                  })
+                }
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                {t('Templates.addRule', 'Add rule')}
+              </Button>
+            </div>
+            {draft.rules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[90px_140px_120px_1fr_1fr_32px] gap-2">
+                <Select
+                  value={rule.target}
+                  onValueChange={(target: TemplateRule['target']) =>
+                    updateRule(index, { target, field: ruleFields(target)[0] })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="order">{t('Templates.targetOrder', 'Order')}</SelectItem>
+                    <SelectItem value="item">{t('Templates.targetItem', 'Item')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.field}
+                  onValueChange={(field: TemplateRule['field']) => updateRule(index, { field })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ruleFields(rule.target).map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {field}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.op}
+                  onValueChange={(op: TemplateRule['op']) => updateRule(index, { op })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_RULE_OPS.map((op) => (
+                      <SelectItem key={op} value={op}>
+                        {op}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="h-8 text-xs"
+                  placeholder={t('Templates.rulePattern', 'Pattern')}
+                  value={rule.pattern ?? ''}
+                  disabled={rule.op !== 'replace' && rule.op !== 'stripPrefix'}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                />
+                <Input
+                  className="h-8 text-xs"
+                  placeholder={t('Templates.ruleValue', 'Value')}
+                  value={rule.value ?? ''}
+                  disabled={rule.op !== 'replace' && rule.op !== 'prefix'}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => updateDraft({ rules: draft.rules.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <Label>{t('Templates.testTitle', 'Test detection')}</Label>
+            <Textarea
+              rows={3}
+              value={sampleText}
+              placeholder={t('Templates.testPlaceholder', 'Paste text from a PO of this customer')}
+              onChange={(e) => setSampleText(e.target.value)}
+            />
+            <div className="flex items-center gap-3">
+              <Button size="sm" variant="outline" onClick={handleTest} disabled={testing}>
+                {testing && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+                {t('Templates.test', 'Test')}
+              </Button>
+              {detectResult === null && (
+                <span className="text-xs text-amber-600">
+                  {t('Templates.noMatch', 'Not matched')}
+                </span>
+              )}
+              {detectResult && (
+                <span className="text-xs text-emerald-700">
+                  {t('Templates.matched', 'Matched with score {score} ({matches})', {
+                    score: detectResult.score,
+                    matches: [...detectResult.matchedKeywords, ...detectResult.matchedHeaders].join(
+                      ', '
+                    ),
+                  })}
+                </span>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <label className="mr-auto flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => updateDraft({ enabled: e.target.checked })}
+              />
+              {t('Templates.enabled', 'Enabled')}
+            </label>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              {t('Templates.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('Templates.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={t('Templates.deleteTitle', 'Delete template')}
+        description={t('Templates.deleteDescription', 'Delete template "{name}"?', {
+          name: deleteTarget?.name ?? '',
+        })}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useI18n } from '@/components/locale-provider';
 import useSWR from 'swr';
 import Link from 'next/link';
+import dynamic from 'next/dynamic';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -23,7 +24,7 @@ import { usePromptDialog, PromptDialog } from '@/components/ui/prompt-dialog';
 import { PoPreviewDialog } from '@/components/po-preview/po-preview-dialog';
 import { ExtractedOrderData } from '@/lib/parser';
 import { exportVendorExcel, exportVendorPdf } from '@/lib/vendor-po-export';
-import { Download, FileText, Printer } from 'lucide-react';
+import { Download, FileText, PanelRightClose, PanelRightOpen, Printer } from 'lucide-react';
 import {
   OrderItem,
   OrderDetails,
@@ -35,6 +36,8 @@ import {
   TimelineEvent,
   TimelineResponse,
   PaymentRow,
+  ExtractionRecord,
+  OrderRevisionRecord,
   WorkflowAction,
   RollbackAction,
   AUTO_CONTAINER,
@@ -51,8 +54,16 @@ import { ItemsTab } from './workspace/tabs/items-tab';
 import { LogisticsTab } from './workspace/tabs/logistics-tab';
 import { FinanceTab } from './workspace/tabs/finance-tab';
 import { TimelineTab } from './workspace/tabs/timeline-tab';
+import { SourceTab } from './workspace/tabs/source-tab';
+import { HistoryTab } from './workspace/tabs/history-tab';
 import { OrderHeader } from './workspace/order-header';
 
+// pdf.js touches browser globals at import time, so the viewer only loads client-side.
+const PdfDocumentViewer = dynamic(
+  () => import('@/components/pdf-viewer/pdf-document-viewer').then((mod) => mod.PdfDocumentViewer),
+  { ssr: false }
+);
+
 const fetcher = async (url: string) => {
   const res = await fetch(url, { cache: 'no-store' });
   if (!res.ok) {
@@ -69,6 +80,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
 
   const [containerActionId, setContainerActionId] = useState(AUTO_CONTAINER);
   const [isPoPreviewOpen, setIsPoPreviewOpen] = useState(false);
+  const [showSourcePdf, setShowSourcePdf] = useState(true);
 
   // SWR Hooks
   const { data: orderRes, error: orderError, isLoading: orderLoading, mutate: mutateOrder } = useSWR(`/api/orders/${orderId}`, fetcher);
@@ -78,6 +90,8 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
   const { data: containerRes, mutate: mutateContainers } = useSWR('/api/logistics/containers', fetcher);
   const { data: timelineRes, mutate: mutateTimeline } = useSWR(`/api/orders/${orderId}/timeline`, fetcher);
   const { data: paymentsRes, mutate: mutatePayments } = useSWR(`/api/finance/payments?orderId=${orderId}`, fetcher);
+  const { data: extractionsRes } = useSWR(`/api/orders/${orderId}/extractions`, fetcher);
+  const { data: revisionsRes, mutate: mutateRevisions } = useSWR(`/api/orders/${orderId}/revisions`, fetcher);
 
   const error = orderError?.message || null;
   const loading = orderLoading;
@@ -117,6 +131,14 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
     return paymentsRes?.success && Array.isArray(paymentsRes.data) ? (paymentsRes.data as PaymentRow[]) : [];
   }, [paymentsRes]);
 
+  const extractionRecords = useMemo(() => {
+    return extractionsRes?.success && Array.isArray(extractionsRes.data) ? (extractionsRes.data as ExtractionRecord[]) : [];
+  }, [extractionsRes]);
+
+  const revisions = useMemo(() => {
+    return revisionsRes?.success && Array.isArray(revisionsRes.data) ? (revisionsRes.data as OrderRevisionRecord[]) : [];
+  }, [revisionsRes]);
+
   const poData: ExtractedOrderData = useMemo(() => {
     if (!order) return { items: [] };
     return {
@@ -180,6 +202,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
       mutateContainers(),
       mutateTimeline(),
       mutatePayments(),
+      mutateRevisions(),
     ]);
   }, [
     mutateOrder,
@@ -189,6 +212,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
     mutateContainers,
     mutateTimeline,
     mutatePayments,
+    mutateRevisions,
   ]);
 
   const runAction = async (key: string, fn: () => Promise<void>) => {
@@ -247,6 +271,58 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
     });
   };
 
+  const addFinanceNote = async (targetType: 'CUSTOMER_INVOICE' | 'VENDOR_BILL', doc: DocSummary) => {
+    const result = await openPrompt({
+      title: t('OrderWorkspace.addNoteTitle', 'Credit / Debit Note for {code}', { code: doc.code }),
+      fields: [
+        { key: 'noteType', label: t('OrderWorkspace.noteType', 'CREDIT (lowers amount due) or DEBIT (raises it)'), defaultValue: 'CREDIT' },
+        { key: 'amount', label: t('OrderWorkspace.noteAmount', 'Amount ({currency})', { currency: doc.currency }) },
+        {
+          key: 'reason',
+          label: t('OrderWorkspace.noteReason', 'Reason'),
+          defaultValue: targetType === 'CUSTOMER_INVOICE' ? 'CHARGEBACK' : 'DISCOUNT',
+          placeholder: 'CHARGEBACK / SHORT_SHIP / DISCOUNT / PRICE_ADJUSTMENT / OTHER',
+        },
+        { key: 'description', label: t('OrderWorkspace.noteDescription', 'Description'), placeholder: t('OrderWorkspace.optional', 'optional') },
+      ],
+    });
+    if (!result) return;
+
+    const noteType = result.noteType.trim().toUpperCase();
+    const amount = Number(result.amount);
+    if (noteType !== 'CREDIT' && noteType !== 'DEBIT') {
+      alert(t('OrderWorkspace.noteTypeInvalid', 'Note type must be CREDIT or DEBIT'));
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert(t('OrderWorkspace.amountMustBeValid', 'Amount must be a valid number'));
+      return;
+    }
+
+    await runAction(`NOTE_${targetType}_${doc.id}`, async () => {
+      const res = await fetch('/api/finance/notes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          noteType,
+          targetType,
+          targetId: doc.id,
+          amount,
+          reason: result.reason.trim().toUpperCase() || 'OTHER',
+          description: result.description.trim() || null,
+        }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to issue note'));
+    });
+  };
+
+  const deleteFinanceNote = async (id: string) => {
+    await runAction(`DELETE_NOTE_${id}`, async () => {
+      const res = await fetch(`/api/finance/notes?id=${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to delete note'));
+    });
+  };
+
   const deleteShippingDoc = async (id: string) => {
     await runAction(`DELETE_SHIPPING_DOC_${id}`, async () => {
       const res = await fetch(`/api/logistics/shipping-docs?id=${id}`, { method: 'DELETE' });
@@ -368,6 +444,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
       title: t('OrderWorkspace.editDocumentTitle', 'Edit Document'),
       fields: [
         { key: 'amount', label: t('OrderWorkspace.amount', 'Amount'), defaultValue: String(doc.amount) },
+        { key: 'currency', label: t('OrderWorkspace.currency', 'Currency'), defaultValue: doc.currency },
         {
           key: 'dueDate',
           label: t('OrderWorkspace.paymentDate', 'Due date (YYYY-MM-DD)'),
@@ -396,6 +473,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           amount,
+          currency: result.currency.trim() || undefined,
           dueDate: result.dueDate.trim() ? result.dueDate.trim() : null,
         }),
       });
@@ -414,6 +492,12 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
           defaultValue: row.paymentDate ? new Date(row.paymentDate).toISOString().slice(0, 10) : '',
           placeholder: t('OrderWorkspace.emptyToClear', 'empty to clear'),
         },
+        {
+          key: 'currency',
+          label: t('OrderWorkspace.paymentCurrency', 'Paid in currency'),
+          defaultValue: row.currency || '',
+          placeholder: t('OrderWorkspace.documentCurrency', 'empty = document currency'),
+        },
         { key: 'method', label: t('OrderWorkspace.method', 'Method'), defaultValue: row.method || '', placeholder: t('OrderWorkspace.optional', 'optional') },
       ],
     });
@@ -432,6 +516,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
         body: JSON.stringify({
           amount,
           paymentDate: result.date.trim() ? result.date.trim() : null,
+          currency: result.currency.trim() || null,
           method: result.method.trim() ? result.method.trim() : null,
         }),
       });
@@ -462,6 +547,73 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
     });
   };
 
+  const approveOrder = async () => {
+    await runAction('APPROVE_ORDER', async () => {
+      const res = await fetch(`/api/orders/${orderId}/approve`, { method: 'POST' });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to approve order'));
+    });
+  };
+
+  const saveHtsClassification = async (itemId: string, htsCodeOverride: string, htsOverrideReason: string) => {
+    await runAction(`HTS_${itemId}`, async () => {
+      const res = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: [{ id: itemId, htsCodeOverride, htsOverrideReason }] }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to save HTS classification'));
+    });
+  };
+
+  const saveUnitCbm = async (itemId: string, unitCbm: number | null) => {
+    await runAction(`CBM_${itemId}`, async () => {
+      const res = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: [{ id: itemId, unitCbm }] }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to save unit volume'));
+    });
+  };
+
+  const saveOrigin = async (originCountry: string | null) => {
+    await runAction('ORIGIN', async () => {
+      const res = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ originCountry }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to save origin'));
+    });
+  };
+
+  const saveItemOrigin = async (itemId: string, originCountry: string | null) => {
+    await runAction(`ORIGIN_${itemId}`, async () => {
+      const res = await fetch(`/api/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: [{ id: itemId, originCountry }] }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to save item origin'));
+    });
+  };
+
+  const restoreVersion = async (version: number) => {
+    const ok = window.confirm(
+      t(
+        'OrderWorkspace.confirmRestoreVersion',
+        'Restore this order to version {version}? Items, margins and the workflow stage will be recalculated.',
+        { version }
+      )
+    );
+    if (!ok) return;
+
+    await runAction(`RESTORE_VERSION_${version}`, async () => {
+      const res = await fetch(`/api/orders/${orderId}/revisions/${version}/restore`, { method: 'POST' });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to restore version'));
+    });
+  };
+
   const itemTotals = useMemo(() => {
     const items = order?.items || [];
     return {
@@ -546,6 +698,7 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
           triggerWorkflow,
           rollbackWorkflow,
           onVendorChange: handleVendorChange,
+          approveOrder,
         }}
       />
     </div>
@@ -601,6 +754,8 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
             <TabsTrigger value="logistics" className="rounded-lg px-6">{t('OrderWorkspace.tabLogistics', 'Logistics')}</TabsTrigger>
             <TabsTrigger value="finance" className="rounded-lg px-6">{t('OrderWorkspace.tabFinance', 'Finance')}</TabsTrigger>
             <TabsTrigger value="timeline" className="rounded-lg px-6">{t('OrderWorkspace.tabTimeline', 'Timeline')}</TabsTrigger>
+            <TabsTrigger value="source" className="rounded-lg px-6">{t('OrderWorkspace.tabSource', 'Source')}</TabsTrigger>
+            <TabsTrigger value="history" className="rounded-lg px-6">{t('OrderWorkspace.tabHistory', 'History')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -610,11 +765,57 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
               shippingDocs={shippingDocs}
               allocations={allocations}
               financeSummary={financeSummary}
+              busyAction={busyAction}
+              onSaveOrigin={saveOrigin}
             />
           </TabsContent>
 
           <TabsContent value="items">
-            <ItemsTab order={order} />
+            {order.sourceFileId ? (
+              <div className="space-y-3">
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setShowSourcePdf((value) => !value)}>
+                    {showSourcePdf ? (
+                      <PanelRightClose className="mr-2 h-4 w-4" />
+                    ) : (
+                      <PanelRightOpen className="mr-2 h-4 w-4" />
+                    )}
+                    {showSourcePdf
+                      ? t('OrderWorkspace.hideSourcePdf', 'Hide original PDF')
+                      : t('OrderWorkspace.showSourcePdf', 'Show original PDF')}
+                  </Button>
+                </div>
+                <div className={showSourcePdf ? 'grid grid-cols-1 gap-4 2xl:grid-cols-2' : ''}>
+                  <div className="min-w-0">
+                    <ItemsTab
+                      order={order}
+                      busyAction={busyAction}
+                      onSaveClassification={saveHtsClassification}
+                      onSaveUnitCbm={saveUnitCbm}
+                      onSaveOrigin={saveItemOrigin}
+                    />
+                  </div>
+                  {showSourcePdf && (
+                    <PdfDocumentViewer
+                      url={
+                        order.sourceFileName
+                          ? `/api/files/${order.sourceFileId}?name=${encodeURIComponent(order.sourceFileName)}`
+                          : `/api/files/${order.sourceFileId}`
+                      }
+                      className="2xl:sticky 2xl:top-4 h-[80vh]"
+                    />
+                  )}
+                </div>
+              </div>
+            ) : (
+              <ItemsTab
+                order={order}
+                busyAction={busyAction}
+                onSaveClassification={saveHtsClassification}
+                onSaveUnitCbm={saveUnitCbm}
+                onSaveOrigin={saveItemOrigin}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="logistics">
@@ -642,6 +843,8 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
                 editFinanceDoc,
                 payOutstanding,
                 deleteFinanceDoc,
+                addFinanceNote,
+                deleteFinanceNote,
                 editPayment,
                 deletePayment,
               }}
@@ -651,6 +854,19 @@ export function OrderWorkspace({ orderId }: { orderId: string }) {
           <TabsContent value="timeline">
             <TimelineTab events={timelineEvents} />
           </TabsContent>
+
+          <TabsContent value="source">
+            <SourceTab records={extractionRecords} />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <HistoryTab
+              orderId={orderId}
+              revisions={revisions}
+              busyAction={busyAction}
+              onRestore={restoreVersion}
+            />
+          </TabsContent>
         </Tabs>
 
         <PromptDialog {...promptDialogProps} />
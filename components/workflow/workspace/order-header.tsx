@@ -10,7 +10,7 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
-import { Download, FileText, Printer, ChevronRight, ArrowLeft } from 'lucide-react';
+import { Download, FileText, Printer, ChevronRight, ArrowLeft, CheckCircle2 } from 'lucide-react';
 import Link from 'next/link';
 import {
     OrderDetails,
@@ -23,6 +23,7 @@ import { statusBadgeVariant } from './utils';
 import { VendorSelector } from './vendor-selector';
 import { useI18n } from '@/components/locale-provider';
 import { getStageLabelZh } from '@/lib/workflow-stages';
+import { isDraftOrder } from '@/lib/constants';
 
 export function OrderHeader({
     order,
@@ -42,9 +43,11 @@ export function OrderHeader({
         triggerWorkflow: (action: WorkflowAction) => void;
         rollbackWorkflow: (action: RollbackAction, msg: string) => void;
         onVendorChange: (vendorName: string, vendorAddress?: string | null) => Promise<void>;
+        approveOrder: () => void;
     };
 }) {
     const { t } = useI18n();
+    const isDraft = isDraftOrder(order);
 
     return (
         <div className="flex flex-col gap-4">
@@ -56,9 +59,15 @@ export function OrderHeader({
                 <div className="space-y-1.5 border-l-4 border-primary pl-4">
                     <div className="flex items-center gap-3">
                         <h1 className="text-2xl font-bold tracking-tight text-foreground">{t('OrderWorkspace.order', 'Order')} {order.vpoNumber}</h1>
-                        <Badge variant={statusBadgeVariant(order.workflowStatus)} className="rounded-md px-2 py-0.5 shadow-sm text-xs font-medium">
-                            {getStageLabelZh(order.workflowStatus)}
-                        </Badge>
+                        {isDraft ? (
+                            <Badge variant="outline" className="rounded-md px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 border-amber-200">
+                                {t('OrderWorkspace.draft', 'Draft — awaiting review')}
+                            </Badge>
+                        ) : (
+                            <Badge variant={statusBadgeVariant(order.workflowStatus)} className="rounded-md px-2 py-0.5 shadow-sm text-xs font-medium">
+                                {getStageLabelZh(order.workflowStatus)}
+                            </Badge>
+                        )}
                     </div>
                     <div className="text-sm font-medium text-muted-foreground flex items-center gap-2">
                         <span>{order.customerName}</span>
@@ -72,6 +81,21 @@ export function OrderHeader({
                 </div>
 
                 <div className="flex flex-col gap-3 sm:items-end">
+                    {isDraft && (
+                        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-1.5 pl-3">
+                            <span className="text-xs text-amber-800">
+                                {t('OrderWorkspace.draftHint', 'Check the extracted data, then approve to start the workflow.')}
+                            </span>
+                            <Button
+                                size="sm"
+                                onClick={actions.approveOrder}
+                                disabled={busyAction === 'APPROVE_ORDER'}
+                            >
+                                <CheckCircle2 className="mr-2 h-4 w-4" />
+                                {busyAction === 'APPROVE_ORDER' ? t('OrderWorkspace.wait', 'Wait...') : t('OrderWorkspace.approveDraft', 'Approve order')}
+                            </Button>
+                        </div>
+                    )}
                     <div className="flex flex-wrap items-center gap-2 bg-muted/30 p-1.5 rounded-lg border border-border/50">
                         <Button
                             variant="outline"
@@ -148,14 +172,14 @@ export function OrderHeader({
                         <Button
                             size="sm"
                             onClick={() => actions.triggerWorkflow('START_TRANSIT')}
-                            disabled={busyAction === 'TRIGGER_START_TRANSIT'}
+                            disabled={isDraft || busyAction === 'TRIGGER_START_TRANSIT'}
                         >
                             {busyAction === 'TRIGGER_START_TRANSIT' ? t('OrderWorkspace.wait', 'Wait...') : t('OrderWorkspace.shipOrder', '1. Ship Order')}
                         </Button>
                         <Button
                             size="sm"
                             onClick={() => actions.triggerWorkflow('MARK_DELIVERED')}
-                            disabled={busyAction === 'TRIGGER_MARK_DELIVERED'}
+                            disabled={isDraft || busyAction === 'TRIGGER_MARK_DELIVERED'}
                         >
                             {busyAction === 'TRIGGER_MARK_DELIVERED' ? t('OrderWorkspace.wait', 'Wait...') : t('OrderWorkspace.markDelivered', '2. Mark Delivered')}
                         </Button>
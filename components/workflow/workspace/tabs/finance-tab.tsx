@@ -11,7 +11,7 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { money, num, formatDate } from '@/lib/format';
+import { money, moneyIn, num, formatDate } from '@/lib/format';
 import { FinanceSummary, PaymentRow, DocSummary } from '../types';
 import { statusBadgeVariant } from '../utils';
 import { useI18n } from '@/components/locale-provider';
@@ -38,11 +38,22 @@ export function FinanceTab({
             targetType: 'CUSTOMER_INVOICE' | 'VENDOR_BILL' | 'LOGISTICS_BILL',
             id: string
         ) => void;
+        addFinanceNote: (targetType: 'CUSTOMER_INVOICE' | 'VENDOR_BILL', doc: DocSummary) => void;
+        deleteFinanceNote: (id: string) => void;
         editPayment: (row: PaymentRow) => void;
         deletePayment: (id: string) => void;
     };
 }) {
     const { t } = useI18n();
+    const notes = financeSummary?.notes || [];
+    const actualMargin = financeSummary?.actualMargin;
+    const docCurrency = new Map(
+        [
+            ...(financeSummary?.invoices || []),
+            ...(financeSummary?.vendorBills || []),
+            ...(financeSummary?.logisticsBills || []),
+        ].map((doc) => [doc.id, doc.currency])
+    );
 
     const DocTable = ({
         title,
@@ -66,6 +77,9 @@ export function FinanceTab({
                             <TableHead className="text-right">{t('OrderWorkspace.amount', 'Amount')}</TableHead>
                             <TableHead className="text-right">{t('OrderWorkspace.paid', 'Paid')}</TableHead>
                             <TableHead className="text-right">{t('OrderWorkspace.outstanding', 'Outstanding')}</TableHead>
+                            <TableHead className="text-right">
+                                {t('OrderWorkspace.baseOutstanding', 'Outstanding ({base})', { base: financeSummary?.baseCurrency ?? 'USD' })}
+                            </TableHead>
                             <TableHead>{t('OrderWorkspace.status', 'Status')}</TableHead>
                             <TableHead className="text-right">{t('OrderWorkspace.action', 'Action')}</TableHead>
                         </TableRow>
@@ -73,7 +87,7 @@ export function FinanceTab({
                     <TableBody>
                         {docs.length === 0 ? (
                             <TableRow>
-                                <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                                <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
                                     {t('OrderWorkspace.noDocuments', 'No documents')}
                                 </TableCell>
                             </TableRow>
@@ -82,13 +96,31 @@ export function FinanceTab({
                                 const actionKey = `PAY_${targetType}_${doc.id}`;
                                 const deleteKey = `DELETE_DOC_${targetType}_${doc.id}`;
                                 const editKey = `EDIT_DOC_${targetType}_${doc.id}`;
+                                const noteKey = `NOTE_${targetType}_${doc.id}`;
                                 return (
                                     <TableRow key={doc.id}>
                                         <TableCell className="font-medium">{doc.code}</TableCell>
                                         <TableCell>{formatDate(doc.dueDate)}</TableCell>
-                                        <TableCell className="text-right">{money(doc.amount)}</TableCell>
-                                        <TableCell className="text-right">{money(doc.paid)}</TableCell>
-                                        <TableCell className="text-right">{money(doc.outstanding)}</TableCell>
+                                        <TableCell className="text-right">
+                                            {moneyIn(doc.amount, doc.currency)}
+                                            {doc.adjustment !== 0 && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {t('OrderWorkspace.notesAdjustment', 'Notes')} {doc.adjustment > 0 ? '+' : ''}
+                                                    {moneyIn(doc.adjustment, doc.currency)}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">{moneyIn(doc.paid, doc.currency)}</TableCell>
+                                        <TableCell className="text-right">{moneyIn(doc.outstanding, doc.currency)}</TableCell>
+                                        <TableCell className="text-right">
+                                            {doc.baseOutstanding === null ? '-' : money(doc.baseOutstanding)}
+                                            {doc.fxGainLoss !== 0 && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {t('OrderWorkspace.fx', 'FX')} {doc.fxGainLoss > 0 ? '+' : ''}
+                                                    {money(doc.fxGainLoss)}
+                                                </div>
+                                            )}
+                                        </TableCell>
                                         <TableCell>
                                             <Badge variant={statusBadgeVariant(doc.status)}>
                                                 {doc.status || 'OPEN'}
@@ -112,6 +144,16 @@ export function FinanceTab({
                                                 >
                                                     {busyAction === actionKey ? t('OrderWorkspace.posting', 'Posting...') : t('OrderWorkspace.pay', 'Pay')}
                                                 </Button>
+                                                {targetType !== 'LOGISTICS_BILL' && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        disabled={busyAction === noteKey}
+                                                        onClick={() => actions.addFinanceNote(targetType, doc)}
+                                                    >
+                                                        {busyAction === noteKey ? t('OrderWorkspace.saving', 'Saving...') : t('OrderWorkspace.addNote', 'Note')}
+                                                    </Button>
+                                                )}
                                                 <Button
                                                     size="sm"
                                                     variant="ghost"
@@ -136,7 +178,12 @@ export function FinanceTab({
         <div className="space-y-4">
             <Card>
                 <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">{t('OrderWorkspace.financeSnapshot', 'Finance Snapshot')}</CardTitle>
+                    <CardTitle className="text-sm">
+                        {t('OrderWorkspace.financeSnapshot', 'Finance Snapshot')}{' '}
+                        <span className="font-normal text-muted-foreground">
+                            {t('OrderWorkspace.inBase', 'in {base}', { base: financeSummary?.baseCurrency ?? 'USD' })}
+                        </span>
+                    </CardTitle>
                 </CardHeader>
                 <CardContent className="grid gap-4 md:grid-cols-3 text-sm">
                     <div className="rounded-lg border p-3 space-y-1">
@@ -157,6 +204,33 @@ export function FinanceTab({
                         <p>{t('OrderWorkspace.paid', 'Paid:')} {money(financeSummary?.totals.logisticsPaid || 0)}</p>
                         <p>{t('OrderWorkspace.outstanding', 'Outstanding:')} {money(financeSummary?.totals.logisticsOutstanding || 0)}</p>
                     </div>
+                    <div className="md:col-span-3 space-y-1 text-xs text-muted-foreground">
+                        {actualMargin && (
+                            <p>
+                                {t('OrderWorkspace.actualMargin', 'Actual margin:')} {money(actualMargin.margin)} (
+                                {(actualMargin.marginRate * 100).toFixed(1)}%)
+                                {actualMargin.estimatedMargin !== null && (
+                                    <>
+                                        {' · '}
+                                        {t('OrderWorkspace.estimatedMargin', 'Estimated:')} {money(actualMargin.estimatedMargin)}
+                                    </>
+                                )}
+                            </p>
+                        )}
+                        <p>
+                            {t('OrderWorkspace.fxGainLoss', 'Realized FX gain / loss:')}{' '}
+                            {money(financeSummary?.totals.fxGainLoss || 0)}
+                        </p>
+                        {!!financeSummary?.unconverted.length && (
+                            <p className="text-amber-600">
+                                {t(
+                                    'OrderWorkspace.unconverted',
+                                    'No exchange rate for {currencies}; those documents are left out of the totals.',
+                                    { currencies: financeSummary.unconverted.join(', ') }
+                                )}
+                            </p>
+                        )}
+                    </div>
                 </CardContent>
             </Card>
 
@@ -176,6 +250,66 @@ export function FinanceTab({
                 targetType="LOGISTICS_BILL"
             />
 
+            <Card>
+                <CardHeader className="pb-2">
+                    <CardTitle className="text-sm">{t('OrderWorkspace.creditDebitNotes', 'Credit / Debit Notes')}</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>{t('OrderWorkspace.noteNo', 'Note No.')}</TableHead>
+                                <TableHead>{t('OrderWorkspace.date', 'Date')}</TableHead>
+                                <TableHead>{t('OrderWorkspace.type', 'Type')}</TableHead>
+                                <TableHead>{t('OrderWorkspace.target', 'Target')}</TableHead>
+                                <TableHead>{t('OrderWorkspace.reason', 'Reason')}</TableHead>
+                                <TableHead className="text-right">{t('OrderWorkspace.amount', 'Amount')}</TableHead>
+                                <TableHead className="text-right">{t('OrderWorkspace.action', 'Action')}</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {notes.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                                        {t('OrderWorkspace.noNotes', 'No credit or debit notes')}
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                notes.map((note) => (
+                                    <TableRow key={note.id}>
+                                        <TableCell className="font-medium">{note.noteNo}</TableCell>
+                                        <TableCell>{formatDate(note.issueDate)}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={note.noteType === 'CREDIT' ? 'secondary' : 'outline'}>
+                                                {note.noteType}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>{note.targetCode}</TableCell>
+                                        <TableCell>
+                                            {note.reason || '-'}
+                                            {note.description && (
+                                                <div className="text-xs text-muted-foreground">{note.description}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">{moneyIn(note.amount, note.currency)}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                disabled={busyAction === `DELETE_NOTE_${note.id}`}
+                                                onClick={() => actions.deleteFinanceNote(note.id)}
+                                            >
+                                                {busyAction === `DELETE_NOTE_${note.id}` ? t('OrderWorkspace.deleting', 'Deleting...') : t('OrderWorkspace.delete', 'Delete')}
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))
+                            )}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
             <Card>
                 <CardHeader className="pb-2">
                     <CardTitle className="text-sm">{t('OrderWorkspace.payments', 'Payments')}</CardTitle>
@@ -209,7 +343,7 @@ export function FinanceTab({
                                             </Badge>
                                         </TableCell>
                                         <TableCell>{row.targetCode || row.targetId}</TableCell>
-                                        <TableCell className="text-right">{money(num(row.amount))}</TableCell>
+                                        <TableCell className="text-right">{moneyIn(num(row.amount), row.currency || docCurrency.get(row.targetId))}</TableCell>
                                         <TableCell>{row.method || '-'}</TableCell>
                                         <TableCell className="text-right">
                                             <div className="flex justify-end gap-2">
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import { OrderDiffView } from '@/components/order-diff/order-diff-view';
+import type { OrderDiff } from '@/lib/order-diff';
+import { OrderRevisionRecord } from '../types';
+import { useI18n } from '@/components/locale-provider';
+
+const SOURCE_LABELS: Record<OrderRevisionRecord['source'], [key: string, fallback: string]> = {
+    BASELINE: ['OrderWorkspace.revisionBaseline', 'Created'],
+    VPO_REVISION: ['OrderWorkspace.revisionVpo', 'Re-issued VPO'],
+    EDIT: ['OrderWorkspace.revisionEdit', 'Edited'],
+    RESTORE: ['OrderWorkspace.revisionRestore', 'Restored'],
+    RECOMPUTE: ['OrderWorkspace.revisionRecompute', 'Recomputed'],
+};
+
+interface HistoryTabProps {
+    orderId: string;
+    revisions: OrderRevisionRecord[];
+    busyAction: string | null;
+    onRestore: (version: number) => void;
+}
+
+export function HistoryTab({ orderId, revisions, busyAction, onRestore }: HistoryTabProps) {
+    const { t } = useI18n();
+    const [expanded, setExpanded] = useState<Set<number>>(new Set());
+    const [comparison, setComparison] = useState<{ version: number; diff: OrderDiff } | null>(null);
+    const [comparing, setComparing] = useState<number | null>(null);
+
+    const latestVersion = revisions[0]?.version;
+
+    const toggle = (version: number) => {
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(version)) next.delete(version);
+            else next.add(version);
+            return next;
+        });
+    };
+
+    const compareWithCurrent = async (version: number) => {
+        setComparing(version);
+        try {
+            const res = await fetch(`/api/orders/${orderId}/revisions/diff?from=${version}`, { cache: 'no-store' });
+            const payload = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(payload.error || 'Failed to compare versions');
+            setComparison({ version, diff: payload.data as OrderDiff });
+        } catch (error: unknown) {
+            alert(error instanceof Error ? error.message : String(error));
+        } finally {
+            setComparing(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm">{t('OrderWorkspace.revisionHistory', 'Revision History')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {revisions.length === 0 ? (
+                    <div className="rounded-lg border p-4 text-sm text-muted-foreground">
+                        {t(
+                            'OrderWorkspace.noRevisionsYet',
+                            'No versions recorded yet. The first edit stores the current state as version 1.'
+                        )}
+                    </div>
+                ) : (
+                    revisions.map((revision) => {
+                        const [labelKey, labelFallback] = SOURCE_LABELS[revision.source] ?? [revision.source, revision.source];
+                        const isOpen = expanded.has(revision.version);
+                        const changes = revision.changes;
+                        const restoreKey = `RESTORE_VERSION_${revision.version}`;
+
+                        return (
+                            <div key={revision.id} className="rounded-lg border p-3 space-y-2">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <button
+                                        type="button"
+                                        className="flex items-center gap-1 font-medium"
+                                        onClick={() => toggle(revision.version)}
+                                        disabled={!changes?.hasChanges}
+                                    >
+                                        {changes?.hasChanges ? (
+                                            isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />
+                                        ) : (
+                                            <span className="w-4" />
+                                        )}
+                                        v{revision.version}
+                                    </button>
+                                    <Badge variant="outline">{t(labelKey, labelFallback)}</Badge>
+                                    {changes?.hasChanges && (
+                                        <span className="text-xs text-muted-foreground">
+                                            {t('OrderWorkspace.revisionSummary', '{fields} fields, {items} lines changed', {
+                                                fields: changes.fields.length,
+                                                items: changes.items.length,
+                                            })}
+                                        </span>
+                                    )}
+                                    <span className="ml-auto text-xs text-muted-foreground">
+                                        {revision.createdAt ? new Date(revision.createdAt).toLocaleString() : '-'}
+                                        {revision.changedBy ? ` · ${revision.changedBy}` : ''}
+                                    </span>
+                                </div>
+                                {revision.note && <div className="text-xs text-muted-foreground">{revision.note}</div>}
+                                {isOpen && changes && <OrderDiffView diff={changes} />}
+                                {revision.version !== latestVersion && (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={comparing === revision.version}
+                                            onClick={() => compareWithCurrent(revision.version)}
+                                        >
+                                            {comparing === revision.version ? (
+                                                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                                            ) : (
+                                                <GitCompare className="mr-2 h-3 w-3" />
+                                            )}
+                                            {t('OrderWorkspace.compareWithCurrent', 'Compare with current')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={busyAction !== null}
+                                            onClick={() => onRestore(revision.version)}
+                                        >
+                                            {busyAction === restoreKey ? (
+                                                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                                            ) : (
+                                                <RotateCcw className="mr-2 h-3 w-3" />
+                                            )}
+                                            {t('OrderWorkspace.restoreVersion', 'Restore this version')}
+                                        </Button>
+                                    </div>
+                                )}
+                                {comparison?.version === revision.version && (
+                                    <div className="rounded-md bg-muted/30 p-3">
+                                        <div className="mb-2 text-xs font-semibold text-muted-foreground">
+                                            {t('OrderWorkspace.changesSinceVersion', 'Changes since v{version}', {
+                                                version: revision.version,
+                                            })}
+                                        </div>
+                                        <OrderDiffView diff={comparison.diff} />
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </CardContent>
+        </Card>
+    );
+}
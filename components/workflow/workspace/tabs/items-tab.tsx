@@ -12,12 +12,209 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { money, num } from '@/lib/format';
-import { OrderDetails } from '../types';
+import { parseLandedCostBreakdown, type LandedCostBasis } from '@/lib/landed-cost';
+import { declaredHtsCode } from '@/lib/tariffs';
+import { OrderDetails, OrderItem } from '../types';
 import { useI18n } from '@/components/locale-provider';
 
-export function ItemsTab({ order }: { order: OrderDetails }) {
+/** Suggested code next to the override inputs; an override needs a reason and a blank one clears it. */
+function HtsClassification({
+    item,
+    busy,
+    onSave,
+}: {
+    item: OrderItem;
+    busy: boolean;
+    onSave: (htsCodeOverride: string, htsOverrideReason: string) => void;
+}) {
+    const { t } = useI18n();
+    const [code, setCode] = useState(item.htsCodeOverride ?? '');
+    const [reason, setReason] = useState(item.htsOverrideReason ?? '');
+    const changed = code !== (item.htsCodeOverride ?? '') || reason !== (item.htsOverrideReason ?? '');
+    const missingReason = !!code.trim() && !reason.trim();
+
+    return (
+        <div className="flex-[2] space-y-1">
+            <span className="text-xs font-medium text-muted-foreground block">
+                {t('OrderWorkspace.htsClassification', 'HTS Classification')}
+            </span>
+            <div className="text-xs text-muted-foreground">
+                {t('OrderWorkspace.suggestedHts', 'Suggested')}:{' '}
+                <span className="font-mono text-foreground">{item.suggestedHtsCode || '-'}</span>
+            </div>
+            <div className="flex items-center gap-2">
+                <Input
+                    className="h-8 w-36 font-mono text-xs"
+                    value={code}
+                    placeholder={t('OrderWorkspace.htsOverride', 'Override code')}
+                    onChange={(e) => setCode(e.target.value)}
+                />
+                <Input
+                    className="h-8 text-xs"
+                    value={reason}
+                    placeholder={t('OrderWorkspace.htsOverrideReason', 'Reason for the override')}
+                    onChange={(e) => setReason(e.target.value)}
+                />
+                <Button
+                    size="sm"
+                    className="h-8"
+                    disabled={busy || !changed || missingReason}
+                    title={missingReason ? t('OrderWorkspace.htsReasonRequired', 'Give a reason for the override') : undefined}
+                    onClick={() => onSave(code.trim(), code.trim() ? reason.trim() : '')}
+                >
+                    {t('OrderWorkspace.saveHts', 'Save')}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+/** Where the line ships from when it differs from the order; blank follows the order. */
+function ItemOrigin({
+    item,
+    orderOrigin,
+    busy,
+    onSave,
+}: {
+    item: OrderItem;
+    orderOrigin: string | null;
+    busy: boolean;
+    onSave: (originCountry: string | null) => void;
+}) {
+    const { t } = useI18n();
+    const [origin, setOrigin] = useState(item.originCountry ?? '');
+    const trimmed = origin.trim().toUpperCase();
+    const invalid = !!trimmed && !/^[A-Z]{2}$/.test(trimmed);
+    const changed = trimmed !== (item.originCountry ?? '');
+
+    return (
+        <div className="flex-1 space-y-1">
+            <span className="text-xs font-medium text-muted-foreground block">
+                {t('OrderWorkspace.itemOrigin', 'Origin')}
+            </span>
+            <div className="flex items-center gap-2">
+                <Input
+                    className="h-8 w-16 font-mono text-xs uppercase"
+                    maxLength={2}
+                    value={origin}
+                    placeholder={orderOrigin || ''}
+                    title={t('OrderWorkspace.itemOriginHint', 'Leave blank to use the order origin')}
+                    onChange={(e) => setOrigin(e.target.value)}
+                />
+                <Button
+                    size="sm"
+                    className="h-8"
+                    disabled={busy || !changed || invalid}
+                    onClick={() => onSave(trimmed || null)}
+                >
+                    {t('OrderWorkspace.saveHts', 'Save')}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+/** What each landed-cost component charged the line, with the CBM per piece it was priced on. */
+function LandedCostBreakdown({
+    item,
+    busy,
+    onSaveUnitCbm,
+}: {
+    item: OrderItem;
+    busy: boolean;
+    onSaveUnitCbm: (unitCbm: number | null) => void;
+}) {
+    const { t } = useI18n();
+    const [unitCbm, setUnitCbm] = useState(item.unitCbm ? String(Number(item.unitCbm)) : '');
+    const lines = parseLandedCostBreakdown(item.landedCostBreakdown);
+    const qty = num(item.quantity) || 1;
+    const parsedCbm = unitCbm.trim() === '' ? null : Number(unitCbm);
+    const invalid = parsedCbm !== null && (!Number.isFinite(parsedCbm) || parsedCbm < 0);
+    const changed = parsedCbm !== (item.unitCbm === null ? null : Number(item.unitCbm));
+
+    const basisLabel = (basis: LandedCostBasis, rate: number) =>
+        ({
+            PER_UNIT: t('OrderWorkspace.costPerUnit', '{rate}/pc', { rate: money(rate) }),
+            PER_CBM: t('OrderWorkspace.costPerCbm', '{rate}/CBM', { rate: money(rate) }),
+            PER_CONTAINER: t('OrderWorkspace.costPerContainer', '{rate}/container', { rate: money(rate) }),
+            PERCENT_OF_VALUE: t('OrderWorkspace.costOfValue', '{rate}% of value', { rate: (rate * 100).toFixed(2) }),
+            PERCENT_OF_DUTY: t('OrderWorkspace.costOfDuty', '{rate}% of duty', { rate: (rate * 100).toFixed(2) }),
+        })[basis];
+
+    return (
+        <div className="border-b p-4 space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-medium text-muted-foreground">
+                    {t('OrderWorkspace.landedCost', 'Landed Cost Breakdown')}
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{t('OrderWorkspace.unitCbm', 'CBM per piece')}</span>
+                    <Input
+                        className="h-8 w-28 text-xs"
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        value={unitCbm}
+                        onChange={(e) => setUnitCbm(e.target.value)}
+                    />
+                    <Button
+                        size="sm"
+                        className="h-8"
+                        disabled={busy || !changed || invalid}
+                        onClick={() => onSaveUnitCbm(parsedCbm)}
+                    >
+                        {t('OrderWorkspace.saveHts', 'Save')}
+                    </Button>
+                </div>
+            </div>
+            {lines.length === 0 ? (
+                <div className="text-xs text-muted-foreground">
+                    {t(
+                        'OrderWorkspace.noLandedCost',
+                        'No breakdown stored for this line yet. Recompute the order from the tariffs page to add one.'
+                    )}
+                </div>
+            ) : (
+                <table className="w-full text-xs">
+                    <tbody>
+                        {lines.map((line) => (
+                            <tr key={line.name} className="border-t first:border-t-0">
+                                <td className="py-1 font-medium">{line.name}</td>
+                                <td className="py-1 text-muted-foreground">
+                                    {basisLabel(line.basis, line.rate)}
+                                    {line.missingVolume && (
+                                        <Badge variant="outline" className="ml-2 text-[10px] h-5 text-amber-700 border-amber-300">
+                                            {t('OrderWorkspace.needsCbm', 'Needs CBM')}
+                                        </Badge>
+                                    )}
+                                </td>
+                                <td className="py-1 text-right">{money(line.amount / qty)}/pc</td>
+                                <td className="py-1 text-right font-medium">{money(line.amount)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+export function ItemsTab({
+    order,
+    busyAction,
+    onSaveClassification,
+    onSaveUnitCbm,
+    onSaveOrigin,
+}: {
+    order: OrderDetails;
+    busyAction: string | null;
+    onSaveClassification: (itemId: string, htsCodeOverride: string, htsOverrideReason: string) => Promise<void>;
+    onSaveUnitCbm: (itemId: string, unitCbm: number | null) => Promise<void>;
+    onSaveOrigin: (itemId: string, originCountry: string | null) => Promise<void>;
+}) {
     const { t } = useI18n();
     const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
 
@@ -57,6 +254,7 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                                 <TableHead>{t('OrderWorkspace.description', 'Description')}</TableHead>
                                 <TableHead>{t('OrderWorkspace.collection', 'Collection')}</TableHead>
                                 <TableHead>{t('OrderWorkspace.material', 'Material')}</TableHead>
+                                <TableHead>{t('OrderWorkspace.htsCode', 'HTS')}</TableHead>
                                 <TableHead className="text-right">{t('OrderWorkspace.qty', 'Qty')}</TableHead>
                                 <TableHead className="text-right">{t('OrderWorkspace.customerPrice', 'Customer $')}</TableHead>
                                 <TableHead className="text-right">{t('OrderWorkspace.vendorPrice', 'Vendor $')}</TableHead>
@@ -67,7 +265,7 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                         <TableBody>
                             {order.items.length === 0 ? (
                                 <TableRow>
-                                    <TableCell colSpan={10} className="py-8 text-center text-muted-foreground">
+                                    <TableCell colSpan={11} className="py-8 text-center text-muted-foreground">
                                         {t('OrderWorkspace.noItemsFound', 'No items found')}
                                     </TableCell>
                                 </TableRow>
@@ -99,10 +297,29 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                                                             )}
                                                         </Button>
                                                     </TableCell>
-                                                    <TableCell className="font-medium">{item.productCode || '-'}</TableCell>
+                                                    <TableCell className="font-medium">
+                                                        {item.productCode || '-'}
+                                                        {item.originCountry && (
+                                                            <Badge variant="outline" className="ml-1 text-[10px] h-5">
+                                                                {item.originCountry}
+                                                            </Badge>
+                                                        )}
+                                                    </TableCell>
                                                     <TableCell>{item.description || '-'}</TableCell>
                                                     <TableCell>{item.collection || '-'}</TableCell>
                                                     <TableCell>{item.material || '-'}</TableCell>
+                                                    <TableCell className="whitespace-nowrap">
+                                                        <span className="font-mono text-xs">{declaredHtsCode(item) || '-'}</span>
+                                                        {item.htsCodeOverride && (
+                                                            <Badge
+                                                                variant="secondary"
+                                                                className="ml-1 text-[10px] h-5"
+                                                                title={item.htsOverrideReason || undefined}
+                                                            >
+                                                                {t('OrderWorkspace.htsOverridden', 'Override')}
+                                                            </Badge>
+                                                        )}
+                                                    </TableCell>
                                                     <TableCell className="text-right">{num(item.quantity)}</TableCell>
                                                     <TableCell className="text-right">{money(customerUnit)}</TableCell>
                                                     <TableCell className="text-right">{money(vendorUnit)}</TableCell>
@@ -111,7 +328,7 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                                                 </TableRow>
                                                 {isExpanded && (
                                                     <TableRow>
-                                                        <TableCell colSpan={10} className="bg-muted/10 p-0">
+                                                        <TableCell colSpan={11} className="bg-muted/10 p-0">
                                                             <div className="flex items-center gap-6 border-b p-4 bg-slate-50/50 text-sm">
                                                                 <div className="flex-1 space-y-1">
                                                                     <span className="text-xs font-medium text-muted-foreground block">
@@ -145,7 +362,25 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                                                                         {money(total3pl / qty)}
                                                                     </div>
                                                                 </div>
+
+                                                                <ItemOrigin
+                                                                    item={item}
+                                                                    orderOrigin={order.originCountry}
+                                                                    busy={busyAction === `ORIGIN_${item.id}`}
+                                                                    onSave={(origin) => onSaveOrigin(item.id, origin)}
+                                                                />
+
+                                                                <HtsClassification
+                                                                    item={item}
+                                                                    busy={busyAction === `HTS_${item.id}`}
+                                                                    onSave={(code, reason) => onSaveClassification(item.id, code, reason)}
+                                                                />
                                                             </div>
+                                                            <LandedCostBreakdown
+                                                                item={item}
+                                                                busy={busyAction === `CBM_${item.id}`}
+                                                                onSaveUnitCbm={(unitCbm) => onSaveUnitCbm(item.id, unitCbm)}
+                                                            />
                                                         </TableCell>
                                                     </TableRow>
                                                 )}
@@ -153,7 +388,7 @@ export function ItemsTab({ order }: { order: OrderDetails }) {
                                         );
                                     })}
                                     <TableRow className="bg-muted/30 font-medium">
-                                        <TableCell colSpan={5}>{t('OrderWorkspace.totals', 'Totals')}</TableCell>
+                                        <TableCell colSpan={6}>{t('OrderWorkspace.totals', 'Totals')}</TableCell>
                                         <TableCell className="text-right">{itemTotals.qty}</TableCell>
                                         <TableCell className="text-right">{money(itemTotals.revenue)}</TableCell>
                                         <TableCell className="text-right">{money(itemTotals.vendorCost)}</TableCell>
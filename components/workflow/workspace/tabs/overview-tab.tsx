@@ -1,6 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { money, formatDate } from '@/lib/format';
 import {
     OrderDetails,
@@ -10,18 +14,78 @@ import {
 } from '../types';
 import { useI18n } from '@/components/locale-provider';
 
+/** The order's origin and where it came from; saving a blank goes back to the vendor master or the guess. */
+function OriginField({
+    order,
+    busy,
+    onSave,
+}: {
+    order: OrderDetails;
+    busy: boolean;
+    onSave: (originCountry: string | null) => void;
+}) {
+    const { t } = useI18n();
+    const manual = order.originSource === 'MANUAL';
+    const [origin, setOrigin] = useState(manual ? order.originCountry ?? '' : '');
+    const trimmed = origin.trim().toUpperCase();
+    const invalid = !!trimmed && !/^[A-Z]{2}$/.test(trimmed);
+    const changed = trimmed !== (manual ? order.originCountry ?? '' : '');
+
+    return (
+        <div className="flex justify-between items-center gap-3">
+            <span className="text-muted-foreground">{t('OrderWorkspace.origin', 'Origin')}</span>
+            <div className="flex items-center gap-2">
+                <span className="font-mono">{order.originCountry || '-'}</span>
+                {order.originSource === 'GUESSED' && (
+                    <Badge
+                        variant="outline"
+                        className="text-[10px] h-5 text-amber-700 border-amber-300"
+                        title={t('OrderWorkspace.originGuessedHint', 'Guessed from the supplier name and address')}
+                    >
+                        {t('OrderWorkspace.originGuessed', 'Guessed')}
+                    </Badge>
+                )}
+                {order.originSource === 'VENDOR' && (
+                    <Badge variant="secondary" className="text-[10px] h-5">
+                        {t('OrderWorkspace.originFromVendor', 'Vendor')}
+                    </Badge>
+                )}
+                <Input
+                    className="h-7 w-14 font-mono text-xs uppercase"
+                    maxLength={2}
+                    value={origin}
+                    placeholder={order.originCountry || ''}
+                    onChange={(e) => setOrigin(e.target.value)}
+                />
+                <Button
+                    size="sm"
+                    className="h-7"
+                    disabled={busy || !changed || invalid}
+                    onClick={() => onSave(trimmed || null)}
+                >
+                    {t('OrderWorkspace.saveHts', 'Save')}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
 export function OverviewTab({
     order,
     hints,
     shippingDocs,
     allocations,
     financeSummary,
+    busyAction,
+    onSaveOrigin,
 }: {
     order: OrderDetails;
     hints: string[];
     shippingDocs: ShippingDocRow[];
     allocations: AllocationRow[];
     financeSummary: FinanceSummary | null;
+    busyAction: string | null;
+    onSaveOrigin: (originCountry: string | null) => Promise<void>;
 }) {
     const { t } = useI18n();
 
@@ -49,6 +113,12 @@ export function OverviewTab({
                             <span className="text-muted-foreground">{t('OrderWorkspace.shipVia', 'Ship Via')}</span>
                             <span>{order.shipVia || '-'}</span>
                         </div>
+                        <OriginField
+                            key={`${order.originCountry}-${order.originSource}`}
+                            order={order}
+                            busy={busyAction === 'ORIGIN'}
+                            onSave={onSaveOrigin}
+                        />
                         <div className="flex justify-between gap-3">
                             <span className="text-muted-foreground">{t('OrderWorkspace.paymentTerms', 'Payment Terms')}</span>
                             <span>{order.paymentTerms || '-'}</span>
@@ -0,0 +1,132 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/format';
+import { ExtractionRecord } from '../types';
+import { useI18n } from '@/components/locale-provider';
+
+/** Fields below this confidence are highlighted for review. */
+const LOW_CONFIDENCE = 0.8;
+
+function confidenceClass(score: number): string {
+    if (score >= LOW_CONFIDENCE) return 'text-emerald-600';
+    if (score >= 0.5) return 'text-amber-600';
+    return 'text-destructive';
+}
+
+export function SourceTab({ records }: { records: ExtractionRecord[] }) {
+    const { t } = useI18n();
+
+    if (records.length === 0) {
+        return (
+            <Card>
+                <CardContent className="p-4 text-sm text-muted-foreground">
+                    {t(
+                        'OrderWorkspace.noExtractionRecord',
+                        'No extraction record. This order was created before provenance tracking or entered manually.'
+                    )}
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {records.map((record) => {
+                const confidence = Object.entries(record.fieldConfidence || {});
+                return (
+                    <Card key={record.id}>
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm flex flex-wrap items-center gap-2">
+                                <span>{record.fileName || t('OrderWorkspace.unknownFile', 'Unknown file')}</span>
+                                {record.provider && <Badge variant="outline">{record.provider}</Badge>}
+                                {record.model && record.model !== record.provider && (
+                                    <Badge variant="secondary">{record.model}</Badge>
+                                )}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4 text-sm">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs">
+                                <div>
+                                    <div className="text-muted-foreground">{t('OrderWorkspace.extractedAt', 'Extracted')}</div>
+                                    <div>{formatDate(record.createdAt)}</div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">{t('OrderWorkspace.fileSize', 'File Size')}</div>
+                                    <div>
+                                        {record.fileSize ? `${(record.fileSize / 1024).toFixed(1)} KB` : '-'}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">SHA-256</div>
+                                    <div className="font-mono break-all">{record.fileHash || '-'}</div>
+                                </div>
+                            </div>
+
+                            {record.warnings.length > 0 && (
+                                <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/20 p-3 space-y-1">
+                                    <div className="text-xs font-medium">
+                                        {t('OrderWorkspace.extractionWarnings', 'Warnings at extraction time')}
+                                    </div>
+                                    <ul className="list-disc pl-5 text-xs space-y-0.5">
+                                        {record.warnings.map((warning, index) => (
+                                            <li
+                                                key={`${warning.code}-${index}`}
+                                                className={warning.severity === 'error' ? 'text-destructive' : ''}
+                                            >
+                                                {warning.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {confidence.length > 0 && (
+                                <div className="space-y-1">
+                                    <div className="text-xs font-medium">
+                                        {t('OrderWorkspace.fieldConfidence', 'Field Confidence')}
+                                    </div>
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-1 text-xs">
+                                        {confidence.map(([field, score]) => (
+                                            <div key={field} className="flex justify-between gap-2">
+                                                <span className="text-muted-foreground truncate" title={field}>
+                                                    {field}
+                                                </span>
+                                                <span className={`tabular-nums font-medium ${confidenceClass(score)}`}>
+                                                    {Math.round(score * 100)}%
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {record.extractedText && (
+                                <details className="rounded-lg border">
+                                    <summary className="cursor-pointer px-3 py-2 text-xs font-medium">
+                                        {t('OrderWorkspace.extractedText', 'Extracted PDF Text')}
+                                    </summary>
+                                    <pre className="max-h-96 overflow-auto border-t bg-muted/20 p-3 text-[11px] whitespace-pre-wrap">
+                                        {record.extractedText}
+                                    </pre>
+                                </details>
+                            )}
+
+                            {record.rawResponse && (
+                                <details className="rounded-lg border">
+                                    <summary className="cursor-pointer px-3 py-2 text-xs font-medium">
+                                        {t('OrderWorkspace.rawResponse', 'Raw Model Response')}
+                                    </summary>
+                                    <pre className="max-h-96 overflow-auto border-t bg-muted/20 p-3 text-[11px] whitespace-pre-wrap">
+                                        {record.rawResponse}
+                                    </pre>
+                                </details>
+                            )}
+                        </CardContent>
+                    </Card>
+                );
+            })}
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { money, num, formatDate } from '@/lib/format';
+import { moneyIn, num, formatDate } from '@/lib/format';
 import { TimelineEvent } from '../types';
 import { statusBadgeVariant } from '../utils';
 import { useI18n } from '@/components/locale-provider';
@@ -37,7 +37,7 @@ export function TimelineTab({ events }: { events: TimelineEvent[] }) {
                                         <Badge variant={statusBadgeVariant(event.status)}>{event.status}</Badge>
                                     )}
                                     {event.amount !== null && (
-                                        <Badge variant="secondary">{money(num(event.amount))}</Badge>
+                                        <Badge variant="secondary">{moneyIn(num(event.amount), event.currency)}</Badge>
                                     )}
                                 </div>
                                 {event.description && (
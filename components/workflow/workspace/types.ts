@@ -1,3 +1,6 @@
+import type { ExtractionWarning, FieldConfidence } from '@/lib/extraction-validation';
+import type { OrderDiff } from '@/lib/order-diff';
+
 export interface OrderItem {
     id: string;
     productCode: string | null;
@@ -13,6 +16,16 @@ export interface OrderItem {
     collection: string | null;
     material: string | null;
     productClass: string | null;
+    suggestedHtsCode: string | null;
+    /** Set by hand, with a reason, when the suggested code is wrong. */
+    htsCodeOverride: string | null;
+    htsOverrideReason: string | null;
+    /** Cubic metres per piece, used by per-CBM and per-container landed-cost components. */
+    unitCbm: string | null;
+    /** Set when the line ships from elsewhere than the order (split sourcing). */
+    originCountry: string | null;
+    /** JSON list of the landed-cost components charged to the line. */
+    landedCostBreakdown: string | null;
 }
 
 export interface OrderDetails {
@@ -23,9 +36,16 @@ export interface OrderDetails {
     supplierName: string | null;
     shipTo: string | null;
     shipVia: string | null;
+    originCountry: string | null;
+    /** MANUAL, VENDOR (from the vendor master) or GUESSED (from supplier keywords). */
+    originSource: string | null;
     orderDate: string | null;
     expShipDate: string | null;
     paymentTerms: string | null;
+    /** `DRAFT` until the extraction has been reviewed and approved. */
+    status: string | null;
+    approvedAt: string | null;
+    approvedBy: string | null;
     workflowStatus: string | null;
     totalAmount: string | null;
     estimatedMargin: string | null;
@@ -38,22 +58,51 @@ export interface OrderDetails {
     shipmentTerms: string | null;
     agent: string | null;
     cancelDate: string | null;
+    /** Original PO PDF kept in document storage, if the order was created from an upload. */
+    sourceFileId: string | null;
+    /** Name the PDF was uploaded under for this order. */
+    sourceFileName: string | null;
 }
 
 export interface DocSummary {
     id: string;
     code: string;
+    currency: string;
     amount: number;
+    /** Debit notes less credit notes against the document. */
+    adjustment: number;
+    netAmount: number;
     paid: number;
     outstanding: number;
+    baseAmount: number | null;
+    baseOutstanding: number | null;
+    fxGainLoss: number;
     dueDate: string | null;
     status: string | null;
 }
 
+export interface FinanceNoteRow {
+    id: string;
+    noteNo: string;
+    noteType: 'CREDIT' | 'DEBIT';
+    targetType: 'CUSTOMER_INVOICE' | 'VENDOR_BILL';
+    targetId: string;
+    targetCode: string;
+    amount: number;
+    currency: string | null;
+    issueDate: string | null;
+    reason: string | null;
+    description: string | null;
+}
+
 export interface FinanceSummary {
+    baseCurrency: string;
+    /** Currencies with no exchange rate, left out of the base-currency totals. */
+    unconverted: string[];
     invoices: DocSummary[];
     vendorBills: DocSummary[];
     logisticsBills: DocSummary[];
+    notes: FinanceNoteRow[];
     totals: {
         receivable: number;
         receivablePaid: number;
@@ -64,6 +113,16 @@ export interface FinanceSummary {
         logisticsPayable: number;
         logisticsPaid: number;
         logisticsOutstanding: number;
+        fxGainLoss: number;
+    };
+    /** Invoiced revenue less billed cost, in the base currency. */
+    actualMargin: {
+        revenue: number;
+        vendorCost: number;
+        logisticsCost: number;
+        margin: number;
+        marginRate: number;
+        estimatedMargin: number | null;
     };
 }
 
@@ -104,6 +163,7 @@ export interface TimelineEvent {
     entityType: string;
     entityId: string;
     amount: number | null;
+    currency?: string;
 }
 
 export interface TimelineResponse {
@@ -117,12 +177,39 @@ export interface PaymentRow {
     targetCode?: string;
     direction: 'IN' | 'OUT';
     amount: string | null;
+    /** Null when paid in the document's currency. */
+    currency: string | null;
     paymentDate: string | null;
     method: string | null;
     referenceNo: string | null;
     notes: string | null;
 }
 
+export interface ExtractionRecord {
+    id: string;
+    fileName: string | null;
+    fileHash: string | null;
+    fileSize: number | null;
+    extractedText: string | null;
+    provider: string | null;
+    model: string | null;
+    rawResponse: string | null;
+    warnings: ExtractionWarning[];
+    fieldConfidence: FieldConfidence;
+    createdAt: string | null;
+}
+
+export interface OrderRevisionRecord {
+    id: string;
+    version: number;
+    source: 'BASELINE' | 'VPO_REVISION' | 'EDIT' | 'RESTORE' | 'RECOMPUTE';
+    changes: OrderDiff | null;
+    sourceFileId: string | null;
+    changedBy: string | null;
+    note: string | null;
+    createdAt: string | null;
+}
+
 export type WorkflowAction = 'START_TRANSIT' | 'MARK_DELIVERED';
 export type RollbackAction = 'UNDO_MARK_DELIVERED' | 'UNDO_START_TRANSIT' | 'UNDO_SHIPPING_DOC';
 
@@ -18,9 +18,12 @@ export function statusBadgeVariant(
 
 export function makeEmptyFinanceSummary(): FinanceSummary {
     return {
+        baseCurrency: 'USD',
+        unconverted: [],
         invoices: [],
         vendorBills: [],
         logisticsBills: [],
+        notes: [],
         totals: {
             receivable: 0,
             receivablePaid: 0,
@@ -31,6 +34,15 @@ export function makeEmptyFinanceSummary(): FinanceSummary {
             logisticsPayable: 0,
             logisticsPaid: 0,
             logisticsOutstanding: 0,
+            fxGainLoss: 0,
+        },
+        actualMargin: {
+            revenue: 0,
+            vendorCost: 0,
+            logisticsCost: 0,
+            margin: 0,
+            marginRate: 0,
+            estimatedMargin: null,
         },
     };
 }
@@ -1,4 +1,16 @@
-import { pgTable, text, decimal, timestamp, integer, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  text,
+  decimal,
+  timestamp,
+  date,
+  integer,
+  boolean,
+  uuid,
+  index,
+  unique,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
 
 // Vendors Portfolio Table
 export const vendors = pgTable(
@@ -10,6 +22,7 @@ export const vendors = pgTable(
     contactName: text('contact_name'),
     email: text('email'),
     phone: text('phone'),
+    countryCode: text('country_code'), // where the vendor produces; orders take their origin from it
     createdAt: timestamp('created_at').defaultNow(),
   },
   (table) => ({
@@ -17,6 +30,44 @@ export const vendors = pgTable(
   })
 );
 
+// Stored source files (uploaded PDFs), deduplicated by content hash
+export const storedFiles = pgTable(
+  'stored_files',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    fileHash: text('file_hash').notNull().unique(), // SHA-256 hex
+    fileName: text('file_name').notNull(),
+    contentType: text('content_type').notNull().default('application/pdf'),
+    fileSize: integer('file_size').notNull(),
+    storageKey: text('storage_key').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (storedFiles) => ({
+    fileHashIndex: uniqueIndex('stored_file_hash_idx').on(storedFiles.fileHash),
+  })
+);
+
+// Emails received with PO attachments (uploaded .eml, maildir or IMAP polling)
+export const inboundEmails = pgTable(
+  'inbound_emails',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    messageId: text('message_id').unique(), // Message-ID header; re-delivered mail is skipped
+    fromAddress: text('from_address'),
+    fromName: text('from_name'),
+    subject: text('subject'),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+    source: text('source').notNull(), // UPLOAD | MAILDIR | IMAP
+    mailbox: text('mailbox'), // maildir path or IMAP mailbox it was read from
+    attachmentCount: integer('attachment_count').notNull().default(0),
+    ignoredAttachments: text('ignored_attachments'), // storing JSON as text
+    receivedAt: timestamp('received_at').defaultNow(),
+  },
+  (inboundEmails) => ({
+    receivedAtIndex: index('inbound_email_received_at_idx').on(inboundEmails.receivedAt),
+  })
+);
+
 // Orders Table
 export const orders = pgTable(
   'orders',
@@ -37,6 +88,9 @@ export const orders = pgTable(
     cancelDate: timestamp('cancel_date', { withTimezone: true }),
     shipTo: text('ship_to'),
     shipVia: text('ship_via'),
+    // Origin used for duty: set by hand, from the vendor master, or guessed from supplier keywords
+    originCountry: text('origin_country'),
+    originSource: text('origin_source'), // MANUAL | VENDOR | GUESSED
     shipmentTerms: text('shipment_terms'),
     paymentTerms: text('payment_terms'),
     customerNotes: text('customer_notes'),
@@ -48,6 +102,17 @@ export const orders = pgTable(
     logisticsTermDays: integer('logistics_term_days').default(15),
     estimatedMargin: decimal('estimated_margin', { precision: 12, scale: 2 }),
     estimatedMarginRate: decimal('estimated_margin_rate', { precision: 7, scale: 4 }),
+    sourceFileId: uuid('source_file_id').references(() => storedFiles.id, {
+      onDelete: 'set null',
+    }),
+    // Name of this order's upload; the stored file keeps the name it was first uploaded under
+    sourceFileName: text('source_file_name'),
+    sourceEmailId: uuid('source_email_id').references(() => inboundEmails.id, {
+      onDelete: 'set null',
+    }),
+    // Set when a DRAFT order is reviewed and promoted to Confirmed
+    approvedAt: timestamp('approved_at', { withTimezone: true }),
+    approvedBy: text('approved_by'),
 
     createdAt: timestamp('created_at').defaultNow(),
   },
@@ -86,6 +151,18 @@ export const orderItems = pgTable(
     productClass: text('product_class'),
     collection: text('collection'),
 
+    // HTS classification: suggested from the tariff rules, optionally overridden by hand
+    suggestedHtsCode: text('suggested_hts_code'),
+    htsCodeOverride: text('hts_code_override'),
+    htsOverrideReason: text('hts_override_reason'),
+
+    // Split sourcing: the line's own origin, when it differs from the order's
+    originCountry: text('origin_country'),
+
+    // Landed cost: volume per piece for CBM-based components, and what each component charged
+    unitCbm: decimal('unit_cbm', { precision: 10, scale: 5 }),
+    landedCostBreakdown: text('landed_cost_breakdown'), // storing JSON as text
+
     createdAt: timestamp('created_at').defaultNow(),
   },
   (orderItems) => ({
@@ -93,22 +170,225 @@ export const orderItems = pgTable(
   })
 );
 
+// Extraction provenance: what the PDF said and what the model returned for an order
+export const orderExtractions = pgTable(
+  'order_extractions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    orderId: uuid('order_id')
+      .references(() => orders.id, { onDelete: 'cascade' })
+      .notNull(),
+    fileName: text('file_name'),
+    fileHash: text('file_hash'), // SHA-256 of the uploaded PDF
+    fileSize: integer('file_size'),
+    extractedText: text('extracted_text'),
+    provider: text('provider'),
+    model: text('model'),
+    rawResponse: text('raw_response'),
+    warnings: text('warnings'), // storing JSON as text
+    fieldConfidence: text('field_confidence'), // storing JSON as text
+    templateName: text('template_name'), // customer template applied during extraction
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (orderExtractions) => ({
+    orderIdIndex: index('order_extraction_order_id_idx').on(orderExtractions.orderId),
+    fileHashIndex: index('order_extraction_file_hash_idx').on(orderExtractions.fileHash),
+  })
+);
+
+// Versioned history of an order: each row snapshots the order and its items after a change
+export const orderRevisions = pgTable(
+  'order_revisions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    orderId: uuid('order_id')
+      .references(() => orders.id, { onDelete: 'cascade' })
+      .notNull(),
+    version: integer('version').notNull(),
+    source: text('source').notNull(), // BASELINE | VPO_REVISION | EDIT | RESTORE
+    changes: text('changes'), // storing JSON as text (diff against the previous version)
+    snapshot: text('snapshot').notNull(), // storing JSON as text
+    sourceFileId: uuid('source_file_id').references(() => storedFiles.id, {
+      onDelete: 'set null',
+    }),
+    changedBy: text('changed_by'),
+    note: text('note'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (orderRevisions) => ({
+    orderVersionIndex: uniqueIndex('order_revision_version_idx').on(
+      orderRevisions.orderId,
+      orderRevisions.version
+    ),
+  })
+);
+
+// Server-side batch imports: one job per upload, one row per PDF in it
+export const importJobs = pgTable(
+  'import_jobs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    status: text('status').notNull().default('QUEUED'), // QUEUED | RUNNING | COMPLETED
+    totalFiles: integer('total_files').notNull().default(0),
+    processedFiles: integer('processed_files').notNull().default(0),
+    succeededFiles: integer('succeeded_files').notNull().default(0),
+    failedFiles: integer('failed_files').notNull().default(0),
+    createdBy: text('created_by'),
+    sourceEmailId: uuid('source_email_id').references(() => inboundEmails.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow(),
+    startedAt: timestamp('started_at'),
+    finishedAt: timestamp('finished_at'),
+  },
+  (importJobs) => ({
+    statusIndex: index('import_job_status_idx').on(importJobs.status),
+  })
+);
+
+export const importJobFiles = pgTable(
+  'import_job_files',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    jobId: uuid('job_id')
+      .references(() => importJobs.id, { onDelete: 'cascade' })
+      .notNull(),
+    fileName: text('file_name').notNull(),
+    storedFileId: uuid('stored_file_id').references(() => storedFiles.id, {
+      onDelete: 'set null',
+    }),
+    status: text('status').notNull().default('PENDING'), // PENDING | PROCESSING | SUCCEEDED | FAILED
+    orderId: uuid('order_id').references(() => orders.id, { onDelete: 'set null' }),
+    duplicateOfOrderId: uuid('duplicate_of_order_id').references(() => orders.id, {
+      onDelete: 'set null',
+    }),
+    provider: text('provider'),
+    warningCount: integer('warning_count').notNull().default(0),
+    error: text('error'),
+    startedAt: timestamp('started_at'),
+    finishedAt: timestamp('finished_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (importJobFiles) => ({
+    jobIdIndex: index('import_job_file_job_id_idx').on(importJobFiles.jobId),
+  })
+);
+
 export const tariffRates = pgTable(
   'tariff_rates',
   {
     id: uuid('id').defaultRandom().primaryKey(),
-    productClass: text('product_class').notNull().unique(),
+    productClass: text('product_class').notNull(),
     tariffRate: decimal('tariff_rate', { precision: 7, scale: 4 }).notNull().default('0'),
     source: text('source').notNull().default('manual'),
     notes: text('notes'),
+    // A rate change closes the current version and starts a new one; NULL = open-ended
+    effectiveFrom: date('effective_from'),
+    effectiveTo: date('effective_to'), // exclusive
     updatedAt: timestamp('updated_at').defaultNow(),
     createdAt: timestamp('created_at').defaultNow(),
   },
   (tariffRates) => ({
     productClassIndex: index('product_class_idx').on(tariffRates.productClass),
+    versionUnique: unique('tariff_rate_version_unique')
+      .on(tariffRates.productClass, tariffRates.effectiveFrom)
+      .nullsNotDistinct(),
+  })
+);
+
+// Tariff rule engine: HTS headings and their base rate per fiber bucket
+export const htsHeadings = pgTable(
+  'hts_headings',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    code: text('code').notNull(), // e.g. "6109"
+    description: text('description'),
+    categoryKeywords: text('category_keywords').notNull().default('[]'), // storing JSON as text
+    priority: integer('priority').notNull().default(100),
+    isFallback: boolean('is_fallback').notNull().default(false),
+    // Rate changes are new versions of the heading; NULL = open-ended
+    effectiveFrom: date('effective_from'),
+    effectiveTo: date('effective_to'), // exclusive
+    updatedAt: timestamp('updated_at').defaultNow(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (htsHeadings) => ({
+    priorityIndex: index('hts_heading_priority_idx').on(htsHeadings.priority),
+    versionUnique: unique('hts_heading_version_unique')
+      .on(htsHeadings.code, htsHeadings.effectiveFrom)
+      .nullsNotDistinct(),
+  })
+);
+
+export const htsBaseRates = pgTable(
+  'hts_base_rates',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    headingId: uuid('heading_id')
+      .notNull()
+      .references(() => htsHeadings.id, { onDelete: 'cascade' }),
+    fabricBucket: text('fabric_bucket').notNull(), // cotton-rich | poly-rich | mixed
+    htsCode: text('hts_code'), // e.g. "6109.10"
+    statisticalCodes: text('statistical_codes'), // JSON: gender group -> 10-digit code
+    rate: decimal('rate', { precision: 7, scale: 4 }).notNull().default('0'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (htsBaseRates) => ({
+    headingBucketIndex: uniqueIndex('hts_base_rate_heading_bucket_idx').on(
+      htsBaseRates.headingId,
+      htsBaseRates.fabricBucket
+    ),
+  })
+);
+
+// Additional duties by origin country, stacked on the HTS base rate (e.g. Section 301)
+export const tariffSurcharges = pgTable(
+  'tariff_surcharges',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    countryCode: text('country_code').notNull(),
+    name: text('name').notNull(),
+    rate: decimal('rate', { precision: 7, scale: 4 }).notNull().default('0'),
+    enabled: boolean('enabled').notNull().default(true),
+    notes: text('notes'),
+    effectiveFrom: date('effective_from'), // NULL = open-ended
+    effectiveTo: date('effective_to'), // exclusive
+    updatedAt: timestamp('updated_at').defaultNow(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (tariffSurcharges) => ({
+    countryIndex: index('tariff_surcharge_country_idx').on(tariffSurcharges.countryCode),
   })
 );
 
+// Supplier name/address keywords used to guess the origin country
+export const originKeywordRules = pgTable('origin_keyword_rules', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  countryCode: text('country_code').notNull().unique(),
+  keywords: text('keywords').notNull().default('[]'), // storing JSON as text
+  priority: integer('priority').notNull().default(100),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Landed-cost components (freight, fees, commission...) charged on top of the vendor price
+export const landedCostComponents = pgTable('landed_cost_components', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  basis: text('basis').notNull(), // PER_UNIT | PER_CBM | PER_CONTAINER | PERCENT_OF_VALUE | PERCENT_OF_DUTY
+  rate: decimal('rate', { precision: 12, scale: 6 }).notNull().default('0'),
+  containerCbm: decimal('container_cbm', { precision: 8, scale: 2 }),
+  // Scope: NULL = any
+  shipVia: text('ship_via'),
+  originCountry: text('origin_country'),
+  customerName: text('customer_name'),
+  enabled: boolean('enabled').notNull().default(true),
+  sortOrder: integer('sort_order').notNull().default(100),
+  notes: text('notes'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
 export const containers = pgTable(
   'containers',
   {
@@ -172,6 +452,55 @@ export const shippingDocuments = pgTable(
   })
 );
 
+// Customs entries as filed by the broker: what was actually declared and paid per line
+export const customsEntries = pgTable(
+  'customs_entries',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    entryNo: text('entry_no').notNull().unique(),
+    entryDate: timestamp('entry_date', { withTimezone: true }),
+    containerId: uuid('container_id').references(() => containers.id, { onDelete: 'set null' }),
+    broker: text('broker'),
+    enteredValue: decimal('entered_value', { precision: 12, scale: 2 }).notNull(),
+    dutyAmount: decimal('duty_amount', { precision: 12, scale: 2 }).notNull(),
+    mpfAmount: decimal('mpf_amount', { precision: 12, scale: 2 }).default('0'),
+    hmfAmount: decimal('hmf_amount', { precision: 12, scale: 2 }).default('0'),
+    source: text('source').default('MANUAL'), // MANUAL | CSV
+    notes: text('notes'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (customsEntries) => ({
+    entryNoIndex: index('customs_entry_no_idx').on(customsEntries.entryNo),
+    containerIdIndex: index('customs_entry_container_id_idx').on(customsEntries.containerId),
+  })
+);
+
+export const customsEntryLines = pgTable(
+  'customs_entry_lines',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    entryId: uuid('entry_id')
+      .references(() => customsEntries.id, { onDelete: 'cascade' })
+      .notNull(),
+    lineNo: integer('line_no'),
+    orderId: uuid('order_id').references(() => orders.id, { onDelete: 'set null' }),
+    orderItemId: uuid('order_item_id').references(() => orderItems.id, { onDelete: 'set null' }),
+    productCode: text('product_code'),
+    htsCode: text('hts_code'),
+    quantity: integer('quantity'),
+    enteredValue: decimal('entered_value', { precision: 12, scale: 2 }).notNull(),
+    dutyAmount: decimal('duty_amount', { precision: 12, scale: 2 }).notNull(),
+    mpfAmount: decimal('mpf_amount', { precision: 12, scale: 2 }).default('0'),
+    hmfAmount: decimal('hmf_amount', { precision: 12, scale: 2 }).default('0'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (customsEntryLines) => ({
+    entryIdIndex: index('customs_entry_line_entry_id_idx').on(customsEntryLines.entryId),
+    orderIdIndex: index('customs_entry_line_order_id_idx').on(customsEntryLines.orderId),
+    orderItemIdIndex: index('customs_entry_line_item_id_idx').on(customsEntryLines.orderItemId),
+  })
+);
+
 export const commercialInvoices = pgTable(
   'commercial_invoices',
   {
@@ -248,6 +577,7 @@ export const payments = pgTable(
     targetId: uuid('target_id').notNull(),
     direction: text('direction').notNull(), // IN | OUT
     amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    currency: text('currency'), // null = the document's currency
     paymentDate: timestamp('payment_date', { withTimezone: true }).defaultNow(),
     method: text('method'),
     referenceNo: text('reference_no'),
@@ -258,3 +588,109 @@ export const payments = pgTable(
     targetIndex: index('target_idx').on(payments.targetType, payments.targetId),
   })
 );
+
+// Credit / debit notes adjusting a commercial invoice or vendor bill without editing it
+export const financeNotes = pgTable(
+  'finance_notes',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    noteNo: text('note_no').notNull().unique(),
+    noteType: text('note_type').notNull(), // CREDIT (lowers the amount due) | DEBIT (raises it)
+    targetType: text('target_type').notNull(), // CUSTOMER_INVOICE | VENDOR_BILL
+    targetId: uuid('target_id').notNull(),
+    orderId: uuid('order_id')
+      .references(() => orders.id, { onDelete: 'cascade' })
+      .notNull(),
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    currency: text('currency').default('USD'), // always the target document's currency
+    issueDate: timestamp('issue_date', { withTimezone: true }).defaultNow(),
+    reason: text('reason').default('OTHER'), // CHARGEBACK | SHORT_SHIP | DISCOUNT | PRICE_ADJUSTMENT | OTHER
+    description: text('description'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (financeNotes) => ({
+    targetIndex: index('finance_note_target_idx').on(
+      financeNotes.targetType,
+      financeNotes.targetId
+    ),
+    orderIdIndex: index('finance_note_order_id_idx').on(financeNotes.orderId),
+  })
+);
+
+// Exchange rates into the base currency (USD): one unit of `currency` buys `rate` USD
+// from `rateDate` until the next rate for that currency
+export const fxRates = pgTable(
+  'fx_rates',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    currency: text('currency').notNull(),
+    rateDate: date('rate_date').notNull(),
+    rate: decimal('rate', { precision: 18, scale: 8 }).notNull(),
+    source: text('source').default('MANUAL'), // MANUAL | CSV
+    notes: text('notes'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (fxRates) => ({
+    currencyDateIndex: uniqueIndex('fx_rate_currency_date_idx').on(
+      fxRates.currency,
+      fxRates.rateDate
+    ),
+  })
+);
+
+// AI extraction providers, tried in ascending priority. Falls back to env config when empty.
+export const extractionProviders = pgTable(
+  'extraction_providers',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    name: text('name').notNull().unique(),
+    kind: text('kind').notNull(), // gemini | openai-compatible | rule-based
+    model: text('model'),
+    endpoint: text('endpoint'),
+    apiKeyEnv: text('api_key_env'), // env var holding the key; keys are never stored here
+    priority: integer('priority').notNull().default(100),
+    enabled: boolean('enabled').notNull().default(true),
+    timeoutMs: integer('timeout_ms'),
+    maxRetries: integer('max_retries'),
+    retryDelayMs: integer('retry_delay_ms'),
+    updatedAt: timestamp('updated_at').defaultNow(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (extractionProviders) => ({
+    priorityIndex: index('extraction_provider_priority_idx').on(extractionProviders.priority),
+  })
+);
+
+// Column mapping for a customer's spreadsheet POs, keyed by normalized customer name
+export const spreadsheetMappings = pgTable('spreadsheet_mappings', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  customerKey: text('customer_key').notNull().unique(), // upper-cased, trimmed customer name
+  customerName: text('customer_name').notNull(),
+  mapping: text('mapping').notNull(), // storing JSON as text
+  updatedAt: timestamp('updated_at').defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Per-customer extraction templates: detection keywords, prompt additions and post-processing
+export const customerTemplates = pgTable(
+  'customer_templates',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    name: text('name').notNull().unique(),
+    customerName: text('customer_name'),
+    enabled: boolean('enabled').notNull().default(true),
+    priority: integer('priority').notNull().default(100),
+    keywords: text('keywords').notNull().default('[]'), // storing JSON as text
+    headerFingerprint: text('header_fingerprint').notNull().default('[]'), // storing JSON as text
+    minScore: integer('min_score').notNull().default(1),
+    promptAdditions: text('prompt_additions'),
+    fieldDefaults: text('field_defaults').notNull().default('{}'), // storing JSON as text
+    sizeAliases: text('size_aliases').notNull().default('{}'), // storing JSON as text
+    rules: text('rules').notNull().default('[]'), // storing JSON as text
+    updatedAt: timestamp('updated_at').defaultNow(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (customerTemplates) => ({
+    priorityIndex: index('customer_template_priority_idx').on(customerTemplates.priority),
+  })
+);
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { describeApiError, getRequestActor } from './api-helpers';
+
+describe('getRequestActor', () => {
+  const req = new Request('http://localhost/api/orders', {
+    headers: { 'x-forwarded-user': ' amy@example.com ', 'x-user-name': 'Mallory' },
+  });
+
+  it('reads only the header the auth proxy is configured to set', () => {
+    expect(getRequestActor(req, { AUTH_USER_HEADER: 'X-Forwarded-User' })).toBe('amy@example.com');
+    expect(getRequestActor(req, { AUTH_USER_HEADER: 'x-remote-user' })).toBeNull();
+  });
+
+  it('records nobody when no proxy header is configured', () => {
+    expect(getRequestActor(req, {})).toBeNull();
+  });
+});
+
+describe('describeApiError', () => {
+  it('appends the first message of each invalid field', () => {
+    const payload = {
+      error: 'Validation failed',
+      details: { rate: ['Must be 0 or more', 'Required'], name: ['Required'] },
+    };
+    expect(describeApiError(payload, 'Save failed')).toBe(
+      'Validation failed: rate: Must be 0 or more; name: Required'
+    );
+  });
+
+  it('falls back when the response carries no message', () => {
+    expect(describeApiError({ error: 'Rule not found' }, 'Save failed')).toBe('Rule not found');
+    expect(describeApiError({}, 'Save failed')).toBe('Save failed');
+  });
+});
@@ -20,3 +20,33 @@ export function createDefaultCode(prefix: string): string {
   const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
   return `${prefix}-${stamp}-${suffix}`;
 }
+
+/**
+ * Name of the person behind a request, for audit fields (`changedBy`, `approvedBy`,
+ * `createdBy`). The app has no login of its own: the name is read from the header
+ * named by `AUTH_USER_HEADER`, which the authenticating proxy in front of the app
+ * must set (e.g. `x-forwarded-user`). Without that setting the header is ignored,
+ * since a browser could send any name, and the audit fields stay empty.
+ */
+export function getRequestActor(
+  req: Request,
+  env: Record<string, string | undefined> = process.env
+): string | null {
+  const header = env.AUTH_USER_HEADER?.trim();
+  if (!header) return null;
+  return req.headers.get(header)?.trim() || null;
+}
+
+/** JSON error body sent by the routes; `details` holds Zod field errors as `{ field: [messages] }`. */
+export interface ApiErrorPayload {
+  error?: string;
+  details?: Record<string, string[]>;
+}
+
+/** Message for a failed request, with the first error of each invalid field appended. */
+export function describeApiError(payload: ApiErrorPayload, fallback: string): string {
+  const details = Object.entries(payload.details ?? {})
+    .map(([field, messages]) => `${field}: ${messages[0]}`)
+    .join('; ');
+  return details ? `${payload.error ?? fallback}: ${details}` : payload.error || fallback;
+}
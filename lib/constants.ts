@@ -33,3 +33,20 @@ export const WORKFLOW_STATUS = {
 } as const;
 
 export type WorkflowStatus = (typeof WORKFLOW_STATUS)[keyof typeof WORKFLOW_STATUS];
+
+// ─── Order Status ───────────────────────────────────────────────
+
+/**
+ * DRAFT orders are extracted but not yet reviewed: they are stored and shared, but
+ * stay out of dashboard totals and the shipping/finance workflow until approved.
+ */
+export const ORDER_STATUS = {
+  DRAFT: 'DRAFT',
+  CONFIRMED: 'Confirmed',
+} as const;
+
+export type OrderStatus = (typeof ORDER_STATUS)[keyof typeof ORDER_STATUS];
+
+export function isDraftOrder(order: { status?: string | null } | null | undefined): boolean {
+  return (order?.status || '').toUpperCase() === ORDER_STATUS.DRAFT;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dutyVariance,
+  parseBrokerEntries,
+  sumEntryLines,
+  type DutyVarianceLine,
+} from './customs-entry';
+
+describe('parseBrokerEntries', () => {
+  it('groups broker rows into entries and reports bad rows', () => {
+    const { entries, errors } = parseBrokerEntries({
+      name: 'entries.csv',
+      rows: [
+        ['ACME Customs Brokerage', '', '', '', '', '', '', '', ''],
+        [
+          'Entry No',
+          'Entry Date',
+          'Container #',
+          'PO #',
+          'Style',
+          'HTS',
+          'Qty',
+          'Entered Value',
+          'Duty',
+          'MPF',
+          'HMF',
+        ],
+        [
+          'ABC-1234567-8',
+          '2025-07-01',
+          'MSCU1234567',
+          'VPO-1',
+          'TEE-1',
+          '6109100040',
+          '600',
+          '$3,000.00',
+          '$1,095.00',
+          '10.38',
+          '3.75',
+        ],
+        [
+          'ABC-1234567-8',
+          '2025-07-01',
+          'MSCU1234567',
+          'VPO-1',
+          'HOOD-1',
+          '6110.20.2079',
+          '200',
+          '2,400.00',
+          '789.60',
+          '8.30',
+          '3.00',
+        ],
+        [
+          'ABC-7654321-0',
+          '2025-07-03',
+          '',
+          'VPO-2',
+          'TEE-2',
+          '6109.10.0012',
+          '100',
+          '500',
+          'n/a',
+          '',
+          '',
+        ],
+        ['', '', '', '', '', '', '', '', '', '', ''],
+      ],
+    });
+
+    expect(errors).toEqual(['Row 5: entered value and duty must be numbers']);
+    expect(entries).toHaveLength(1);
+    const [entry] = entries;
+    expect(entry).toMatchObject({ entryNo: 'ABC-1234567-8', containerNo: 'MSCU1234567' });
+    expect(entry.lines[0]).toMatchObject({
+      lineNo: 1,
+      vpoNumber: 'VPO-1',
+      productCode: 'TEE-1',
+      htsCode: '6109.10.0040',
+      quantity: 600,
+      enteredValue: 3000,
+      dutyAmount: 1095,
+    });
+    expect(sumEntryLines(entry.lines)).toEqual({
+      enteredValue: 5400,
+      dutyAmount: 1884.6,
+      mpfAmount: 18.68,
+      hmfAmount: 6.75,
+    });
+  });
+
+  it('needs entry number, entered value and duty columns', () => {
+    const { entries, errors } = parseBrokerEntries({
+      name: 'Sheet1',
+      rows: [
+        ['Entry No', 'Style', 'Duty'],
+        ['ABC-1', 'TEE-1', '10'],
+      ],
+    });
+    expect(entries).toEqual([]);
+    expect(errors).toEqual(['Missing column(s): enteredValue']);
+  });
+});
+
+describe('dutyVariance', () => {
+  const line = (overrides: Partial<DutyVarianceLine>): DutyVarianceLine => ({
+    entryNo: 'E-1',
+    htsCode: '6109.10.0040',
+    quantity: null,
+    dutyAmount: 0,
+    mpfAmount: 0,
+    hmfAmount: 0,
+    orderId: 'order-1',
+    vpoNumber: 'VPO-1',
+    orderItemId: 'item-1',
+    productCode: 'TEE-1',
+    productClass: 'knit tops | womens | cotton',
+    itemQuantity: 1000,
+    estimatedDutyCost: 1000,
+    declaredHtsCode: '6109.10.0040',
+    originCountry: 'CN',
+    ...overrides,
+  });
+
+  const lines = [
+    // item-1 entered in two shipments, 600 of 1000 pcs so far
+    line({ quantity: 400, dutyAmount: 420 }),
+    line({ entryNo: 'E-2', quantity: 200, dutyAmount: 210 }),
+    line({
+      orderItemId: 'item-2',
+      productCode: 'HOOD-1',
+      productClass: 'sweaters | womens | synthetic',
+      htsCode: '6110.30.3053',
+      declaredHtsCode: '6110.20.2079',
+      itemQuantity: 200,
+      quantity: 200,
+      originCountry: 'VN',
+      estimatedDutyCost: 800,
+      dutyAmount: 789.6,
+      mpfAmount: 8.3,
+      hmfAmount: 3,
+    }),
+    line({ orderId: null, orderItemId: null, vpoNumber: null, dutyAmount: 50 }),
+  ];
+
+  it('compares each item with its share of the estimate', () => {
+    const { rows, totals } = dutyVariance(lines, 'item');
+    expect(rows.map((row) => [row.key, row.estimatedDuty, row.actualDuty, row.variance])).toEqual([
+      ['unmatched', 0, 50, 50],
+      ['item-1', 600, 630, 30],
+      ['item-2', 800, 789.6, -10.4],
+    ]);
+    expect(rows.find((row) => row.key === 'item-1')).toMatchObject({
+      label: 'VPO-1 / TEE-1',
+      entries: ['E-1', 'E-2'],
+      enteredQty: 600,
+      varianceRate: 0.05,
+      htsMismatch: false,
+    });
+    expect(rows.find((row) => row.key === 'item-2')).toMatchObject({
+      htsMismatch: true,
+      fees: 11.3,
+    });
+    expect(totals).toMatchObject({ estimatedDuty: 1400, actualDuty: 1469.6, variance: 69.6 });
+  });
+
+  it('rolls items up by order, tariff key and origin', () => {
+    const byOrder = dutyVariance(lines, 'order').rows;
+    expect(byOrder.find((row) => row.key === 'order-1')).toMatchObject({
+      label: 'VPO-1',
+      estimatedDuty: 1400,
+      actualDuty: 1419.6,
+      htsMismatch: true,
+    });
+
+    const byKey = dutyVariance(lines, 'tariffKey').rows.map((row) => row.key);
+    expect(byKey).toEqual([
+      'unmatched',
+      'knit tops | womens | cotton',
+      'sweaters | womens | synthetic',
+    ]);
+
+    const byOrigin = dutyVariance(lines, 'origin').rows;
+    expect(byOrigin.map((row) => [row.key, row.variance])).toEqual([
+      ['unmatched', 50],
+      ['CN', 30],
+      ['VN', -10.4],
+    ]);
+  });
+
+  it('keeps lines linked only to their order with that order', () => {
+    // TEE-1 is listed twice on VPO-1, so the broker line could not pick one
+    const withAmbiguous = [...lines, line({ orderItemId: null, quantity: 100, dutyAmount: 120 })];
+
+    const byOrder = dutyVariance(withAmbiguous, 'order').rows;
+    expect(byOrder.find((row) => row.key === 'order-1')).toMatchObject({
+      estimatedDuty: 1400,
+      actualDuty: 1539.6,
+    });
+    expect(byOrder.find((row) => row.key === 'unmatched')?.actualDuty).toBe(50);
+
+    const byItem = dutyVariance(withAmbiguous, 'item').rows;
+    expect(byItem.find((row) => row.key === 'order:order-1')).toMatchObject({
+      label: 'VPO-1 / unmatched lines',
+      estimatedDuty: 0,
+      actualDuty: 120,
+      htsMismatch: false,
+    });
+    expect(
+      dutyVariance(withAmbiguous, 'origin').rows.find((row) => row.key === 'CN')
+    ).toMatchObject({ actualDuty: 750 });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Customs entries as filed by the broker, and how the duty actually paid compares
+ * with what the order estimated. Broker files are read as a sheet (see
+ * `readSpreadsheet`) with one row per entry line; rows sharing an entry number
+ * become one entry.
+ */
+import { round2 } from './finance-math';
+import { findHeaderRow, sheetHeaders, type SheetTable } from './spreadsheet-import';
+import { formatHtsCode, normalizeTariffKey } from './tariffs';
+
+export interface CustomsEntryLineInput {
+  lineNo?: number | null;
+  orderItemId?: string | null;
+  /** Matched to an order line by VPO number and style when no item id is given. */
+  vpoNumber?: string | null;
+  productCode?: string | null;
+  htsCode?: string | null;
+  quantity?: number | null;
+  enteredValue: number;
+  dutyAmount: number;
+  mpfAmount?: number | null;
+  hmfAmount?: number | null;
+}
+
+export interface CustomsEntryInput {
+  entryNo: string;
+  entryDate?: Date | null;
+  containerNo?: string | null;
+  broker?: string | null;
+  notes?: string | null;
+  lines: CustomsEntryLineInput[];
+}
+
+const BROKER_COLUMNS = {
+  entryNo: /^(customs\s*)?entry\s*(#|no\.?|num(ber)?)?$/i,
+  entryDate: /^(entry|release|filing)\s*date$/i,
+  containerNo: /^(container|cntr)\s*(#|no\.?|num(ber)?)?$/i,
+  broker: /^(customs\s*)?broker$/i,
+  lineNo: /^(entry\s*)?line\s*(#|no\.?|num(ber)?)?$/i,
+  vpoNumber: /^(vpo|po|purchase order)\s*(#|no\.?|num(ber)?)?$/i,
+  productCode: /^(style|item|sku|part|product)\s*(#|no\.?|code|number)?$/i,
+  htsCode: /^(hts|htsus|tariff)\s*(#|no\.?|code|number)?$/i,
+  quantity: /^(qty|quantity|units|pcs)$/i,
+  enteredValue: /^entered\s*value$|^(customs\s*)?value$/i,
+  dutyAmount: /^(duty|duties)(\s*(amount|paid|\$))?$/i,
+  mpfAmount: /^mpf(\s*(amount|fee|\$))?$|^merchandise processing fee$/i,
+  hmfAmount: /^hmf(\s*(amount|fee|\$))?$|^harbor maintenance fee$/i,
+} as const;
+
+type BrokerColumn = keyof typeof BROKER_COLUMNS;
+
+const REQUIRED_COLUMNS: BrokerColumn[] = ['entryNo', 'enteredValue', 'dutyAmount'];
+
+const toAmount = (value: string | undefined) => {
+  const cleaned = (value ?? '').replace(/[$,\s]/g, '').replace(/^\((.*)\)$/, '-$1');
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toDate = (value: string | undefined) => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Read a broker's entry file. Columns are found by their usual header names; rows
+ * without an entry number or with unreadable amounts are reported and skipped.
+ */
+export function parseBrokerEntries(table: SheetTable): {
+  entries: CustomsEntryInput[];
+  errors: string[];
+} {
+  const headerRow = findHeaderRow(table.rows);
+  const headers = sheetHeaders(table, headerRow);
+  const columns = new Map<BrokerColumn, number>();
+  for (const [field, pattern] of Object.entries(BROKER_COLUMNS) as [BrokerColumn, RegExp][]) {
+    const index = headers.findIndex(
+      (header, i) => pattern.test(header) && ![...columns.values()].includes(i)
+    );
+    if (index >= 0) columns.set(field, index);
+  }
+
+  const missing = REQUIRED_COLUMNS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    return { entries: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const entries = new Map<string, CustomsEntryInput>();
+  const errors: string[] = [];
+  table.rows.slice(headerRow).forEach((row, index) => {
+    const cell = (field: BrokerColumn) => {
+      const column = columns.get(field);
+      return column === undefined ? undefined : row[column]?.trim() || undefined;
+    };
+    if (row.every((value) => !value?.trim())) return;
+
+    const rowNo = headerRow + index + 1;
+    const entryNo = cell('entryNo');
+    const enteredValue = toAmount(cell('enteredValue'));
+    const dutyAmount = toAmount(cell('dutyAmount'));
+    if (!entryNo) {
+      errors.push(`Row ${rowNo}: no entry number`);
+      return;
+    }
+    if (enteredValue === null || dutyAmount === null) {
+      errors.push(`Row ${rowNo}: entered value and duty must be numbers`);
+      return;
+    }
+
+    const entry = entries.get(entryNo) ?? {
+      entryNo,
+      entryDate: toDate(cell('entryDate')),
+      containerNo: cell('containerNo') ?? null,
+      broker: cell('broker') ?? null,
+      lines: [],
+    };
+    entries.set(entryNo, entry);
+
+    const quantity = toAmount(cell('quantity'));
+    entry.lines.push({
+      lineNo: toAmount(cell('lineNo')) ?? entry.lines.length + 1,
+      vpoNumber: cell('vpoNumber') ?? null,
+      productCode: cell('productCode') ?? null,
+      htsCode: formatHtsCode(cell('htsCode')) ?? cell('htsCode') ?? null,
+      quantity: quantity === null ? null : Math.round(quantity),
+      enteredValue,
+      dutyAmount,
+      mpfAmount: toAmount(cell('mpfAmount')),
+      hmfAmount: toAmount(cell('hmfAmount')),
+    });
+  });
+
+  return { entries: [...entries.values()], errors };
+}
+
+/** Entry totals are the sum of their lines. */
+export function sumEntryLines(lines: CustomsEntryLineInput[]) {
+  const sum = (pick: (line: CustomsEntryLineInput) => number | null | undefined) =>
+    round2(lines.reduce((total, line) => total + (pick(line) ?? 0), 0));
+  return {
+    enteredValue: sum((line) => line.enteredValue),
+    dutyAmount: sum((line) => line.dutyAmount),
+    mpfAmount: sum((line) => line.mpfAmount),
+    hmfAmount: sum((line) => line.hmfAmount),
+  };
+}
+
+export const DUTY_VARIANCE_GROUPS = ['item', 'order', 'tariffKey', 'origin'] as const;
+export type DutyVarianceGroup = (typeof DUTY_VARIANCE_GROUPS)[number];
+
+/** An entry line joined to the order line it cleared (item fields null when unmatched). */
+export interface DutyVarianceLine {
+  entryNo: string;
+  htsCode: string | null;
+  quantity: number | null;
+  dutyAmount: number;
+  mpfAmount: number;
+  hmfAmount: number;
+  orderId: string | null;
+  vpoNumber: string | null;
+  orderItemId: string | null;
+  productCode: string | null;
+  productClass: string | null;
+  itemQuantity: number | null;
+  estimatedDutyCost: number | null;
+  declaredHtsCode: string | null;
+  /** The line's own origin, else its order's. */
+  originCountry: string | null;
+}
+
+export interface DutyVarianceRow {
+  key: string;
+  label: string;
+  entries: string[];
+  enteredQty: number;
+  estimatedDuty: number;
+  actualDuty: number;
+  variance: number;
+  /** Variance over the estimate; null when nothing was estimated. */
+  varianceRate: number | null;
+  fees: number;
+  /** Some lines were entered under a different HTS code than the order declares. */
+  htsMismatch: boolean;
+}
+
+const UNMATCHED = 'unmatched';
+
+/**
+ * Actual duty against the estimate, per item, order, tariff key or origin country. Lines are first
+ * summed per order item; an item entered only in part is compared with the share of
+ * its estimate for the entered quantity. Lines linked to an order but to none of its
+ * items (an ambiguous style) count toward that order with no estimate; lines that
+ * match no order at all are kept in one "unmatched" row so their duty still shows in
+ * the totals.
+ */
+export function dutyVariance(
+  lines: DutyVarianceLine[],
+  groupBy: DutyVarianceGroup
+): {
+  rows: DutyVarianceRow[];
+  totals: Omit<DutyVarianceRow, 'key' | 'label' | 'entries' | 'htsMismatch'>;
+} {
+  // Order-only lines are bucketed per order, under a key no item id can take
+  const items = new Map<string, DutyVarianceLine[]>();
+  for (const line of lines) {
+    const key = line.orderItemId ?? (line.orderId ? `order:${line.orderId}` : UNMATCHED);
+    items.set(key, [...(items.get(key) ?? []), line]);
+  }
+
+  const groups = new Map<string, DutyVarianceRow>();
+  for (const [itemId, itemLines] of items) {
+    const first = itemLines[0];
+    const matched = !!first.orderItemId;
+    const enteredQty = itemLines.reduce((sum, line) => sum + (line.quantity ?? 0), 0);
+    const share =
+      matched && enteredQty > 0 && first.itemQuantity
+        ? Math.min(1, enteredQty / first.itemQuantity)
+        : 1;
+    const estimatedDuty = matched ? (first.estimatedDutyCost ?? 0) * share : 0;
+    const declared = formatHtsCode(first.declaredHtsCode);
+    const htsMismatch =
+      matched &&
+      !!declared &&
+      itemLines.some((line) => line.htsCode && formatHtsCode(line.htsCode) !== declared);
+
+    let key: string;
+    let label: string;
+    if (itemId === UNMATCHED) {
+      key = UNMATCHED;
+      label = 'Unmatched entry lines';
+    } else if (groupBy === 'item') {
+      key = itemId;
+      label = matched
+        ? [first.vpoNumber, first.productCode].filter(Boolean).join(' / ') || itemId
+        : `${first.vpoNumber || first.orderId} / unmatched lines`;
+    } else if (groupBy === 'order') {
+      key = first.orderId ?? UNMATCHED;
+      label = first.vpoNumber || key;
+    } else if (groupBy === 'origin') {
+      key = first.originCountry?.toUpperCase() || UNMATCHED;
+      label = key;
+    } else {
+      key = normalizeTariffKey(first.productClass || '') || UNMATCHED;
+      label = key;
+    }
+
+    const row = groups.get(key) ?? {
+      key,
+      label,
+      entries: [],
+      enteredQty: 0,
+      estimatedDuty: 0,
+      actualDuty: 0,
+      variance: 0,
+      varianceRate: null,
+      fees: 0,
+      htsMismatch: false,
+    };
+    row.enteredQty += enteredQty;
+    row.estimatedDuty += estimatedDuty;
+    row.actualDuty += itemLines.reduce((sum, line) => sum + line.dutyAmount, 0);
+    row.fees += itemLines.reduce((sum, line) => sum + line.mpfAmount + line.hmfAmount, 0);
+    row.htsMismatch ||= htsMismatch;
+    row.entries = [...new Set([...row.entries, ...itemLines.map((line) => line.entryNo)])];
+    groups.set(key, row);
+  }
+
+  const finish = <T extends { estimatedDuty: number; actualDuty: number; fees: number }>(
+    row: T
+  ) => {
+    const estimatedDuty = round2(row.estimatedDuty);
+    const actualDuty = round2(row.actualDuty);
+    const variance = round2(actualDuty - estimatedDuty);
+    return {
+      ...row,
+      estimatedDuty,
+      actualDuty,
+      variance,
+      varianceRate:
+        estimatedDuty > 0 ? Math.round((variance / estimatedDuty) * 10000) / 10000 : null,
+      fees: round2(row.fees),
+    };
+  };
+
+  const rows = [...groups.values()]
+    .map(finish)
+    .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
+  const totals = finish(
+    rows.reduce(
+      (sum, row) => ({
+        enteredQty: sum.enteredQty + row.enteredQty,
+        estimatedDuty: sum.estimatedDuty + row.estimatedDuty,
+        actualDuty: sum.actualDuty + row.actualDuty,
+        fees: sum.fees + row.fees,
+        variance: 0,
+        varianceRate: null as number | null,
+      }),
+      {
+        enteredQty: 0,
+        estimatedDuty: 0,
+        actualDuty: 0,
+        fees: 0,
+        variance: 0,
+        varianceRate: null as number | null,
+      }
+    )
+  );
+
+  return { rows, totals };
+}
@@ -0,0 +1,42 @@
+// @vitest-environment node
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LocalFileStorage, storageKeyForHash } from './document-storage';
+
+describe('LocalFileStorage', () => {
+  let rootDir: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doc-storage-'));
+    storage = new LocalFileStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('round-trips bytes under a sharded key', async () => {
+    const key = storageKeyForHash('abcdef0123');
+    expect(key).toBe('ab/abcdef0123.pdf');
+
+    await storage.put(key, Buffer.from('%PDF-1.7'));
+
+    expect(await storage.exists(key)).toBe(true);
+    expect((await storage.get(key))?.toString()).toBe('%PDF-1.7');
+    expect(await fs.readdir(path.join(rootDir, 'ab'))).toEqual(['abcdef0123.pdf']);
+  });
+
+  it('returns null for missing keys', async () => {
+    expect(await storage.get('zz/missing.pdf')).toBeNull();
+    expect(await storage.exists('zz/missing.pdf')).toBe(false);
+  });
+
+  it('rejects keys that escape the storage root', async () => {
+    await expect(storage.put('../outside.pdf', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key'
+    );
+  });
+});
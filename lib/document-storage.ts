@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Byte storage for uploaded source documents. Keys are opaque to callers; metadata
+ * (name, hash, size) lives in the `stored_files` table.
+ */
+export interface DocumentStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+}
+
+/** Content-addressed key: `ab/abcdef....pdf`, sharded by the first two hash characters. */
+export function storageKeyForHash(fileHash: string, extension = 'pdf'): string {
+  return `${fileHash.slice(0, 2)}/${fileHash}.${extension}`;
+}
+
+export class LocalFileStorage implements DocumentStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated document behind.
+    const tempPath = `${fullPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, fullPath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+let storage: DocumentStorage | null = null;
+
+/** Local filesystem under `DOCUMENT_STORAGE_DIR` (default `./storage/documents`). */
+export function getDocumentStorage(): DocumentStorage {
+  if (!storage) {
+    storage = new LocalFileStorage(
+      process.env.DOCUMENT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'documents')
+    );
+  }
+  return storage;
+}
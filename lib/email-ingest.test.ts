@@ -0,0 +1,86 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { parseEmail } from './email-ingest';
+
+const base64 = (value: string) => Buffer.from(value).toString('base64');
+
+function mimeMessage(headers: string[], parts: string[]) {
+  const boundary = 'po-boundary';
+  return Buffer.from(
+    [
+      ...headers,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      ...parts.map((part) => `--${boundary}\r\n${part}`),
+      `--${boundary}--`,
+      '',
+    ].join('\r\n')
+  );
+}
+
+const attachment = (fileName: string, contentType: string, content: string) =>
+  [
+    `Content-Type: ${contentType}; name="${fileName}"`,
+    `Content-Disposition: attachment; filename="${fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(content),
+    '',
+  ].join('\r\n');
+
+describe('parseEmail', () => {
+  it('keeps PO attachments and records the sender and subject', async () => {
+    const raw = mimeMessage(
+      [
+        'From: "Jane Buyer" <Jane@Buyer.example>',
+        'To: orders@example.com',
+        'Subject: PO 4411 / 4412',
+        'Date: Mon, 02 Mar 2026 09:30:00 +0000',
+        'Message-ID: <abc123@buyer.example>',
+      ],
+      [
+        'Content-Type: text/plain; charset=utf-8\r\n\r\nPlease see the attached orders.\r\n',
+        attachment('VPO-4411.pdf', 'application/pdf', '%PDF-1.7\nfirst'),
+        attachment('VPO-4412.csv', 'text/csv', 'Style,Qty\nAB1,10\n'),
+        attachment('logo.png', 'image/png', '\x89PNG not an order'),
+      ]
+    );
+
+    const email = await parseEmail(raw);
+    expect(email).toMatchObject({
+      messageId: 'abc123@buyer.example',
+      fromAddress: 'jane@buyer.example',
+      fromName: 'Jane Buyer',
+      subject: 'PO 4411 / 4412',
+      ignored: ['logo.png'],
+    });
+    expect(email.sentAt?.toISOString()).toBe('2026-03-02T09:30:00.000Z');
+    expect(email.attachments.map((file) => file.fileName)).toEqual([
+      'VPO-4411.pdf',
+      'VPO-4412.csv',
+    ]);
+    expect(email.attachments[0].data.toString()).toBe('%PDF-1.7\nfirst');
+  });
+
+  it('recognises a PDF sent without a file name', async () => {
+    const raw = mimeMessage(
+      ['From: buyer@example.com', 'Subject: order'],
+      [
+        [
+          'Content-Type: application/octet-stream',
+          'Content-Disposition: attachment',
+          'Content-Transfer-Encoding: base64',
+          '',
+          base64('%PDF-1.4\nunnamed'),
+          '',
+        ].join('\r\n'),
+      ]
+    );
+
+    const email = await parseEmail(raw);
+    expect(email.messageId).toBeNull();
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0].fileName).toBe('attachment-1');
+  });
+});
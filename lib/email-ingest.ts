@@ -0,0 +1,56 @@
+import { simpleParser, type AddressObject } from 'mailparser';
+import { isPdf, isZip, type ImportUpload } from './import-files';
+import { isSpreadsheetFile } from './spreadsheet-import';
+
+/**
+ * Raw email (RFC 822 / MIME) → sender, subject and the attachments worth importing.
+ * Node only: mailparser decodes the MIME tree, including nested forwards.
+ */
+
+export interface ParsedEmail {
+  /** Message-ID header without angle brackets; absent on some hand-made messages. */
+  messageId: string | null;
+  fromAddress: string | null;
+  fromName: string | null;
+  subject: string | null;
+  sentAt: Date | null;
+  attachments: ImportUpload[];
+  /** Attachments that are not POs (signatures, logos, Word files), by file name. */
+  ignored: string[];
+}
+
+/** Inline images and signature files carry no order data. */
+export function isPoAttachment(fileName: string, data: Buffer): boolean {
+  return isPdf(data) || isSpreadsheetFile(fileName) || (isZip(data) && /\.zip$/i.test(fileName));
+}
+
+function firstAddress(from?: AddressObject | AddressObject[]) {
+  const entry = (Array.isArray(from) ? from[0] : from)?.value[0];
+  return { address: entry?.address?.toLowerCase() || null, name: entry?.name || null };
+}
+
+export async function parseEmail(raw: Buffer): Promise<ParsedEmail> {
+  const mail = await simpleParser(raw, { skipHtmlToText: true, skipTextLinks: true });
+  const from = firstAddress(mail.from);
+
+  const attachments: ImportUpload[] = [];
+  const ignored: string[] = [];
+  mail.attachments.forEach((attachment, index) => {
+    const fileName = attachment.filename || `attachment-${index + 1}`;
+    if (isPoAttachment(fileName, attachment.content)) {
+      attachments.push({ fileName, data: attachment.content });
+    } else {
+      ignored.push(fileName);
+    }
+  });
+
+  return {
+    messageId: mail.messageId?.replace(/^<|>$/g, '') || null,
+    fromAddress: from.address,
+    fromName: from.name,
+    subject: mail.subject?.trim() || null,
+    sentAt: mail.date ?? null,
+    attachments,
+    ignored,
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  averageOcrConfidence,
+  ocrTextWarning,
+  scoreFieldConfidence,
+  validateExtraction,
+} from './extraction-validation';
+import type { ExtractedOrderData, OrderItem } from './parser';
+
+function item(overrides: Partial<OrderItem> = {}): OrderItem {
+  return {
+    productCode: '7VND2A6805TY',
+    description: 'Junior Tee',
+    unitPrice: 2.75,
+    totalQty: 600,
+    extension: 1650,
+    sizeBreakdown: { S: 200, M: 200, L: 200 },
+    ...overrides,
+  };
+}
+
+describe('validateExtraction', () => {
+  it('returns no warnings for a consistent order', () => {
+    const data: ExtractedOrderData = {
+      items: [
+        item(),
+        item({
+          productCode: '2TDL5530PJ',
+          totalQty: 400,
+          extension: 1100,
+          sizeBreakdown: { '2T': 400 },
+        }),
+      ],
+      subtotalQty: 1000,
+      subtotalAmount: 2750,
+    };
+    expect(validateExtraction(data)).toEqual([]);
+  });
+
+  it('flags a size breakdown that does not add up to totalQty', () => {
+    const [warning] = validateExtraction({ items: [item({ sizeBreakdown: { S: 200, M: 200 } })] });
+    expect(warning).toMatchObject({
+      severity: 'warning',
+      code: 'SIZE_SUM_MISMATCH',
+      scope: 'item',
+      itemIndex: 0,
+      field: 'sizeBreakdown',
+      expected: 600,
+      actual: 400,
+    });
+  });
+
+  it('accepts rounding differences on the extension but flags real mismatches', () => {
+    expect(validateExtraction({ items: [item({ extension: 1650.01 })] })).toEqual([]);
+    const [warning] = validateExtraction({ items: [item({ extension: 1925 })] });
+    expect(warning).toMatchObject({ code: 'EXTENSION_MISMATCH', expected: 1650, actual: 1925 });
+  });
+
+  it('coerces string prices returned by the AI', () => {
+    const aiItem = { ...item(), unitPrice: '2.75', extension: '1,650.00' } as unknown as OrderItem;
+    expect(validateExtraction({ items: [aiItem] })).toEqual([]);
+  });
+
+  it('compares item totals with the PO subtotal', () => {
+    const warnings = validateExtraction({
+      items: [item()],
+      subtotalQty: 1200,
+      subtotalAmount: 3300,
+    });
+    expect(warnings.map((w) => [w.scope, w.code, w.expected, w.actual])).toEqual([
+      ['order', 'SUBTOTAL_QTY_MISMATCH', 1200, 600],
+      ['order', 'SUBTOTAL_AMOUNT_MISMATCH', 3300, 1650],
+    ]);
+  });
+
+  it('reports missing quantities, prices and items as errors', () => {
+    expect(validateExtraction({ items: [] })[0]).toMatchObject({
+      severity: 'error',
+      code: 'NO_ITEMS',
+    });
+    const codes = validateExtraction({
+      items: [item({ totalQty: 0, unitPrice: 0, extension: 0, sizeBreakdown: {} })],
+    }).map((w) => w.code);
+    expect(codes).toEqual(['MISSING_QTY', 'MISSING_PRICE']);
+  });
+});
+
+describe('scoreFieldConfidence', () => {
+  const source = [
+    'Vendor Purchase Order VPO-1138183',
+    'Ship Via: Ocean Frt',
+    '7VND2A6805TY Junior Tee 200 200 200 600 $2.75 $1,650.00',
+  ].join('\n');
+
+  it('scores header fields by how well the PDF text supports them', () => {
+    const confidence = scoreFieldConfidence(
+      { vpoNumber: 'VPO-1138183', shipVia: 'Ocean Freight', items: [item()] },
+      source
+    );
+    expect(confidence.vpoNumber).toBe(1);
+    expect(confidence.shipVia).toBe(0.45);
+    expect(confidence.agent).toBe(0);
+  });
+
+  it('scores items from the text and lowers them for validation warnings', () => {
+    const confidence = scoreFieldConfidence(
+      { items: [item(), item({ totalQty: 700, sizeBreakdown: { S: 600 }, extension: 1925 })] },
+      source
+    );
+    expect(confidence).toMatchObject({
+      'items.0.productCode': 1,
+      'items.0.totalQty': 1,
+      'items.0.unitPrice': 1,
+      'items.0.sizeBreakdown': 1,
+      'items.1.totalQty': 0.3,
+      'items.1.sizeBreakdown': 0.5,
+    });
+  });
+});
+
+describe('ocrTextWarning', () => {
+  it('is null when no page needed OCR', () => {
+    expect(ocrTextWarning([])).toBeNull();
+  });
+
+  it('flags OCR text with the length-weighted page confidence', () => {
+    const warning = ocrTextWarning([
+      { page: 1, text: 'a'.repeat(300), confidence: 0.9 },
+      { page: 2, text: 'b'.repeat(100), confidence: 0.5 },
+    ]);
+    expect(warning).toMatchObject({
+      code: 'OCR_TEXT',
+      severity: 'warning',
+      expected: 2,
+      actual: 80,
+    });
+    expect(averageOcrConfidence([{ page: 1, text: '', confidence: 0 }])).toBe(0);
+  });
+});
@@ -0,0 +1,283 @@
+import type { ExtractedOrderData } from './parser';
+import type { OcrPageResult } from './pdf-ocr';
+
+export type ExtractionWarningSeverity = 'error' | 'warning';
+
+export type ExtractionWarningCode =
+  | 'NO_ITEMS'
+  | 'MISSING_QTY'
+  | 'MISSING_PRICE'
+  | 'SIZE_SUM_MISMATCH'
+  | 'EXTENSION_MISMATCH'
+  | 'SUBTOTAL_QTY_MISMATCH'
+  | 'SUBTOTAL_AMOUNT_MISMATCH'
+  | 'OCR_TEXT';
+
+export interface ExtractionWarning {
+  severity: ExtractionWarningSeverity;
+  code: ExtractionWarningCode;
+  /** `item` warnings carry the index into `data.items`. */
+  scope: 'item' | 'order';
+  itemIndex?: number;
+  field: string;
+  expected?: number;
+  actual?: number;
+  message: string;
+}
+
+/** Extensions may differ from price × qty by rounding; allow 0.1% or two cents. */
+const EXTENSION_TOLERANCE_RATIO = 0.001;
+const MIN_AMOUNT_TOLERANCE = 0.02;
+
+/** AI responses send prices as strings with thousands separators ("16,533.00"). */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  if (typeof value === 'string') {
+    const n = Number(value.replace(/[^0-9.-]/g, ''));
+    return Number.isFinite(n) ? n : 0;
+  }
+  return 0;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+function amountsDiffer(expected: number, actual: number): boolean {
+  const tolerance = Math.max(MIN_AMOUNT_TOLERANCE, Math.abs(expected) * EXTENSION_TOLERANCE_RATIO);
+  return Math.abs(expected - actual) > tolerance;
+}
+
+/**
+ * Cross-check an extracted order: size breakdowns must add up to the line quantity,
+ * price × quantity must match the extension, and the items must add up to the PO
+ * subtotal when one was captured. Never throws; an empty array means the extraction
+ * is internally consistent.
+ */
+export function validateExtraction(data: ExtractedOrderData): ExtractionWarning[] {
+  const warnings: ExtractionWarning[] = [];
+  const items = Array.isArray(data.items) ? data.items : [];
+
+  if (items.length === 0) {
+    warnings.push({
+      severity: 'error',
+      code: 'NO_ITEMS',
+      scope: 'order',
+      field: 'items',
+      message: 'No line items were extracted',
+    });
+    return warnings;
+  }
+
+  let qtySum = 0;
+  let amountSum = 0;
+
+  items.forEach((item, itemIndex) => {
+    const qty = toNumber(item.totalQty);
+    const price = toNumber(item.customerUnitPrice ?? item.unitPrice);
+    const extension = toNumber(item.extension);
+    const label = item.productCode || `#${itemIndex + 1}`;
+    qtySum += qty;
+    amountSum += extension || price * qty;
+
+    if (qty <= 0) {
+      warnings.push({
+        severity: 'error',
+        code: 'MISSING_QTY',
+        scope: 'item',
+        itemIndex,
+        field: 'totalQty',
+        actual: qty,
+        message: `${label}: quantity is missing`,
+      });
+    }
+
+    if (price <= 0) {
+      warnings.push({
+        severity: 'error',
+        code: 'MISSING_PRICE',
+        scope: 'item',
+        itemIndex,
+        field: 'unitPrice',
+        actual: price,
+        message: `${label}: unit price is missing`,
+      });
+    }
+
+    const sizes = Object.values(item.sizeBreakdown ?? {});
+    if (sizes.length > 0 && qty > 0) {
+      const sizeSum = sizes.reduce((sum, value) => sum + toNumber(value), 0);
+      if (sizeSum !== qty) {
+        warnings.push({
+          severity: 'warning',
+          code: 'SIZE_SUM_MISMATCH',
+          scope: 'item',
+          itemIndex,
+          field: 'sizeBreakdown',
+          expected: qty,
+          actual: sizeSum,
+          message: `${label}: sizes add up to ${sizeSum}, line quantity is ${qty}`,
+        });
+      }
+    }
+
+    if (qty > 0 && price > 0 && extension > 0) {
+      const expected = round2(price * qty);
+      if (amountsDiffer(expected, extension)) {
+        warnings.push({
+          severity: 'warning',
+          code: 'EXTENSION_MISMATCH',
+          scope: 'item',
+          itemIndex,
+          field: 'extension',
+          expected,
+          actual: extension,
+          message: `${label}: price × quantity is ${expected}, extension is ${extension}`,
+        });
+      }
+    }
+  });
+
+  const subtotalQty = toNumber(data.subtotalQty);
+  if (subtotalQty > 0 && subtotalQty !== qtySum) {
+    warnings.push({
+      severity: 'error',
+      code: 'SUBTOTAL_QTY_MISMATCH',
+      scope: 'order',
+      field: 'subtotalQty',
+      expected: subtotalQty,
+      actual: qtySum,
+      message: `Items add up to ${qtySum} pcs, PO subtotal is ${subtotalQty}`,
+    });
+  }
+
+  const subtotalAmount = toNumber(data.subtotalAmount);
+  amountSum = round2(amountSum);
+  if (subtotalAmount > 0 && amountsDiffer(subtotalAmount, amountSum)) {
+    warnings.push({
+      severity: 'error',
+      code: 'SUBTOTAL_AMOUNT_MISMATCH',
+      scope: 'order',
+      field: 'subtotalAmount',
+      expected: subtotalAmount,
+      actual: amountSum,
+      message: `Items add up to ${amountSum}, PO subtotal is ${subtotalAmount}`,
+    });
+  }
+
+  return warnings;
+}
+
+/** Mean OCR confidence (0–1) over the pages that produced text, weighted by their length. */
+export function averageOcrConfidence(pages: OcrPageResult[]): number {
+  const readable = pages.filter((page) => page.text.trim());
+  const chars = readable.reduce((sum, page) => sum + page.text.length, 0);
+  if (chars === 0) return 0;
+  return round2(
+    readable.reduce((sum, page) => sum + page.confidence * page.text.length, 0) / chars
+  );
+}
+
+/**
+ * Flag an extraction whose text came from OCR. `actual` is the mean OCR confidence in
+ * percent; `expected` is the number of scanned pages.
+ */
+export function ocrTextWarning(pages: OcrPageResult[]): ExtractionWarning | null {
+  if (pages.length === 0) return null;
+  const percent = Math.round(averageOcrConfidence(pages) * 100);
+  return {
+    severity: 'warning',
+    code: 'OCR_TEXT',
+    scope: 'order',
+    field: 'text',
+    expected: pages.length,
+    actual: percent,
+    message: `Text on ${pages.length} scanned page(s) was read by OCR (${percent}% confidence); check values against the PDF`,
+  };
+}
+
+/** Keyed by field name (`vpoNumber`) or item path (`items.0.totalQty`); 0 = unsupported, 1 = verified. */
+export type FieldConfidence = Record<string, number>;
+
+const HEADER_FIELDS = [
+  'vpoNumber',
+  'orderDate',
+  'expShipDate',
+  'cancelDate',
+  'soReference',
+  'customerName',
+  'supplierName',
+  'supplierAddress',
+  'shipTo',
+  'shipVia',
+  'shipmentTerms',
+  'paymentTerms',
+  'agent',
+] as const;
+
+const normalizeText = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** 1 when the value appears verbatim in the PDF text, otherwise the share of its words that do (max 0.9). */
+function textSupport(value: unknown, source: string): number {
+  if (value === undefined || value === null || value === '') return 0;
+  const normalized = normalizeText(String(value));
+  if (source.includes(normalized)) return 1;
+  const words = normalized.split(' ').filter((word) => word.length > 1);
+  if (words.length === 0) return 0;
+  const found = words.filter((word) => source.includes(word)).length;
+  return round2((0.9 * found) / words.length);
+}
+
+function numberSupport(value: number, source: string): boolean {
+  if (value <= 0) return false;
+  const plain = String(value);
+  const grouped = value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  const fixed = value.toFixed(2);
+  return [plain, grouped, fixed].some((candidate) => source.includes(candidate));
+}
+
+/**
+ * Heuristic per-field confidence for an extraction. Header fields score by how well
+ * the value is backed by the PDF text; item quantities and prices start from whether
+ * the number appears in the text and are reduced by the validator's warnings.
+ */
+export function scoreFieldConfidence(
+  data: ExtractedOrderData,
+  sourceText: string,
+  warnings: ExtractionWarning[] = validateExtraction(data)
+): FieldConfidence {
+  const source = normalizeText(sourceText);
+  const confidence: FieldConfidence = {};
+
+  for (const field of HEADER_FIELDS) {
+    confidence[field] = textSupport(data[field], source);
+  }
+
+  const orderCodes = new Set(
+    warnings.filter((w) => w.scope === 'order').map((warning) => warning.code)
+  );
+  const items = Array.isArray(data.items) ? data.items : [];
+
+  items.forEach((item, index) => {
+    const codes = new Set(
+      warnings.filter((w) => w.itemIndex === index).map((warning) => warning.code)
+    );
+    const qty = toNumber(item.totalQty);
+    const price = toNumber(item.customerUnitPrice ?? item.unitPrice);
+
+    let qtyScore = numberSupport(qty, source) ? 1 : 0.6;
+    if (codes.has('SIZE_SUM_MISMATCH')) qtyScore *= 0.5;
+    if (orderCodes.has('SUBTOTAL_QTY_MISMATCH')) qtyScore *= 0.8;
+
+    let priceScore = numberSupport(price, source) ? 1 : 0.6;
+    if (codes.has('EXTENSION_MISMATCH')) priceScore *= 0.5;
+    if (orderCodes.has('SUBTOTAL_AMOUNT_MISMATCH')) priceScore *= 0.8;
+
+    confidence[`items.${index}.productCode`] = textSupport(item.productCode, source);
+    confidence[`items.${index}.totalQty`] = codes.has('MISSING_QTY') ? 0 : round2(qtyScore);
+    confidence[`items.${index}.unitPrice`] = codes.has('MISSING_PRICE') ? 0 : round2(priceScore);
+    if (item.sizeBreakdown && Object.keys(item.sizeBreakdown).length > 0) {
+      confidence[`items.${index}.sizeBreakdown`] = codes.has('SIZE_SUM_MISMATCH') ? 0.5 : 1;
+    }
+  });
+
+  return confidence;
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { extractionProviderConfigSchema } from '@/lib/schemas';
+import {
+  createProvider,
+  type ExtractionProvider,
+  type ExtractionProviderConfig,
+} from './providers';
+
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-3.0-flash', 'gemini-3.1-flash-lite'];
+
+const MINIMAX_ENDPOINT = 'https://api.minimaxi.com/v1/text/chatcompletion_v2';
+
+/**
+ * Provider chain from the environment. `AI_PROVIDERS` takes a JSON array of provider
+ * configs; without it the chain is the Gemini models (when `GOOGLE_API_KEY` is set),
+ * MiniMax (when `MINIMAX_API_KEY` is set) and finally the rule-based parser.
+ */
+export function getEnvProviderConfigs(
+  env: Record<string, string | undefined> = process.env
+): ExtractionProviderConfig[] {
+  if (env.AI_PROVIDERS?.trim()) {
+    try {
+      return z.array(extractionProviderConfigSchema).parse(JSON.parse(env.AI_PROVIDERS));
+    } catch (error: unknown) {
+      console.error('Ignoring invalid AI_PROVIDERS:', getErrorMessage(error));
+    }
+  }
+
+  const configs: ExtractionProviderConfig[] = [];
+  const googleKey = env.GOOGLE_API_KEY;
+  if (googleKey && googleKey !== 'YOUR_GOOGLE_API_KEY_HERE') {
+    for (const model of GEMINI_MODELS) {
+      configs.push({
+        name: model,
+        kind: 'gemini',
+        model,
+        apiKeyEnv: 'GOOGLE_API_KEY',
+        maxRetries: 2,
+        retryDelayMs: 1000,
+      });
+    }
+  }
+  if (env.MINIMAX_API_KEY) {
+    configs.push({
+      name: 'minimax',
+      kind: 'openai-compatible',
+      model: 'MiniMax-M2.7',
+      endpoint: MINIMAX_ENDPOINT,
+      apiKeyEnv: 'MINIMAX_API_KEY',
+    });
+  }
+  configs.push({ name: 'rule-based', kind: 'rule-based', timeoutMs: 5000 });
+  return configs;
+}
+
+/** Instantiate providers, skipping (with a warning) any whose config is incomplete. */
+export function buildProviders(configs: ExtractionProviderConfig[]): ExtractionProvider[] {
+  return configs.flatMap((config) => {
+    try {
+      return [createProvider(config)];
+    } catch (error: unknown) {
+      console.warn(`Skipping extraction provider ${config.name}:`, getErrorMessage(error));
+      return [];
+    }
+  });
+}
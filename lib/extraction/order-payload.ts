@@ -0,0 +1,47 @@
+import type { z } from 'zod';
+import type { ExtractedOrderData } from '@/lib/parser';
+import type { saveOrderSchema } from '@/lib/schemas';
+
+export type SaveOrderInput = z.input<typeof saveOrderSchema>;
+
+function toDateInput(value: string | undefined): string | null {
+  if (!value) return null;
+  return Number.isNaN(new Date(value).getTime()) ? null : value;
+}
+
+/**
+ * Shape an extraction the way OrderForm does before POSTing /api/save-order, for
+ * callers that save without a review step (batch imports). Unparseable dates are
+ * dropped rather than failing the whole order.
+ */
+export function toSaveOrderInput(data: ExtractedOrderData): SaveOrderInput {
+  return {
+    vpoNumber: data.vpoNumber?.trim() ?? '',
+    customerName: data.customerName,
+    customerAddress: data.customerAddress,
+    supplierName: data.supplierName,
+    supplierAddress: data.supplierAddress,
+    orderDate: toDateInput(data.orderDate),
+    expShipDate: toDateInput(data.expShipDate),
+    cancelDate: toDateInput(data.cancelDate),
+    soReference: data.soReference,
+    shipTo: data.shipTo,
+    shipVia: data.shipVia,
+    shipmentTerms: data.shipmentTerms,
+    paymentTerms: data.paymentTerms,
+    customerNotes: data.customerNotes,
+    items: (data.items || []).map((item) => ({
+      productCode: item.productCode,
+      description: item.description,
+      quantity: Math.max(0, Math.round(item.totalQty || 0)),
+      unitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
+      customerUnitPrice: Number(item.customerUnitPrice ?? item.unitPrice ?? 0),
+      vendorUnitPrice: Number(item.vendorUnitPrice ?? 0),
+      color: item.color,
+      material: item.material,
+      sizeBreakdown: item.sizeBreakdown,
+      productClass: item.productClass,
+      collection: item.collection,
+    })),
+  };
+}
@@ -0,0 +1,177 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { buildProviders, getEnvProviderConfigs } from './config';
+import { runExtraction } from './pipeline';
+import { createProvider } from './providers';
+
+const VALID_ORDER = {
+  vpoNumber: 'VPO-1',
+  items: [{ productCode: '7VND2A6805TY', unitPrice: '2.75', totalQty: 100, extension: '275.00' }],
+};
+
+type Reply = { status?: number; content?: string; delayMs?: number };
+
+// Fake OpenAI-compatible server: each route replays a queue of canned replies.
+const replies = new Map<string, Reply[]>();
+const received = new Map<string, string[]>();
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const route = req.url ?? '/';
+      const message = JSON.parse(body).messages[1].content as string;
+      received.set(route, [...(received.get(route) ?? []), message]);
+      const reply = replies.get(route)?.shift() ?? { status: 500 };
+      setTimeout(() => {
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: reply.content } }] }));
+      }, reply.delayMs ?? 0);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function fake(route: string, queue: Reply[], overrides = {}) {
+  replies.set(route, queue);
+  return createProvider({
+    name: route.slice(1),
+    kind: 'openai-compatible',
+    model: 'fake-model',
+    endpoint: `${baseUrl}${route}`,
+    retryDelayMs: 1,
+    ...overrides,
+  });
+}
+
+describe('runExtraction', () => {
+  it('returns schema-coerced data from the first provider that answers', async () => {
+    const result = await runExtraction(
+      [fake('/fenced', [{ content: `\`\`\`json\n${JSON.stringify(VALID_ORDER)}\n\`\`\`` }])],
+      { text: 'PO text' }
+    );
+    expect(result.provider).toBe('fenced');
+    expect(result.model).toBe('fake-model');
+    expect(result.data.items[0]).toMatchObject({ unitPrice: 2.75, extension: 275 });
+  });
+
+  it('sends validation problems back to the same provider for one repair pass', async () => {
+    const provider = fake('/repair', [
+      { content: '{"vpoNumber": "VPO-1", "items": [{"unitPrice": "TBD"}]}' },
+      { content: JSON.stringify(VALID_ORDER) },
+    ]);
+    const result = await runExtraction([provider], { text: 'PO text' });
+
+    expect(result.data.vpoNumber).toBe('VPO-1');
+    const [, repairMessage] = received.get('/repair') ?? [];
+    expect(repairMessage).toContain('--- PROBLEMS ---');
+    expect(repairMessage).toContain('productCode');
+  });
+
+  it('retries retryable errors within the provider retry budget', async () => {
+    const provider = fake(
+      '/flaky',
+      [{ status: 503, content: 'busy' }, { content: JSON.stringify(VALID_ORDER) }],
+      { maxRetries: 1 }
+    );
+    const result = await runExtraction([provider], { text: 'PO text' });
+    expect(result.provider).toBe('flaky');
+    expect(received.get('/flaky')).toHaveLength(2);
+  });
+
+  it('falls through slow and broken providers to the rule-based stub', async () => {
+    const text = fs.readFileSync(
+      path.join(__dirname, '..', '__fixtures__', 'clife-vpo-single-page.txt'),
+      'utf8'
+    );
+    const result = await runExtraction(
+      [
+        fake('/slow', [{ content: JSON.stringify(VALID_ORDER), delayMs: 200 }], { timeoutMs: 20 }),
+        fake('/down', [{ status: 401, content: 'unauthorized' }], { maxRetries: 3 }),
+        createProvider({ name: 'rule-based', kind: 'rule-based' }),
+      ],
+      { text }
+    );
+    expect(result.provider).toBe('rule-based');
+    expect(result.data.vpoNumber).toBe('VPO-1140022');
+    expect(received.get('/down')).toHaveLength(1);
+  });
+
+  it('gives the AI providers one shared deadline and still runs the rule-based parser', async () => {
+    const text = fs.readFileSync(
+      path.join(__dirname, '..', '__fixtures__', 'clife-vpo-single-page.txt'),
+      'utf8'
+    );
+    const slow = { content: JSON.stringify(VALID_ORDER), delayMs: 300 };
+    const started = Date.now();
+    const result = await runExtraction(
+      [
+        fake('/slow-a', [slow], { timeoutMs: 1000 }),
+        fake('/slow-b', [slow], { timeoutMs: 1000 }),
+        createProvider({ name: 'rule-based', kind: 'rule-based' }),
+      ],
+      { text, deadlineMs: 100 }
+    );
+    expect(result.provider).toBe('rule-based');
+    expect(Date.now() - started).toBeLessThan(300);
+    expect(received.get('/slow-b')).toBeUndefined();
+  });
+
+  it('reports every attempt and the last invalid response when all providers fail', async () => {
+    const provider = fake('/garbage', [{ content: 'not json' }, { content: 'still not json' }]);
+    await expect(runExtraction([provider], { text: 'PO text' })).rejects.toMatchObject({
+      rawResponse: 'still not json',
+      attempts: [{ provider: 'garbage' }],
+    });
+  });
+});
+
+describe('getEnvProviderConfigs', () => {
+  it('orders Gemini models, MiniMax and the rule-based parser from the default env', () => {
+    const names = getEnvProviderConfigs({ GOOGLE_API_KEY: 'key', MINIMAX_API_KEY: 'key' }).map(
+      (config) => config.name
+    );
+    expect(names).toEqual([
+      'gemini-2.5-flash',
+      'gemini-3.0-flash',
+      'gemini-3.1-flash-lite',
+      'minimax',
+      'rule-based',
+    ]);
+  });
+
+  it('uses the AI_PROVIDERS list when set', () => {
+    const configs = getEnvProviderConfigs({
+      GOOGLE_API_KEY: 'key',
+      AI_PROVIDERS: JSON.stringify([
+        { name: 'local', kind: 'openai-compatible', endpoint: 'http://localhost:8080/v1/chat' },
+      ]),
+    });
+    expect(configs).toEqual([
+      { name: 'local', kind: 'openai-compatible', endpoint: 'http://localhost:8080/v1/chat' },
+    ]);
+  });
+
+  it('skips providers whose API key is missing', () => {
+    const providers = buildProviders([
+      { name: 'gemini', kind: 'gemini', model: 'gemini-2.5-flash', apiKeyEnv: 'NO_SUCH_KEY' },
+      { name: 'rule-based', kind: 'rule-based' },
+    ]);
+    expect(providers.map((provider) => provider.name)).toEqual(['rule-based']);
+  });
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { getErrorMessage } from '@/lib/api-helpers';
+import type { ExtractedOrderData } from '@/lib/parser';
+import type { PdfTableGrid } from '@/lib/pdf-layout';
+import { extractedOrderSchema } from '@/lib/schemas';
+import type { ExtractOptions, ExtractionProvider } from './providers';
+
+export interface ExtractionResult {
+  data: ExtractedOrderData;
+  provider: string;
+  model?: string;
+  rawResponse: string;
+}
+
+export interface ExtractionAttempt {
+  provider: string;
+  error: string;
+  rawResponse?: string;
+}
+
+/** Thrown when every provider failed; `attempts` lists why, in order. */
+export interface ExtractionFailure extends Error {
+  attempts: ExtractionAttempt[];
+  /** Last response that came back but never passed validation, if any. */
+  rawResponse?: string;
+}
+
+type ParsedAiResponse = { data: ExtractedOrderData } | { problems: string };
+
+export function parseAiResponse(responseText: string): ParsedAiResponse {
+  const cleaned = responseText
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(cleaned);
+  } catch (error: unknown) {
+    return { problems: `The response is not valid JSON: ${getErrorMessage(error)}` };
+  }
+
+  const result = extractedOrderSchema.safeParse(json);
+  if (!result.success) {
+    return { problems: z.prettifyError(result.error) };
+  }
+  return { data: result.data };
+}
+
+/** Rate limits, server errors and timeouts are worth another attempt; auth/4xx errors are not. */
+export function isRetryableError(error: unknown): boolean {
+  const status =
+    typeof error === 'object' && error !== null
+      ? ((error as { status?: number }).status ??
+        (error as { response?: { status?: number } }).response?.status)
+      : undefined;
+  if (status !== undefined) return status === 429 || status >= 500;
+  return /\b(?:429|500|502|503|504)\b|timed out|fetch failed/i.test(getErrorMessage(error));
+}
+
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * How long `provider` may take from now: its own timeout, cut short by the chain's
+ * deadline. The local parser is quick and is the last resort, so it always gets its
+ * own timeout.
+ */
+function timeLeft(provider: ExtractionProvider, deadline?: number): number {
+  if (deadline === undefined || provider.kind === 'rule-based') return provider.timeoutMs;
+  return Math.min(provider.timeoutMs, deadline - Date.now());
+}
+
+async function callProvider(
+  provider: ExtractionProvider,
+  text: string,
+  options: Omit<ExtractOptions, 'signal'>,
+  deadline?: number
+): Promise<string> {
+  let delay = provider.retryDelayMs;
+  for (let attempt = 0; ; attempt++) {
+    const timeoutMs = timeLeft(provider, deadline);
+    if (timeoutMs <= 0) throw new Error(`${provider.name} skipped: out of extraction time`);
+    try {
+      return await withTimeout(
+        (signal) => provider.extract(text, { ...options, signal }),
+        timeoutMs,
+        provider.name
+      );
+    } catch (error: unknown) {
+      if (attempt >= provider.maxRetries || !isRetryableError(error)) throw error;
+      if (timeLeft(provider, deadline) <= delay) throw error;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+}
+
+/**
+ * Try each provider in order until one returns data that passes the extraction
+ * schema. A provider whose first answer fails JSON/schema checks gets one repair
+ * pass with the problems fed back before the next provider is tried. `deadlineMs`
+ * bounds the whole chain, retries and repairs included, so a caller with a time
+ * limit still reaches the rule-based parser at the end.
+ */
+export async function runExtraction(
+  providers: ExtractionProvider[],
+  input: { text: string; tables?: PdfTableGrid[]; systemPrompt?: string; deadlineMs?: number }
+): Promise<ExtractionResult> {
+  const attempts: ExtractionAttempt[] = [];
+  let invalidResponse: string | undefined;
+  const deadline = input.deadlineMs === undefined ? undefined : Date.now() + input.deadlineMs;
+
+  for (const provider of providers) {
+    try {
+      const options = { tables: input.tables, systemPrompt: input.systemPrompt };
+      let rawResponse = await callProvider(provider, input.text, options, deadline);
+      let parsed = parseAiResponse(rawResponse);
+
+      if ('problems' in parsed) {
+        console.warn(
+          `${provider.name} response failed validation, requesting repair:`,
+          parsed.problems
+        );
+        rawResponse = await callProvider(
+          provider,
+          input.text,
+          { ...options, repair: { previousResponse: rawResponse, problems: parsed.problems } },
+          deadline
+        );
+        parsed = parseAiResponse(rawResponse);
+      }
+
+      if ('problems' in parsed) {
+        invalidResponse = rawResponse;
+        attempts.push({ provider: provider.name, error: parsed.problems, rawResponse });
+        continue;
+      }
+
+      return { data: parsed.data, provider: provider.name, model: provider.model, rawResponse };
+    } catch (error: unknown) {
+      console.warn(`Provider ${provider.name} failed:`, getErrorMessage(error));
+      attempts.push({ provider: provider.name, error: getErrorMessage(error) });
+    }
+  }
+
+  const failure = new Error(
+    providers.length === 0
+      ? 'No extraction providers are configured'
+      : `All extraction providers failed (${attempts.map((a) => a.provider).join(', ')})`
+  ) as ExtractionFailure;
+  failure.attempts = attempts;
+  failure.rawResponse = invalidResponse;
+  throw failure;
+}
+
+export function isExtractionFailure(error: unknown): error is ExtractionFailure {
+  return error instanceof Error && Array.isArray((error as ExtractionFailure).attempts);
+}
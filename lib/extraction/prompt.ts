@@ -0,0 +1,104 @@
+import { formatTablesAsText, type PdfTableGrid } from '@/lib/pdf-layout';
+
+/**
+ * Buyer-neutral instructions. Guidance for one buyer's documents is appended by
+ * `buildSystemPrompt`: a matched customer template's, or the C-Life defaults.
+ */
+const BASE_SYSTEM_PROMPT = `You are a purchase order data extraction assistant. You receive raw text extracted from a Vendor Purchase Order (VPO) PDF and must return a structured JSON object.
+
+POs are often multi-page documents with repeated headers on each page. Extract the data from ALL pages and deduplicate.
+
+Return ONLY valid JSON with this exact structure (no markdown, no code fences, just raw JSON):
+
+{
+  "vpoNumber": "string - the VPO document number, e.g. VPO-1138183",
+  "orderDate": "string - order date, e.g. 3/3/2025",
+  "expShipDate": "string - expected ship date",
+  "cancelDate": "string or null - R Whs Date (Received to Warehouse / ETW / Estimated to Warehouse) or Cancel Date",
+  "soReference": "string - SO reference number, e.g. So-1558761",
+  "customerName": "string - the buying company",
+  "customerAddress": "string - buyer address",
+  "supplierName": "string - the factory/supplier name",
+  "supplierAddress": "string - supplier full address",
+  "shipTo": "string - ship-to address (may be different from supplier)",
+  "shipVia": "string - shipping method, e.g. Ocean Frt",
+  "shipmentTerms": "string - e.g. Free On Board, Delivered Duty Paid",
+  "paymentTerms": "string - e.g. Net 7 ROG, Net 30 Days ROG",
+  "agent": "string - agent code, e.g. MJR, MJI, MJHK",
+  "customerNotes": "string - Full text of the 'Notes' or 'Special Instructions' section. Include all lines like 'Customer:', 'Testing:', 'Packing:', 'Additional Information'. Preserve newlines.",
+  "items": [
+    {
+      "productCode": "string - product code, e.g. 7VND2A6805TY",
+      "description": "string - product description/name",
+      "productClass": "string - e.g. R - Licensed",
+      "collection": "string - e.g. Junior, Kids Mix",
+      "material": "string - fabric composition",
+      "color": "string - color name",
+      "unitPrice": "string - unit price (e.g. '2.75')",
+      "totalQty": number,
+      "extension": "string - total value (e.g. '16,533.00')",
+      "sizeBreakdown": {"size_label": quantity} 
+    }
+  ],
+  "subtotalQty": number or null - total quantity on the PO 'Subtotal' row,
+  "subtotalAmount": "string or null - total amount on the PO 'Subtotal' row (e.g. '32,190.00')"
+}
+
+IMPORTANT RULES:
+1. Extract ALL line items across ALL pages. Do NOT duplicate items that appear on different pages because of repeated headers.
+2. For assortment items (marked with *Assortment Detail), these are sub-items of a parent product. List each sub-item separately with the parent's price info.
+3. Size breakdown should map size labels (XS, S, M, L, XL, 2XL, 3XL, 2T, 3T, 4T, 5, 6, 7, etc.) to their quantities.
+4. If a field is not found, use null for strings and 0 for numbers.
+5. Prices (unitPrice, extension) MUST be strings. Remove currency symbols ($) but keep commas and decimals if present.
+6. **CRITICAL - QUANTITY ACCURACY**: 
+   - The "totalQty" for each item is the SUM of all size quantities in that line item's size breakdown.
+   - Each line item row in the PO table has a "Qty" column that shows the totalQty. Use this value directly.
+   - Cross-verify: the sum of the size breakdown quantities MUST equal totalQty. If they don't match, trust the "Qty" column value.
+   - The PO typically has a "Subtotal" row at the bottom showing the grand total quantity and dollar amount. Use this to verify your extraction.
+   - Do NOT confuse the item's line number or row index with a quantity.
+7. The "extension" is usually unitPrice × totalQty. Use the value shown in the "Extension" column of the PO.
+8. **IMPORTANT - TABULAR DATA**: The PO uses a wide table format where size labels appear as column headers and size-specific quantities appear in cells below. Read each row carefully:
+   - The "Qty" column comes AFTER all the size columns and contains the total quantity for that line.
+   - Some items have multiple color rows under the same product code.
+9. **IMPORTANT**: Capture the 'Notes' or 'Special Instructions' section into 'customerNotes'. 
+   - **EXCLUDE**: Standard legal disclaimers, forced labor warnings (e.g., Uzbekistan, Turkmenistan, XUAR), or "contracting terms" that are normally part of the generic PO footer.
+   - **INCLUDE**: Specific operational notes like 'Customer: [Name]', 'Testing: [Requirements]', 'Packing: [Method]', or any unique 'Additional Information'. 
+   - Preserve original formatting and newlines for the included parts.`;
+
+/** Used when no customer template matches; the app was first built for these VPOs. */
+export const DEFAULT_CUSTOMER_INSTRUCTIONS = `CUSTOMER-SPECIFIC INSTRUCTIONS (C-Life Group):
+- The VPOs typically come from C-Life Group's ERP system; the buyer is usually C-Life Group, Ltd.
+- Item table column order is typically: Cat, Product Class, Product Code, Color Ref, Disc, [size columns...], Qty, Price, Extension`;
+
+export function buildSystemPrompt(customerInstructions = DEFAULT_CUSTOMER_INSTRUCTIONS): string {
+  return customerInstructions
+    ? `${BASE_SYSTEM_PROMPT}\n\n${customerInstructions}`
+    : BASE_SYSTEM_PROMPT;
+}
+
+export const SYSTEM_PROMPT = buildSystemPrompt();
+
+/** The extraction request: raw PDF text plus the rebuilt item table when one was found. */
+export function buildUserMessage(text: string, tables: PdfTableGrid[] = []): string {
+  const tableText = tables.length > 0 ? formatTablesAsText(tables) : '';
+  return tableText
+    ? `Here is the raw text extracted from a VPO PDF, followed by the item table rebuilt from text positions (tab-separated, empty cells preserved). Prefer the table for size columns. Parse it and return the structured JSON:\n\n${text}\n\n--- ITEM TABLE ---\n${tableText}`
+    : `Here is the raw text extracted from a VPO PDF. Parse it and return the structured JSON:\n\n${text}`;
+}
+
+/** Second-pass prompt that sends the schema / JSON problems back to the model. */
+export function buildRepairMessage(
+  userMessage: string,
+  responseText: string,
+  problems: string
+): string {
+  return `${userMessage}
+
+--- YOUR PREVIOUS RESPONSE ---
+${responseText}
+
+--- PROBLEMS ---
+${problems}
+
+Your previous response could not be used because of the problems listed above. Return the corrected JSON only, following the exact structure from the instructions.`;
+}
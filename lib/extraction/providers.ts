@@ -0,0 +1,162 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseOrderText } from '@/lib/parser';
+import type { PdfTableGrid } from '@/lib/pdf-layout';
+import { buildRepairMessage, buildUserMessage, SYSTEM_PROMPT } from './prompt';
+
+export type ExtractionProviderKind = 'gemini' | 'openai-compatible' | 'rule-based';
+
+export interface ExtractionProviderConfig {
+  /** Unique label used in logs and stored as the extraction source. */
+  name: string;
+  kind: ExtractionProviderKind;
+  model?: string;
+  /** Full chat-completions URL for `openai-compatible` providers. */
+  endpoint?: string;
+  apiKey?: string;
+  /** Name of the env var holding the API key, so secrets never live in config rows. */
+  apiKeyEnv?: string;
+  timeoutMs?: number;
+  /** Extra attempts after the first one, for rate limits, 5xx and timeouts only. */
+  maxRetries?: number;
+  retryDelayMs?: number;
+  temperature?: number;
+}
+
+export interface ExtractOptions {
+  tables?: PdfTableGrid[];
+  /** Replaces `SYSTEM_PROMPT`, e.g. with a customer template's instructions added. */
+  systemPrompt?: string;
+  /** Set on the second pass, after the first response failed JSON/schema checks. */
+  repair?: { previousResponse: string; problems: string };
+  signal?: AbortSignal;
+}
+
+/** One AI backend (or the local parser). Returns the raw response text; parsing happens upstream. */
+export interface ExtractionProvider {
+  readonly name: string;
+  readonly kind: ExtractionProviderKind;
+  readonly model?: string;
+  readonly timeoutMs: number;
+  readonly maxRetries: number;
+  readonly retryDelayMs: number;
+  extract(text: string, options?: ExtractOptions): Promise<string>;
+}
+
+const DEFAULT_TIMEOUT_MS = 45_000;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+function buildMessage(text: string, options: ExtractOptions = {}): string {
+  const userMessage = buildUserMessage(text, options.tables);
+  return options.repair
+    ? buildRepairMessage(userMessage, options.repair.previousResponse, options.repair.problems)
+    : userMessage;
+}
+
+function resolveApiKey(config: ExtractionProviderConfig): string | undefined {
+  return config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+}
+
+function baseProvider(config: ExtractionProviderConfig) {
+  return {
+    name: config.name,
+    kind: config.kind,
+    model: config.model,
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: config.maxRetries ?? 0,
+    retryDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+  };
+}
+
+function createGeminiProvider(config: ExtractionProviderConfig): ExtractionProvider {
+  const apiKey = resolveApiKey(config);
+  if (!apiKey) throw new Error(`${config.name}: API key not configured`);
+  if (!config.model) throw new Error(`${config.name}: model is required`);
+
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: config.model,
+    generationConfig: { temperature: config.temperature },
+  });
+
+  return {
+    ...baseProvider(config),
+    async extract(text, options) {
+      const result = await model.generateContent(
+        [options?.systemPrompt ?? SYSTEM_PROMPT, buildMessage(text, options)],
+        {
+          signal: options?.signal,
+        }
+      );
+      return result.response.text();
+    },
+  };
+}
+
+/** Any endpoint speaking the OpenAI chat-completions format (MiniMax, OpenAI, local servers). */
+function createOpenAiCompatibleProvider(config: ExtractionProviderConfig): ExtractionProvider {
+  const { endpoint } = config;
+  if (!endpoint) throw new Error(`${config.name}: endpoint is required`);
+  const apiKey = resolveApiKey(config);
+  if (config.apiKeyEnv && !apiKey) throw new Error(`${config.name}: API key not configured`);
+
+  return {
+    ...baseProvider(config),
+    async extract(text, options) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            { role: 'system', content: options?.systemPrompt ?? SYSTEM_PROMPT },
+            { role: 'user', content: buildMessage(text, options) },
+          ],
+          temperature: config.temperature ?? 0.1,
+        }),
+        signal: options?.signal,
+      });
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`${config.name} API error ${response.status}: ${err}`);
+      }
+
+      const json = (await response.json()) as {
+        choices?: { message?: { content?: string } }[];
+      };
+      const content = json.choices?.[0]?.message?.content;
+      if (!content) throw new Error(`${config.name} returned empty content`);
+      return content;
+    },
+  };
+}
+
+/**
+ * Local stub backed by the deterministic parser. Needs no key or network, so it
+ * works as the last resort in production and as a fake provider in tests.
+ */
+function createRuleBasedProvider(config: ExtractionProviderConfig): ExtractionProvider {
+  return {
+    ...baseProvider(config),
+    async extract(text) {
+      const data = parseOrderText(text);
+      if (data.items.length === 0) throw new Error('Rule-based parser found no line items');
+      return JSON.stringify(data);
+    },
+  };
+}
+
+export function createProvider(config: ExtractionProviderConfig): ExtractionProvider {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config);
+    case 'rule-based':
+      return createRuleBasedProvider(config);
+    default:
+      throw new Error(`Unknown extraction provider kind: ${String(config.kind)}`);
+  }
+}
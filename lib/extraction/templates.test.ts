@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { buildSystemPrompt, DEFAULT_CUSTOMER_INSTRUCTIONS, SYSTEM_PROMPT } from './prompt';
+import {
+  applyCustomerTemplate,
+  detectCustomerTemplate,
+  formatTemplateInstructions,
+  type CustomerTemplate,
+} from './templates';
+
+function template(overrides: Partial<CustomerTemplate>): CustomerTemplate {
+  return {
+    name: 'Acme',
+    customerName: 'Acme Retail Inc.',
+    enabled: true,
+    priority: 100,
+    keywords: ['Acme Retail'],
+    headerFingerprint: [],
+    minScore: 1,
+    fieldDefaults: {},
+    sizeAliases: {},
+    rules: [],
+    ...overrides,
+  };
+}
+
+const table = (header: string[]) => ({ page: 1, header, columns: [], rows: [] });
+
+describe('detectCustomerTemplate', () => {
+  it('picks the template with the most keyword and header matches', () => {
+    const acme = template({ headerFingerprint: ['Style #', 'Units'] });
+    const other = template({ name: 'Other', keywords: ['Acme Retail', 'Purchase Order'] });
+    const text = 'ACME RETAIL   purchase order 123';
+
+    const match = detectCustomerTemplate([other, acme], text, [table(['Style  #', 'Units'])]);
+    expect(match?.template.name).toBe('Acme');
+    expect(match?.score).toBe(3);
+    expect(match?.matchedHeaders).toEqual(['Style #', 'Units']);
+  });
+
+  it('respects minScore, disabled templates and priority ties', () => {
+    const strict = template({ name: 'Strict', minScore: 2 });
+    expect(detectCustomerTemplate([strict], 'Acme Retail')).toBeNull();
+    expect(detectCustomerTemplate([template({ enabled: false })], 'Acme Retail')).toBeNull();
+
+    const first = template({ name: 'First', priority: 10 });
+    const second = template({ name: 'Second', priority: 20 });
+    expect(detectCustomerTemplate([second, first], 'Acme Retail')?.template.name).toBe('First');
+  });
+});
+
+describe('applyCustomerTemplate', () => {
+  it('fills defaults, renames sizes and runs rules', () => {
+    const acme = template({
+      fieldDefaults: { paymentTerms: 'Net 30' },
+      sizeAliases: { sml: 'S', Med: 'M' },
+      rules: [
+        { target: 'order', field: 'vpoNumber', op: 'stripPrefix', pattern: 'PO#' },
+        { target: 'item', field: 'productCode', op: 'replace', pattern: '\\s+', value: '' },
+        { target: 'item', field: 'color', op: 'uppercase' },
+      ],
+    });
+
+    const result = applyCustomerTemplate(
+      {
+        vpoNumber: 'PO# 4411',
+        paymentTerms: '',
+        items: [
+          {
+            productCode: 'AB 123',
+            color: 'navy',
+            description: '',
+            unitPrice: 1,
+            totalQty: 30,
+            extension: 30,
+            sizeBreakdown: { SML: 10, MED: 20 },
+          },
+        ],
+      },
+      acme
+    );
+
+    expect(result.vpoNumber).toBe('4411');
+    expect(result.customerName).toBe('Acme Retail Inc.');
+    expect(result.paymentTerms).toBe('Net 30');
+    expect(result.items[0]).toMatchObject({
+      productCode: 'AB123',
+      color: 'NAVY',
+      sizeBreakdown: { S: 10, M: 20 },
+    });
+  });
+
+  it('ignores an invalid replace pattern', () => {
+    const broken = template({
+      rules: [{ target: 'order', field: 'vpoNumber', op: 'replace', pattern: '(', value: '' }],
+    });
+    expect(applyCustomerTemplate({ vpoNumber: 'VPO-1', items: [] }, broken).vpoNumber).toBe(
+      'VPO-1'
+    );
+  });
+});
+
+describe('template prompt', () => {
+  it('swaps the default buyer instructions for the template', () => {
+    const prompt = buildSystemPrompt(
+      formatTemplateInstructions(template({ promptAdditions: 'Prices are in CAD.' }))
+    );
+    expect(prompt).toContain('CUSTOMER-SPECIFIC INSTRUCTIONS (Acme)');
+    expect(prompt).toContain('Prices are in CAD.');
+    expect(prompt).not.toContain('C-Life');
+    expect(SYSTEM_PROMPT).toContain(DEFAULT_CUSTOMER_INSTRUCTIONS);
+  });
+});
@@ -0,0 +1,219 @@
+import type { ExtractedOrderData } from '@/lib/parser';
+import type { PdfTableGrid } from '@/lib/pdf-layout';
+
+/**
+ * Customer extraction templates. A template recognises one buyer's documents by
+ * keywords and the column headers of their item table, adds buyer-specific
+ * instructions to the extraction prompt, and cleans up the model's answer with
+ * defaults, size-label aliases and simple text rules.
+ */
+
+export const TEMPLATE_ORDER_FIELDS = [
+  'vpoNumber',
+  'orderDate',
+  'expShipDate',
+  'cancelDate',
+  'soReference',
+  'customerName',
+  'customerAddress',
+  'supplierName',
+  'supplierAddress',
+  'shipTo',
+  'shipVia',
+  'shipmentTerms',
+  'paymentTerms',
+  'agent',
+  'customerNotes',
+] as const;
+
+export const TEMPLATE_ITEM_FIELDS = [
+  'productCode',
+  'description',
+  'productClass',
+  'collection',
+  'material',
+  'color',
+] as const;
+
+export const TEMPLATE_RULE_OPS = [
+  'trim',
+  'uppercase',
+  'lowercase',
+  'replace',
+  'prefix',
+  'stripPrefix',
+] as const;
+
+export type TemplateOrderField = (typeof TEMPLATE_ORDER_FIELDS)[number];
+export type TemplateItemField = (typeof TEMPLATE_ITEM_FIELDS)[number];
+export type TemplateRuleOp = (typeof TEMPLATE_RULE_OPS)[number];
+
+export interface TemplateRule {
+  target: 'order' | 'item';
+  field: TemplateOrderField | TemplateItemField;
+  op: TemplateRuleOp;
+  /** Regex source for `replace`; the literal prefix for `stripPrefix`. */
+  pattern?: string | null;
+  /** Replacement text for `replace`, the text to add for `prefix`. */
+  value?: string | null;
+}
+
+export interface CustomerTemplate {
+  id?: string;
+  name: string;
+  /** Canonical buyer name; filled into `customerName` when the model leaves it empty. */
+  customerName?: string | null;
+  enabled: boolean;
+  /** Lower wins when two templates score the same. */
+  priority: number;
+  /** Phrases that identify the buyer, matched case-insensitively anywhere in the text. */
+  keywords: string[];
+  /** Item-table column headers typical of the buyer's layout, e.g. "Style #", "Qty". */
+  headerFingerprint: string[];
+  /** Matches needed (keywords + headers together) before the template applies. */
+  minScore: number;
+  promptAdditions?: string | null;
+  /** Header fields to fill when the document leaves them empty. */
+  fieldDefaults: Partial<Record<TemplateOrderField, string>>;
+  /** Size label as printed → label used in size breakdowns, e.g. "SML" → "S". */
+  sizeAliases: Record<string, string>;
+  rules: TemplateRule[];
+}
+
+export interface TemplateMatch {
+  template: CustomerTemplate;
+  score: number;
+  matchedKeywords: string[];
+  matchedHeaders: string[];
+}
+
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** The best-scoring enabled template that reaches its own `minScore`, if any. */
+export function detectCustomerTemplate(
+  templates: CustomerTemplate[],
+  text: string,
+  tables: PdfTableGrid[] = []
+): TemplateMatch | null {
+  const haystack = normalize(text);
+  const headers = new Set(tables.flatMap((table) => table.header.map(normalize)));
+
+  let best: TemplateMatch | null = null;
+  for (const template of templates) {
+    if (!template.enabled) continue;
+    const matchedKeywords = template.keywords.filter(
+      (keyword) => normalize(keyword) && haystack.includes(normalize(keyword))
+    );
+    // Without a rebuilt table the header names can still show up in the plain text.
+    const matchedHeaders = template.headerFingerprint.filter((header) => {
+      const wanted = normalize(header);
+      return wanted && (headers.has(wanted) || (headers.size === 0 && haystack.includes(wanted)));
+    });
+    const score = matchedKeywords.length + matchedHeaders.length;
+    if (score === 0 || score < Math.max(1, template.minScore)) continue;
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && template.priority < best.template.priority)
+    ) {
+      best = { template, score, matchedKeywords, matchedHeaders };
+    }
+  }
+  return best;
+}
+
+/** Instructions appended to the system prompt for a matched template. */
+export function formatTemplateInstructions(template: CustomerTemplate): string {
+  const lines: string[] = [];
+  if (template.customerName) {
+    lines.push(`- The buyer is ${template.customerName}; use it for "customerName".`);
+  }
+  const aliases = Object.entries(template.sizeAliases);
+  if (aliases.length > 0) {
+    lines.push(
+      `- Size labels: ${aliases.map(([from, to]) => `"${from}" means "${to}"`).join(', ')}.`
+    );
+  }
+  if (template.promptAdditions?.trim()) lines.push(template.promptAdditions.trim());
+  return lines.length > 0
+    ? `CUSTOMER-SPECIFIC INSTRUCTIONS (${template.name}):\n${lines.join('\n')}`
+    : '';
+}
+
+function applyRule(value: string, rule: TemplateRule): string {
+  switch (rule.op) {
+    case 'trim':
+      return value.replace(/\s+/g, ' ').trim();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'replace':
+      if (!rule.pattern) return value;
+      try {
+        return value.replace(new RegExp(rule.pattern, 'g'), rule.value ?? '');
+      } catch {
+        // An invalid pattern saved from the admin page must not break extraction.
+        return value;
+      }
+    case 'prefix':
+      return rule.value && !value.startsWith(rule.value) ? `${rule.value}${value}` : value;
+    case 'stripPrefix':
+      return rule.pattern && value.toLowerCase().startsWith(rule.pattern.toLowerCase())
+        ? value.slice(rule.pattern.length).trim()
+        : value;
+    default:
+      return value;
+  }
+}
+
+function aliasSizes(sizes: Record<string, number>, aliases: Map<string, string>) {
+  const result: Record<string, number> = {};
+  for (const [size, qty] of Object.entries(sizes)) {
+    const label = aliases.get(size.trim().toUpperCase()) ?? size;
+    result[label] = (result[label] ?? 0) + qty;
+  }
+  return result;
+}
+
+/** Post-process a model's answer with the template's defaults, size aliases and rules. */
+export function applyCustomerTemplate(
+  data: ExtractedOrderData,
+  template: CustomerTemplate
+): ExtractedOrderData {
+  const result: ExtractedOrderData = { ...data, items: data.items.map((item) => ({ ...item })) };
+
+  const defaults = { ...template.fieldDefaults };
+  if (template.customerName && !defaults.customerName) {
+    defaults.customerName = template.customerName;
+  }
+  for (const [field, value] of Object.entries(defaults) as [TemplateOrderField, string][]) {
+    if (value && !result[field]) result[field] = value;
+  }
+
+  const aliases = new Map(
+    Object.entries(template.sizeAliases).map(([from, to]) => [from.trim().toUpperCase(), to])
+  );
+  if (aliases.size > 0) {
+    for (const item of result.items) {
+      if (item.sizeBreakdown) item.sizeBreakdown = aliasSizes(item.sizeBreakdown, aliases);
+    }
+  }
+
+  for (const rule of template.rules) {
+    if (rule.target === 'order') {
+      const field = rule.field as TemplateOrderField;
+      const value = result[field];
+      if (typeof value === 'string' && value) result[field] = applyRule(value, rule);
+    } else {
+      const field = rule.field as TemplateItemField;
+      for (const item of result.items) {
+        const value = item[field];
+        if (typeof value === 'string' && value) item[field] = applyRule(value, rule);
+      }
+    }
+  }
+
+  return result;
+}
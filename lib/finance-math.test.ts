@@ -18,6 +18,18 @@ describe('calculateEstimatedMargin', () => {
     expect(result.estimatedMarginRate).toBe(0.479); // 479 / 1000
   });
 
+  it('rounds only the 3PL total, matching the fixed handling + freight formula', () => {
+    const result = calculateEstimatedMargin({
+      customerUnitPrice: 15,
+      vendorUnitPrice: 11.7,
+      qty: 3,
+      tariffRate: 0.125,
+    });
+    // handling 35.10 × 0.125 × 0.4 = 1.755, freight 0.30; rounding each would give 2.06
+    expect(result.estimated3plCost).toBe(2.05);
+    expect(result.estimatedMargin).toBe(7.85); // 45 - 35.10 - 2.055
+  });
+
   it('should return all zeros when all inputs are zero', () => {
     const input = {
       customerUnitPrice: 0,
@@ -1,8 +1,19 @@
+import {
+  DEFAULT_LANDED_COST_COMPONENTS,
+  landedCostLines,
+  type LandedCostComponent,
+  type LandedCostLine,
+} from './landed-cost';
+
 export interface MarginInputs {
   customerUnitPrice: number;
   vendorUnitPrice: number;
   qty: number;
   tariffRate: number;
+  /** Landed-cost components already scoped to the order; the default model when absent. */
+  costComponents?: LandedCostComponent[];
+  /** Cubic metres per piece, for per-CBM and per-container components. */
+  unitCbm?: number | null;
 }
 
 export interface MarginOutputs {
@@ -12,6 +23,7 @@ export interface MarginOutputs {
   estimated3plCost: number;
   estimatedMargin: number;
   estimatedMarginRate: number;
+  costBreakdown: LandedCostLine[];
 }
 
 export function round2(value: number): number {
@@ -34,10 +46,11 @@ export function parseDecimalInput(value: unknown, fallback = 0): number {
 /**
  * Cost formula:
  *   dutyCost         = vendorCost × tariffRate          (estimated customs duty)
- *   handlingCost     = dutyCost × 0.4                   (3PL handling estimate)
- *   shippingCost     = $0.10 × qty                      (3PL freight estimate)
- *   estimated3plCost = handlingCost + shippingCost      (total 3PL bill)
+ *   estimated3plCost = Σ landed-cost components         (see lib/landed-cost.ts)
  *   margin           = revenue − vendorCost − estimated3plCost
+ *
+ * The default components are the original 3PL estimate: handling at duty × 0.4
+ * plus $0.10/pc freight.
  */
 export function calculateEstimatedMargin(input: MarginInputs): MarginOutputs {
   const qty = Math.max(0, input.qty);
@@ -48,9 +61,17 @@ export function calculateEstimatedMargin(input: MarginInputs): MarginOutputs {
   const customerRevenue = customerUnit * qty;
   const vendorCost = vendorUnit * qty;
   const dutyCost = vendorCost * tariffRate; // estimated customs duty (for visibility)
-  const handlingCost = dutyCost * 0.4; // 3PL handling = duty x 0.4
-  const shippingCost = 0.1 * qty; // 3PL freight: $0.10/pc
-  const estimated3plCost = handlingCost + shippingCost; // total 3PL handling + shipping
+  const unitCbm = Math.max(0, input.unitCbm ?? 0);
+  const lines = landedCostLines(input.costComponents ?? DEFAULT_LANDED_COST_COMPONENTS, {
+    qty,
+    vendorCost,
+    dutyCost,
+    volumeCbm: unitCbm > 0 ? unitCbm * qty : null,
+  });
+  // Only the total is rounded, as before components: the breakdown is for display
+  // and may be a cent off the total
+  const estimated3plCost = lines.reduce((sum, line) => sum + line.amount, 0);
+  const costBreakdown = lines.map((line) => ({ ...line, amount: round2(line.amount) }));
   const estimatedMargin = customerRevenue - vendorCost - estimated3plCost;
   const estimatedMarginRate = customerRevenue > 0 ? estimatedMargin / customerRevenue : 0;
 
@@ -61,6 +82,7 @@ export function calculateEstimatedMargin(input: MarginInputs): MarginOutputs {
     estimated3plCost: round2(estimated3plCost),
     estimatedMargin: round2(estimatedMargin),
     estimatedMarginRate: round4(estimatedMarginRate),
+    costBreakdown,
   };
 }
 
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { defaultNoteNo, netAdjustment, noteLimitError } from './finance-notes';
+
+describe('netAdjustment', () => {
+  it('adds debits and takes off credits', () => {
+    expect(netAdjustment([])).toBe(0);
+    expect(
+      netAdjustment([
+        { noteType: 'CREDIT', amount: 120.5 },
+        { noteType: 'DEBIT', amount: 20 },
+        { noteType: 'CREDIT', amount: 0.1 },
+      ])
+    ).toBe(-100.6);
+  });
+});
+
+describe('noteLimitError', () => {
+  const existing = [{ noteType: 'CREDIT', amount: 300 }];
+
+  it('lets credits bring a document down to zero', () => {
+    expect(noteLimitError(1000, existing, { noteType: 'CREDIT', amount: 700 })).toBeNull();
+    expect(noteLimitError(1000, existing, { noteType: 'DEBIT', amount: 5000 })).toBeNull();
+  });
+
+  it('rejects credits past zero and non-positive amounts', () => {
+    expect(noteLimitError(1000, existing, { noteType: 'CREDIT', amount: 700.01 })).toBe(
+      "Credit exceeds the document's remaining amount (700.00)"
+    );
+    expect(noteLimitError(1000, [], { noteType: 'DEBIT', amount: 0 })).toBe(
+      'amount must be a positive number'
+    );
+  });
+
+  it('checks a changed document amount against the notes issued', () => {
+    expect(noteLimitError(300, existing)).toBeNull();
+    expect(noteLimitError(299.99, existing)).toBe(
+      'Amount is below the net credit already issued (300.00)'
+    );
+  });
+});
+
+describe('defaultNoteNo', () => {
+  it('prefixes credit and debit notes', () => {
+    const at = new Date('2025-07-01T12:30:45.123Z');
+    expect(defaultNoteNo('CREDIT', at)).toBe('CN-20250701123045');
+    expect(defaultNoteNo('DEBIT', at)).toBe('DN-20250701123045');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Credit and debit notes against a commercial invoice or vendor bill. A note never
+ * changes the document it adjusts: a CREDIT note lowers what is due on it (customer
+ * chargeback, short-ship deduction, factory discount) and a DEBIT note raises it
+ * (extra charge). Notes are in the document's currency.
+ */
+import { round2 } from './finance-math';
+
+export const FINANCE_NOTE_TYPES = ['CREDIT', 'DEBIT'] as const;
+export type FinanceNoteType = (typeof FINANCE_NOTE_TYPES)[number];
+
+export const FINANCE_NOTE_TARGETS = ['CUSTOMER_INVOICE', 'VENDOR_BILL'] as const;
+export type FinanceNoteTarget = (typeof FINANCE_NOTE_TARGETS)[number];
+
+export const FINANCE_NOTE_REASONS = [
+  'CHARGEBACK',
+  'SHORT_SHIP',
+  'DISCOUNT',
+  'PRICE_ADJUSTMENT',
+  'OTHER',
+] as const;
+export type FinanceNoteReason = (typeof FINANCE_NOTE_REASONS)[number];
+
+export interface FinanceNoteAmount {
+  noteType: string;
+  amount: number;
+}
+
+/** What the notes add to the document: debits less credits. */
+export function netAdjustment(notes: FinanceNoteAmount[]): number {
+  return round2(
+    notes.reduce((sum, note) => sum + (note.noteType === 'DEBIT' ? note.amount : -note.amount), 0)
+  );
+}
+
+/**
+ * Why a new note can't be added, or null when it can. Credits may bring a document
+ * down to zero but not below. Without `note`, checks a changed document amount
+ * against the notes already issued.
+ */
+export function noteLimitError(
+  documentAmount: number,
+  existing: FinanceNoteAmount[],
+  note?: FinanceNoteAmount
+): string | null {
+  if (note && !(note.amount > 0)) return 'amount must be a positive number';
+  const net = round2(documentAmount + netAdjustment(note ? [...existing, note] : existing));
+  if (net >= 0) return null;
+  if (!note) {
+    const credited = round2(-netAdjustment(existing));
+    return `Amount is below the net credit already issued (${credited.toFixed(2)})`;
+  }
+  const available = round2(documentAmount + netAdjustment(existing));
+  return `Credit exceeds the document's remaining amount (${available.toFixed(2)})`;
+}
+
+/** Default note number, e.g. CN-20250701120000. */
+export function defaultNoteNo(noteType: FinanceNoteType, at = new Date()): string {
+  const stamp = at
+    .toISOString()
+    .replace(/[-:TZ.]/g, '')
+    .slice(0, 14);
+  return `${noteType === 'CREDIT' ? 'CN' : 'DN'}-${stamp}`;
+}
@@ -9,6 +9,12 @@ export function money(value: number): string {
   return `$${value.toFixed(2)}`;
 }
 
+/** Like money(), but prefixed with the currency code when it is not USD, e.g. "HKD 1234.56". */
+export function moneyIn(value: number, currency: string | null | undefined): string {
+  const code = currency?.trim().toUpperCase();
+  return !code || code === 'USD' ? money(value) : `${code} ${value.toFixed(2)}`;
+}
+
 /** Format an ISO date string for display, or return '-' if null/empty. */
 export function formatDate(value: string | null | undefined): string {
   if (!value) return '-';
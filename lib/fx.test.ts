@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { createFxConverter, parseFxRates, settleDocument, sumInBase } from './fx';
+
+const fx = createFxConverter([
+  { currency: 'HKD', rateDate: '2025-07-01', rate: 0.128 },
+  { currency: 'HKD', rateDate: '2025-08-01', rate: 0.1275 },
+  { currency: 'CNY', rateDate: '2025-07-01', rate: 0.14 },
+  { currency: 'CNY', rateDate: '2025-08-01', rate: 0.138 },
+]);
+
+describe('createFxConverter', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(fx.rateOn('usd', '2025-01-01')).toBe(1);
+    expect(fx.rateOn('HKD', '2025-07-31')).toBe(0.128);
+    expect(fx.rateOn('HKD', new Date('2025-08-15T10:00:00Z'))).toBe(0.1275);
+    expect(fx.rateOn('HKD', '2025-06-01')).toBe(0.128);
+    expect(fx.rateOn('EUR', '2025-08-01')).toBeNull();
+    expect(fx.toBase(1000, 'CNY', '2025-08-02')).toBeCloseTo(138);
+  });
+});
+
+describe('settleDocument', () => {
+  it('books the realized gain or loss on payments', () => {
+    const bill = settleDocument(
+      { amount: 10000, currency: 'CNY', issueDate: '2025-07-10' },
+      [{ amount: 6000, paymentDate: '2025-08-05' }],
+      fx,
+      'OUT'
+    );
+    expect(bill).toMatchObject({
+      currency: 'CNY',
+      paid: 6000,
+      outstanding: 4000,
+      baseAmount: 1400,
+      basePaid: 828,
+      baseOutstanding: 560,
+      fxGainLoss: 12,
+      unconverted: false,
+    });
+
+    const invoice = settleDocument(
+      { amount: 10000, currency: 'HKD', issueDate: '2025-07-10' },
+      [{ amount: 10000, paymentDate: '2025-08-05' }],
+      fx,
+      'IN'
+    );
+    expect(invoice).toMatchObject({ outstanding: 0, basePaid: 1275, fxGainLoss: -5 });
+  });
+
+  it('counts payments in another currency through the base currency', () => {
+    const bill = settleDocument(
+      { amount: 1000, currency: 'HKD', issueDate: '2025-07-10' },
+      [{ amount: 63.75, currency: 'USD', paymentDate: '2025-08-05' }],
+      fx,
+      'OUT'
+    );
+    expect(bill).toMatchObject({ paid: 500, outstanding: 500, basePaid: 63.75, fxGainLoss: 0.25 });
+  });
+
+  it('settles against the amount net of notes', () => {
+    const bill = settleDocument(
+      { amount: 10000, adjustment: -500, currency: 'CNY', issueDate: '2025-07-10' },
+      [{ amount: 9500, paymentDate: '2025-07-20' }],
+      fx,
+      'OUT'
+    );
+    expect(bill).toMatchObject({
+      amount: 10000,
+      netAmount: 9500,
+      outstanding: 0,
+      baseAmount: 1330,
+      fxGainLoss: 0,
+    });
+  });
+
+  it('leaves currencies without a rate out of the base totals', () => {
+    const docs = [
+      settleDocument({ amount: 500, issueDate: '2025-07-10' }, [{ amount: 200 }], fx, 'OUT'),
+      settleDocument({ amount: 1000, currency: 'HKD', issueDate: '2025-07-10' }, [], fx, 'OUT'),
+      settleDocument({ amount: 300, currency: 'EUR', issueDate: '2025-07-10' }, [], fx, 'OUT'),
+    ];
+    expect(docs[2]).toMatchObject({ outstanding: 300, baseAmount: null, unconverted: true });
+    expect(sumInBase(docs)).toEqual({
+      amount: 628,
+      paid: 200,
+      outstanding: 428,
+      fxGainLoss: 0,
+      byCurrency: {
+        HKD: { amount: 1000, paid: 0, outstanding: 1000 },
+        EUR: { amount: 300, paid: 0, outstanding: 300 },
+      },
+      unconverted: ['EUR'],
+    });
+  });
+});
+
+describe('parseFxRates', () => {
+  it('reads rates and reports bad rows', () => {
+    const { rates, errors } = parseFxRates({
+      name: 'rates.csv',
+      rows: [
+        ['Currency', 'Date', 'Rate'],
+        ['hkd', '2025-07-01', '0.1280'],
+        ['CNY', '2025-07-01', '0'],
+        ['RMB1', '2025-07-01', '0.14'],
+        ['CNY', 'soon', '0.14'],
+        ['USD', '2025-07-01', '1'],
+      ],
+    });
+    expect(rates).toEqual([{ currency: 'HKD', rateDate: '2025-07-01', rate: 0.128 }]);
+    expect(errors).toEqual([
+      'Row 3: rate must be a positive number',
+      'Row 4: currency must be a 3-letter code',
+      'Row 5: unreadable date',
+    ]);
+  });
+
+  it('needs currency, date and rate columns', () => {
+    expect(
+      parseFxRates({
+        name: 'Sheet1',
+        rows: [
+          ['Currency', 'Rate'],
+          ['HKD', '0.128'],
+        ],
+      })
+    ).toEqual({
+      rates: [],
+      errors: ['Missing column(s): rateDate'],
+    });
+  });
+});
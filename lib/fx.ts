@@ -0,0 +1,263 @@
+/**
+ * Exchange rates and base-currency reporting. Finance documents keep the currency
+ * they were issued in; totals are reported in `BASE_CURRENCY`, converting each
+ * document at the rate on its issue date and each payment at the rate on the day it
+ * was made. The difference between the two is the realized FX gain or loss.
+ */
+import { round2 } from './finance-math';
+import { findHeaderRow, sheetHeaders, type SheetTable } from './spreadsheet-import';
+import { toTariffDate } from './tariffs';
+
+export const BASE_CURRENCY = 'USD';
+
+export const FX_RATE_SOURCES = ['MANUAL', 'CSV'] as const;
+export type FxRateSource = (typeof FX_RATE_SOURCES)[number];
+
+/** `rate` is how many base-currency units one unit of `currency` buys. */
+export interface FxRate {
+  currency: string;
+  rateDate: string;
+  rate: number;
+}
+
+export function normalizeCurrency(value?: string | null): string {
+  return value?.trim().toUpperCase() || BASE_CURRENCY;
+}
+
+export interface FxConverter {
+  /** The rate on `date`, or null when no rate is known for the currency. */
+  rateOn(currency: string | null | undefined, date?: Date | string | null): number | null;
+  toBase(
+    amount: number,
+    currency: string | null | undefined,
+    date?: Date | string | null
+  ): number | null;
+}
+
+/**
+ * Rates apply from their date until the next one for the same currency. A date before
+ * the first known rate uses that first rate rather than leaving the amount unconverted.
+ */
+export function createFxConverter(rates: FxRate[]): FxConverter {
+  const byCurrency = new Map<string, FxRate[]>();
+  for (const rate of rates) {
+    const currency = normalizeCurrency(rate.currency);
+    byCurrency.set(currency, [...(byCurrency.get(currency) ?? []), rate]);
+  }
+  for (const list of byCurrency.values()) {
+    list.sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+  }
+
+  const rateOn: FxConverter['rateOn'] = (currency, date) => {
+    const code = normalizeCurrency(currency);
+    if (code === BASE_CURRENCY) return 1;
+    const list = byCurrency.get(code);
+    if (!list?.length) return null;
+    const day = toTariffDate(date);
+    const effective = list.filter((rate) => rate.rateDate <= day).pop() ?? list[0];
+    return effective.rate;
+  };
+
+  return {
+    rateOn,
+    toBase(amount, currency, date) {
+      const rate = rateOn(currency, date);
+      return rate === null ? null : amount * rate;
+    },
+  };
+}
+
+export interface FxDocument {
+  amount: number;
+  /** Net of credit and debit notes against the document, in its currency. */
+  adjustment?: number;
+  currency?: string | null;
+  issueDate?: Date | string | null;
+}
+
+export interface FxPayment {
+  amount: number;
+  /** Null when paid in the document's own currency. */
+  currency?: string | null;
+  paymentDate?: Date | string | null;
+}
+
+export interface SettledDocument {
+  currency: string;
+  amount: number;
+  adjustment: number;
+  /** The amount after notes; what is actually due. */
+  netAmount: number;
+  /** Paid so far, in the document's currency. */
+  paid: number;
+  outstanding: number;
+  /** The net amount at the issue-date rate; base figures are null when a rate is missing. */
+  baseAmount: number | null;
+  /** What the payments were worth on the days they were made. */
+  basePaid: number | null;
+  /** Still carried at the issue-date rate. */
+  baseOutstanding: number | null;
+  /** Positive when the rate moved in our favour between issue and payment. */
+  fxGainLoss: number;
+  /** Some figure could not be converted for lack of a rate. */
+  unconverted: boolean;
+}
+
+/**
+ * Apply payments to a document. `direction` is the payments' direction: money coming
+ * IN gains when the currency strengthened after the invoice; money going OUT gains
+ * when it weakened. Payments in another currency count toward the document through
+ * the base currency at the payment date.
+ */
+export function settleDocument(
+  doc: FxDocument,
+  docPayments: FxPayment[],
+  fx: FxConverter,
+  direction: 'IN' | 'OUT'
+): SettledDocument {
+  const currency = normalizeCurrency(doc.currency);
+  const docRate = fx.rateOn(currency, doc.issueDate);
+  let unconverted = docRate === null;
+  let paid = 0;
+  let basePaid = 0;
+  let fxGainLoss = 0;
+
+  for (const payment of docPayments) {
+    const paymentCurrency = normalizeCurrency(payment.currency ?? currency);
+    const baseValue = fx.toBase(payment.amount, paymentCurrency, payment.paymentDate);
+    const payRate = fx.rateOn(currency, payment.paymentDate);
+    let applied: number | null = null;
+    if (paymentCurrency === currency) applied = payment.amount;
+    else if (baseValue !== null && payRate) applied = baseValue / payRate;
+
+    if (applied === null || baseValue === null) {
+      unconverted = true;
+      if (applied !== null) paid += applied;
+      continue;
+    }
+    paid += applied;
+    basePaid += baseValue;
+    if (docRate !== null) {
+      const booked = applied * docRate;
+      fxGainLoss += direction === 'IN' ? baseValue - booked : booked - baseValue;
+    }
+  }
+
+  const amount = round2(doc.amount);
+  const adjustment = round2(doc.adjustment ?? 0);
+  const netAmount = round2(amount + adjustment);
+  paid = round2(paid);
+  const outstanding = round2(Math.max(0, netAmount - paid));
+  return {
+    currency,
+    amount,
+    adjustment,
+    netAmount,
+    paid,
+    outstanding,
+    baseAmount: docRate === null ? null : round2(netAmount * docRate),
+    basePaid: unconverted ? null : round2(basePaid),
+    baseOutstanding: docRate === null ? null : round2(outstanding * docRate),
+    fxGainLoss: round2(fxGainLoss),
+    unconverted,
+  };
+}
+
+export interface BaseTotals {
+  amount: number;
+  paid: number;
+  outstanding: number;
+  fxGainLoss: number;
+  /** Document-currency totals, for currencies other than the base. */
+  byCurrency: Record<string, { amount: number; paid: number; outstanding: number }>;
+  /** Currencies left out of the base totals for lack of a rate. */
+  unconverted: string[];
+}
+
+/** Base-currency totals of settled documents. */
+export function sumInBase(docs: SettledDocument[]): BaseTotals {
+  const totals: BaseTotals = {
+    amount: 0,
+    paid: 0,
+    outstanding: 0,
+    fxGainLoss: 0,
+    byCurrency: {},
+    unconverted: [],
+  };
+  for (const doc of docs) {
+    if (doc.currency !== BASE_CURRENCY) {
+      const entry = (totals.byCurrency[doc.currency] ??= { amount: 0, paid: 0, outstanding: 0 });
+      entry.amount = round2(entry.amount + doc.netAmount);
+      entry.paid = round2(entry.paid + doc.paid);
+      entry.outstanding = round2(entry.outstanding + doc.outstanding);
+    }
+    if (doc.unconverted && !totals.unconverted.includes(doc.currency)) {
+      totals.unconverted.push(doc.currency);
+    }
+    totals.amount += doc.baseAmount ?? 0;
+    totals.paid += doc.basePaid ?? 0;
+    totals.outstanding += doc.baseOutstanding ?? 0;
+    totals.fxGainLoss += doc.fxGainLoss;
+  }
+  return {
+    ...totals,
+    amount: round2(totals.amount),
+    paid: round2(totals.paid),
+    outstanding: round2(totals.outstanding),
+    fxGainLoss: round2(totals.fxGainLoss),
+  };
+}
+
+const RATE_COLUMNS = {
+  currency: /^(currency|ccy|curr(ency)?\s*code|code)$/i,
+  rateDate: /^(rate\s*)?date$|^(effective|as\s*of)(\s*date)?$/i,
+  rate: /^(fx\s*|exchange\s*)?rate$|^(to\s*)?usd(\s*rate)?$|^usd\s*per\s*unit$/i,
+} as const;
+
+type RateColumn = keyof typeof RATE_COLUMNS;
+
+/**
+ * Read a rate sheet with one row per currency and date, the rate given in base units
+ * per unit of the currency. Unreadable rows are reported and skipped.
+ */
+export function parseFxRates(table: SheetTable): { rates: FxRate[]; errors: string[] } {
+  const headerRow = findHeaderRow(table.rows);
+  const headers = sheetHeaders(table, headerRow);
+  const columns = new Map<RateColumn, number>();
+  for (const [field, pattern] of Object.entries(RATE_COLUMNS) as [RateColumn, RegExp][]) {
+    const index = headers.findIndex(
+      (header, i) => pattern.test(header) && ![...columns.values()].includes(i)
+    );
+    if (index >= 0) columns.set(field, index);
+  }
+
+  const missing = (Object.keys(RATE_COLUMNS) as RateColumn[]).filter(
+    (field) => !columns.has(field)
+  );
+  if (missing.length > 0) {
+    return { rates: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+  table.rows.slice(headerRow).forEach((row, index) => {
+    const cell = (field: RateColumn) => row[columns.get(field)!]?.trim() ?? '';
+    if (row.every((value) => !value?.trim())) return;
+
+    const rowNo = headerRow + index + 1;
+    const currency = cell('currency').toUpperCase();
+    const date = new Date(cell('rateDate'));
+    const rate = Number(cell('rate').replace(/,/g, ''));
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Row ${rowNo}: currency must be a 3-letter code`);
+    } else if (!cell('rateDate') || Number.isNaN(date.getTime())) {
+      errors.push(`Row ${rowNo}: unreadable date`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${rowNo}: rate must be a positive number`);
+    } else if (currency !== BASE_CURRENCY) {
+      rates.push({ currency, rateDate: toTariffDate(date), rate });
+    }
+  });
+
+  return { rates, errors };
+}
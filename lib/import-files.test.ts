@@ -0,0 +1,126 @@
+// @vitest-environment node
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { createKeyedLock, expandUploads, runWithConcurrency } from './import-files';
+
+const pdf = (label: string) => Buffer.from(`%PDF-1.7\n${label}`);
+
+describe('expandUploads', () => {
+  it('passes PDFs through and unpacks ZIP archives in name order', async () => {
+    const zip = new JSZip();
+    zip.file('march/VPO-2.pdf', pdf('two'));
+    zip.file('march/VPO-1.pdf', pdf('one'));
+    zip.file('__MACOSX/march/._VPO-1.pdf', 'resource fork');
+    zip.file('.DS_Store', 'finder');
+    zip.file('notes.txt', 'not a po');
+    const archive = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const { pdfs, rejected } = await expandUploads([
+      { fileName: 'single.pdf', data: pdf('single') },
+      { fileName: 'batch.zip', data: archive },
+    ]);
+
+    expect(pdfs.map((file) => file.fileName)).toEqual([
+      'single.pdf',
+      'march/VPO-1.pdf',
+      'march/VPO-2.pdf',
+    ]);
+    expect(pdfs[1].data.toString()).toContain('one');
+    expect(rejected).toEqual([{ fileName: 'notes.txt', error: 'Not a PDF file' }]);
+  });
+
+  it('keeps spreadsheets apart instead of unpacking XLSX as an archive', async () => {
+    const xlsx = await new JSZip()
+      .file('[Content_Types].xml', '<Types/>')
+      .generateAsync({ type: 'nodebuffer' });
+    const zip = new JSZip();
+    zip.file('po.csv', 'Style,Qty\nAB1,10');
+    const archive = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const { pdfs, spreadsheets, rejected } = await expandUploads([
+      { fileName: 'order.xlsx', data: xlsx },
+      { fileName: 'batch.zip', data: archive },
+    ]);
+    expect(pdfs).toEqual([]);
+    expect(spreadsheets.map((file) => file.fileName)).toEqual(['order.xlsx', 'po.csv']);
+    expect(rejected).toEqual([]);
+  });
+
+  it('rejects uploads that are neither PDF nor ZIP', async () => {
+    const { pdfs, rejected } = await expandUploads([
+      { fileName: 'order.docx.pdf', data: Buffer.from('<html>') },
+    ]);
+    expect(pdfs).toEqual([]);
+    expect(rejected).toEqual([{ fileName: 'order.docx.pdf', error: 'Not a PDF or ZIP file' }]);
+  });
+
+  it('rejects whole archives over the entry or unpacked size limit', async () => {
+    const zip = new JSZip();
+    zip.file('VPO-1.pdf', pdf('one'));
+    zip.file('VPO-2.pdf', pdf('two'.repeat(1000)));
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    const tooMany = await expandUploads([{ fileName: 'batch.zip', data: archive }], {
+      maxEntries: 1,
+      maxUncompressedBytes: 1024 * 1024,
+    });
+    expect(tooMany.pdfs).toEqual([]);
+    expect(tooMany.rejected).toEqual([
+      { fileName: 'batch.zip', error: 'ZIP archive has more than 1 files' },
+    ]);
+
+    const tooLarge = await expandUploads([{ fileName: 'batch.zip', data: archive }], {
+      maxEntries: 10,
+      maxUncompressedBytes: 1024,
+    });
+    expect(tooLarge.pdfs).toEqual([]);
+    expect(tooLarge.rejected).toHaveLength(1);
+    expect(tooLarge.rejected[0].error).toMatch(/^ZIP archive unpacks to more than/);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps result order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await runWithConcurrency([30, 5, 20, 10, 1], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('createKeyedLock', () => {
+  it('runs tasks for one key one at a time and other keys alongside', async () => {
+    const run = createKeyedLock();
+    const events: string[] = [];
+    const task = (name: string, delay: number) => async () => {
+      events.push(`start ${name}`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      run('VPO-1', task('a', 20)),
+      run('VPO-1', task('b', 1)),
+      run('VPO-2', task('c', 5)),
+    ]);
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['start a', 'start c', 'end c', 'end a', 'start b', 'end b']);
+  });
+
+  it('keeps going after a failed task', async () => {
+    const run = createKeyedLock();
+    await expect(run('VPO-1', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(run('VPO-1', async () => 'next')).resolves.toBe('next');
+  });
+});
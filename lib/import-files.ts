@@ -0,0 +1,191 @@
+import JSZip from 'jszip';
+import { isSpreadsheetFile } from './spreadsheet-import';
+
+/**
+ * Helpers for batch imports: unpack uploaded ZIPs into individual PDFs and run
+ * the per-file work with a fixed number of workers.
+ */
+
+export interface ImportUpload {
+  fileName: string;
+  data: Buffer;
+}
+
+export interface RejectedUpload {
+  fileName: string;
+  error: string;
+}
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+export function isPdf(data: Buffer): boolean {
+  return data.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC);
+}
+
+export function isZip(data: Buffer): boolean {
+  return data.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC);
+}
+
+/** Per archive. Larger ZIPs are rejected whole rather than unpacked into memory. */
+export const ZIP_LIMITS = {
+  maxEntries: 500,
+  maxUncompressedBytes: 200 * 1024 * 1024,
+};
+
+/** macOS resource forks and dotfiles that ride along in Finder-made archives. */
+function isArchiveJunk(entryName: string): boolean {
+  return entryName.split('/').some((part) => part === '__MACOSX' || part.startsWith('.'));
+}
+
+/**
+ * Unpack `entry`, giving up once it passes `maxBytes`: the sizes in a ZIP's
+ * directory are whatever the archive claims, so they are counted as it inflates.
+ */
+function readEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          // Pausing leaves the rest of the entry compressed
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)))
+      .resume();
+  });
+}
+
+/**
+ * Flatten uploads into PDFs and spreadsheets. ZIP entries keep their folder path as the
+ * file name (`2026-03/VPO-123.pdf`); anything else is returned as rejected so the job
+ * can report it instead of silently dropping it. Spreadsheets are recognised by
+ * extension first, since an XLSX is itself a ZIP. Archives over `limits` are rejected.
+ */
+export async function expandUploads(
+  uploads: ImportUpload[],
+  limits = ZIP_LIMITS
+): Promise<{
+  pdfs: ImportUpload[];
+  spreadsheets: ImportUpload[];
+  rejected: RejectedUpload[];
+}> {
+  const pdfs: ImportUpload[] = [];
+  const spreadsheets: ImportUpload[] = [];
+  const rejected: RejectedUpload[] = [];
+
+  for (const upload of uploads) {
+    if (isPdf(upload.data)) {
+      pdfs.push(upload);
+      continue;
+    }
+    if (isSpreadsheetFile(upload.fileName)) {
+      spreadsheets.push(upload);
+      continue;
+    }
+    if (!isZip(upload.data)) {
+      rejected.push({ fileName: upload.fileName, error: 'Not a PDF or ZIP file' });
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(upload.data);
+    } catch {
+      rejected.push({ fileName: upload.fileName, error: 'Could not read ZIP archive' });
+      continue;
+    }
+
+    const entries = Object.values(zip.files)
+      .filter((entry) => !entry.dir && !isArchiveJunk(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (entries.length > limits.maxEntries) {
+      rejected.push({
+        fileName: upload.fileName,
+        error: `ZIP archive has more than ${limits.maxEntries} files`,
+      });
+      continue;
+    }
+
+    const unpacked = { pdfs: [] as ImportUpload[], spreadsheets: [] as ImportUpload[] };
+    const skipped: RejectedUpload[] = [];
+    let remaining = limits.maxUncompressedBytes;
+    let tooLarge = false;
+    for (const entry of entries) {
+      const data = await readEntry(entry, remaining);
+      if (!data) {
+        tooLarge = true;
+        break;
+      }
+      remaining -= data.length;
+      if (isPdf(data)) {
+        unpacked.pdfs.push({ fileName: entry.name, data });
+      } else if (isSpreadsheetFile(entry.name)) {
+        unpacked.spreadsheets.push({ fileName: entry.name, data });
+      } else {
+        skipped.push({ fileName: entry.name, error: 'Not a PDF file' });
+      }
+    }
+
+    if (tooLarge) {
+      rejected.push({
+        fileName: upload.fileName,
+        error: `ZIP archive unpacks to more than ${limits.maxUncompressedBytes / 1024 / 1024} MB`,
+      });
+      continue;
+    }
+    pdfs.push(...unpacked.pdfs);
+    spreadsheets.push(...unpacked.spreadsheets);
+    rejected.push(...skipped);
+  }
+
+  return { pdfs, spreadsheets, rejected };
+}
+
+/** Run `worker` over `items` with at most `limit` calls in flight; results keep input order. */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+/**
+ * Serialize work per key: `run(key, task)` starts `task` once every earlier task
+ * for the same key has settled. Different keys still run side by side.
+ */
+export function createKeyedLock() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return async function run<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = tails.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    tails.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (tails.get(key) === current) tails.delete(key);
+    }
+  };
+}
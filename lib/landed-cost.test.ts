@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEstimatedMargin } from './finance-math';
+import {
+  componentsForOrder,
+  landedCostLines,
+  parseLandedCostBreakdown,
+  sameCostScope,
+  type LandedCostComponent,
+} from './landed-cost';
+
+const components: LandedCostComponent[] = [
+  { name: 'Freight', basis: 'PER_UNIT', rate: 0.1, enabled: true, sortOrder: 20 },
+  {
+    name: 'Freight',
+    basis: 'PER_CBM',
+    rate: 90,
+    shipVia: 'Ocean Frt',
+    enabled: true,
+    sortOrder: 20,
+  },
+  {
+    name: 'Freight',
+    basis: 'PER_CONTAINER',
+    rate: 5800,
+    shipVia: 'ocean frt',
+    customerName: 'Acme',
+    enabled: true,
+    sortOrder: 20,
+  },
+  { name: 'Handling', basis: 'PERCENT_OF_DUTY', rate: 0.4, enabled: true, sortOrder: 10 },
+  { name: 'Insurance', basis: 'PERCENT_OF_VALUE', rate: 0.01, enabled: false },
+];
+
+describe('componentsForOrder', () => {
+  it('keeps the most specific matching component per name, in sort order', () => {
+    const acme = componentsForOrder(components, { shipVia: 'OCEAN  FRT', customerName: 'acme' });
+    expect(acme.map((c) => [c.name, c.basis])).toEqual([
+      ['Handling', 'PERCENT_OF_DUTY'],
+      ['Freight', 'PER_CONTAINER'],
+    ]);
+
+    const other = componentsForOrder(components, { shipVia: 'Ocean Frt', customerName: 'Other' });
+    expect(other.find((c) => c.name === 'Freight')?.basis).toBe('PER_CBM');
+
+    const air = componentsForOrder(components, { shipVia: 'Air' });
+    expect(air.find((c) => c.name === 'Freight')?.basis).toBe('PER_UNIT');
+    expect(air.some((c) => c.name === 'Insurance')).toBe(false);
+  });
+});
+
+describe('sameCostScope', () => {
+  it('compares ship mode and customer the way components match them', () => {
+    expect(
+      sameCostScope(
+        { shipVia: 'Ocean  Frt', customerName: 'ACME' },
+        { shipVia: 'ocean frt', customerName: 'Acme' }
+      )
+    ).toBe(true);
+    expect(sameCostScope({ shipVia: null }, { shipVia: '' })).toBe(true);
+    expect(sameCostScope({ shipVia: 'Ocean' }, { shipVia: 'Air' })).toBe(false);
+    expect(sameCostScope({ customerName: 'Acme' }, { customerName: 'Other' })).toBe(false);
+  });
+});
+
+describe('landedCostLines', () => {
+  const line = { qty: 100, vendorCost: 500, dutyCost: 80, volumeCbm: 2.9 };
+
+  it('charges each basis', () => {
+    const amounts = landedCostLines(
+      [
+        { name: 'a', basis: 'PER_UNIT', rate: 0.1, enabled: true },
+        { name: 'b', basis: 'PER_CBM', rate: 90, enabled: true },
+        { name: 'c', basis: 'PER_CONTAINER', rate: 5800, enabled: true },
+        { name: 'd', basis: 'PER_CONTAINER', rate: 5800, containerCbm: 29, enabled: true },
+        { name: 'e', basis: 'PERCENT_OF_VALUE', rate: 0.01, enabled: true },
+        { name: 'f', basis: 'PERCENT_OF_DUTY', rate: 0.4, enabled: true },
+      ],
+      line
+    ).map((l) => l.amount);
+    expect(amounts.map((a) => Math.round(a * 100) / 100)).toEqual([10, 261, 290, 580, 5, 32]);
+  });
+
+  it('flags volume components when the line has no CBM', () => {
+    const [perCbm, perUnit] = landedCostLines(
+      [
+        { name: 'Freight', basis: 'PER_CBM', rate: 90, enabled: true },
+        { name: 'Pick', basis: 'PER_UNIT', rate: 0.05, enabled: true },
+      ],
+      { ...line, volumeCbm: null }
+    );
+    expect(perCbm).toMatchObject({ amount: 0, missingVolume: true });
+    expect(perUnit.missingVolume).toBeUndefined();
+  });
+});
+
+describe('calculateEstimatedMargin with components', () => {
+  it('totals the rounded breakdown and keeps the default model without components', () => {
+    const base = { customerUnitPrice: 10, vendorUnitPrice: 5, qty: 100, tariffRate: 0.16 };
+    expect(calculateEstimatedMargin(base).estimated3plCost).toBe(42);
+
+    const result = calculateEstimatedMargin({
+      ...base,
+      unitCbm: 0.029,
+      costComponents: componentsForOrder(components, { shipVia: 'Ocean Frt' }),
+    });
+    expect(result.costBreakdown.map((l) => [l.name, l.amount])).toEqual([
+      ['Handling', 32],
+      ['Freight', 261],
+    ]);
+    expect(result.estimated3plCost).toBe(293);
+    expect(result.estimatedMargin).toBe(1000 - 500 - 293);
+    expect(parseLandedCostBreakdown(JSON.stringify(result.costBreakdown))).toEqual(
+      result.costBreakdown
+    );
+    expect(parseLandedCostBreakdown('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Landed-cost model: the costs an order line carries on top of its vendor price,
+ * as a list of components. Each component charges on one basis and can be limited
+ * to a ship-via mode, an origin country and/or a customer; within a name the most
+ * specific matching component wins, so a customer- or lane-specific rate replaces
+ * the general one instead of stacking on it.
+ *
+ * Amounts come back unrounded; `calculateEstimatedMargin` rounds them.
+ */
+
+export const LANDED_COST_BASES = [
+  'PER_UNIT',
+  'PER_CBM',
+  'PER_CONTAINER',
+  'PERCENT_OF_VALUE',
+  'PERCENT_OF_DUTY',
+] as const;
+
+export type LandedCostBasis = (typeof LANDED_COST_BASES)[number];
+
+export interface LandedCostComponent {
+  id?: string;
+  name: string;
+  basis: LandedCostBasis;
+  /** Dollars per unit/CBM/container, or a fraction (0.4 = 40%) for percentage bases. */
+  rate: number;
+  /** Volume a PER_CONTAINER rate is spread over; DEFAULT_CONTAINER_CBM when empty. */
+  containerCbm?: number | null;
+  shipVia?: string | null;
+  originCountry?: string | null;
+  customerName?: string | null;
+  enabled: boolean;
+  sortOrder?: number;
+  notes?: string | null;
+}
+
+export interface LandedCostScope {
+  shipVia?: string | null;
+  originCountry?: string | null;
+  customerName?: string | null;
+}
+
+export interface LandedCostLine {
+  name: string;
+  basis: LandedCostBasis;
+  rate: number;
+  amount: number;
+  /** A volume-based component that charged nothing because the line has no CBM. */
+  missingVolume?: boolean;
+}
+
+/** Cubic metres of a 40' container as typically loaded (about 85% of 68 CBM). */
+export const DEFAULT_CONTAINER_CBM = 58;
+
+/**
+ * The model before components are configured: the old fixed 3PL estimate of 40% of
+ * duty for handling plus $0.10/pc freight, so unconfigured databases price as before.
+ */
+export const DEFAULT_LANDED_COST_COMPONENTS: LandedCostComponent[] = [
+  { name: '3PL handling', basis: 'PERCENT_OF_DUTY', rate: 0.4, enabled: true, sortOrder: 10 },
+  { name: '3PL freight', basis: 'PER_UNIT', rate: 0.1, enabled: true, sortOrder: 20 },
+];
+
+const VOLUME_BASES = new Set<LandedCostBasis>(['PER_CBM', 'PER_CONTAINER']);
+
+const normalizeScope = (value: string | null | undefined) =>
+  (value || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+function scopeMatches(
+  componentValue: string | null | undefined,
+  orderValue: string | null | undefined
+) {
+  const expected = normalizeScope(componentValue);
+  return !expected || expected === normalizeScope(orderValue);
+}
+
+/** Whether two orders pick their components the same way (origin aside). */
+export function sameCostScope(a: LandedCostScope, b: LandedCostScope): boolean {
+  return (
+    normalizeScope(a.shipVia) === normalizeScope(b.shipVia) &&
+    normalizeScope(a.customerName) === normalizeScope(b.customerName)
+  );
+}
+
+function specificity(component: LandedCostComponent) {
+  return [component.shipVia, component.originCountry, component.customerName].filter(
+    (value) => normalizeScope(value) !== ''
+  ).length;
+}
+
+/**
+ * Components that apply to an order: enabled, every scope set on the component
+ * matching the order, and only the most specific one per name.
+ */
+export function componentsForOrder(
+  components: LandedCostComponent[],
+  scope: LandedCostScope
+): LandedCostComponent[] {
+  const matching = components.filter(
+    (component) =>
+      component.enabled &&
+      scopeMatches(component.shipVia, scope.shipVia) &&
+      scopeMatches(component.originCountry, scope.originCountry) &&
+      scopeMatches(component.customerName, scope.customerName)
+  );
+
+  const byName = new Map<string, LandedCostComponent>();
+  for (const component of matching) {
+    const key = normalizeScope(component.name);
+    const current = byName.get(key);
+    if (!current || specificity(component) > specificity(current)) byName.set(key, component);
+  }
+
+  return [...byName.values()].sort((a, b) => (a.sortOrder ?? 100) - (b.sortOrder ?? 100));
+}
+
+/** What each component charges one order line. */
+export function landedCostLines(
+  components: LandedCostComponent[],
+  line: { qty: number; vendorCost: number; dutyCost: number; volumeCbm: number | null }
+): LandedCostLine[] {
+  return components.map((component) => {
+    const rate = Math.max(0, component.rate);
+    const missingVolume = VOLUME_BASES.has(component.basis) && line.volumeCbm === null;
+    const volume = line.volumeCbm ?? 0;
+
+    let amount = 0;
+    switch (component.basis) {
+      case 'PER_UNIT':
+        amount = rate * line.qty;
+        break;
+      case 'PER_CBM':
+        amount = rate * volume;
+        break;
+      case 'PER_CONTAINER':
+        amount = (rate * volume) / (component.containerCbm || DEFAULT_CONTAINER_CBM);
+        break;
+      case 'PERCENT_OF_VALUE':
+        amount = rate * line.vendorCost;
+        break;
+      case 'PERCENT_OF_DUTY':
+        amount = rate * line.dutyCost;
+        break;
+    }
+
+    return {
+      name: component.name,
+      basis: component.basis,
+      rate,
+      amount,
+      ...(missingVolume ? { missingVolume } : {}),
+    };
+  });
+}
+
+/** The breakdown stored on an order line; empty for lines priced before it was kept. */
+export function parseLandedCostBreakdown(value: string | null | undefined): LandedCostLine[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffOrderSnapshots,
+  inheritLineDetails,
+  revisionOrderUpdate,
+  toSnapshotItem,
+  toSnapshotOrder,
+  type OrderSnapshot,
+} from './order-diff';
+
+const savedOrder: OrderSnapshot = {
+  order: toSnapshotOrder({
+    customerName: 'Buyer Co',
+    expShipDate: '2026-03-01T00:00:00.000Z',
+    shipVia: 'Ocean',
+  }),
+  items: [
+    toSnapshotItem({
+      id: 'row-1',
+      productCode: 'AB123',
+      color: 'Navy',
+      quantity: 120,
+      customerUnitPrice: '4.50',
+      sizeBreakdown: '{"S":40,"M":40,"L":40}',
+    }),
+    toSnapshotItem({
+      id: 'row-2',
+      productCode: 'CD456',
+      color: 'Black',
+      quantity: 60,
+      unitPrice: '7.00',
+    }),
+  ],
+};
+
+describe('diffOrderSnapshots', () => {
+  it('reports nothing when a re-upload matches the saved order', () => {
+    const incoming: OrderSnapshot = {
+      order: toSnapshotOrder({
+        customerName: 'Buyer Co ',
+        expShipDate: new Date('2026-03-01T00:00:00.000Z'),
+        shipVia: 'Ocean',
+      }),
+      items: [
+        toSnapshotItem({
+          productCode: 'ab123',
+          color: 'NAVY',
+          quantity: 120,
+          unitPrice: 4.5,
+          sizeBreakdown: { S: 40, M: 40, L: 40 },
+        }),
+        toSnapshotItem({ productCode: 'CD456', color: 'Black', quantity: 60, unitPrice: 7 }),
+      ],
+    };
+
+    const diff = diffOrderSnapshots(savedOrder, incoming);
+
+    expect(diff).toEqual({ fields: [], items: [], hasChanges: false });
+  });
+
+  it('lists header, quantity, price and size changes plus added and removed lines', () => {
+    const incoming: OrderSnapshot = {
+      order: toSnapshotOrder({
+        customerName: 'Buyer Co',
+        expShipDate: '2026-03-15',
+        shipVia: 'Ocean',
+      }),
+      items: [
+        toSnapshotItem({
+          productCode: 'AB123',
+          color: 'Navy',
+          quantity: 132,
+          unitPrice: 4.25,
+          sizeBreakdown: { S: 40, M: 52, L: 40 },
+        }),
+        toSnapshotItem({ productCode: 'EF789', color: 'White', quantity: 30, unitPrice: 3 }),
+      ],
+    };
+
+    const diff = diffOrderSnapshots(savedOrder, incoming);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.fields).toEqual([
+      { field: 'expShipDate', before: '2026-03-01', after: '2026-03-15' },
+    ]);
+
+    const [changed, added, removed] = diff.items;
+    expect(changed).toMatchObject({ type: 'changed', key: 'AB123|NAVY' });
+    expect(changed.fields).toEqual([
+      { field: 'quantity', before: 120, after: 132 },
+      { field: 'unitPrice', before: 4.5, after: 4.25 },
+    ]);
+    expect(changed.sizes).toEqual([{ size: 'M', before: 40, after: 52 }]);
+    expect(added).toMatchObject({ type: 'added', productCode: 'EF789' });
+    expect(removed).toMatchObject({ type: 'removed', productCode: 'CD456' });
+  });
+
+  it('ignores header fields the incoming version does not carry', () => {
+    const diff = diffOrderSnapshots(savedOrder, {
+      order: toSnapshotOrder({ customerName: 'Buyer Co' }),
+      items: savedOrder.items,
+    });
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it('matches saved rows by id even when the style code was edited', () => {
+    const renamed = { ...savedOrder.items[1], productCode: 'CD456-R' };
+    const diff = diffOrderSnapshots(savedOrder, {
+      order: {},
+      items: [savedOrder.items[0], renamed],
+    });
+    expect(diff.items).toHaveLength(1);
+    expect(diff.items[0]).toMatchObject({ type: 'changed', key: 'CD456-R|BLACK' });
+    expect(diff.items[0].fields).toEqual([
+      { field: 'productCode', before: 'CD456', after: 'CD456-R' },
+    ]);
+  });
+
+  it('compares stored snapshots, including numeric terms and cleared dates', () => {
+    const stored = JSON.parse(
+      JSON.stringify({
+        ...savedOrder,
+        order: { ...savedOrder.order, customerTermDays: 30 },
+      })
+    ) as OrderSnapshot;
+    const edited: OrderSnapshot = {
+      ...stored,
+      order: toSnapshotOrder({
+        ...stored.order,
+        customerTermDays: 45,
+        expShipDate: null,
+      }),
+    };
+
+    expect(diffOrderSnapshots(stored, edited).fields).toEqual([
+      { field: 'expShipDate', before: '2026-03-01', after: null },
+      { field: 'customerTermDays', before: 30, after: 45 },
+    ]);
+    expect(diffOrderSnapshots(stored, stored).hasChanges).toBe(false);
+  });
+});
+
+describe('line details and origin', () => {
+  const saved: OrderSnapshot = {
+    order: toSnapshotOrder({ originCountry: 'VN', originSource: 'MANUAL' }),
+    items: [
+      toSnapshotItem({
+        id: 'row-1',
+        productCode: 'AB123',
+        color: 'Navy',
+        quantity: 120,
+        htsCodeOverride: '6110.20.2079',
+        htsOverrideReason: 'Knit, per broker',
+        unitCbm: '0.01200',
+        originCountry: null,
+      }),
+    ],
+  };
+
+  it('diffs the origin and the line details', () => {
+    const edited: OrderSnapshot = {
+      order: toSnapshotOrder({ originCountry: 'KH', originSource: 'MANUAL' }),
+      items: [{ ...saved.items[0], htsCodeOverride: null, unitCbm: 0.015 }],
+    };
+
+    const diff = diffOrderSnapshots(saved, edited);
+
+    expect(diff.fields).toEqual([{ field: 'originCountry', before: 'VN', after: 'KH' }]);
+    expect(diff.items[0].fields).toEqual([
+      { field: 'htsCodeOverride', before: '6110.20.2079', after: null },
+      { field: 'unitCbm', before: 0.012, after: 0.015 },
+    ]);
+  });
+
+  it('does not report fields an older snapshot never recorded', () => {
+    const stored = JSON.parse(
+      '{"order":{"customerName":"Buyer Co"},"items":[{"id":"row-1","productCode":"AB123","color":"Navy","quantity":120,"unitPrice":0,"vendorUnitPrice":0,"sizeBreakdown":{}}]}'
+    ) as OrderSnapshot;
+    const current: OrderSnapshot = {
+      order: { ...saved.order, customerName: 'Buyer Co' },
+      items: saved.items,
+    };
+
+    expect(diffOrderSnapshots(stored, current).hasChanges).toBe(false);
+  });
+
+  it('keeps the details of the paired line when the target does not carry them', () => {
+    const reissued = [
+      toSnapshotItem({ productCode: 'ab123', color: 'NAVY', quantity: 132 }),
+      toSnapshotItem({ productCode: 'EF789', color: 'White', quantity: 30, unitCbm: 0.02 }),
+    ];
+
+    const [kept, added] = inheritLineDetails(saved.items, reissued);
+
+    expect(kept).toMatchObject({
+      quantity: 132,
+      htsCodeOverride: '6110.20.2079',
+      htsOverrideReason: 'Knit, per broker',
+      unitCbm: 0.012,
+      originCountry: null,
+    });
+    expect(added).toMatchObject({
+      htsCodeOverride: null,
+      htsOverrideReason: null,
+      unitCbm: 0.02,
+      originCountry: null,
+    });
+  });
+});
+
+describe('revisionOrderUpdate', () => {
+  it('never writes the order status', () => {
+    // "Save draft" sends DRAFT; an old snapshot may hold the pre-approval status
+    const payload = { customerName: 'Buyer Co', status: 'DRAFT', shipVia: undefined };
+    const oldSnapshot = JSON.parse('{"status":"DRAFT","expShipDate":"2026-03-01"}');
+
+    expect(revisionOrderUpdate(payload)).toEqual({ customerName: 'Buyer Co' });
+    expect(revisionOrderUpdate(oldSnapshot)).toEqual({
+      expShipDate: new Date('2026-03-01'),
+    });
+    expect(
+      diffOrderSnapshots(savedOrder, {
+        ...savedOrder,
+        order: toSnapshotOrder({ ...savedOrder.order, ...payload }),
+      }).fields
+    ).toEqual([]);
+  });
+
+  it('parses stored dates and keeps cleared ones', () => {
+    const shipDate = new Date('2026-03-15T00:00:00.000Z');
+    expect(revisionOrderUpdate({ expShipDate: shipDate, cancelDate: null })).toEqual({
+      expShipDate: shipDate,
+      cancelDate: null,
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Field-by-field and line-by-line comparison of two versions of an order. Used to
+ * review a re-issued VPO against the saved order before the revision is applied.
+ */
+
+export type DiffValue = string | number | null;
+
+/**
+ * Header fields tracked in order history and compared when a VPO is re-issued.
+ * `status` is not one of them: only approving a draft changes it, never a revision
+ * or a restore. `originSource` is kept next to `originCountry` so a restore knows
+ * whether the origin was set by hand.
+ */
+export const REVISION_ORDER_FIELDS = [
+  'vpoNumber',
+  'customerName',
+  'customerAddress',
+  'supplierName',
+  'supplierAddress',
+  'orderDate',
+  'expShipDate',
+  'cancelDate',
+  'soReference',
+  'shipTo',
+  'shipVia',
+  'originCountry',
+  'originSource',
+  'shipmentTerms',
+  'paymentTerms',
+  'customerNotes',
+  'customerTermDays',
+  'vendorTermDays',
+  'logisticsTermDays',
+] as const;
+
+export type RevisionOrderField = (typeof REVISION_ORDER_FIELDS)[number];
+
+const DATE_FIELDS = new Set<string>(['orderDate', 'expShipDate', 'cancelDate']);
+
+const REVISION_ITEM_FIELDS = [
+  'productCode',
+  'color',
+  'description',
+  'material',
+  'collection',
+  'quantity',
+  'unitPrice',
+  'vendorUnitPrice',
+  'htsCodeOverride',
+  'htsOverrideReason',
+  'unitCbm',
+  'originCountry',
+] as const;
+
+/**
+ * Line settings made in the workspace rather than read from the PO. A re-issued PO
+ * does not carry them, and snapshots stored before they were tracked leave them out.
+ */
+const LINE_DETAIL_FIELDS = [
+  'htsCodeOverride',
+  'htsOverrideReason',
+  'unitCbm',
+  'originCountry',
+] as const;
+
+export interface SnapshotItem {
+  /** Present for saved rows; lets edits that rename a style still match the same line. */
+  id?: string | null;
+  productCode: string | null;
+  color: string | null;
+  description: string | null;
+  material: string | null;
+  collection: string | null;
+  quantity: number;
+  unitPrice: number;
+  vendorUnitPrice: number;
+  sizeBreakdown: Record<string, number>;
+  /** `undefined` when the source did not say; see `inheritLineDetails`. */
+  htsCodeOverride?: string | null;
+  htsOverrideReason?: string | null;
+  unitCbm?: number | null;
+  originCountry?: string | null;
+}
+
+export interface OrderSnapshot {
+  order: Partial<Record<RevisionOrderField, DiffValue>>;
+  items: SnapshotItem[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: DiffValue;
+  after: DiffValue;
+}
+
+export interface SizeChange {
+  size: string;
+  before: number;
+  after: number;
+}
+
+export interface ItemChange {
+  type: 'added' | 'removed' | 'changed';
+  /** Matching key: product code and colour, upper-cased. */
+  key: string;
+  productCode: string | null;
+  color: string | null;
+  before?: SnapshotItem;
+  after?: SnapshotItem;
+  fields: FieldChange[];
+  sizes: SizeChange[];
+}
+
+export interface OrderDiff {
+  fields: FieldChange[];
+  items: ItemChange[];
+  hasChanges: boolean;
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'string' ? Number(value.replace(/,/g, '')) : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === '') return null;
+  return toNumber(value);
+}
+
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+/** Dates compare by calendar day; time zones from the PDF vs the DB are noise. */
+function normalizeFieldValue(field: string, value: unknown): DiffValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (DATE_FIELDS.has(field)) {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return Number.isNaN(date.getTime()) ? toText(value) : date.toISOString().slice(0, 10);
+  }
+  return typeof value === 'number' ? value : toText(value);
+}
+
+function parseSizeBreakdown(value: unknown): Record<string, number> {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const sizes: Record<string, number> = {};
+  for (const [size, qty] of Object.entries(raw as Record<string, unknown>)) {
+    const n = toNumber(qty);
+    if (n !== 0) sizes[size] = n;
+  }
+  return sizes;
+}
+
+/** Build a comparable item from either a DB row (decimal strings, JSON text) or a save payload. */
+export function toSnapshotItem(item: {
+  id?: string | null;
+  productCode?: string | null;
+  color?: string | null;
+  description?: string | null;
+  material?: string | null;
+  collection?: string | null;
+  quantity?: number | string | null;
+  unitPrice?: number | string | null;
+  customerUnitPrice?: number | string | null;
+  vendorUnitPrice?: number | string | null;
+  sizeBreakdown?: unknown;
+  htsCodeOverride?: string | null;
+  htsOverrideReason?: string | null;
+  unitCbm?: number | string | null;
+  originCountry?: string | null;
+}): SnapshotItem {
+  const snapshot: SnapshotItem = {
+    id: item.id ?? null,
+    productCode: toText(item.productCode),
+    color: toText(item.color),
+    description: toText(item.description),
+    material: toText(item.material),
+    collection: toText(item.collection),
+    quantity: toNumber(item.quantity),
+    unitPrice: toNumber(item.customerUnitPrice ?? item.unitPrice),
+    vendorUnitPrice: toNumber(item.vendorUnitPrice),
+    sizeBreakdown: parseSizeBreakdown(item.sizeBreakdown),
+  };
+  if (item.htsCodeOverride !== undefined) snapshot.htsCodeOverride = toText(item.htsCodeOverride);
+  if (item.htsOverrideReason !== undefined) {
+    snapshot.htsOverrideReason = toText(item.htsOverrideReason);
+  }
+  if (item.unitCbm !== undefined) snapshot.unitCbm = toNullableNumber(item.unitCbm);
+  if (item.originCountry !== undefined) snapshot.originCountry = toText(item.originCountry);
+  return snapshot;
+}
+
+/**
+ * Fill the line details `target` leaves `undefined` from the current line each one
+ * pairs with (see `matchItems`); new lines get none. Lines keep `target`'s order.
+ */
+export function inheritLineDetails(current: SnapshotItem[], target: SnapshotItem[]) {
+  const pairedWith = new Map(
+    matchItems(current, target)
+      .filter((pair) => pair.after)
+      .map((pair) => [pair.after!, pair.before])
+  );
+  return target.map((item) => {
+    const saved = pairedWith.get(item);
+    const details = Object.fromEntries(
+      LINE_DETAIL_FIELDS.map((field) => [
+        field,
+        item[field] !== undefined ? item[field] : (saved?.[field] ?? null),
+      ])
+    );
+    return { ...item, ...details } as SnapshotItem;
+  });
+}
+
+/** Pick and normalize the revision-relevant header fields; `undefined` inputs are left out. */
+export function toSnapshotOrder(order: Partial<Record<RevisionOrderField, unknown>>) {
+  const snapshot: Partial<Record<RevisionOrderField, DiffValue>> = {};
+  for (const field of REVISION_ORDER_FIELDS) {
+    if (order[field] !== undefined) snapshot[field] = normalizeFieldValue(field, order[field]);
+  }
+  return snapshot;
+}
+
+/**
+ * Header values a revision or restore writes to the order, dates as `Date`. Fields
+ * the source leaves `undefined` are left as saved.
+ */
+export function revisionOrderUpdate(
+  source: Partial<Record<RevisionOrderField, unknown>>
+): Partial<Record<RevisionOrderField, unknown>> {
+  const update: Partial<Record<RevisionOrderField, unknown>> = {};
+  for (const field of REVISION_ORDER_FIELDS) {
+    const value = source[field];
+    if (value === undefined) continue;
+    update[field] =
+      DATE_FIELDS.has(field) && value !== null && !(value instanceof Date)
+        ? new Date(String(value))
+        : value;
+  }
+  return update;
+}
+
+export function itemKey(item: Pick<SnapshotItem, 'productCode' | 'color'>): string {
+  const code = (item.productCode ?? '').toUpperCase();
+  const color = (item.color ?? '').toUpperCase();
+  return color ? `${code}|${color}` : code;
+}
+
+/** Key fields compare like `itemKey`: "navy" on a re-issued PO is the same colour as "Navy". */
+function sameValue(
+  field: (typeof REVISION_ITEM_FIELDS)[number],
+  a: DiffValue | undefined,
+  b: DiffValue | undefined
+) {
+  // A side that did not record the field (older snapshots) has nothing to compare
+  if (a === undefined || b === undefined) return true;
+  if (field === 'productCode' || field === 'color') {
+    return (a ?? '').toString().toUpperCase() === (b ?? '').toString().toUpperCase();
+  }
+  return a === b;
+}
+
+function diffItemFields(before: SnapshotItem, after: SnapshotItem): FieldChange[] {
+  return REVISION_ITEM_FIELDS.filter((field) => !sameValue(field, before[field], after[field])).map(
+    (field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    })
+  );
+}
+
+function diffSizes(before: SnapshotItem, after: SnapshotItem): SizeChange[] {
+  const sizes = new Set([
+    ...Object.keys(before.sizeBreakdown),
+    ...Object.keys(after.sizeBreakdown),
+  ]);
+  return [...sizes]
+    .map((size) => ({
+      size,
+      before: before.sizeBreakdown[size] ?? 0,
+      after: after.sizeBreakdown[size] ?? 0,
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+/**
+ * Pair up the lines of two versions. Saved ids match first; the rest match by
+ * product code + colour in order of appearance, so a style listed twice pairs
+ * first-with-first.
+ */
+export function matchItems(
+  before: SnapshotItem[],
+  after: SnapshotItem[]
+): { before?: SnapshotItem; after?: SnapshotItem }[] {
+  const pairs: { before?: SnapshotItem; after?: SnapshotItem }[] = [];
+  const remaining = [...before];
+
+  const take = (predicate: (item: SnapshotItem) => boolean) => {
+    const index = remaining.findIndex(predicate);
+    return index === -1 ? undefined : remaining.splice(index, 1)[0];
+  };
+
+  const unmatched: SnapshotItem[] = [];
+  for (const item of after) {
+    const match = item.id ? take((candidate) => candidate.id === item.id) : undefined;
+    if (match) pairs.push({ before: match, after: item });
+    else unmatched.push(item);
+  }
+  for (const item of unmatched) {
+    const match = take((candidate) => itemKey(candidate) === itemKey(item));
+    pairs.push({ before: match, after: item });
+  }
+  for (const item of remaining) pairs.push({ before: item });
+
+  return pairs;
+}
+
+export function diffOrderSnapshots(before: OrderSnapshot, after: OrderSnapshot): OrderDiff {
+  const fields: FieldChange[] = [];
+  for (const field of REVISION_ORDER_FIELDS) {
+    // Snapshots stored before a field was tracked leave it out
+    if (!(field in after.order) || !(field in before.order)) continue;
+    const previous = before.order[field] ?? null;
+    const next = after.order[field] ?? null;
+    if (previous !== next) fields.push({ field, before: previous, after: next });
+  }
+
+  const items: ItemChange[] = [];
+  for (const pair of matchItems(before.items, after.items)) {
+    const reference = (pair.after ?? pair.before) as SnapshotItem;
+    const base = {
+      key: itemKey(reference),
+      productCode: reference.productCode,
+      color: reference.color,
+      before: pair.before,
+      after: pair.after,
+    };
+
+    if (!pair.before) {
+      items.push({ ...base, type: 'added', fields: [], sizes: [] });
+    } else if (!pair.after) {
+      items.push({ ...base, type: 'removed', fields: [], sizes: [] });
+    } else {
+      const itemFields = diffItemFields(pair.before, pair.after);
+      const sizes = diffSizes(pair.before, pair.after);
+      if (itemFields.length > 0 || sizes.length > 0) {
+        items.push({ ...base, type: 'changed', fields: itemFields, sizes });
+      }
+    }
+  }
+
+  return { fields, items, hasChanges: fields.length > 0 || items.length > 0 };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  changedEstimateFields,
+  lineUsesTariffKey,
+  recomputeNote,
+  sumEstimates,
+  type LineEstimates,
+} from './order-recompute';
+
+const saved: LineEstimates = {
+  productClass: 'womens tee | cotton',
+  suggestedHtsCode: '6109.10.0040',
+  tariffRate: '0.4400',
+  estimatedDutyCost: '220.00',
+  estimated3plCost: '88.00',
+  estimatedMargin: '192.00',
+  landedCostBreakdown: null,
+};
+
+describe('order recompute', () => {
+  it('compares amounts by value and reports only what moved', () => {
+    expect(changedEstimateFields(saved, { ...saved, tariffRate: '0.44' })).toEqual([]);
+    expect(
+      changedEstimateFields(saved, {
+        ...saved,
+        tariffRate: '0.1650',
+        estimatedDutyCost: '82.50',
+      })
+    ).toEqual(['tariffRate', 'estimatedDutyCost']);
+  });
+
+  it('matches lines by base key, with or without a country prefix, and by HTS override', () => {
+    const line = { productClass: 'womens tee | cotton', htsCodeOverride: null };
+    expect(lineUsesTariffKey(line, 'CN | Womens Tee | Cotton')).toBe(true);
+    expect(lineUsesTariffKey(line, 'womens tee | cotton')).toBe(true);
+    expect(lineUsesTariffKey(line, 'mens tee | cotton')).toBe(false);
+
+    const overridden = { productClass: 'womens tee | cotton', htsCodeOverride: '6109.10.0012' };
+    expect(lineUsesTariffKey(overridden, '6109100012')).toBe(true);
+    expect(lineUsesTariffKey(overridden, '6109.10.0040')).toBe(false);
+  });
+
+  it('describes the change in duty, 3PL and margin for the audit note', () => {
+    const before = sumEstimates([saved, saved]);
+    const after = sumEstimates([
+      saved,
+      {
+        ...saved,
+        estimatedDutyCost: '82.50',
+        estimated3plCost: '33.00',
+        estimatedMargin: '247.00',
+      },
+    ]);
+    expect(before.dutyCost).toBe(440);
+    expect(recomputeNote(before, after)).toBe(
+      'Estimates recomputed: duty $440.00 → $302.50, 3PL $176.00 → $121.00, margin $384.00 → $439.00'
+    );
+    expect(recomputeNote(before, before)).toBe('Estimates recomputed: totals unchanged');
+  });
+});
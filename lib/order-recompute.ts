@@ -0,0 +1,88 @@
+import { parseDecimalInput, round2 } from './finance-math';
+import { formatHtsCode, normalizeTariffKey } from './tariffs';
+
+/**
+ * Comparing saved order lines with what the current tariff rules give them. The
+ * service reprices the lines; this decides what changed and how to describe it.
+ */
+
+/** Line columns a recompute may rewrite; quantities, prices and volumes are never touched. */
+export const ESTIMATE_FIELDS = [
+  'productClass',
+  'suggestedHtsCode',
+  'tariffRate',
+  'estimatedDutyCost',
+  'estimated3plCost',
+  'estimatedMargin',
+  'landedCostBreakdown',
+] as const;
+
+export type EstimateField = (typeof ESTIMATE_FIELDS)[number];
+
+export type LineEstimates = Record<EstimateField, string | null>;
+
+const NUMERIC_FIELDS = new Set<EstimateField>([
+  'tariffRate',
+  'estimatedDutyCost',
+  'estimated3plCost',
+  'estimatedMargin',
+]);
+
+export interface EstimateTotals {
+  dutyCost: number;
+  estimated3plCost: number;
+  estimatedMargin: number;
+}
+
+/** Estimate columns whose recomputed value differs from the saved one. */
+export function changedEstimateFields(saved: LineEstimates, recomputed: LineEstimates) {
+  return ESTIMATE_FIELDS.filter((field) =>
+    NUMERIC_FIELDS.has(field)
+      ? parseDecimalInput(saved[field], 0) !== parseDecimalInput(recomputed[field], 0)
+      : (saved[field] || null) !== (recomputed[field] || null)
+  );
+}
+
+/**
+ * Whether a line is priced by `tariffKey`. Keys may carry a country prefix
+ * ("cn | womens tee | cotton"), which is dropped to compare with the line's base
+ * key; an HTS code matches lines overridden to that code.
+ */
+export function lineUsesTariffKey(
+  line: { productClass: string | null; htsCodeOverride?: string | null },
+  tariffKey: string
+): boolean {
+  const key = normalizeTariffKey(tariffKey).replace(/^[a-z]{2} \| /, '');
+  if (!key) return true;
+  const htsCode = formatHtsCode(key);
+  if (htsCode && line.htsCodeOverride) return formatHtsCode(line.htsCodeOverride) === htsCode;
+  return normalizeTariffKey(line.productClass || '') === key;
+}
+
+export function sumEstimates(
+  lines: Pick<LineEstimates, 'estimatedDutyCost' | 'estimated3plCost' | 'estimatedMargin'>[]
+): EstimateTotals {
+  const sum = (field: 'estimatedDutyCost' | 'estimated3plCost' | 'estimatedMargin') =>
+    round2(lines.reduce((total, line) => total + parseDecimalInput(line[field], 0), 0));
+  return {
+    dutyCost: sum('estimatedDutyCost'),
+    estimated3plCost: sum('estimated3plCost'),
+    estimatedMargin: sum('estimatedMargin'),
+  };
+}
+
+/** One-line audit note for an order's history, e.g. "duty $220.00 → $82.50". */
+export function recomputeNote(before: EstimateTotals, after: EstimateTotals): string {
+  const money = (value: number) => `$${value.toFixed(2)}`;
+  const parts = [
+    ['duty', before.dutyCost, after.dutyCost],
+    ['3PL', before.estimated3plCost, after.estimated3plCost],
+    ['margin', before.estimatedMargin, after.estimatedMargin],
+  ] as const;
+  const changes = parts
+    .filter(([, from, to]) => from !== to)
+    .map(([label, from, to]) => `${label} ${money(from)} → ${money(to)}`);
+  return changes.length > 0
+    ? `Estimates recomputed: ${changes.join(', ')}`
+    : 'Estimates recomputed: totals unchanged';
+}
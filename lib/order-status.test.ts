@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { isDraftOrder, ORDER_STATUS } from './constants';
+import { approvalUpdate, excludeDraftOrders, onlyDraftOrders } from './order-status';
+
+describe('isDraftOrder', () => {
+  it('matches DRAFT in any case and nothing else', () => {
+    expect(isDraftOrder({ status: 'DRAFT' })).toBe(true);
+    expect(isDraftOrder({ status: 'draft' })).toBe(true);
+    expect(isDraftOrder({ status: ORDER_STATUS.CONFIRMED })).toBe(false);
+    expect(isDraftOrder({ status: null })).toBe(false);
+    expect(isDraftOrder(null)).toBe(false);
+  });
+});
+
+describe('excludeDraftOrders', () => {
+  it('keeps orders without a status and compares case-insensitively', () => {
+    const query = new PgDialect().sqlToQuery(excludeDraftOrders());
+    expect(query.sql).toBe(`upper(coalesce("orders"."status", '')) <> $1`);
+    expect(query.params).toEqual(['DRAFT']);
+  });
+});
+
+describe('onlyDraftOrders', () => {
+  it('is the complement of excludeDraftOrders', () => {
+    const query = new PgDialect().sqlToQuery(onlyDraftOrders());
+    expect(query.sql).toBe(`upper(coalesce("orders"."status", '')) = $1`);
+    expect(query.params).toEqual(['DRAFT']);
+  });
+});
+
+describe('approvalUpdate', () => {
+  const at = new Date('2026-03-01T08:00:00Z');
+
+  it('confirms a draft and records who approved it', () => {
+    expect(approvalUpdate({ status: 'DRAFT' }, 'Amy', at)).toEqual({
+      status: 'Confirmed',
+      approvedAt: at,
+      approvedBy: 'Amy',
+    });
+    expect(approvalUpdate({ status: 'draft' }, '', at).approvedBy).toBeNull();
+  });
+
+  it('refuses orders that are not drafts', () => {
+    expect(() => approvalUpdate({ status: 'Confirmed' }, 'Amy', at)).toThrow(
+      'Order is not a draft'
+    );
+    expect(() => approvalUpdate({ status: null })).toThrow('Order is not a draft');
+  });
+});
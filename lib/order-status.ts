@@ -0,0 +1,37 @@
+/**
+ * Draft handling shared by the order queries and the approve action. Drafts are
+ * stored orders that have not been reviewed yet; see `ORDER_STATUS`.
+ */
+import { sql } from 'drizzle-orm';
+import { orders } from '@/db/schema';
+import { isDraftOrder, ORDER_STATUS } from './constants';
+
+/** WHERE condition for orders that count: everything except unreviewed drafts. */
+export function excludeDraftOrders() {
+  return sql`upper(coalesce(${orders.status}, '')) <> ${ORDER_STATUS.DRAFT}`;
+}
+
+/**
+ * WHERE condition for drafts only. The approve update is guarded with it, so two
+ * concurrent approvals cannot both win.
+ */
+export function onlyDraftOrders() {
+  return sql`upper(coalesce(${orders.status}, '')) = ${ORDER_STATUS.DRAFT}`;
+}
+
+/**
+ * The update that approves `order`. Only a draft can be approved; anything else
+ * throws, so a confirmed order keeps its original approval.
+ */
+export function approvalUpdate(
+  order: { status?: string | null },
+  approvedBy?: string | null,
+  at = new Date()
+) {
+  if (!isDraftOrder(order)) throw new Error('Order is not a draft');
+  return {
+    status: ORDER_STATUS.CONFIRMED,
+    approvedAt: at,
+    approvedBy: approvedBy || null,
+  };
+}
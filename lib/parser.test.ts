@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { validateExtraction } from './extraction-validation';
+import { parseOrderText } from './parser';
+
+function loadFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+}
+
+describe('parseOrderText — multi-page C-Life VPO', () => {
+  const data = parseOrderText(loadFixture('clife-vpo-multi-page.txt'));
+
+  it('reads the header block', () => {
+    expect(data.vpoNumber).toBe('VPO-1138183');
+    expect(data.orderDate).toBe('3/3/2025');
+    expect(data.expShipDate).toBe('4/15/2025');
+    expect(data.cancelDate).toBe('5/20/2025');
+    expect(data.soReference).toBe('So-1558761');
+    expect(data.shipVia).toBe('Ocean Frt');
+    expect(data.shipmentTerms).toBe('Free On Board');
+    expect(data.paymentTerms).toBe('Net 30 Days ROG');
+    expect(data.agent).toBe('MJR');
+  });
+
+  it('reads the customer, supplier and ship-to address blocks', () => {
+    expect(data.customerName).toBe('C-Life Group, Ltd.');
+    expect(data.customerAddress).toBe('1400 Broadway, 12th Floor\nNew York, NY 10018');
+    expect(data.supplierName).toBe('Ningbo Kanglong Garment Co., Ltd.');
+    expect(data.supplierAddress).toBe(
+      'No. 88 Xingning Road, Yinzhou District\nNingbo, Zhejiang 315040 China'
+    );
+    expect(data.shipTo).toBe('Mijenro International LLC\n10740 Queens Blvd\nForest Hills, NY 11375');
+  });
+
+  it('de-duplicates the row repeated at the top of page 2', () => {
+    const heatherRows = data.items.filter(
+      (item) => item.productCode === '7VND2A6805TY' && item.color === 'Heather Grey'
+    );
+    expect(heatherRows).toHaveLength(1);
+  });
+
+  it('maps the wide size columns onto sizeBreakdown', () => {
+    const black = data.items.find((item) => item.color === 'Black');
+    expect(black).toMatchObject({
+      productCode: '7VND2A6805TY',
+      description: 'Junior Tee Mickey Classic Crew',
+      productClass: 'R - Licensed',
+      collection: 'Junior',
+      material: '60% Cotton 40% Polyester Jersey',
+      unitPrice: 2.75,
+      totalQty: 6000,
+      extension: 16500,
+    });
+    expect(black?.sizeBreakdown).toEqual({ XS: 600, S: 1200, M: 1800, L: 1200, XL: 1200 });
+  });
+
+  it('expands assortment detail into sub-items carrying the parent price', () => {
+    const subItems = data.items.filter((item) => item.productCode.startsWith('4KMX7721A'));
+    expect(subItems.map((item) => item.productCode)).toEqual([
+      '4KMX7721A1',
+      '4KMX7721A2',
+      '4KMX7721A3',
+    ]);
+    expect(data.items.some((item) => item.productCode === '4KMX7721AS')).toBe(false);
+    for (const item of subItems) {
+      expect(item.unitPrice).toBe(3.1);
+      expect(item.totalQty).toBe(800);
+      expect(item.extension).toBe(2480);
+      expect(item.collection).toBe('Kids Mix');
+      expect(item.sizeBreakdown).toEqual({ '4': 100, '5': 200, '6': 200, '7': 200, '8': 100 });
+    }
+    expect(subItems[0].color).toBe('Dino Green');
+  });
+
+  it('matches the PO subtotal once items are de-duplicated', () => {
+    const qty = data.items.reduce((sum, item) => sum + item.totalQty, 0);
+    const amount = data.items.reduce((sum, item) => sum + item.extension, 0);
+    expect(data.items).toHaveLength(5);
+    expect(qty).toBe(11400);
+    expect(amount).toBeCloseTo(32190, 2);
+    expect(data.subtotalQty).toBe(11400);
+    expect(data.subtotalAmount).toBe(32190);
+  });
+
+  it('keeps operational notes and drops the forced-labor disclaimer', () => {
+    expect(data.customerNotes).toBe(
+      [
+        'Customer: Walmart',
+        'Testing: CPSIA compliant, 3rd party lab test required',
+        'Packing: Solid size solid color, 24 pcs per carton',
+      ].join('\n')
+    );
+  });
+});
+
+describe('parseOrderText — single-page VPO with space-aligned columns', () => {
+  const data = parseOrderText(loadFixture('clife-vpo-single-page.txt'));
+
+  it('reads labels whose value sits on the following line or after "#"', () => {
+    expect(data.vpoNumber).toBe('VPO-1140022');
+    expect(data.orderDate).toBe('6/12/2025');
+    expect(data.soReference).toBe('So-1561204');
+    expect(data.cancelDate).toBe('8/15/2025');
+    expect(data.agent).toBe('MJHK');
+    expect(data.supplierName).toBe('Shantou Junheng Knitting Co., Ltd.');
+    expect(data.supplierAddress).toBe('Longhu District, Shantou\nGuangdong, China');
+  });
+
+  it('parses prices without currency symbols', () => {
+    expect(data.items).toHaveLength(2);
+    expect(data.items[0]).toMatchObject({
+      productCode: '2TDL5530PJ',
+      description: 'Toddler Girls Fleece Hoodie',
+      color: 'PNK',
+      unitPrice: 4.2,
+      totalQty: 1200,
+      extension: 5040,
+      sizeBreakdown: { '2T': 400, '3T': 400, '4T': 400 },
+    });
+  });
+
+  it('keeps the Qty column and flags sizes that no longer add up to it', () => {
+    const jogger = data.items[1];
+    expect(jogger.totalQty).toBe(800);
+    expect(validateExtraction(data)).toContainEqual(
+      expect.objectContaining({
+        code: 'SIZE_SUM_MISMATCH',
+        itemIndex: 1,
+        expected: 800,
+        actual: 600,
+      })
+    );
+  });
+
+  it('captures the special instructions section', () => {
+    expect(data.customerNotes).toBe('Packing: 12 pcs per polybag');
+  });
+});
+
+describe('parseOrderText — repeated rows', () => {
+  const header =
+    'Cat  Product Class  Product Code  Color Ref  Disc  S  M  L  Qty  Price  Extension';
+  const row = 'R - Basics  5BSC1120TE  WHT  0%  100  200  100  400  2.50  1,000.00';
+
+  it('keeps identical lines on the same page', () => {
+    const data = parseOrderText(
+      ['VPO-1140100', header, row, 'Basic Tee', row, 'Basic Tee'].join('\n')
+    );
+    expect(data.items).toHaveLength(2);
+  });
+
+  it('drops only the row carried over to the top of the next page', () => {
+    const data = parseOrderText(
+      ['VPO-1140100', header, row, row, '-- 1 of 2 --', 'Page 2 of 2', header, row].join('\n')
+    );
+    expect(data.items).toHaveLength(2);
+  });
+});
+
+describe('parseOrderText — non-VPO documents', () => {
+  it('falls back to a PO number and the first date in the text', () => {
+    const data = parseOrderText('ACME Corp\nPO # 45521\nDated 01/15/2025\nThank you');
+    expect(data.vpoNumber).toBe('45521');
+    expect(data.orderDate).toBe('01/15/2025');
+    expect(data.items).toEqual([]);
+  });
+});
@@ -32,6 +32,8 @@ export interface ExtractedOrderData {
   // Shipping
   shipTo?: string;
   shipVia?: string;
+  /** Country of origin set by hand on the form; never read from the PO. */
+  originCountry?: string;
   shipmentTerms?: string;
   paymentTerms?: string;
 
@@ -43,41 +45,464 @@ export interface ExtractedOrderData {
 
   // Line Items
   items: OrderItem[];
+
+  // PO "Subtotal" row, used to cross-check the extracted items
+  subtotalQty?: number;
+  subtotalAmount?: number;
+}
+
+// -------------------------------------------------------------------
+// Line classification
+// -------------------------------------------------------------------
+
+const DATE_PATTERN = /(\d{1,2}\/\d{1,2}\/\d{2,4})/;
+const PAGE_MARKER = /^--\s*\d+\s+of\s+\d+\s*--$|^page\s+\d+\s+of\s+\d+$/i;
+const PRODUCT_CODE = /^(?=[A-Z0-9-]*\d)(?=[A-Z0-9-]*[A-Z])[A-Z0-9][A-Z0-9-]{5,}$/;
+const INTEGER_CELL = /^-?\d{1,3}(?:,\d{3})*$|^-?\d+$/;
+const AMOUNT_CELL = /^\$?-?[\d,]+\.\d{2,4}$/;
+const DISCOUNT_CELL = /^-?\d+(?:\.\d+)?%$/;
+
+/** Labels that start a new header field or block; used to terminate multi-line blocks. */
+const KNOWN_LABELS = [
+  /^vpo\b/i,
+  /^order date\b/i,
+  /^supplier\b/i,
+  /^vendor\b/i,
+  /^ship to\b/i,
+  /^buyer\b/i,
+  /^bill to\b/i,
+  /^so\s*ref/i,
+  /^ship via\b/i,
+  /^shipment terms\b/i,
+  /^payment terms\b/i,
+  /^agent\b/i,
+  /^exp(?:ected)?\.?\s*ship date\b/i,
+  /^r\s*whs date\b/i,
+  /^etw\b/i,
+  /^cancel date\b/i,
+  /^notes?\b\s*:/i,
+  /^special instructions\b/i,
+  /^subtotal\b/i,
+  /^page\s+\d+/i,
+];
+
+/**
+ * Standard C-Life footer boilerplate that must not end up in customerNotes
+ * (mirrors rule 9 of the AI system prompt).
+ */
+const DISCLAIMER_PATTERN =
+  /uzbekistan|turkmenistan|xuar|xinjiang|forced labou?r|contracting terms|terms and conditions/i;
+
+function splitTokens(line: string): string[] {
+  return line.split(/\s+/).filter(Boolean);
+}
+
+function parseAmount(token: string): number {
+  const n = Number(token.replace(/[$,]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function isKnownLabel(line: string): boolean {
+  return KNOWN_LABELS.some((pattern) => pattern.test(line));
+}
+
+function isTableHeader(line: string): boolean {
+  return /\bqty\b/i.test(line) && /\bprice\b/i.test(line) && /\bextension\b/i.test(line);
+}
+
+/**
+ * Reads the value for a `Label: value` pair. Falls back to the next line when
+ * the label stands alone (pdf-parse often splits label and value cells).
+ */
+function readLabel(lines: string[], label: RegExp): string | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(label);
+    if (!match || match.index !== 0) continue;
+
+    const rest = lines[i]
+      .slice(match[0].length)
+      .replace(/^\s*[:#.]*\s*/, '')
+      .trim();
+    if (rest) return rest;
+
+    const next = lines[i + 1];
+    if (next && !isKnownLabel(next) && !isTableHeader(next)) return next;
+  }
+  return undefined;
+}
+
+/** Reads a name + address block that starts at `label` and runs until the next known label. */
+function readBlock(lines: string[], label: RegExp): { name?: string; address?: string } {
+  const start = lines.findIndex((line) => label.test(line));
+  if (start === -1) return {};
+
+  const block: string[] = [];
+  const inline = lines[start]
+    .replace(label, '')
+    .replace(/^\s*:?\s*/, '')
+    .trim();
+  if (inline) block.push(inline);
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (isKnownLabel(line) || isTableHeader(line) || PAGE_MARKER.test(line)) break;
+    block.push(line);
+  }
+
+  if (block.length === 0) return {};
+  return {
+    name: block[0],
+    address: block.slice(1).join('\n') || undefined,
+  };
+}
+
+// -------------------------------------------------------------------
+// Header extraction
+// -------------------------------------------------------------------
+
+function extractVpoNumber(lines: string[]): string | undefined {
+  for (const line of lines) {
+    const match = line.match(/\bVPO[-\s#:]*(\d{4,})/i);
+    if (match) return `VPO-${match[1]}`;
+  }
+
+  // PO Number fallback for non-VPO layouts
+  const poLine = lines.find((l) => /P\.?O\.?\s*#?\s*[:.]?\s*\S+/i.test(l));
+  if (poLine) {
+    const match = poLine.match(/(?:P\.?O\.?\s*#?)\s*[:.]?\s*(\S+)/i);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function extractDate(lines: string[], label: RegExp): string | undefined {
+  const value = readLabel(lines, label);
+  return value?.match(DATE_PATTERN)?.[1];
+}
+
+function extractSoReference(lines: string[]): string | undefined {
+  const labelled = readLabel(lines, /so\s*ref(?:erence)?\.?\s*#?/i);
+  if (labelled) return labelled.split(/\s+/)[0];
+
+  for (const line of lines) {
+    const match = line.match(/\b(So-\d+)\b/i);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/** The buyer letterhead is the block printed above the "Purchase Order" title. */
+function extractCustomer(lines: string[]): { name?: string; address?: string } {
+  const labelled = readBlock(lines, /^(?:buyer|bill to)\b/i);
+  if (labelled.name) return labelled;
+
+  const titleIndex = lines.findIndex((line) => /purchase order/i.test(line));
+  if (titleIndex <= 0) return {};
+
+  const letterhead = lines.slice(0, titleIndex).filter((line) => !PAGE_MARKER.test(line));
+  return {
+    name: letterhead[0],
+    address: letterhead.slice(1).join('\n') || undefined,
+  };
+}
+
+function extractNotes(lines: string[]): string | undefined {
+  const start = lines.findIndex((line) => /^(?:notes?|special instructions)\s*:/i.test(line));
+  if (start === -1) return undefined;
+
+  const collected: string[] = [];
+  const inline = lines[start].replace(/^(?:notes?|special instructions)\s*:\s*/i, '').trim();
+  if (inline) collected.push(inline);
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (PAGE_MARKER.test(line) || isTableHeader(line) || /^subtotal\b/i.test(line)) break;
+    if (/purchase order/i.test(line)) break;
+    if (DISCLAIMER_PATTERN.test(line)) continue;
+    collected.push(line);
+  }
+
+  return collected.length > 0 ? collected.join('\n') : undefined;
+}
+
+/** The last "Subtotal" row carries the PO-wide quantity and amount. */
+function extractSubtotal(lines: string[]): { qty?: number; amount?: number } {
+  const line = [...lines].reverse().find((l) => /^subtotal\b/i.test(l));
+  if (!line) return {};
+
+  const tokens = splitTokens(line.replace(/^subtotal\s*:?/i, ''));
+  const qtyToken = tokens.find((token) => INTEGER_CELL.test(token));
+  const amountToken = tokens.find((token) => AMOUNT_CELL.test(token));
+  return {
+    qty: qtyToken ? parseAmount(qtyToken) : undefined,
+    amount: amountToken ? parseAmount(amountToken) : undefined,
+  };
+}
+
+// -------------------------------------------------------------------
+// Item table extraction
+// -------------------------------------------------------------------
+
+interface ParsedRow {
+  productClass?: string;
+  productCode: string;
+  colorRef?: string;
+  sizeValues: number[];
+  qty: number;
+  price: number;
+  extension: number;
+}
+
+/** Size labels are the header cells between "Disc" (or "Color Ref") and "Qty". */
+function parseSizeHeader(line: string): string[] {
+  const tokens = splitTokens(line);
+  const qtyIndex = tokens.findIndex((token) => /^qty$/i.test(token));
+  if (qtyIndex === -1) return [];
+
+  let startIndex = tokens.findIndex((token) => /^disc\.?$/i.test(token));
+  if (startIndex === -1) {
+    startIndex = tokens.findIndex((token) => /^ref\.?$/i.test(token));
+  }
+  return tokens.slice(startIndex + 1, qtyIndex);
+}
+
+function parseItemRow(line: string): ParsedRow | null {
+  const tokens = splitTokens(line);
+  if (tokens.length < 4) return null;
+
+  const extensionToken = tokens[tokens.length - 1];
+  const priceToken = tokens[tokens.length - 2];
+  const qtyToken = tokens[tokens.length - 3];
+  if (!AMOUNT_CELL.test(extensionToken) || !AMOUNT_CELL.test(priceToken)) return null;
+  if (!INTEGER_CELL.test(qtyToken)) return null;
+
+  const head = tokens.slice(0, -3);
+  const codeIndex = head.findIndex((token) => PRODUCT_CODE.test(token));
+  if (codeIndex === -1) return null;
+
+  let sizeStart = head.length;
+  while (sizeStart > codeIndex + 1 && INTEGER_CELL.test(head[sizeStart - 1])) {
+    sizeStart--;
+  }
+
+  const colorTokens = head.slice(codeIndex + 1, sizeStart).filter((t) => !DISCOUNT_CELL.test(t));
+
+  return {
+    productClass: head.slice(0, codeIndex).join(' ') || undefined,
+    productCode: head[codeIndex],
+    colorRef: colorTokens.join(' ') || undefined,
+    sizeValues: head.slice(sizeStart).map(parseAmount),
+    qty: parseAmount(qtyToken),
+    price: parseAmount(priceToken),
+    extension: parseAmount(extensionToken),
+  };
+}
+
+/** Assortment sub-rows: `<code> <label words> <size qtys...> <qty>` with no price columns. */
+function parseAssortmentRow(
+  line: string
+): { productCode: string; label?: string; values: number[] } | null {
+  const tokens = splitTokens(line);
+  if (tokens.length < 2 || !PRODUCT_CODE.test(tokens[0])) return null;
+
+  let valueStart = tokens.length;
+  while (valueStart > 1 && INTEGER_CELL.test(tokens[valueStart - 1])) {
+    valueStart--;
+  }
+  if (valueStart === tokens.length) return null;
+
+  return {
+    productCode: tokens[0],
+    label: tokens.slice(1, valueStart).join(' ') || undefined,
+    values: tokens.slice(valueStart).map(parseAmount),
+  };
+}
+
+/**
+ * Maps size cells onto the current header labels. Blank cells collapse in plain
+ * text, so when fewer values than labels are present they are left-aligned;
+ * the row's Qty column stays authoritative for totalQty either way.
+ */
+function buildSizeBreakdown(sizes: string[], values: number[]): Record<string, number> | undefined {
+  if (sizes.length === 0 || values.length === 0) return undefined;
+
+  const usable = values.slice(-sizes.length);
+  const breakdown: Record<string, number> = {};
+  usable.forEach((value, index) => {
+    if (value > 0) breakdown[sizes[index]] = value;
+  });
+  return Object.keys(breakdown).length > 0 ? breakdown : undefined;
+}
+
+function applyDetailLine(item: OrderItem, line: string) {
+  const labelled = line.match(/^(collection|material|color|colou?r|description)\s*:\s*(.+)$/i);
+  if (labelled) {
+    const key = labelled[1].toLowerCase();
+    const value = labelled[2].trim();
+    if (key === 'collection') item.collection = value;
+    else if (key === 'material') item.material = value;
+    else if (key === 'description') item.description = value;
+    else item.color = value;
+    return;
+  }
+
+  if (!item.description) item.description = line;
+}
+
+function extractItems(lines: string[]): OrderItem[] {
+  const items: OrderItem[] = [];
+  // A page may open by repeating the last row of the page before; identical rows
+  // anywhere else are separate lines on the PO and are kept.
+  let lastRow: string | null = null;
+  let pageBreak = false;
+
+  let sizes: string[] = [];
+  let current: OrderItem | null = null;
+  let assortment: OrderItem[] | null = null;
+  let skipping = false; // inside a row repeated from a previous page
+
+  const flushAssortment = () => {
+    if (!current || !assortment || assortment.length === 0) return;
+    const parentIndex = items.indexOf(current);
+    if (parentIndex !== -1) items.splice(parentIndex, 1, ...assortment);
+    assortment = null;
+  };
+
+  for (const line of lines) {
+    if (isTableHeader(line)) {
+      flushAssortment();
+      sizes = parseSizeHeader(line);
+      current = null;
+      skipping = false;
+      continue;
+    }
+
+    if (PAGE_MARKER.test(line) || /^subtotal\b/i.test(line) || isKnownLabel(line)) {
+      flushAssortment();
+      if (PAGE_MARKER.test(line)) pageBreak = true;
+      current = null;
+      skipping = false;
+      continue;
+    }
+
+    const row = parseItemRow(line);
+    if (row) {
+      flushAssortment();
+      const signature = [
+        row.productCode,
+        row.colorRef,
+        row.qty,
+        row.price,
+        row.extension,
+        row.sizeValues.join(','),
+      ].join('|');
+
+      const repeated = pageBreak && signature === lastRow;
+      pageBreak = false;
+      if (repeated) {
+        current = null;
+        skipping = true;
+        continue;
+      }
+      lastRow = signature;
+      skipping = false;
+
+      current = {
+        productCode: row.productCode,
+        description: '',
+        productClass: row.productClass,
+        color: row.colorRef,
+        unitPrice: row.price,
+        totalQty: row.qty,
+        extension: row.extension || round2(row.price * row.qty),
+        sizeBreakdown: buildSizeBreakdown(sizes, row.sizeValues),
+      };
+      items.push(current);
+      continue;
+    }
+
+    if (skipping || !current) continue;
+
+    if (/^\*?\s*assortment detail/i.test(line)) {
+      assortment = [];
+      continue;
+    }
+
+    if (assortment) {
+      const sub = parseAssortmentRow(line);
+      if (sub) {
+        const qty = sub.values[sub.values.length - 1];
+        assortment.push({
+          ...current,
+          productCode: sub.productCode,
+          color: sub.label ?? current.color,
+          totalQty: qty,
+          extension: round2(current.unitPrice * qty),
+          sizeBreakdown: buildSizeBreakdown(sizes, sub.values.slice(0, -1)),
+        });
+        continue;
+      }
+    }
+
+    applyDetailLine(current, line);
+  }
+
+  flushAssortment();
+  return items;
 }
 
 /**
- * Basic heuristic parser (fallback when AI is unavailable)
+ * Deterministic rule-based parser for C-Life Group ERP VPOs. Used as the
+ * fallback when every AI provider fails (or none is configured), so it must
+ * return a complete ExtractedOrderData from the plain extracted text alone.
+ *
+ * Multi-page documents repeat the letterhead, address blocks and table header
+ * on every page; header fields take their first occurrence, and an item row that
+ * opens a page with the same cells as the row that closed the previous page is
+ * dropped as a carry-over.
  */
 export function parseOrderText(text: string): ExtractedOrderData {
   const lines = text
     .split('\n')
     .map((l) => l.trim())
     .filter(Boolean);
-  const data: ExtractedOrderData = {
-    items: [],
-  };
 
-  // VPO Number
-  const vpoLine = lines.find((l) => /VPO[-\s]?\d+/i.test(l));
-  if (vpoLine) {
-    const match = vpoLine.match(/(VPO[-\s]?\d+)/i);
-    if (match) data.vpoNumber = match[1];
-  }
+  const customer = extractCustomer(lines);
+  const supplier = readBlock(lines, /^(?:supplier|vendor)\s*:/i);
+  const shipTo = readBlock(lines, /^ship to\b/i);
+  const subtotal = extractSubtotal(lines);
 
-  // PO Number fallback
-  if (!data.vpoNumber) {
-    const poLine = lines.find((l) => /P\.?O\.?\s*#?\s*[:.]?\s*\S+/i.test(l));
-    if (poLine) {
-      const match = poLine.match(/(?:P\.?O\.?\s*#?)\s*[:.]?\s*(\S+)/i);
-      if (match) data.vpoNumber = match[1];
-    }
-  }
+  const data: ExtractedOrderData = {
+    vpoNumber: extractVpoNumber(lines),
+    orderDate: extractDate(lines, /order date/i),
+    expShipDate: extractDate(lines, /exp(?:ected)?\.?\s*ship date/i),
+    cancelDate:
+      extractDate(lines, /r\s*whs date/i) ??
+      extractDate(lines, /etw/i) ??
+      extractDate(lines, /cancel date/i),
+    soReference: extractSoReference(lines),
+    customerName: customer.name,
+    customerAddress: customer.address,
+    supplierName: supplier.name,
+    supplierAddress: supplier.address,
+    shipTo: [shipTo.name, shipTo.address].filter(Boolean).join('\n') || undefined,
+    shipVia: readLabel(lines, /ship via/i),
+    shipmentTerms: readLabel(lines, /shipment terms/i),
+    paymentTerms: readLabel(lines, /payment terms/i),
+    agent: readLabel(lines, /agent/i),
+    customerNotes: extractNotes(lines),
+    items: extractItems(lines),
+    subtotalQty: subtotal.qty,
+    subtotalAmount: subtotal.amount,
+  };
 
-  // Date
-  const dateLine = lines.find((l) => /\d{1,2}\/\d{1,2}\/\d{2,4}/.test(l));
-  if (dateLine) {
-    const match = dateLine.match(/(\d{1,2}\/\d{1,2}\/\d{2,4})/);
-    if (match) data.orderDate = match[1];
+  // Non-VPO layouts: fall back to the first date anywhere in the document.
+  if (!data.orderDate) {
+    data.orderDate = lines.find((l) => DATE_PATTERN.test(l))?.match(DATE_PATTERN)?.[1];
   }
 
   return data;
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTablesAsText,
+  groupTextLines,
+  reconstructPageTables,
+  type PdfPageLayout,
+  type PdfTextItem,
+} from './pdf-layout';
+
+const COLUMN_X = [40, 110, 180, 230, 270, 310, 350, 400, 450, 500];
+
+function item(str: string, x: number, y: number, width = str.length * 5): PdfTextItem {
+  return { str, x, y, width, height: 8 };
+}
+
+function row(cells: string[], y: number): PdfTextItem[] {
+  return cells.flatMap((cell, index) => (cell ? [item(cell, COLUMN_X[index], y)] : []));
+}
+
+const HEADER = [
+  'Product Code',
+  'Color Ref',
+  'Disc',
+  '2T',
+  '3T',
+  '4T',
+  '5T',
+  'Qty',
+  'Price',
+  'Extension',
+];
+
+function samplePage(): PdfPageLayout {
+  return {
+    num: 1,
+    width: 612,
+    height: 792,
+    items: [
+      item('Vendor Purchase Order', 40, 30),
+      // pdf.js splits the header label into two runs
+      item('Product', 40, 100, 35),
+      item('Code', 77, 100, 20),
+      ...HEADER.slice(1).map((label, index) => item(label, COLUMN_X[index + 1], 100)),
+      ...row(
+        ['2TDL5530PJ', 'PNK', '', '400', '400', '400', '', '1,200', '$4.20', '$5,040.00'],
+        112
+      ),
+      ...row(['2TDL5531JG', 'HGR', '', '300', '', '300', '200', '800', '$4.00', '$3,200.00'], 124),
+      item('Subtotal', 40, 140),
+      item('2,000', COLUMN_X[7], 140),
+      item('Page 1 of 1', 280, 760),
+    ],
+  };
+}
+
+describe('groupTextLines', () => {
+  it('groups runs on the same baseline and merges split words', () => {
+    const lines = groupTextLines([
+      item('Grey', 72, 50.5, 20),
+      item('Heather', 40, 50, 30),
+      item('Black', 40, 62),
+    ]);
+    expect(lines.map((line) => line.items.map((i) => i.str))).toEqual([
+      ['Heather Grey'],
+      ['Black'],
+    ]);
+  });
+});
+
+describe('reconstructPageTables', () => {
+  const [table] = reconstructPageTables(samplePage());
+
+  it('finds the header row by its Qty / Price / Extension labels', () => {
+    expect(table.page).toBe(1);
+    expect(table.header).toEqual(HEADER);
+    expect(table.columns[0].x0).toBe(0);
+    expect(table.columns[table.columns.length - 1].x1).toBe(612);
+  });
+
+  it('keeps blank size cells in place', () => {
+    expect(table.rows).toEqual([
+      ['2TDL5530PJ', 'PNK', '', '400', '400', '400', '', '1,200', '$4.20', '$5,040.00'],
+      ['2TDL5531JG', 'HGR', '', '300', '', '300', '200', '800', '$4.00', '$3,200.00'],
+    ]);
+  });
+
+  it('stops at the subtotal line', () => {
+    expect(table.rows.some((cells) => cells.includes('Subtotal'))).toBe(false);
+  });
+
+  it('returns no tables when the page has no item header', () => {
+    expect(
+      reconstructPageTables({ num: 2, width: 612, height: 792, items: [item('Notes:', 40, 40)] })
+    ).toEqual([]);
+  });
+});
+
+describe('formatTablesAsText', () => {
+  it('renders tab-separated rows with empty cells preserved', () => {
+    const text = formatTablesAsText(reconstructPageTables(samplePage()));
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('[Page 1]');
+    expect(lines[3]).toBe('2TDL5531JG\tHGR\t\t300\t\t300\t200\t800\t$4.00\t$3,200.00');
+  });
+});
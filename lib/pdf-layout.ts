@@ -0,0 +1,198 @@
+/**
+ * Layout helpers for positional PDF text.
+ *
+ * pdf.js reports every text run with its page coordinates. These helpers group the
+ * runs back into visual lines and rebuild the VPO item table as a grid, so a blank
+ * size cell stays blank instead of shifting the remaining values one column left.
+ */
+
+export interface PdfTextItem {
+  str: string;
+  /** Left edge in PDF points. */
+  x: number;
+  /** Top edge in PDF points, measured from the top of the page. */
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageLayout {
+  num: number;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfTextLine {
+  y: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfTableColumn {
+  label: string;
+  x0: number;
+  x1: number;
+}
+
+export interface PdfTableGrid {
+  page: number;
+  header: string[];
+  columns: PdfTableColumn[];
+  rows: string[][];
+}
+
+const QTY_HEADER = /^(?:qty|quantity)$/i;
+const PRICE_HEADER = /^(?:unit\s+)?price$/i;
+const EXTENSION_HEADER = /^(?:ext(?:ension)?|amount)$/i;
+const TABLE_END = /^(?:sub\s*-?\s*total|total|grand\s+total)\b/i;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function lineText(line: PdfTextLine): string {
+  return line.items.map((item) => item.str).join(' ');
+}
+
+/**
+ * Group text items into lines. Items whose vertical centres are within `tolerance`
+ * points of each other belong to the same line; each line is sorted left to right.
+ */
+export function groupTextLines(items: PdfTextItem[], tolerance = 3): PdfTextLine[] {
+  const sorted = items
+    .filter((item) => item.str.trim() !== '')
+    .sort((a, b) => a.y + a.height / 2 - (b.y + b.height / 2) || a.x - b.x);
+
+  const lines: { center: number; items: PdfTextItem[] }[] = [];
+  for (const item of sorted) {
+    const center = item.y + item.height / 2;
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(center - current.center) <= tolerance) {
+      current.items.push(item);
+    } else {
+      lines.push({ center, items: [item] });
+    }
+  }
+
+  return lines.map(({ items: lineItems }) => ({
+    y: Math.min(...lineItems.map((item) => item.y)),
+    height: Math.max(...lineItems.map((item) => item.height)),
+    items: mergeAdjacentItems([...lineItems].sort((a, b) => a.x - b.x)),
+  }));
+}
+
+/**
+ * pdf.js often splits one cell ("Heather Grey") into several runs. Runs separated by
+ * less than roughly one character width are merged back into a single item.
+ */
+function mergeAdjacentItems(items: PdfTextItem[]): PdfTextItem[] {
+  const merged: PdfTextItem[] = [];
+  for (const item of items) {
+    const text = item.str.trim();
+    const previous = merged[merged.length - 1];
+    const charWidth = item.height * 0.6;
+    if (previous && item.x - (previous.x + previous.width) < charWidth) {
+      const gap = item.x - (previous.x + previous.width);
+      previous.str = `${previous.str}${gap > item.height * 0.15 ? ' ' : ''}${text}`;
+      previous.width = item.x + item.width - previous.x;
+      previous.height = Math.max(previous.height, item.height);
+      continue;
+    }
+    merged.push({ ...item, str: text });
+  }
+  return merged;
+}
+
+function isHeaderLine(line: PdfTextLine): boolean {
+  const labels = line.items.map((item) => item.str.trim());
+  return (
+    labels.some((label) => QTY_HEADER.test(label)) &&
+    labels.some((label) => PRICE_HEADER.test(label)) &&
+    labels.some((label) => EXTENSION_HEADER.test(label))
+  );
+}
+
+/** Column bands run halfway into the gap between neighbouring header labels. */
+function buildColumns(header: PdfTextLine, pageWidth: number): PdfTableColumn[] {
+  return header.items.map((item, index) => {
+    const previous = header.items[index - 1];
+    const next = header.items[index + 1];
+    return {
+      label: item.str,
+      x0: previous ? round2((previous.x + previous.width + item.x) / 2) : 0,
+      x1: next ? round2((item.x + item.width + next.x) / 2) : round2(pageWidth),
+    };
+  });
+}
+
+function columnIndexFor(item: PdfTextItem, columns: PdfTableColumn[]): number {
+  const center = item.x + item.width / 2;
+  const index = columns.findIndex((column) => center >= column.x0 && center < column.x1);
+  if (index !== -1) return index;
+  return center < columns[0].x0 ? 0 : columns.length - 1;
+}
+
+function toRow(line: PdfTextLine, columns: PdfTableColumn[]): string[] {
+  const cells = columns.map(() => '');
+  for (const item of line.items) {
+    const index = columnIndexFor(item, columns);
+    cells[index] = cells[index] ? `${cells[index]} ${item.str}` : item.str;
+  }
+  return cells;
+}
+
+/**
+ * Rebuild the item tables on one page. A table starts at a header line carrying
+ * Qty / Price / Extension labels and runs until a subtotal line, the next header,
+ * a vertical gap of more than `maxRowGap` line heights, or the end of the page.
+ */
+export function reconstructPageTables(page: PdfPageLayout, maxRowGap = 4): PdfTableGrid[] {
+  const lines = groupTextLines(page.items);
+  const tables: PdfTableGrid[] = [];
+  let current: PdfTableGrid | null = null;
+  let previousLine: PdfTextLine | null = null;
+
+  for (const line of lines) {
+    if (isHeaderLine(line)) {
+      const columns = buildColumns(line, page.width);
+      current = {
+        page: page.num,
+        header: columns.map((column) => column.label),
+        columns,
+        rows: [],
+      };
+      tables.push(current);
+      previousLine = line;
+      continue;
+    }
+    if (!current || !previousLine) continue;
+
+    const gap = line.y - (previousLine.y + previousLine.height);
+    if (TABLE_END.test(lineText(line)) || gap > previousLine.height * maxRowGap) {
+      current = null;
+      previousLine = null;
+      continue;
+    }
+
+    current.rows.push(toRow(line, current.columns));
+    previousLine = line;
+  }
+
+  return tables;
+}
+
+export function reconstructTables(pages: PdfPageLayout[]): PdfTableGrid[] {
+  return pages.flatMap((page) => reconstructPageTables(page));
+}
+
+/** Render grids as tab-separated text; empty cells are kept so columns stay aligned. */
+export function formatTablesAsText(tables: PdfTableGrid[]): string {
+  return tables
+    .map((table) =>
+      [
+        `[Page ${table.page}]`,
+        table.header.join('\t'),
+        ...table.rows.map((row) => row.join('\t')),
+      ].join('\n')
+    )
+    .join('\n\n');
+}
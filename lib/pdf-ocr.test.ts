@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { findImageOnlyPages, mergeOcrText, ocrPageLimit, ocrWordsToItems } from './pdf-ocr';
+import type { PdfPageLayout } from './pdf-layout';
+
+function page(num: number, text: string): PdfPageLayout {
+  return {
+    num,
+    width: 612,
+    height: 792,
+    items: text ? [{ str: text, x: 10, y: 10, width: 100, height: 10 }] : [],
+  };
+}
+
+describe('findImageOnlyPages', () => {
+  it('picks pages whose text layer is empty or nearly so', () => {
+    const layouts = [page(1, 'PURCHASE ORDER VPO-12345 Ship To'), page(2, ''), page(3, '3 / 3')];
+    expect(findImageOnlyPages(layouts, 3)).toEqual([2, 3]);
+  });
+
+  it('falls back to all pages when there is no layout and no text', () => {
+    expect(findImageOnlyPages([], 2, '  ')).toEqual([1, 2]);
+    expect(findImageOnlyPages([], 2, 'VPO-12345')).toEqual([]);
+  });
+});
+
+describe('mergeOcrText', () => {
+  it('replaces scanned pages with OCR text and keeps the page order', () => {
+    const text = mergeOcrText(
+      [
+        { num: 1, text: 'Page one text' },
+        { num: 2, text: '' },
+      ],
+      [{ page: 2, text: 'AB100 NAVY 1200 4.50', confidence: 0.91 }]
+    );
+    expect(text).toBe('Page one text\n\nAB100 NAVY 1200 4.50');
+  });
+
+  it('uses OCR pages alone when pdf-parse returned no pages', () => {
+    expect(mergeOcrText([], [{ page: 1, text: 'VPO-1', confidence: 0.8 }])).toBe('VPO-1');
+  });
+});
+
+describe('ocrWordsToItems', () => {
+  it('scales pixel boxes back to PDF points and drops blank words', () => {
+    const items = ocrWordsToItems(
+      [
+        { text: 'NAVY', bbox: { x0: 200, y0: 100, x1: 300, y1: 130 } },
+        { text: ' ', bbox: { x0: 0, y0: 0, x1: 1, y1: 1 } },
+      ],
+      2
+    );
+    expect(items).toEqual([{ str: 'NAVY', x: 100, y: 50, width: 50, height: 15 }]);
+  });
+});
+
+describe('ocrPageLimit', () => {
+  it('reads OCR_MAX_PAGES and falls back to 20 for missing or bad values', () => {
+    expect(ocrPageLimit({ OCR_MAX_PAGES: '5' })).toBe(5);
+    expect(ocrPageLimit({})).toBe(20);
+    expect(ocrPageLimit({ OCR_MAX_PAGES: '0' })).toBe(20);
+    expect(ocrPageLimit({ OCR_MAX_PAGES: 'lots' })).toBe(20);
+  });
+});
@@ -0,0 +1,214 @@
+import path from 'path';
+import type { PdfPageLayout, PdfTextItem } from '@/lib/pdf-layout';
+
+/**
+ * OCR fallback for scanned PDFs. Pages without a usable text layer are rendered with
+ * pdf.js onto an @napi-rs/canvas surface and read by tesseract.js, which runs in a
+ * worker thread from WASM with language data from node_modules, so nothing is fetched
+ * at runtime. Node only.
+ */
+
+/** Pages whose text layer has fewer characters than this are treated as images. */
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+/** Render at 2× (144 dpi): small table text is unreadable to tesseract at 72 dpi. */
+const RENDER_SCALE = 2;
+
+/** Pages OCR'd per PDF (`OCR_MAX_PAGES`, default 20); each takes seconds of CPU. */
+export function ocrPageLimit(env: Record<string, string | undefined> = process.env): number {
+  const value = Number(env.OCR_MAX_PAGES);
+  return Number.isInteger(value) && value > 0 ? value : 20;
+}
+
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  /** Mean word confidence, 0–1. */
+  confidence: number;
+}
+
+export interface PdfOcrResult {
+  pages: OcrPageResult[];
+  /** Word positions in PDF points, so OCR pages feed the same table reconstruction. */
+  layouts: PdfPageLayout[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Pages that need OCR. Without positional data (layout extraction failed) every page
+ * qualifies when the plain text is empty as well.
+ */
+export function findImageOnlyPages(
+  layouts: PdfPageLayout[],
+  numPages: number,
+  plainText = ''
+): number[] {
+  if (layouts.length === 0) {
+    return plainText.trim() ? [] : Array.from({ length: numPages }, (_, index) => index + 1);
+  }
+  return layouts
+    .filter((page) => {
+      const chars = page.items.reduce((sum, item) => sum + item.str.trim().length, 0);
+      return chars < MIN_TEXT_LAYER_CHARS;
+    })
+    .map((page) => page.num);
+}
+
+/**
+ * Rebuild the document text page by page, taking OCR text for the pages that were
+ * scanned and the text layer for the rest.
+ */
+export function mergeOcrText(pageTexts: { num: number; text: string }[], ocr: OcrPageResult[]) {
+  const byPage = new Map(ocr.map((page) => [page.page, page.text]));
+  const pages = pageTexts.length ? pageTexts : ocr.map((page) => ({ num: page.page, text: '' }));
+  return pages
+    .map((page) => (byPage.get(page.num) ?? page.text).trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+interface OcrWord {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+/** Convert pixel boxes from the rendered image back to PDF points. */
+export function ocrWordsToItems(words: OcrWord[], scale: number): PdfTextItem[] {
+  return words
+    .filter((word) => word.text.trim())
+    .map((word) => ({
+      str: word.text,
+      x: round2(word.bbox.x0 / scale),
+      y: round2(word.bbox.y0 / scale),
+      width: round2((word.bbox.x1 - word.bbox.x0) / scale),
+      height: round2((word.bbox.y1 - word.bbox.y0) / scale),
+    }));
+}
+
+function ocrLanguages(): string[] {
+  return (process.env.OCR_LANGS || 'eng')
+    .split(/[+,\s]+/)
+    .map((lang) => lang.trim())
+    .filter(Boolean);
+}
+
+/** Directory holding `<lang>.traineddata.gz`; defaults to the bundled English model. */
+function ocrLangPath(): string {
+  return (
+    process.env.OCR_LANG_PATH ||
+    path.resolve(process.cwd(), 'node_modules/@tesseract.js-data/eng/4.0.0_best_int')
+  );
+}
+
+type NapiCanvasModule = typeof import('@napi-rs/canvas');
+
+/**
+ * @napi-rs/canvas applies `putImageData` lazily from the caller's buffer, and pdf.js
+ * reuses one ImageData for every 16-row strip of an image, so scanned pages come out
+ * blank. Copying the strip on each call keeps every strip's pixels.
+ */
+function createRenderCanvas(napi: NapiCanvasModule, width: number, height: number) {
+  const canvas = napi.createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  type StripImage = InstanceType<NapiCanvasModule['ImageData']>;
+  const putImageData = context.putImageData.bind(context) as (
+    image: StripImage,
+    ...args: number[]
+  ) => void;
+  context.putImageData = ((image: StripImage, ...args: number[]) =>
+    putImageData(
+      new napi.ImageData(new Uint8ClampedArray(image.data), image.width, image.height),
+      ...args
+    )) as typeof context.putImageData;
+  return { canvas, context };
+}
+
+/**
+ * Render the given 1-based pages and OCR them one at a time with a single worker.
+ * Only the first `ocrPageLimit()` pages are read; the rest keep their text layer.
+ */
+export async function runPdfOcr(data: Uint8Array, pageNumbers: number[]): Promise<PdfOcrResult> {
+  if (pageNumbers.length === 0) return { pages: [], layouts: [] };
+  const limit = ocrPageLimit();
+  if (pageNumbers.length > limit) {
+    console.warn(`OCR limited to ${limit} of ${pageNumbers.length} scanned pages`);
+  }
+
+  const [pdfjs, napi, { createWorker, OEM }] = await Promise.all([
+    import('pdfjs-dist/legacy/build/pdf.mjs'),
+    import('@napi-rs/canvas'),
+    import('tesseract.js'),
+  ]);
+
+  // Scratch canvases pdf.js creates for images need the same fix as the page canvas.
+  class CanvasFactory {
+    create(width: number, height: number) {
+      return createRenderCanvas(napi, width, height);
+    }
+    reset(entry: { canvas: { width: number; height: number } }, width: number, height: number) {
+      entry.canvas.width = width;
+      entry.canvas.height = height;
+    }
+    destroy(entry: { canvas: unknown; context: unknown }) {
+      entry.canvas = null;
+      entry.context = null;
+    }
+  }
+
+  let worker: Awaited<ReturnType<typeof createWorker>> | undefined;
+  let doc: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']> | undefined;
+  try {
+    worker = await createWorker(ocrLanguages(), OEM.LSTM_ONLY, {
+      langPath: ocrLangPath(),
+      gzip: true,
+      cacheMethod: 'none',
+    });
+    doc = await pdfjs.getDocument({
+      data,
+      CanvasFactory,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise;
+
+    const result: PdfOcrResult = { pages: [], layouts: [] };
+    for (const num of pageNumbers.slice(0, limit)) {
+      const page = await doc.getPage(num);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const { canvas, context } = createRenderCanvas(
+        napi,
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+      // Scans often have a transparent background; tesseract reads black-on-white best.
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+      page.cleanup();
+
+      const { data: ocr } = await worker.recognize(
+        canvas.toBuffer('image/png'),
+        {},
+        { text: true, blocks: true }
+      );
+      const words = (ocr.blocks ?? []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words))
+      );
+
+      result.pages.push({
+        page: num,
+        text: ocr.text.trim(),
+        confidence: round2(ocr.confidence / 100),
+      });
+      result.layouts.push({
+        num,
+        width: viewport.width / RENDER_SCALE,
+        height: viewport.height / RENDER_SCALE,
+        items: ocrWordsToItems(words, RENDER_SCALE),
+      });
+    }
+    return result;
+  } finally {
+    await doc?.destroy();
+    await worker?.terminate();
+  }
+}
@@ -0,0 +1,160 @@
+import path from 'path';
+import { PDFParse } from 'pdf-parse';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { reconstructTables, type PdfPageLayout, type PdfTableGrid } from '@/lib/pdf-layout';
+import { findImageOnlyPages, mergeOcrText, runPdfOcr, type OcrPageResult } from '@/lib/pdf-ocr';
+
+/**
+ * Server-side PDF text extraction shared by the upload route and batch imports.
+ * Node only: pulls in pdf-parse, pdf.js and the canvas polyfills. Pages without a
+ * text layer go through the OCR fallback in `pdf-ocr`.
+ */
+
+let parserInitPromise: Promise<void> | null = null;
+
+export async function initParserRuntime() {
+  if (parserInitPromise) return parserInitPromise;
+
+  parserInitPromise = (async () => {
+    // Polyfill DOMMatrix for PDF.js in Node.js environment.
+    if (typeof globalThis.DOMMatrix === 'undefined') {
+      try {
+        const domMatrixModule = await import('dommatrix');
+        const domMatrixCtor = (domMatrixModule as { default?: unknown }).default;
+
+        if (typeof domMatrixCtor === 'function') {
+          globalThis.DOMMatrix = domMatrixCtor as unknown as typeof DOMMatrix;
+        }
+      } catch (error: unknown) {
+        console.warn('Failed to polyfill DOMMatrix', error);
+      }
+    }
+
+    // Ensure Canvas is available for PDF.js.
+    try {
+      await import('@napi-rs/canvas');
+    } catch (error: unknown) {
+      console.warn('Failed to load @napi-rs/canvas', error);
+    }
+
+    // Point worker to installed module path.
+    const workerPath = path.resolve(
+      process.cwd(),
+      'node_modules/pdf-parse/dist/pdf-parse/cjs/pdf.worker.mjs'
+    );
+    PDFParse.setWorker(workerPath);
+  })();
+
+  return parserInitPromise;
+}
+
+/**
+ * Read every text run with its position. pdf.js reports a bottom-left origin, so y is
+ * flipped to measure from the top of the page like the rendered document.
+ */
+async function extractPageLayouts(data: Uint8Array): Promise<PdfPageLayout[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = path.resolve(
+      process.cwd(),
+      'node_modules/pdfjs-dist/legacy/build/pdf.worker.mjs'
+    );
+  }
+
+  const doc = await pdfjs.getDocument({ data, verbosity: pdfjs.VerbosityLevel.ERRORS }).promise;
+  try {
+    const pages: PdfPageLayout[] = [];
+    for (let num = 1; num <= doc.numPages; num++) {
+      const page = await doc.getPage(num);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.flatMap((item) => {
+        if (!('str' in item) || !item.str.trim()) return [];
+        const height = item.height || Math.abs(item.transform[3]);
+        return [
+          {
+            str: item.str,
+            x: Math.round(item.transform[4] * 100) / 100,
+            y: Math.round((viewport.height - item.transform[5] - height) * 100) / 100,
+            width: Math.round(item.width * 100) / 100,
+            height: Math.round(height * 100) / 100,
+          },
+        ];
+      });
+      pages.push({ num, width: viewport.width, height: viewport.height, items });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+export interface PdfTextResult {
+  text: string;
+  pages: PdfPageLayout[];
+  tables: PdfTableGrid[];
+  numpages: number;
+  info: unknown;
+  /** `ocr` when every page was scanned, `mixed` when only some were. */
+  textSource: 'text' | 'ocr' | 'mixed';
+  /** Per-page OCR output for the pages that had no text layer. */
+  ocr: OcrPageResult[];
+}
+
+export async function extractPdfText(buffer: Buffer): Promise<PdfTextResult> {
+  await initParserRuntime();
+
+  const parser = new PDFParse({ data: buffer });
+  const textResult = await parser.getText();
+  const infoResult = await parser.getInfo();
+
+  // Positional data is best-effort: the plain text above is still enough for parsing.
+  let pages: PdfPageLayout[] = [];
+  try {
+    pages = await extractPageLayouts(new Uint8Array(buffer));
+  } catch (error: unknown) {
+    console.warn('PDF layout extraction failed:', getErrorMessage(error));
+  }
+
+  let text = textResult.text || '';
+  let ocr: OcrPageResult[] = [];
+  const imageOnlyPages = findImageOnlyPages(pages, infoResult.total, text);
+  if (imageOnlyPages.length > 0) {
+    try {
+      const result = await runPdfOcr(new Uint8Array(buffer), imageOnlyPages);
+      ocr = result.pages;
+      text = mergeOcrText(textResult.pages, ocr);
+      const ocrLayouts = new Map(result.layouts.map((layout) => [layout.num, layout]));
+      pages = pages.length ? pages.map((page) => ocrLayouts.get(page.num) ?? page) : result.layouts;
+    } catch (error: unknown) {
+      console.warn('PDF OCR failed:', getErrorMessage(error));
+    }
+  }
+
+  if (!text.trim()) {
+    console.warn('PDF Parse WARNING: Extracted text is empty or null');
+  }
+
+  return {
+    text,
+    pages,
+    tables: reconstructTables(pages),
+    numpages: infoResult.total,
+    info: infoResult.info,
+    textSource: ocr.length === 0 ? 'text' : ocr.length >= infoResult.total ? 'ocr' : 'mixed',
+    ocr,
+  };
+}
+
+/** Turn pdf.js failures into messages a user can act on. */
+export function describePdfError(error: unknown): string {
+  const errorMessage = getErrorMessage(error);
+  if (errorMessage.includes('Invalid PDF structure')) {
+    return 'Failed to parse PDF: Invalid PDF structure. The file may be corrupted, encrypted, or not a valid PDF.';
+  }
+  if (errorMessage.includes('PasswordException')) {
+    return 'Failed to parse PDF: The file is password protected.';
+  }
+  return errorMessage;
+}
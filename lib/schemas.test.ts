@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { extractedOrderSchema, orderItemSchema } from './schemas';
+
+describe('extractedOrderSchema', () => {
+  it('coerces AI string amounts and nulls into ExtractedOrderData', () => {
+    const data = extractedOrderSchema.parse({
+      vpoNumber: 'VPO-1138183',
+      cancelDate: null,
+      customerNotes: '  ',
+      items: [
+        {
+          productCode: '7VND2A6805TY',
+          description: null,
+          unitPrice: '2.75',
+          totalQty: '6,000',
+          extension: '$16,500.00',
+          vendorUnitPrice: null,
+          sizeBreakdown: { S: 3000, M: '3000', L: 0 },
+        },
+      ],
+      subtotalQty: 6000,
+      subtotalAmount: '16,500.00',
+    });
+
+    expect(data.cancelDate).toBeUndefined();
+    expect(data.customerNotes).toBeUndefined();
+    expect(data.items[0]).toMatchObject({
+      description: '',
+      unitPrice: 2.75,
+      totalQty: 6000,
+      extension: 16500,
+      sizeBreakdown: { S: 3000, M: 3000 },
+    });
+    expect(data.items[0].vendorUnitPrice).toBeUndefined();
+    expect(data.subtotalAmount).toBe(16500);
+  });
+
+  it('accepts a size breakdown sent as a list', () => {
+    const data = extractedOrderSchema.parse({
+      items: [{ productCode: '2TDL5530PJ', sizeBreakdown: [{ size: '2T', qty: '400' }] }],
+    });
+    expect(data.items[0].sizeBreakdown).toEqual({ '2T': 400 });
+  });
+
+  it('rejects missing items, product codes and non-numeric amounts', () => {
+    expect(extractedOrderSchema.safeParse({ vpoNumber: 'VPO-1' }).success).toBe(false);
+    expect(extractedOrderSchema.safeParse({ items: [{ productCode: '' }] }).success).toBe(false);
+
+    const result = extractedOrderSchema.safeParse({
+      items: [{ productCode: '7VND2A6805TY', unitPrice: 'TBD' }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['items', 0, 'unitPrice']);
+  });
+});
+
+describe('orderItemSchema', () => {
+  it('normalizes HTS overrides and requires a reason', () => {
+    expect(
+      orderItemSchema.parse({ htsCodeOverride: '6110303059', htsOverrideReason: 'Fleece' })
+    ).toMatchObject({ htsCodeOverride: '6110.30.3059' });
+    expect(orderItemSchema.parse({ htsCodeOverride: '' }).htsCodeOverride).toBeNull();
+    expect(orderItemSchema.safeParse({ htsCodeOverride: '6110.30.3059' }).success).toBe(false);
+    expect(
+      orderItemSchema.safeParse({ htsCodeOverride: '6110.30', htsOverrideReason: 'x' }).success
+    ).toBe(false);
+  });
+});
@@ -1,13 +1,64 @@
 import { z } from 'zod';
+import { SPREADSHEET_ITEM_FIELDS, SPREADSHEET_ORDER_FIELDS } from './spreadsheet-import';
+import {
+    TEMPLATE_ITEM_FIELDS,
+    TEMPLATE_ORDER_FIELDS,
+    TEMPLATE_RULE_OPS,
+} from './extraction/templates';
+import { FABRIC_BUCKETS, GENDER_GROUPS, formatHtsCode } from './tariffs';
+import { LANDED_COST_BASES } from './landed-cost';
+import { FINANCE_NOTE_REASONS, FINANCE_NOTE_TARGETS, FINANCE_NOTE_TYPES } from './finance-notes';
+import { WORKFLOW_STAGES } from './workflow-stages';
 
 // Utility schemas for shared scalar types
 const DateString = z.string().or(z.date()).transform((val) => new Date(val));
 const DecimalString = z.number().or(z.string()).transform((val) => Number(val));
+const countryCode = z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/, 'Use a two-letter country code')
+    .transform((val) => val.toUpperCase());
+// A blank country clears it
+export const optionalCountryCode = countryCode
+    .or(z.literal('').transform(() => null))
+    .optional()
+    .nullable();
+const currencyCode = z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/, 'Use a three-letter currency code')
+    .transform((val) => val.toUpperCase());
+const optionalCurrencyCode = currencyCode
+    .or(z.literal('').transform(() => null))
+    .optional()
+    .nullable();
 
 // ==========================================
 // Order Schemas
 // ==========================================
 
+// 10-digit HTS codes are accepted with or without dots and stored grouped (6109.10.0040)
+const statisticalHtsCode = z
+    .string()
+    .trim()
+    .regex(/^\d{4}\.?\d{2}\.?\d{4}$/, 'Use a 10-digit HTS code')
+    .transform((val) => formatHtsCode(val)!);
+
+// A blank override clears it
+export const htsCodeOverrideSchema = z
+    .literal('')
+    .transform(() => null)
+    .or(statisticalHtsCode)
+    .optional()
+    .nullable();
+
+export function hasHtsOverrideReason(item: {
+    htsCodeOverride?: string | null;
+    htsOverrideReason?: string | null;
+}) {
+    return !item.htsCodeOverride || !!item.htsOverrideReason?.trim();
+}
+
 export const orderItemSchema = z.object({
     id: z.string().uuid().optional(),
     productCode: z.string().optional().nullable(),
@@ -26,6 +77,27 @@ export const orderItemSchema = z.object({
     sizeBreakdown: z.record(z.string(), z.number()).optional().nullable(),
     productClass: z.string().optional().nullable(),
     collection: z.string().optional().nullable(),
+    htsCodeOverride: htsCodeOverrideSchema,
+    htsOverrideReason: z.string().trim().optional().nullable(),
+    unitCbm: z.number().nonnegative().optional().nullable(),
+    originCountry: optionalCountryCode, // Only when the line ships from elsewhere than the order
+}).refine(hasHtsOverrideReason, {
+    message: 'Give a reason for the HTS override',
+    path: ['htsOverrideReason'],
+});
+
+// Provenance captured at upload time, stored alongside the saved order
+export const extractionRecordSchema = z.object({
+    fileName: z.string().optional().nullable(),
+    fileHash: z.string().optional().nullable(),
+    fileSize: z.number().int().nonnegative().optional().nullable(),
+    extractedText: z.string().optional().nullable(),
+    provider: z.string().optional().nullable(),
+    model: z.string().optional().nullable(),
+    rawResponse: z.string().optional().nullable(),
+    warnings: z.array(z.record(z.string(), z.unknown())).optional().nullable(),
+    fieldConfidence: z.record(z.string(), z.number()).optional().nullable(),
+    templateName: z.string().optional().nullable(),
 });
 
 export const saveOrderSchema = z.object({
@@ -42,6 +114,8 @@ export const saveOrderSchema = z.object({
     cancelDate: DateString.optional().nullable(),
     shipTo: z.string().optional().nullable(),
     shipVia: z.string().optional().nullable(),
+    // Set by hand on the form; left empty the vendor master or the supplier keywords decide
+    originCountry: optionalCountryCode,
     shipmentTerms: z.string().optional().nullable(),
     paymentTerms: z.string().optional().nullable(),
     customerNotes: z.string().optional().nullable(),
@@ -53,6 +127,14 @@ export const saveOrderSchema = z.object({
     estimatedMarginRate: DecimalString.optional().nullable(),
 
     items: z.array(orderItemSchema).optional(),
+    sourceFileId: z.string().uuid().optional().nullable(),
+    sourceFileName: z.string().optional().nullable(),
+    sourceEmailId: z.string().uuid().optional().nullable(),
+    extraction: extractionRecordSchema.optional().nullable(),
+
+    // Duplicate VPO handling: apply as a revision of an existing order, or save a second copy
+    revisionOf: z.string().uuid().optional().nullable(),
+    allowDuplicate: z.boolean().optional(),
 });
 
 // ==========================================
@@ -87,6 +169,29 @@ export const shippingDocSchema = z.object({
     payload: z.string().optional().nullable(),
 });
 
+// A line names its order item directly or by VPO number and style
+const customsEntryLineSchema = z.object({
+    lineNo: z.number().int().positive().optional().nullable(),
+    orderItemId: z.string().uuid().optional().nullable(),
+    vpoNumber: z.string().trim().optional().nullable(),
+    productCode: z.string().trim().optional().nullable(),
+    htsCode: z.string().trim().optional().nullable(),
+    quantity: z.number().int().nonnegative().optional().nullable(),
+    enteredValue: z.number().nonnegative(),
+    dutyAmount: z.number().nonnegative(),
+    mpfAmount: z.number().nonnegative().optional().nullable(),
+    hmfAmount: z.number().nonnegative().optional().nullable(),
+});
+
+export const customsEntrySchema = z.object({
+    entryNo: z.string().trim().min(1, 'Entry Number is required'),
+    entryDate: DateString.optional().nullable(),
+    containerNo: z.string().trim().optional().nullable(),
+    broker: z.string().trim().optional().nullable(),
+    notes: z.string().optional().nullable(),
+    lines: z.array(customsEntryLineSchema).min(1, 'An entry needs at least one line'),
+});
+
 // ==========================================
 // Finance Schemas
 // ==========================================
@@ -95,7 +200,7 @@ export const baseFinanceDocSchema = z.object({
     orderId: z.string().uuid(),
     containerId: z.string().uuid().optional().nullable(),
     dueDate: DateString.optional().nullable(),
-    currency: z.string().optional().nullable(),
+    currency: optionalCurrencyCode,
     amount: DecimalString,
     status: z.string().optional().nullable(),
 });
@@ -118,7 +223,344 @@ export const paymentSchema = z.object({
     targetId: z.string().uuid(),
     direction: z.enum(['IN', 'OUT']),
     amount: DecimalString,
+    // Defaults to the document's currency
+    currency: optionalCurrencyCode,
+    paymentDate: DateString.optional().nullable(),
     method: z.string().optional().nullable(),
     referenceNo: z.string().optional().nullable(),
     notes: z.string().optional().nullable(),
 });
+
+// A credit or debit note is always in the currency of the document it adjusts
+export const financeNoteSchema = z.object({
+    noteType: z.enum(FINANCE_NOTE_TYPES),
+    targetType: z.enum(FINANCE_NOTE_TARGETS),
+    targetId: z.string().uuid(),
+    noteNo: z.string().trim().optional().nullable(),
+    amount: DecimalString,
+    issueDate: DateString.optional().nullable(),
+    reason: z.enum(FINANCE_NOTE_REASONS).default('OTHER'),
+    description: z.string().trim().optional().nullable(),
+});
+
+// Base-currency units per one unit of `currency`, effective from `rateDate`
+export const fxRateSchema = z.object({
+    currency: currencyCode,
+    rateDate: DateString,
+    rate: z.number().positive('Rate must be positive'),
+    notes: z.string().trim().optional().nullable(),
+});
+
+// ==========================================
+// AI Extraction Schemas
+// ==========================================
+
+// AI output uses null for missing values and strings like "$16,533.00" for amounts.
+const ExtractedNumber = z
+    .union([z.number(), z.string(), z.null()])
+    .optional()
+    .transform((val, ctx) => {
+        if (val === null || val === undefined) return 0;
+        if (typeof val === 'number') return val;
+        const cleaned = val.replace(/[$,\s]/g, '');
+        if (cleaned === '') return 0;
+        const n = Number(cleaned);
+        if (!Number.isFinite(n)) {
+            ctx.addIssue({ code: 'custom', message: `Expected a number, received "${val}"` });
+            return z.NEVER;
+        }
+        return n;
+    });
+
+const OptionalExtractedNumber = ExtractedNumber.transform((val) => val || undefined);
+
+const ExtractedText = z
+    .string()
+    .nullish()
+    .transform((val) => val?.trim() || undefined);
+
+// Sizes with a zero or blank quantity are dropped; an empty map becomes undefined.
+const ExtractedSizeBreakdown = z
+    .union([
+        z.record(z.string(), ExtractedNumber),
+        z.array(z.object({ size: z.string(), qty: ExtractedNumber })),
+        z.null(),
+    ])
+    .optional()
+    .transform((val) => {
+        if (!val) return undefined;
+        const entries = Array.isArray(val)
+            ? val.map(({ size, qty }) => [size, qty] as const)
+            : Object.entries(val);
+        const breakdown = Object.fromEntries(
+            entries.filter(([size, qty]) => size.trim() !== '' && qty > 0)
+        );
+        return Object.keys(breakdown).length > 0 ? breakdown : undefined;
+    });
+
+export const extractedOrderItemSchema = z.object({
+    productCode: z.string().trim().min(1, 'productCode is required'),
+    description: ExtractedText.transform((val) => val ?? ''),
+    productClass: ExtractedText,
+    collection: ExtractedText,
+    material: ExtractedText,
+    color: ExtractedText,
+    customerUnitPrice: OptionalExtractedNumber,
+    vendorUnitPrice: OptionalExtractedNumber,
+    unitPrice: ExtractedNumber,
+    totalQty: ExtractedNumber,
+    extension: ExtractedNumber,
+    sizeBreakdown: ExtractedSizeBreakdown,
+});
+
+/** Shape of `ExtractedOrderData` as returned by an AI model, coerced to the typed form. */
+export const extractedOrderSchema = z.object({
+    vpoNumber: ExtractedText,
+    orderDate: ExtractedText,
+    expShipDate: ExtractedText,
+    cancelDate: ExtractedText,
+    soReference: ExtractedText,
+    customerName: ExtractedText,
+    customerAddress: ExtractedText,
+    supplierName: ExtractedText,
+    supplierAddress: ExtractedText,
+    shipTo: ExtractedText,
+    shipVia: ExtractedText,
+    shipmentTerms: ExtractedText,
+    paymentTerms: ExtractedText,
+    agent: ExtractedText,
+    customerNotes: ExtractedText,
+    items: z.array(extractedOrderItemSchema),
+    subtotalQty: OptionalExtractedNumber,
+    subtotalAmount: OptionalExtractedNumber,
+});
+
+export const extractionProviderConfigSchema = z.object({
+    name: z.string().min(1, 'Provider name is required'),
+    kind: z.enum(['gemini', 'openai-compatible', 'rule-based']),
+    model: z.string().optional(),
+    endpoint: z.string().url().optional(),
+    apiKeyEnv: z.string().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    maxRetries: z.number().int().nonnegative().optional(),
+    retryDelayMs: z.number().int().nonnegative().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+});
+
+/** A table rebuilt from PDF text positions (`PdfTableGrid`), as sent back by the uploader. */
+export const pdfTableGridSchema = z.object({
+    page: z.number().int(),
+    header: z.array(z.string()),
+    columns: z.array(z.object({ label: z.string(), x0: z.number(), x1: z.number() })),
+    rows: z.array(z.array(z.string())),
+});
+
+/** One OCR'd page (`OcrPageResult`) from /api/parse-pdf. */
+export const ocrPageResultSchema = z.object({
+    page: z.number().int(),
+    text: z.string(),
+    confidence: z.number().min(0).max(1),
+});
+
+// ==========================================
+// Spreadsheet Import Schemas
+// ==========================================
+
+const spreadsheetFields = [...SPREADSHEET_ORDER_FIELDS, ...SPREADSHEET_ITEM_FIELDS] as const;
+
+export const spreadsheetMappingSchema = z.object({
+    sheetName: z.string().optional().nullable(),
+    headerRow: z.number().int().positive(),
+    columns: z.partialRecord(z.enum(spreadsheetFields), z.string().min(1)),
+    sizeColumns: z.array(z.string().min(1)),
+});
+
+export const saveSpreadsheetMappingSchema = z.object({
+    customerName: z.string().trim().min(1, 'Customer name is required'),
+    mapping: spreadsheetMappingSchema,
+});
+
+// ==========================================
+// Customer Template Schemas
+// ==========================================
+
+const templateRuleSchema = z.object({
+    target: z.enum(['order', 'item']),
+    field: z.enum([...TEMPLATE_ORDER_FIELDS, ...TEMPLATE_ITEM_FIELDS]),
+    op: z.enum(TEMPLATE_RULE_OPS),
+    pattern: z.string().optional().nullable(),
+    value: z.string().optional().nullable(),
+});
+
+const phraseList = z.array(z.string().trim().min(1));
+
+export const customerTemplateSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    customerName: z.string().trim().optional().nullable(),
+    enabled: z.boolean().default(true),
+    priority: z.number().int().default(100),
+    keywords: phraseList.default([]),
+    headerFingerprint: phraseList.default([]),
+    minScore: z.number().int().positive().default(1),
+    promptAdditions: z.string().optional().nullable(),
+    fieldDefaults: z.partialRecord(z.enum(TEMPLATE_ORDER_FIELDS), z.string()).default({}),
+    sizeAliases: z.record(z.string().trim().min(1), z.string().trim().min(1)).default({}),
+    rules: z.array(templateRuleSchema).default([]),
+});
+
+// ==========================================
+// Tariff Rule Schemas
+// ==========================================
+
+// Rates are fractions of the entered value: 0.165 = 16.5%
+const tariffRate = z.number().min(0).max(1);
+// Empty date inputs arrive as ""; both ends are optional
+const tariffDay = z
+    .string()
+    .regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Use YYYY-MM-DD')
+    .transform((val) => val || null)
+    .optional()
+    .nullable();
+
+const effectiveDates = {
+    effectiveFrom: tariffDay,
+    effectiveTo: tariffDay,
+};
+
+type DatedEntry = { effectiveFrom?: string | null; effectiveTo?: string | null };
+
+const hasValidRange = (entry: DatedEntry) =>
+    !entry.effectiveFrom || !entry.effectiveTo || entry.effectiveFrom < entry.effectiveTo;
+
+/** Versions of one heading must not be in force on the same day. */
+function versionsOverlap(entries: DatedEntry[]) {
+    const sorted = [...entries].sort((a, b) =>
+        (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? '')
+    );
+    return sorted.some((entry, index) => {
+        const next = sorted[index + 1];
+        return (
+            next &&
+            (!entry.effectiveTo || !next.effectiveFrom || next.effectiveFrom < entry.effectiveTo)
+        );
+    });
+}
+
+const htsRateSchema = z.object({
+    htsCode: z.string().trim().optional().nullable(),
+    statisticalCodes: z.partialRecord(z.enum(GENDER_GROUPS), statisticalHtsCode).optional().nullable(),
+    rate: tariffRate,
+});
+
+export const tariffRuleSetSchema = z.object({
+    headings: z
+        .array(
+            z
+                .object({
+                    code: z.string().trim().min(1, 'HTS heading is required'),
+                    description: z.string().trim().optional().nullable(),
+                    categoryKeywords: phraseList.default([]),
+                    priority: z.number().int().default(100),
+                    isFallback: z.boolean().default(false),
+                    rates: z.partialRecord(z.enum(FABRIC_BUCKETS), htsRateSchema),
+                    ...effectiveDates,
+                })
+                .refine(hasValidRange, 'Effective to must be after effective from')
+        )
+        .refine((headings) => {
+            const codes = new Set(headings.map((heading) => heading.code));
+            return [...codes].every(
+                (code) => !versionsOverlap(headings.filter((heading) => heading.code === code))
+            );
+        }, 'Versions of an HTS heading must not overlap'),
+    surcharges: z.array(
+        z
+            .object({
+                countryCode,
+                name: z.string().trim().min(1, 'Name is required'),
+                rate: tariffRate,
+                enabled: z.boolean().default(true),
+                notes: z.string().trim().optional().nullable(),
+                ...effectiveDates,
+            })
+            .refine(hasValidRange, 'Effective to must be after effective from')
+    ),
+    originKeywords: z
+        .array(
+            z.object({
+                countryCode,
+                keywords: phraseList.min(1, 'Add at least one keyword'),
+                priority: z.number().int().default(100),
+            })
+        )
+        .refine(
+            (rules) => new Set(rules.map((rule) => rule.countryCode)).size === rules.length,
+            'One keyword rule per country'
+        ),
+});
+
+// What-if run: nothing is saved, so surcharges carry no effective dates
+export const tariffScenarioSchema = z.object({
+    orderIds: z.array(z.string().uuid()).optional().nullable(),
+    originCountry: optionalCountryCode,
+    styleOrigins: z.record(z.string().trim().min(1), countryCode).optional().nullable(),
+    surcharges: z
+        .array(
+            z.object({
+                countryCode,
+                name: z.string().trim().min(1, 'Name is required'),
+                rate: tariffRate,
+                enabled: z.boolean().default(true),
+            })
+        )
+        .optional()
+        .nullable(),
+});
+
+// Recompute job: every filter is optional; `apply` writes what the preview shows
+export const orderRecomputeSchema = z
+    .object({
+        stages: z.array(z.enum(WORKFLOW_STAGES)).optional().nullable(),
+        shipFrom: tariffDay,
+        shipTo: tariffDay,
+        tariffKey: z.string().trim().optional().nullable(),
+        orderIds: z.array(z.string().uuid()).optional().nullable(),
+        apply: z.boolean().default(false),
+    })
+    .refine(
+        (filters) => !filters.shipFrom || !filters.shipTo || filters.shipFrom <= filters.shipTo,
+        { message: 'Ship date "to" must not be before "from"', path: ['shipTo'] }
+    );
+
+// ==========================================
+// Landed Cost Schemas
+// ==========================================
+
+const optionalScope = z
+    .string()
+    .trim()
+    .transform((val) => val || null)
+    .optional()
+    .nullable();
+
+export const landedCostComponentsSchema = z.object({
+    components: z.array(
+        z
+            .object({
+                name: z.string().trim().min(1, 'Name is required'),
+                basis: z.enum(LANDED_COST_BASES),
+                rate: z.number().min(0),
+                containerCbm: z.number().positive().optional().nullable(),
+                shipVia: optionalScope,
+                originCountry: optionalCountryCode,
+                customerName: optionalScope,
+                enabled: z.boolean().default(true),
+                sortOrder: z.number().int().optional(),
+                notes: z.string().trim().optional().nullable(),
+            })
+            .refine(
+                (component) => !component.basis.startsWith('PERCENT_') || component.rate <= 1,
+                { message: 'Percentages are fractions: 0.05 = 5%', path: ['rate'] }
+            )
+    ),
+});
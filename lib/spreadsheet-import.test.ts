@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySpreadsheetMapping,
+  guessSpreadsheetMapping,
+  mappingMatches,
+  pickSavedMapping,
+  type SheetTable,
+} from './spreadsheet-import';
+import { readSpreadsheet } from './spreadsheet-read';
+
+const csv = [
+  'ACME KIDS PURCHASE ORDER,,,,,,,,',
+  ',,,,,,,,',
+  'PO #,Style,Description,Color,S,M,L,Unit Price,Amount',
+  'VPO-2041,AB100,Junior Tee,NAVY,100,200,100,2.75,"1,100.00"',
+  'VPO-2041,AB200,Junior Short,RED,,50,50,$3.10,310.00',
+  ',,,,,,,,',
+  'Total,,,,,,,,"1,410.00"',
+].join('\n');
+
+function table(): SheetTable {
+  return readSpreadsheet(new TextEncoder().encode(csv))[0];
+}
+
+describe('readSpreadsheet / guessSpreadsheetMapping', () => {
+  it('finds the header row and maps common PO columns and size columns', () => {
+    const mapping = guessSpreadsheetMapping(table());
+    expect(mapping.headerRow).toBe(3);
+    expect(mapping.columns).toMatchObject({
+      vpoNumber: 'PO #',
+      productCode: 'Style',
+      description: 'Description',
+      color: 'Color',
+      unitPrice: 'Unit Price',
+      extension: 'Amount',
+    });
+    expect(mapping.sizeColumns).toEqual(['S', 'M', 'L']);
+  });
+});
+
+describe('applySpreadsheetMapping', () => {
+  it('builds items with size breakdowns and reads the total row as the subtotal', () => {
+    const { data, skippedRows } = applySpreadsheetMapping(
+      table(),
+      guessSpreadsheetMapping(table())
+    );
+
+    expect(data.vpoNumber).toBe('VPO-2041');
+    expect(data.items).toHaveLength(2);
+    expect(data.items[0]).toMatchObject({
+      productCode: 'AB100',
+      color: 'NAVY',
+      totalQty: 400,
+      unitPrice: 2.75,
+      extension: 1100,
+      sizeBreakdown: { S: 100, M: 200, L: 100 },
+    });
+    expect(data.items[1]).toMatchObject({
+      unitPrice: 3.1,
+      totalQty: 100,
+      sizeBreakdown: { M: 50, L: 50 },
+    });
+    expect(data.subtotalAmount).toBe(1410);
+    expect(skippedRows).toEqual([]);
+  });
+
+  it('reads the address, agent and notes columns the PDF path also extracts', () => {
+    const sheet = readSpreadsheet(
+      new TextEncoder().encode(
+        [
+          'PO #,Customer,Customer Address,Vendor Address,Agent,Remarks,Style,Qty,Unit Price',
+          'VPO-7,Acme Kids,"1 Main St, NY",Ningbo CN,Li & Co,Hang on hangers,AB100,60,2.00',
+        ].join('\n')
+      )
+    )[0];
+    const mapping = guessSpreadsheetMapping(sheet);
+    expect(mapping.columns).toMatchObject({
+      customerName: 'Customer',
+      customerAddress: 'Customer Address',
+      supplierAddress: 'Vendor Address',
+      agent: 'Agent',
+      customerNotes: 'Remarks',
+    });
+    expect(applySpreadsheetMapping(sheet, mapping).data).toMatchObject({
+      customerAddress: '1 Main St, NY',
+      supplierAddress: 'Ningbo CN',
+      agent: 'Li & Co',
+      customerNotes: 'Hang on hangers',
+    });
+  });
+
+  it('only reuses a saved mapping when the file has every mapped header', () => {
+    const mapping = guessSpreadsheetMapping(table());
+    expect(mappingMatches(table(), mapping)).toBe(true);
+    expect(
+      mappingMatches(table(), { ...mapping, columns: { ...mapping.columns, shipVia: 'Mode' } })
+    ).toBe(false);
+  });
+});
+
+describe('pickSavedMapping', () => {
+  const mapping = () => guessSpreadsheetMapping(table());
+
+  it('applies the only matching mapping', () => {
+    const { match } = pickSavedMapping(
+      [table()],
+      [{ customerName: 'Other Co', mapping: mapping() }]
+    );
+    expect(match?.entry.customerName).toBe('Other Co');
+  });
+
+  it('picks the customer named on the sheet when several mappings match', () => {
+    const saved = [
+      { customerName: 'Beta Retail', mapping: mapping() },
+      { customerName: 'Acme  Kids', mapping: mapping() },
+    ];
+    const { match, matching } = pickSavedMapping([table()], saved);
+    expect(match?.entry.customerName).toBe('Acme  Kids');
+    expect(matching).toEqual(['Beta Retail', 'Acme  Kids']);
+  });
+
+  it('picks none when the matches cannot be told apart', () => {
+    const saved = [
+      { customerName: 'Beta Retail', mapping: mapping() },
+      { customerName: 'Gamma Stores', mapping: mapping() },
+    ];
+    expect(pickSavedMapping([table()], saved)).toEqual({
+      match: null,
+      matching: ['Beta Retail', 'Gamma Stores'],
+    });
+  });
+});
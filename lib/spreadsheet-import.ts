@@ -0,0 +1,314 @@
+import { validateExtraction } from './extraction-validation';
+import type { ExtractedOrderData, OrderItem } from './parser';
+
+/**
+ * Spreadsheet POs (XLSX / CSV). A sheet is read as a grid of display strings, then a
+ * column mapping — saved per customer — turns it into the same `ExtractedOrderData`
+ * the PDF pipeline produces. Workbook parsing itself lives in `spreadsheet-read`, so
+ * this module stays free of the xlsx dependency for the browser.
+ */
+
+export interface SheetTable {
+  name: string;
+  /** Cell text as displayed in the sheet, so dates keep the customer's format. */
+  rows: string[][];
+}
+
+export const SPREADSHEET_ORDER_FIELDS = [
+  'vpoNumber',
+  'orderDate',
+  'expShipDate',
+  'cancelDate',
+  'soReference',
+  'customerName',
+  'customerAddress',
+  'supplierName',
+  'supplierAddress',
+  'agent',
+  'shipTo',
+  'shipVia',
+  'shipmentTerms',
+  'paymentTerms',
+  'customerNotes',
+] as const;
+
+export const SPREADSHEET_ITEM_FIELDS = [
+  'productCode',
+  'description',
+  'color',
+  'material',
+  'collection',
+  'productClass',
+  'totalQty',
+  'unitPrice',
+  'vendorUnitPrice',
+  'extension',
+] as const;
+
+export type SpreadsheetOrderField = (typeof SPREADSHEET_ORDER_FIELDS)[number];
+export type SpreadsheetItemField = (typeof SPREADSHEET_ITEM_FIELDS)[number];
+export type SpreadsheetField = SpreadsheetOrderField | SpreadsheetItemField;
+
+export interface SpreadsheetMapping {
+  /** Preferred sheet; the first sheet is used when it is missing from the file. */
+  sheetName?: string | null;
+  /** 1-based row holding the column headers. */
+  headerRow: number;
+  /** Field → header text. Headers rather than positions, so reordered columns still map. */
+  columns: Partial<Record<SpreadsheetField, string>>;
+  /** Headers whose columns hold per-size quantities; the header becomes the size label. */
+  sizeColumns: string[];
+}
+
+/** Rows scanned when looking for the header row. */
+const HEADER_SCAN_ROWS = 20;
+
+const FIELD_ALIASES: Record<SpreadsheetField, RegExp> = {
+  vpoNumber: /^(vpo|po|purchase order)\s*(#|no\.?|num(ber)?)?$/i,
+  orderDate: /^(order|po)\s*date$/i,
+  expShipDate: /^(exp(ected)?\.?\s*)?(ship|ex[- ]?factory)\s*date$|^etd$/i,
+  cancelDate: /^cancel(lation)?\s*date$|^etw$/i,
+  soReference: /^(so|sales order)\s*(#|no\.?|ref(erence)?)?$/i,
+  customerName: /^(customer|buyer|bill to)(\s*name)?$/i,
+  customerAddress: /^(customer|buyer|bill to)\s*address$/i,
+  supplierName: /^(supplier|vendor|factory)(\s*name)?$/i,
+  supplierAddress: /^(supplier|vendor|factory)\s*address$/i,
+  agent: /^(buying\s*)?agent(\s*name)?$/i,
+  shipTo: /^ship\s*to$/i,
+  shipVia: /^ship\s*via$|^mode$/i,
+  shipmentTerms: /^(shipment|delivery)\s*terms$|^incoterms?$/i,
+  paymentTerms: /^payment\s*terms$/i,
+  customerNotes: /^(notes?|remarks?|comments?|special instructions)$/i,
+  productCode: /^(style|item|sku|product)\s*(#|no\.?|code|number)?$/i,
+  description: /^(description|desc\.?|item description|style name)$/i,
+  color: /^colou?r(\s*(name|code))?$/i,
+  material: /^(material|fabric|content)$/i,
+  collection: /^(collection|season)$/i,
+  productClass: /^(class|category|product class)$/i,
+  totalQty: /^(total\s*)?(qty|quantity|units|pcs)$/i,
+  unitPrice: /^(unit\s*)?(price|cost|fob)(\s*\/?\s*(unit|pc))?$/i,
+  vendorUnitPrice: /^(vendor|factory)\s*(price|cost)$/i,
+  extension: /^(extension|amount|total\s*(amount|value|cost)|ext\.?\s*(cost|price)?)$/i,
+};
+
+const SIZE_HEADER =
+  /^(xxs|xs|s|m|l|xl|xxl|xxxl|[2-6]xl|os|one size|\d{1,2}[tm]?|\d{1,2}\/\d{1,2}|\d{1,2}-\d{1,2}m?|[0-9]+x)$/i;
+
+const normalizeHeader = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const SPREADSHEET_EXTENSION = /\.(xlsx|xlsm|xls|csv)$/i;
+
+export function isSpreadsheetFile(fileName: string): boolean {
+  return SPREADSHEET_EXTENSION.test(fileName);
+}
+
+/** The header row is the first of the top rows with the most non-empty text cells. */
+export function findHeaderRow(rows: string[][]): number {
+  let best = 0;
+  let bestCount = -1;
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const count = row.filter((cell) => cell && Number.isNaN(Number(cell.replace(/,/g, '')))).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best + 1;
+}
+
+export function sheetHeaders(table: SheetTable, headerRow: number): string[] {
+  return (table.rows[headerRow - 1] ?? []).map(normalizeHeader);
+}
+
+/** First-time mapping for a customer: match headers against common PO column names. */
+export function guessSpreadsheetMapping(table: SheetTable): SpreadsheetMapping {
+  const headerRow = findHeaderRow(table.rows);
+  const headers = sheetHeaders(table, headerRow).filter(Boolean);
+  const columns: SpreadsheetMapping['columns'] = {};
+  const used = new Set<string>();
+
+  for (const field of [...SPREADSHEET_ITEM_FIELDS, ...SPREADSHEET_ORDER_FIELDS]) {
+    const header = headers.find((h) => !used.has(h) && FIELD_ALIASES[field].test(h));
+    if (header) {
+      columns[field] = header;
+      used.add(header);
+    }
+  }
+
+  return {
+    sheetName: table.name,
+    headerRow,
+    columns,
+    sizeColumns: headers.filter((h) => !used.has(h) && SIZE_HEADER.test(h)),
+  };
+}
+
+/** Pick the sheet a mapping refers to, falling back to the first one. */
+export function selectSheet(tables: SheetTable[], mapping?: Pick<SpreadsheetMapping, 'sheetName'>) {
+  return tables.find((table) => table.name === mapping?.sheetName) ?? tables[0];
+}
+
+/**
+ * True when every header the mapping relies on is present, i.e. a saved mapping can
+ * be applied to this file without asking the user again.
+ */
+export function mappingMatches(table: SheetTable, mapping: SpreadsheetMapping): boolean {
+  const headers = new Set(sheetHeaders(table, mapping.headerRow));
+  const required = [...Object.values(mapping.columns), ...mapping.sizeColumns].filter(Boolean);
+  return (
+    required.length > 0 &&
+    !!mapping.columns.productCode &&
+    required.every((header) => headers.has(header as string))
+  );
+}
+
+function toNumber(value: string | undefined): number {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value.trim());
+  const n = Number(value.replace(/[^0-9.-]/g, ''));
+  if (!Number.isFinite(n)) return 0;
+  return negative ? -Math.abs(n) : n;
+}
+
+const TOTAL_ROW = /^(sub\s*)?total\b|^grand total\b/i;
+
+export interface SpreadsheetApplyResult {
+  data: ExtractedOrderData;
+  /** 1-based sheet rows that had values but no product code. */
+  skippedRows: number[];
+}
+
+/**
+ * Turn the rows under the header into order items. Header-level fields take the first
+ * non-empty value in their column (POs often repeat them on every line); a "Total"
+ * row fills the subtotal used by the validator instead of becoming an item.
+ */
+export function applySpreadsheetMapping(
+  table: SheetTable,
+  mapping: SpreadsheetMapping
+): SpreadsheetApplyResult {
+  const headers = sheetHeaders(table, mapping.headerRow);
+  const indexOf = (header?: string) => (header ? headers.indexOf(normalizeHeader(header)) : -1);
+
+  const fieldIndex = new Map<SpreadsheetField, number>();
+  for (const [field, header] of Object.entries(mapping.columns)) {
+    const index = indexOf(header);
+    if (index !== -1) fieldIndex.set(field as SpreadsheetField, index);
+  }
+  const sizeIndex = mapping.sizeColumns
+    .map((header) => ({ size: normalizeHeader(header), index: indexOf(header) }))
+    .filter((entry) => entry.index !== -1);
+
+  const cell = (row: string[], field: SpreadsheetField) => {
+    const index = fieldIndex.get(field);
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const data: ExtractedOrderData = { items: [] };
+  const skippedRows: number[] = [];
+
+  table.rows.slice(mapping.headerRow).forEach((row, offset) => {
+    if (row.every((value) => !value)) return;
+
+    for (const field of SPREADSHEET_ORDER_FIELDS) {
+      const value = cell(row, field);
+      if (value && !data[field]) data[field] = value;
+    }
+
+    const productCode = cell(row, 'productCode');
+    if (TOTAL_ROW.test(productCode) || (!productCode && row.some((v) => TOTAL_ROW.test(v)))) {
+      data.subtotalQty = toNumber(cell(row, 'totalQty')) || data.subtotalQty;
+      data.subtotalAmount = toNumber(cell(row, 'extension')) || data.subtotalAmount;
+      return;
+    }
+    if (!productCode) {
+      skippedRows.push(mapping.headerRow + offset + 1);
+      return;
+    }
+
+    const sizeBreakdown: Record<string, number> = {};
+    for (const { size, index } of sizeIndex) {
+      const qty = toNumber(row[index]);
+      if (qty > 0) sizeBreakdown[size] = qty;
+    }
+    const sizeTotal = Object.values(sizeBreakdown).reduce((sum, qty) => sum + qty, 0);
+
+    const unitPrice = toNumber(cell(row, 'unitPrice'));
+    const totalQty = toNumber(cell(row, 'totalQty')) || sizeTotal;
+    const item: OrderItem = {
+      productCode,
+      description: cell(row, 'description'),
+      unitPrice,
+      customerUnitPrice: unitPrice || undefined,
+      totalQty,
+      extension: toNumber(cell(row, 'extension')) || Math.round(unitPrice * totalQty * 100) / 100,
+    };
+    for (const field of ['color', 'material', 'collection', 'productClass'] as const) {
+      const value = cell(row, field);
+      if (value) item[field] = value;
+    }
+    const vendorUnitPrice = toNumber(cell(row, 'vendorUnitPrice'));
+    if (vendorUnitPrice) item.vendorUnitPrice = vendorUnitPrice;
+    if (sizeTotal > 0) item.sizeBreakdown = sizeBreakdown;
+
+    data.items.push(item);
+  });
+
+  return { data, skippedRows };
+}
+
+/** Tab-separated rendering of a sheet, kept as the order's "extracted text". */
+export function sheetToText(table: SheetTable): string {
+  return table.rows.map((row) => row.join('\t').trimEnd()).join('\n');
+}
+
+/**
+ * Everything the review form needs from a mapped sheet. A customer column wins; otherwise
+ * the customer whose mapping was used fills in the name.
+ */
+export function buildSpreadsheetExtraction(
+  table: SheetTable,
+  mapping: SpreadsheetMapping,
+  customerName?: string | null
+) {
+  const { data, skippedRows } = applySpreadsheetMapping(table, mapping);
+  if (!data.customerName && customerName?.trim()) data.customerName = customerName.trim();
+  return { data, skippedRows, warnings: validateExtraction(data), text: sheetToText(table) };
+}
+
+export interface SavedSpreadsheetMapping {
+  customerName: string;
+  mapping: SpreadsheetMapping;
+}
+
+const normalizeName = (value: string) => value.replace(/\s+/g, ' ').trim().toUpperCase();
+
+/** The customer's name appears somewhere on the sheet, e.g. in a title or a customer column. */
+function mentionsCustomer(table: SheetTable, customerName: string): boolean {
+  const name = normalizeName(customerName);
+  return !!name && table.rows.some((row) => row.some((cell) => normalizeName(cell).includes(name)));
+}
+
+/**
+ * The saved mapping to apply to `sheets` without asking. Several customers can share a
+ * header layout, so matching headers alone only decide when one mapping matches;
+ * otherwise the one customer named on the sheet wins. `matching` lists every customer
+ * whose mapping fits, for the message when none can be picked.
+ */
+export function pickSavedMapping<T extends SavedSpreadsheetMapping>(
+  sheets: SheetTable[],
+  saved: T[]
+) {
+  const candidates = saved.flatMap((entry) => {
+    const table = selectSheet(sheets, entry.mapping);
+    if (!mappingMatches(table, entry.mapping)) return [];
+    const extraction = buildSpreadsheetExtraction(table, entry.mapping, entry.customerName);
+    return extraction.data.items.length > 0 ? [{ entry, table, extraction }] : [];
+  });
+
+  const named = candidates.filter((candidate) =>
+    mentionsCustomer(candidate.table, candidate.entry.customerName)
+  );
+  const match = candidates.length === 1 ? candidates[0] : named.length === 1 ? named[0] : null;
+  return { match, matching: candidates.map((candidate) => candidate.entry.customerName) };
+}
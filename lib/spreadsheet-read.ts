@@ -0,0 +1,22 @@
+import * as XLSX from 'xlsx';
+import type { SheetTable } from './spreadsheet-import';
+
+/** Sheets longer than this are cut off; a PO never comes close. */
+const MAX_ROWS = 5000;
+
+/** Parse an uploaded workbook or CSV into one grid per sheet. */
+export function readSpreadsheet(data: ArrayBuffer | Uint8Array): SheetTable[] {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: false, dense: true });
+  return workbook.SheetNames.map((name) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: true,
+    });
+    return {
+      name,
+      rows: rows.slice(0, MAX_ROWS).map((row) => row.map((cell) => String(cell ?? '').trim())),
+    };
+  });
+}
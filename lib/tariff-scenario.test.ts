@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  scenarioOrigin,
+  simulateOrder,
+  summarizeScenario,
+  type ScenarioOrderInput,
+} from './tariff-scenario';
+import { DEFAULT_TARIFF_RULES, tariffRulesAsOf } from './tariffs';
+
+const order: ScenarioOrderInput = {
+  id: 'order-1',
+  vpoNumber: 'VPO-1',
+  customerName: 'Acme',
+  originCountry: 'CN',
+  rules: tariffRulesAsOf(DEFAULT_TARIFF_RULES, '2025-06-30'),
+  tariffMap: new Map(),
+  items: [
+    {
+      id: 'item-1',
+      productCode: 'TEE-1',
+      description: 'Womens tee',
+      collection: null,
+      material: '100% cotton',
+      quantity: 100,
+      customerUnitPrice: 10,
+      vendorUnitPrice: 5,
+    },
+    {
+      id: 'item-2',
+      productCode: 'HOOD-1',
+      description: 'Mens hoodie',
+      collection: null,
+      material: '100% polyester',
+      quantity: 10,
+      customerUnitPrice: 20,
+      vendorUnitPrice: 10,
+    },
+  ],
+};
+
+describe('tariff scenarios', () => {
+  it('gives a style move priority over the blanket origin', () => {
+    const scenario = { originCountry: 'bd', styleOrigins: { 'tee-1': 'vn' } };
+    expect(scenarioOrigin('TEE-1', 'CN', scenario)).toBe('VN');
+    expect(scenarioOrigin('HOOD-1', 'CN', scenario)).toBe('BD');
+    expect(scenarioOrigin('HOOD-1', 'CN', {})).toBe('CN');
+  });
+
+  it('reprices duty, 3PL and margin when a style moves to Vietnam', () => {
+    const result = simulateOrder(order, { styleOrigins: { 'TEE-1': 'VN' } });
+    const [tee, hoodie] = result.lines;
+
+    expect(tee.baselineRate).toBe(0.44);
+    expect(tee.scenarioRate).toBe(0.165);
+    // Duty on $500 vendor cost drops from $220 to $82.50; 3PL handling is 40% of it
+    expect(tee.baseline.dutyCost).toBe(220);
+    expect(tee.scenario.dutyCost).toBe(82.5);
+    expect(hoodie.scenarioRate).toBe(hoodie.baselineRate);
+
+    expect(result.delta.dutyCost).toBe(-137.5);
+    expect(result.delta.estimated3plCost).toBe(-55);
+    expect(result.delta.estimatedMargin).toBe(55);
+    expect(result.delta.revenue).toBe(0);
+  });
+
+  it('starts a split-sourced line from its own origin', () => {
+    const split = { ...order, items: [{ ...order.items[0], originCountry: 'vn' }] };
+    const [tee] = simulateOrder(split, {}).lines;
+    expect(tee.baselineOrigin).toBe('VN');
+    expect(tee.baselineRate).toBe(0.165);
+    expect(tee.scenarioRate).toBe(0.165);
+  });
+
+  it('replaces the surcharge programs and totals across orders', () => {
+    const result = simulateOrder(order, {
+      surcharges: [{ countryCode: 'CN', name: 'Section 301', rate: 0.5, enabled: true }],
+    });
+    expect(result.lines[0].scenarioRate).toBe(0.665);
+    expect(result.lines[1].scenarioRate).toBe(0.82);
+
+    const totals = summarizeScenario([result, result]);
+    expect(totals.delta.dutyCost).toBeCloseTo(2 * result.delta.dutyCost, 2);
+    expect(totals.baseline.revenue).toBe(2400);
+  });
+});
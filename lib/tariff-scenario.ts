@@ -0,0 +1,211 @@
+import { calculateEstimatedMargin, round2, round4 } from './finance-math';
+import {
+  DEFAULT_LANDED_COST_COMPONENTS,
+  componentsForOrder,
+  type LandedCostComponent,
+} from './landed-cost';
+import {
+  deriveTariffKey,
+  resolveTariffRate,
+  type TariffRuleSet,
+  type TariffSurchargeRule,
+} from './tariffs';
+
+/**
+ * What-if duty and margin for saved orders: the same tariff resolution and margin
+ * formula the orders use, run once as saved and once with the scenario's origin
+ * and surcharge changes. Nothing here touches the database.
+ */
+
+export interface TariffScenario {
+  /** Every line ships from this country instead of the supplier's. */
+  originCountry?: string | null;
+  /** Origin by style (product code); wins over `originCountry`. */
+  styleOrigins?: Record<string, string> | null;
+  /** Replaces the surcharge programs of every country; absent keeps the ones in force. */
+  surcharges?: TariffSurchargeRule[] | null;
+}
+
+export interface ScenarioItemInput {
+  id: string;
+  productCode: string | null;
+  description: string | null;
+  collection: string | null;
+  material: string | null;
+  quantity: number;
+  customerUnitPrice: number;
+  vendorUnitPrice: number;
+  htsCodeOverride?: string | null;
+  unitCbm?: number | null;
+  /** Set when the line ships from elsewhere than the order. */
+  originCountry?: string | null;
+}
+
+export interface ScenarioOrderInput {
+  id: string;
+  vpoNumber: string;
+  customerName: string | null;
+  originCountry: string;
+  /** Rules and manual rates in force on the order's tariff date. */
+  rules: TariffRuleSet;
+  tariffMap: Map<string, number>;
+  shipVia?: string | null;
+  /** Every landed-cost component; each line is scoped by its own origin. */
+  costComponents?: LandedCostComponent[];
+  items: ScenarioItemInput[];
+}
+
+export interface ScenarioFigures {
+  revenue: number;
+  dutyCost: number;
+  estimated3plCost: number;
+  estimatedMargin: number;
+  estimatedMarginRate: number;
+}
+
+export interface ScenarioLineResult {
+  itemId: string;
+  productCode: string | null;
+  description: string | null;
+  quantity: number;
+  baselineOrigin: string;
+  scenarioOrigin: string;
+  baselineRate: number;
+  scenarioRate: number;
+  baseline: ScenarioFigures;
+  scenario: ScenarioFigures;
+}
+
+export interface ScenarioOrderResult {
+  orderId: string;
+  vpoNumber: string;
+  customerName: string | null;
+  baseline: ScenarioFigures;
+  scenario: ScenarioFigures;
+  delta: ScenarioFigures;
+  lines: ScenarioLineResult[];
+}
+
+function sumFigures(figures: ScenarioFigures[]): ScenarioFigures {
+  const revenue = round2(figures.reduce((sum, entry) => sum + entry.revenue, 0));
+  const estimatedMargin = round2(figures.reduce((sum, entry) => sum + entry.estimatedMargin, 0));
+  return {
+    revenue,
+    dutyCost: round2(figures.reduce((sum, entry) => sum + entry.dutyCost, 0)),
+    estimated3plCost: round2(figures.reduce((sum, entry) => sum + entry.estimated3plCost, 0)),
+    estimatedMargin,
+    estimatedMarginRate: revenue > 0 ? round4(estimatedMargin / revenue) : 0,
+  };
+}
+
+function diffFigures(after: ScenarioFigures, before: ScenarioFigures): ScenarioFigures {
+  return {
+    revenue: round2(after.revenue - before.revenue),
+    dutyCost: round2(after.dutyCost - before.dutyCost),
+    estimated3plCost: round2(after.estimated3plCost - before.estimated3plCost),
+    estimatedMargin: round2(after.estimatedMargin - before.estimatedMargin),
+    estimatedMarginRate: round4(after.estimatedMarginRate - before.estimatedMarginRate),
+  };
+}
+
+function lineFigures(
+  item: ScenarioItemInput,
+  tariffRate: number,
+  costComponents: LandedCostComponent[]
+): ScenarioFigures {
+  const estimate = calculateEstimatedMargin({
+    customerUnitPrice: item.customerUnitPrice,
+    vendorUnitPrice: item.vendorUnitPrice,
+    qty: item.quantity,
+    tariffRate,
+    costComponents,
+    unitCbm: item.unitCbm,
+  });
+  return {
+    revenue: estimate.customerRevenue,
+    dutyCost: estimate.dutyCost,
+    estimated3plCost: estimate.estimated3plCost,
+    estimatedMargin: estimate.estimatedMargin,
+    estimatedMarginRate: estimate.estimatedMarginRate,
+  };
+}
+
+/** Where a line ships from under the scenario: its style's move, the blanket move, or as saved. */
+export function scenarioOrigin(
+  productCode: string | null,
+  baselineOrigin: string,
+  scenario: TariffScenario
+): string {
+  const moves = Object.entries(scenario.styleOrigins ?? {});
+  const code = (productCode || '').trim().toUpperCase();
+  const styleMove = code && moves.find(([style]) => style.trim().toUpperCase() === code);
+  return (styleMove ? styleMove[1] : scenario.originCountry || baselineOrigin).toUpperCase();
+}
+
+export function simulateOrder(
+  order: ScenarioOrderInput,
+  scenario: TariffScenario
+): ScenarioOrderResult {
+  const scenarioRules: TariffRuleSet = scenario.surcharges
+    ? { ...order.rules, surcharges: scenario.surcharges }
+    : order.rules;
+  // Components scoped to an origin can change when a line moves
+  const costsFrom = (originCountry: string) =>
+    componentsForOrder(order.costComponents ?? DEFAULT_LANDED_COST_COMPONENTS, {
+      shipVia: order.shipVia,
+      originCountry,
+      customerName: order.customerName,
+    });
+
+  const lines = order.items.map((item): ScenarioLineResult => {
+    const baseTariffKey = deriveTariffKey(item);
+    const baselineOrigin = (item.originCountry || order.originCountry).toUpperCase();
+    const origin = scenarioOrigin(item.productCode, baselineOrigin, scenario);
+    const baselineRate = resolveTariffRate({
+      baseTariffKey,
+      originCountry: baselineOrigin,
+      tariffMap: order.tariffMap,
+      rules: order.rules,
+      htsCode: item.htsCodeOverride,
+    }).rate;
+    const scenarioRate = resolveTariffRate({
+      baseTariffKey,
+      originCountry: origin,
+      tariffMap: order.tariffMap,
+      rules: scenarioRules,
+      htsCode: item.htsCodeOverride,
+    }).rate;
+
+    return {
+      itemId: item.id,
+      productCode: item.productCode,
+      description: item.description,
+      quantity: item.quantity,
+      baselineOrigin,
+      scenarioOrigin: origin,
+      baselineRate,
+      scenarioRate,
+      baseline: lineFigures(item, baselineRate, costsFrom(baselineOrigin)),
+      scenario: lineFigures(item, scenarioRate, costsFrom(origin)),
+    };
+  });
+
+  const baseline = sumFigures(lines.map((line) => line.baseline));
+  const simulated = sumFigures(lines.map((line) => line.scenario));
+  return {
+    orderId: order.id,
+    vpoNumber: order.vpoNumber,
+    customerName: order.customerName,
+    baseline,
+    scenario: simulated,
+    delta: diffFigures(simulated, baseline),
+    lines,
+  };
+}
+
+/** Portfolio totals across simulated orders. */
+export function summarizeScenario(results: ScenarioOrderResult[]) {
+  const baseline = sumFigures(results.map((result) => result.baseline));
+  const scenario = sumFigures(results.map((result) => result.scenario));
+  return { baseline, scenario, delta: diffFigures(scenario, baseline) };
+}
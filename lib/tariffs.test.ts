@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TARIFF_RULES,
+  defaultTariffRateByTariffKey,
+  deriveTariffKey,
+  findBaseRateByHtsCode,
+  formatHtsCode,
+  inferOriginCountry,
+  resolveBaseRate,
+  resolveOrderOrigin,
+  resolveTariffRate,
+  savedOriginCountry,
+  suggestHtsCode,
+  tariffRuleTimeline,
+  tariffRulesAsOf,
+  toTariffDate,
+  type TariffRuleSet,
+} from './tariffs';
+
+describe('default tariff rules', () => {
+  it('stack the China surcharges on the HTS base rate', () => {
+    expect(defaultTariffRateByTariffKey('womens tee | cotton-rich', 'CN')).toBe(0.44);
+    expect(defaultTariffRateByTariffKey('womens tee | poly-rich', 'VN')).toBe(0.32);
+    expect(defaultTariffRateByTariffKey('cn | kids pants | mixed')).toBe(0.424);
+    expect(resolveBaseRate('dress | poly-rich')).toEqual({
+      rate: 0.165,
+      headingCode: '6104',
+      htsCode: '6104',
+    });
+  });
+
+  it('falls back to the knit tee heading for unknown categories', () => {
+    expect(resolveBaseRate('apparel | poly-rich').headingCode).toBe('6109');
+    expect(defaultTariffRateByTariffKey('apparel | mixed', 'BD')).toBe(0.165);
+  });
+
+  it('guesses the origin from supplier keywords', () => {
+    expect(inferOriginCountry('Acme Garment', 'Ho Chi Minh City, Vietnam')).toBe('VN');
+    expect(inferOriginCountry('Ningbo Knitting', 'Zhejiang, PRC')).toBe('CN');
+    expect(inferOriginCountry('Unknown Mill', '')).toBe('CN');
+  });
+
+  it('prefers a hand-set origin, then the vendor master, then the guess', () => {
+    const supplier = { supplierName: 'Acme Garment', supplierAddress: 'Hanoi, Vietnam' };
+    expect(
+      resolveOrderOrigin({ ...supplier, originCountry: 'kh', originSource: 'MANUAL' }, 'BD')
+    ).toEqual({
+      originCountry: 'KH',
+      originSource: 'MANUAL',
+    });
+    // A stored vendor or guessed origin is re-resolved, so a vendor country set later wins
+    expect(
+      resolveOrderOrigin({ ...supplier, originCountry: 'VN', originSource: 'GUESSED' }, 'bd')
+    ).toEqual({
+      originCountry: 'BD',
+      originSource: 'VENDOR',
+    });
+    expect(resolveOrderOrigin(supplier, null)).toEqual({
+      originCountry: 'VN',
+      originSource: 'GUESSED',
+    });
+    expect(savedOriginCountry({ ...supplier, originCountry: 'kh' })).toBe('KH');
+    expect(savedOriginCountry({ ...supplier, originCountry: null })).toBe('VN');
+  });
+});
+
+describe('custom tariff rules', () => {
+  const rules: TariffRuleSet = {
+    headings: [
+      {
+        code: '6110',
+        categoryKeywords: ['hoodie'],
+        priority: 1,
+        isFallback: false,
+        rates: { 'poly-rich': { htsCode: '6110.30.3059', rate: 0.32 }, mixed: { rate: 0.1 } },
+      },
+    ],
+    surcharges: [
+      { countryCode: 'VN', name: 'Reciprocal', rate: 0.2, enabled: true },
+      { countryCode: 'VN', name: 'Expired', rate: 0.5, enabled: false },
+    ],
+    originKeywords: [{ countryCode: 'VN', keywords: ['saigon'], priority: 1 }],
+  };
+
+  it('prices from the supplied headings and surcharges', () => {
+    expect(resolveBaseRate('mens hoodie | poly-rich', rules).htsCode).toBe('6110.30.3059');
+    expect(resolveBaseRate('mens hoodie | cotton-rich', rules).rate).toBe(0.1);
+    // No heading and no fallback: no base rate
+    expect(resolveBaseRate('tee | cotton-rich', rules).rate).toBe(0);
+    expect(defaultTariffRateByTariffKey('mens hoodie | poly-rich', 'VN', rules)).toBe(0.52);
+    expect(defaultTariffRateByTariffKey('mens hoodie | poly-rich', 'CN', rules)).toBe(0.32);
+  });
+
+  it('applies surcharges to base-key overrides but not to country-specific keys', () => {
+    const tariffMap = new Map([
+      ['mens hoodie | mixed', 0.05],
+      ['vn | womens tee | mixed', 0.12],
+    ]);
+    expect(
+      resolveTariffRate({
+        baseTariffKey: 'mens hoodie | mixed',
+        originCountry: 'VN',
+        tariffMap,
+        rules,
+      })
+    ).toEqual({ rate: 0.25, matchedKey: 'mens hoodie | mixed' });
+    expect(
+      resolveTariffRate({
+        baseTariffKey: 'womens tee | mixed',
+        originCountry: 'VN',
+        tariffMap,
+        rules,
+      }).rate
+    ).toBe(0.12);
+  });
+
+  it('matches origin keywords at the start of a word only', () => {
+    expect(inferOriginCountry('Saigon Textiles', null, rules)).toBe('VN');
+    expect(inferOriginCountry('Besaigon Ltd', null, rules)).toBe('CN');
+  });
+});
+
+describe('effective-dated rules', () => {
+  it('prices an order with the surcharges in force on its date', () => {
+    const key = 'cn | womens tee | cotton-rich';
+    const rateOn = (day: string) =>
+      defaultTariffRateByTariffKey(key, undefined, tariffRulesAsOf(DEFAULT_TARIFF_RULES, day));
+    expect(rateOn('2024-12-01')).toBe(0.24);
+    expect(rateOn('2025-02-10')).toBe(0.34);
+    expect(rateOn('2025-03-04')).toBe(0.44);
+  });
+
+  it('picks the heading version for the date and lists the rate changes', () => {
+    const base = DEFAULT_TARIFF_RULES.headings[0];
+    const rules: TariffRuleSet = {
+      ...DEFAULT_TARIFF_RULES,
+      headings: [
+        { ...base, effectiveTo: '2026-01-01' },
+        {
+          ...base,
+          effectiveFrom: '2026-01-01',
+          rates: { mixed: { htsCode: '6109.10', rate: 0.2 } },
+        },
+      ],
+    };
+    expect(resolveBaseRate('tee | mixed', tariffRulesAsOf(rules, '2025-12-31')).rate).toBe(0.165);
+    expect(resolveBaseRate('tee | mixed', tariffRulesAsOf(rules, '2026-01-01')).rate).toBe(0.2);
+
+    expect(tariffRuleTimeline('tee | mixed', rules, 'CN')).toEqual([
+      { effectiveFrom: null, effectiveTo: '2025-02-04', rate: 0.24 },
+      { effectiveFrom: '2025-02-04', effectiveTo: '2025-03-04', rate: 0.34 },
+      { effectiveFrom: '2025-03-04', effectiveTo: '2026-01-01', rate: 0.44 },
+      { effectiveFrom: '2026-01-01', effectiveTo: null, rate: 0.475 },
+    ]);
+  });
+
+  it('reads order dates and falls back to today', () => {
+    expect(toTariffDate('2025-06-30')).toBe('2025-06-30');
+    expect(toTariffDate(new Date('2025-06-30T12:00:00Z'))).toBe('2025-06-30');
+    expect(toTariffDate('not a date')).toBe(toTariffDate());
+  });
+});
+
+describe('HTS classification', () => {
+  it('suggests the statistical code for the gender group', () => {
+    const key = deriveTariffKey({ description: 'Womens tee', material: '100% cotton' });
+    expect(suggestHtsCode(key)).toBe('6109.10.0040');
+    expect(suggestHtsCode('mens top | poly-rich')).toBe('6110.30.3053');
+    // No statistical code for the group: the subheading, then the heading
+    expect(suggestHtsCode('kids tee | poly-rich')).toBe('6109.90');
+    expect(suggestHtsCode('dress | cotton-rich')).toBe('6104');
+  });
+
+  it('groups HTS codes the way they are printed', () => {
+    expect(formatHtsCode('6109100040')).toBe('6109.10.0040');
+    expect(formatHtsCode(' 6109.10.00 ')).toBe('6109.10.00');
+    expect(formatHtsCode('61091')).toBeNull();
+    expect(formatHtsCode(null)).toBeNull();
+  });
+
+  it('prices an overridden code from its own rule or manual rate', () => {
+    expect(findBaseRateByHtsCode('6110.30.3059')).toMatchObject({
+      headingCode: '6110',
+      rate: 0.32,
+    });
+    expect(findBaseRateByHtsCode('6203.42.4011')).toBeNull();
+
+    const rules = tariffRulesAsOf(DEFAULT_TARIFF_RULES, '2025-06-30');
+    const params = { baseTariffKey: 'womens tee | cotton-rich', originCountry: 'CN', rules };
+    expect(resolveTariffRate({ ...params, tariffMap: new Map() }).rate).toBe(0.44);
+    expect(resolveTariffRate({ ...params, tariffMap: new Map(), htsCode: '6110303059' }).rate).toBe(
+      0.595
+    );
+    expect(
+      resolveTariffRate({
+        ...params,
+        tariffMap: new Map([['6110.30.3059', 0.1]]),
+        htsCode: '6110.30.3059',
+      })
+    ).toEqual({ rate: 0.375, matchedKey: '6110.30.3059' });
+    // A code no rule covers falls back to the tariff key
+    expect(
+      resolveTariffRate({ ...params, tariffMap: new Map(), htsCode: '6203.42.4011' }).rate
+    ).toBe(0.44);
+  });
+});
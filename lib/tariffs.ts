@@ -1,27 +1,226 @@
 const DEFAULT_ORIGIN_COUNTRY = 'CN';
 
-// China tariff add-ons (stacked on top of HTS base rate)
-// - 7.5%  → Section 301 existing tariff (knit apparel)
-// - 10.0% → Trump executive order (Feb 4, 2025, first tranche)
-// - 10.0% → Trump executive order (Feb 4, 2025, second tranche)
-const CHINA_SECTION_301_RATE = 0.075; // Section 301
-const CHINA_TRUMP_SURCHARGE = 0.20;  // 10% + 10% Feb 2025
-const CHINA_SPECIAL_RATE = CHINA_SECTION_301_RATE + CHINA_TRUMP_SURCHARGE; // total: 27.5%
-
-const COUNTRY_KEYWORDS: Array<{ country: string; keywords: string[] }> = [
-  {
-    country: 'CN',
-    keywords: [' china', ' prc', 'shanghai', 'guangdong', 'fujian', 'zhejiang', 'shenzhen'],
-  },
-  { country: 'VN', keywords: [' vietnam', 'ho chi minh', 'hanoi'] },
-  { country: 'BD', keywords: [' bangladesh', 'dhaka'] },
-  { country: 'IN', keywords: [' india', 'mumbai', 'delhi'] },
-  { country: 'PK', keywords: [' pakistan', 'karachi'] },
-  { country: 'ID', keywords: [' indonesia', 'jakarta'] },
-  { country: 'KH', keywords: [' cambodia', 'phnom penh'] },
-];
+export const FABRIC_BUCKETS = ['cotton-rich', 'poly-rich', 'mixed'] as const;
+
+export type FabricBucket = (typeof FABRIC_BUCKETS)[number];
+
+/** Who a garment is cut for, as read from the tariff key's category ("womens tee"). */
+export const GENDER_GROUPS = ['mens', 'womens', 'junior', 'kids', 'general'] as const;
+
+export type GenderGroup = (typeof GENDER_GROUPS)[number];
+
+/** A rule applies from `effectiveFrom` (inclusive) until `effectiveTo` (exclusive); open ends are unbounded. */
+export interface EffectiveDated {
+  /** YYYY-MM-DD */
+  effectiveFrom?: string | null;
+  /** YYYY-MM-DD */
+  effectiveTo?: string | null;
+}
+
+export interface HtsRateRule {
+  /** HTS subheading the rate belongs to, e.g. "6109.10". */
+  htsCode?: string | null;
+  /** Full 10-digit statistical codes by gender group; "general" covers groups not listed. */
+  statisticalCodes?: Partial<Record<GenderGroup, string>> | null;
+  rate: number;
+}
 
-type FabricBucket = 'cotton-rich' | 'poly-rich' | 'mixed';
+/**
+ * An HTS heading and the categories that fall under it, with a base rate per fiber bucket.
+ * A change of rates is a new version of the heading with its own effective dates.
+ */
+export interface HtsHeadingRule extends EffectiveDated {
+  id?: string;
+  code: string;
+  description?: string | null;
+  /** Matched as substrings of the tariff key's category ("womens tee"). */
+  categoryKeywords: string[];
+  /** Lower is checked first. */
+  priority: number;
+  /** Used for categories no heading claims. Only the first fallback heading counts. */
+  isFallback: boolean;
+  /** A bucket without its own rate uses the "mixed" rate. */
+  rates: Partial<Record<FabricBucket, HtsRateRule>>;
+}
+
+/** An additional duty stacked on top of the HTS base rate for one origin country. */
+export interface TariffSurchargeRule extends EffectiveDated {
+  id?: string;
+  countryCode: string;
+  name: string;
+  rate: number;
+  enabled: boolean;
+  notes?: string | null;
+}
+
+/** Words in a supplier's name or address that give away its country. */
+export interface OriginKeywordRule {
+  id?: string;
+  countryCode: string;
+  /** Matched case-insensitively at the start of a word. */
+  keywords: string[];
+  /** Lower is checked first. */
+  priority: number;
+}
+
+/**
+ * Headings and surcharges may hold several dated versions; the resolvers below expect
+ * the versions in force on one day, see `tariffRulesAsOf`.
+ */
+export interface TariffRuleSet {
+  headings: HtsHeadingRule[];
+  surcharges: TariffSurchargeRule[];
+  originKeywords: OriginKeywordRule[];
+}
+
+const COTTON_TEE_CODES = {
+  mens: '6109.10.0012',
+  womens: '6109.10.0040',
+  junior: '6109.10.0040',
+  kids: '6109.10.0045',
+};
+
+const COTTON_TOP_CODES = {
+  mens: '6110.20.2020',
+  womens: '6110.20.2035',
+  junior: '6110.20.2035',
+};
+
+/**
+ * Built-in rules, used until the tariff rule tables are filled in.
+ *
+ * HTS base rates (before any Section 301 or executive-order surcharges).
+ * Reference: HTS Chapter 61 (knit apparel), Chapter 62 (woven).
+ *
+ *  Cotton-rich:
+ *    6109.10  – Cotton knit tees/tanks:       16.5%
+ *    6110.20  – Cotton knit tops/hoodies:     16.5%
+ *    6103/04  – Cotton pants/shorts/leggings: 14.9%
+ *
+ *  Poly-rich (MMF / synthetic):
+ *    6109.90  – MMF knit tees/tanks:          32.0%
+ *    6110.30  – MMF knit tops/hoodies:        32.0%
+ *    6103.23  – MMF pants/shorts/leggings:    28.2%
+ *
+ *  Dresses/jackets: 16.5% regardless of fiber (mostly woven HTS 6104/6114)
+ *  Accessories:     ~6.8%
+ *
+ * China add-ons: 7.5% Section 301 (knit apparel) plus the two 10% executive-order
+ * tranches in force from Feb 4 and Mar 4, 2025, 27.5% in total.
+ *
+ * Statistical suffixes are filled in for tees and tops only; check them against the
+ * current HTSUS before filing. Other lines print their subheading until set.
+ */
+export const DEFAULT_TARIFF_RULES: TariffRuleSet = {
+  headings: [
+    {
+      code: '6109',
+      description: 'Knit T-shirts, singlets and tank tops',
+      categoryKeywords: ['tee', 'tank'],
+      priority: 10,
+      isFallback: true,
+      rates: {
+        'cotton-rich': {
+          htsCode: '6109.10',
+          statisticalCodes: COTTON_TEE_CODES,
+          rate: 0.165,
+        },
+        'poly-rich': {
+          htsCode: '6109.90',
+          statisticalCodes: {
+            mens: '6109.90.1007',
+            womens: '6109.90.1050',
+            junior: '6109.90.1050',
+          },
+          rate: 0.32,
+        },
+        mixed: { htsCode: '6109.10', statisticalCodes: COTTON_TEE_CODES, rate: 0.165 },
+      },
+    },
+    {
+      code: '6110',
+      description: 'Knit sweaters, pullovers and sweatshirts',
+      categoryKeywords: ['top', 'hoodie', 'sweatshirt'],
+      priority: 20,
+      isFallback: false,
+      rates: {
+        'cotton-rich': {
+          htsCode: '6110.20',
+          statisticalCodes: COTTON_TOP_CODES,
+          rate: 0.165,
+        },
+        'poly-rich': {
+          htsCode: '6110.30',
+          statisticalCodes: {
+            mens: '6110.30.3053',
+            womens: '6110.30.3059',
+            junior: '6110.30.3059',
+          },
+          rate: 0.32,
+        },
+        mixed: { htsCode: '6110.20', statisticalCodes: COTTON_TOP_CODES, rate: 0.165 },
+      },
+    },
+    {
+      code: '6104',
+      description: 'Dresses and jackets',
+      categoryKeywords: ['dress', 'jacket'],
+      priority: 30,
+      isFallback: false,
+      rates: { mixed: { htsCode: '6104', rate: 0.165 } },
+    },
+    {
+      code: '6103',
+      description: 'Knit trousers, shorts and leggings',
+      categoryKeywords: ['pants', 'shorts', 'leggings'],
+      priority: 40,
+      isFallback: false,
+      rates: {
+        'cotton-rich': { htsCode: '6103.19', rate: 0.149 },
+        'poly-rich': { htsCode: '6103.23', rate: 0.282 },
+        mixed: { htsCode: '6103.19', rate: 0.149 },
+      },
+    },
+    {
+      code: '6117',
+      description: 'Accessories (hats, bags, socks)',
+      categoryKeywords: ['accessory'],
+      priority: 50,
+      isFallback: false,
+      rates: { mixed: { htsCode: '6117', rate: 0.068 } },
+    },
+  ],
+  surcharges: [
+    { countryCode: 'CN', name: 'Section 301', rate: 0.075, enabled: true },
+    {
+      countryCode: 'CN',
+      name: 'Executive order Feb 2025 (tranche 1)',
+      rate: 0.1,
+      enabled: true,
+      effectiveFrom: '2025-02-04',
+    },
+    {
+      countryCode: 'CN',
+      name: 'Executive order Feb 2025 (tranche 2)',
+      rate: 0.1,
+      enabled: true,
+      effectiveFrom: '2025-03-04',
+    },
+  ],
+  originKeywords: [
+    {
+      countryCode: 'CN',
+      keywords: ['china', 'prc', 'shanghai', 'guangdong', 'fujian', 'zhejiang', 'shenzhen'],
+      priority: 10,
+    },
+    { countryCode: 'VN', keywords: ['vietnam', 'ho chi minh', 'hanoi'], priority: 20 },
+    { countryCode: 'BD', keywords: ['bangladesh', 'dhaka'], priority: 30 },
+    { countryCode: 'IN', keywords: ['india', 'mumbai', 'delhi'], priority: 40 },
+    { countryCode: 'PK', keywords: ['pakistan', 'karachi'], priority: 50 },
+    { countryCode: 'ID', keywords: ['indonesia', 'jakarta'], priority: 60 },
+    { countryCode: 'KH', keywords: ['cambodia', 'phnom penh'], priority: 70 },
+  ],
+};
 
 function normalizeSpaces(input: string): string {
   return input.trim().replace(/\s+/g, ' ');
@@ -88,19 +287,103 @@ export function normalizeProductClass(productClass: string): string {
   return normalizeTariffKey(productClass);
 }
 
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function byPriority<T extends { priority: number }>(rules: T[]): T[] {
+  return [...rules].sort((a, b) => a.priority - b.priority);
+}
+
+/** A tariff date (YYYY-MM-DD) from an order date; missing or unreadable dates mean today. */
+export function toTariffDate(value?: Date | string | null): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime())
+    ? new Date().toISOString().slice(0, 10)
+    : date.toISOString().slice(0, 10);
+}
+
+export function isEffectiveOn(entry: EffectiveDated, asOf: string): boolean {
+  return (
+    (!entry.effectiveFrom || entry.effectiveFrom <= asOf) &&
+    (!entry.effectiveTo || asOf < entry.effectiveTo)
+  );
+}
+
+/** The heading versions and surcharges in force on a date (today when none is given). */
+export function tariffRulesAsOf(rules: TariffRuleSet, asOf?: Date | string | null): TariffRuleSet {
+  const day = toTariffDate(asOf);
+  return {
+    ...rules,
+    headings: rules.headings.filter((heading) => isEffectiveOn(heading, day)),
+    surcharges: rules.surcharges.filter((surcharge) => isEffectiveOn(surcharge, day)),
+  };
+}
+
 export function inferOriginCountry(
   supplierName?: string | null,
-  supplierAddress?: string | null
+  supplierAddress?: string | null,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
 ): string {
-  const haystack = ` ${supplierName || ''} ${supplierAddress || ''}`.toLowerCase();
-  for (const item of COUNTRY_KEYWORDS) {
-    if (item.keywords.some((keyword) => haystack.includes(keyword))) {
-      return item.country;
-    }
+  const haystack = `${supplierName || ''} ${supplierAddress || ''}`.toLowerCase();
+  for (const rule of byPriority(rules.originKeywords)) {
+    const matched = rule.keywords.some((keyword) => {
+      const needle = normalizeSpaces(keyword.toLowerCase());
+      return needle && new RegExp(`(^|[^a-z])${escapeRegExp(needle)}`).test(haystack);
+    });
+    if (matched) return rule.countryCode.toUpperCase();
   }
   return DEFAULT_ORIGIN_COUNTRY;
 }
 
+/**
+ * Where an order's origin came from: set by hand on the order, taken from the vendor
+ * master, or guessed from supplier keywords.
+ */
+export const ORIGIN_SOURCES = ['MANUAL', 'VENDOR', 'GUESSED'] as const;
+export type OriginSource = (typeof ORIGIN_SOURCES)[number];
+
+/**
+ * The origin to store on an order. A hand-set origin is kept; otherwise the vendor
+ * master's country wins over the keyword guess.
+ */
+export function resolveOrderOrigin(
+  order: {
+    originCountry?: string | null;
+    originSource?: string | null;
+    supplierName?: string | null;
+    supplierAddress?: string | null;
+  },
+  vendorCountry?: string | null,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): { originCountry: string; originSource: OriginSource } {
+  if (order.originCountry && order.originSource === 'MANUAL') {
+    return { originCountry: order.originCountry.toUpperCase(), originSource: 'MANUAL' };
+  }
+  if (vendorCountry) {
+    return { originCountry: vendorCountry.toUpperCase(), originSource: 'VENDOR' };
+  }
+  return {
+    originCountry: inferOriginCountry(order.supplierName, order.supplierAddress, rules),
+    originSource: 'GUESSED',
+  };
+}
+
+/** A saved order's origin; orders saved before origins were stored fall back to the guess. */
+export function savedOriginCountry(
+  order: {
+    originCountry?: string | null;
+    supplierName?: string | null;
+    supplierAddress?: string | null;
+  },
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): string {
+  return (
+    order.originCountry || inferOriginCountry(order.supplierName, order.supplierAddress, rules)
+  ).toUpperCase();
+}
+
 export function detectFabricBucket(material?: string | null): FabricBucket {
   const text = (material || '').toLowerCase();
   if (!text.trim()) return 'mixed';
@@ -150,83 +433,167 @@ export function deriveTariffKey(input: {
   return normalizeTariffKey(`${category} | ${fabricBucket}`);
 }
 
-/**
- * HTS base rates (before any Section 301 or executive-order surcharges).
- * Reference: HTS Chapter 61 (knit apparel), Chapter 62 (woven).
- *
- *  Cotton-rich:
- *    6109.10  – Cotton knit tees/tanks:       16.5%
- *    6110.20  – Cotton knit tops/hoodies:     16.5%
- *    6103/04  – Cotton pants/shorts/leggings: 14.9%
- *
- *  Poly-rich (MMF / synthetic):
- *    6109.90  – MMF knit tees/tanks:          32.0%
- *    6110.30  – MMF knit tops/hoodies:        32.0%
- *    6103.23  – MMF pants/shorts/leggings:    28.2%
- *
- *  Dresses/jackets: 16.5% regardless of fiber (mostly woven HTS 6104/6114)
- *  Accessories:     ~6.8%
- */
-function getDefaultBaseRate(baseTariffKey: string): number {
-  const [category = 'apparel', fabricBucket = 'mixed'] = baseTariffKey
-    .split('|')
-    .map((s) => normalizeSpaces(s));
+/** The heading whose keywords match the key's category, or the fallback heading. */
+export function findHtsHeading(
+  baseTariffKey: string,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): HtsHeadingRule | null {
+  const [category = 'apparel'] = baseTariffKey.split('|').map((s) => normalizeSpaces(s));
+  const headings = byPriority(rules.headings);
+  const matched = headings.find((heading) =>
+    heading.categoryKeywords.some((keyword) => {
+      const needle = normalizeSpaces(keyword.toLowerCase());
+      return needle && category.includes(needle);
+    })
+  );
+  return matched || headings.find((heading) => heading.isFallback) || null;
+}
 
-  if (category.includes('tee') || category.includes('tank')) {
-    // 6109.10 cotton = 16.5%, 6109.90 MMF = 32.0%
-    if (fabricBucket === 'poly-rich') return 0.32;
-    return 0.165; // cotton-rich or mixed → 16.5%
-  }
+function findBaseRateRule(
+  baseTariffKey: string,
+  rules: TariffRuleSet
+): { heading: HtsHeadingRule; rate: HtsRateRule | undefined } | null {
+  const [, bucket = 'mixed'] = baseTariffKey.split('|').map((s) => normalizeSpaces(s));
+  const heading = findHtsHeading(baseTariffKey, rules);
+  if (!heading) return null;
+  return {
+    heading,
+    rate:
+      heading.rates[bucket as FabricBucket] ||
+      heading.rates.mixed ||
+      Object.values(heading.rates).find(Boolean),
+  };
+}
 
-  if (category.includes('top') || category.includes('hoodie') || category.includes('sweatshirt')) {
-    // 6110.20 cotton = 16.5%, 6110.30 MMF = 32.0%
-    if (fabricBucket === 'poly-rich') return 0.32;
-    return 0.165;
-  }
+/** HTS base rate for a tariff key (before any surcharges), and where it came from. */
+export function resolveBaseRate(
+  baseTariffKey: string,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): { rate: number; headingCode: string | null; htsCode: string | null } {
+  const match = findBaseRateRule(baseTariffKey, rules);
+  if (!match) return { rate: 0, headingCode: null, htsCode: null };
+  return {
+    rate: match.rate ? clampRate(Number(match.rate.rate) || 0) : 0,
+    headingCode: match.heading.code,
+    htsCode: match.rate?.htsCode || null,
+  };
+}
 
-  if (category.includes('dress') || category.includes('jacket')) {
-    // 6104 woven — 16.5% for both cotton and synthetic
-    return 0.165;
-  }
+function htsDigits(code?: string | null): string {
+  return (code || '').replace(/\D/g, '');
+}
 
-  if (category.includes('pants') || category.includes('shorts') || category.includes('leggings')) {
-    // 6103.19 cotton = 14.9%, 6103.23 MMF = 28.2%
-    if (fabricBucket === 'poly-rich') return 0.282;
-    return 0.149;
-  }
+/** An HTS code grouped the way it is printed (6109.10.0040); null unless it has 4, 6, 8 or 10 digits. */
+export function formatHtsCode(code?: string | null): string | null {
+  const digits = htsDigits(code);
+  if (![4, 6, 8, 10].includes(digits.length)) return null;
+  return [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6)].filter(Boolean).join('.');
+}
 
-  if (category.includes('accessory')) {
-    return 0.068;
-  }
+function genderGroupOf(baseTariffKey: string): GenderGroup {
+  const [category = ''] = baseTariffKey.split('|').map((s) => normalizeSpaces(s));
+  const group = category.split(' ')[0] as GenderGroup;
+  return GENDER_GROUPS.includes(group) ? group : 'general';
+}
 
-  // Fallback — use cotton-rich knit rate as safe default
-  if (fabricBucket === 'poly-rich') return 0.32;
-  return 0.165;
+/**
+ * The most specific HTS code the rules give a tariff key: the statistical code for
+ * its gender group when one is set, otherwise the subheading (or heading) its base
+ * rate belongs to.
+ */
+export function suggestHtsCode(
+  baseTariffKey: string,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): string | null {
+  const normalized = normalizeTariffKey(baseTariffKey);
+  const match = findBaseRateRule(normalized, rules);
+  if (!match) return null;
+  const codes = match.rate?.statisticalCodes || {};
+  return formatHtsCode(
+    codes[genderGroupOf(normalized)] || codes.general || match.rate?.htsCode || match.heading.code
+  );
 }
 
+/**
+ * The base rate an explicit HTS code falls under: the rule whose subheading or
+ * statistical code is the longest prefix of it. Null for codes no heading covers.
+ */
+export function findBaseRateByHtsCode(
+  htsCode: string,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): { rate: number; headingCode: string; htsCode: string } | null {
+  const digits = htsDigits(htsCode);
+  let best: { rate: number; headingCode: string; htsCode: string } | null = null;
+  let bestLength = 0;
+
+  for (const heading of byPriority(rules.headings)) {
+    for (const rate of Object.values(heading.rates)) {
+      if (!rate) continue;
+      const candidates = [
+        rate.htsCode || heading.code,
+        ...Object.values(rate.statisticalCodes || {}),
+      ];
+      for (const candidate of candidates) {
+        const prefix = htsDigits(candidate);
+        if (prefix.length > bestLength && digits.startsWith(prefix)) {
+          bestLength = prefix.length;
+          best = {
+            rate: clampRate(Number(rate.rate) || 0),
+            headingCode: heading.code,
+            htsCode: candidate!,
+          };
+        }
+      }
+    }
+  }
+  return best;
+}
 
-export function applyOriginSpecialRate(baseRate: number, originCountry?: string | null): number {
+/** The code an order line is declared under: the user's override, else the suggestion. */
+export function declaredHtsCode(item: {
+  suggestedHtsCode?: string | null;
+  htsCodeOverride?: string | null;
+}): string | null {
+  return item.htsCodeOverride || item.suggestedHtsCode || null;
+}
+
+/** Total of the enabled surcharges for an origin country. */
+export function originSurchargeRate(
+  originCountry?: string | null,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): number {
   const country = (originCountry || DEFAULT_ORIGIN_COUNTRY).toUpperCase();
-  if (country === 'CN') {
-    return round4(clampRate(baseRate + CHINA_SPECIAL_RATE));
-  }
-  return round4(clampRate(baseRate));
+  return rules.surcharges
+    .filter((surcharge) => surcharge.enabled && surcharge.countryCode.toUpperCase() === country)
+    .reduce((sum, surcharge) => sum + (Number(surcharge.rate) || 0), 0);
+}
+
+export function applyOriginSpecialRate(
+  baseRate: number,
+  originCountry?: string | null,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): number {
+  return round4(clampRate(baseRate + originSurchargeRate(originCountry, rules)));
 }
 
 export function defaultTariffRateByTariffKey(
   tariffKey: string,
-  originCountry?: string | null
+  originCountry?: string | null,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
 ): number {
   const normalized = normalizeTariffKey(tariffKey);
   const parsed = parseCountryFromTariffKey(normalized);
   const resolvedOrigin = (originCountry || parsed.country || DEFAULT_ORIGIN_COUNTRY).toUpperCase();
   const baseKey = parsed.baseKey || normalized;
-  const baseRate = getDefaultBaseRate(baseKey);
-  return applyOriginSpecialRate(baseRate, resolvedOrigin);
+  const baseRate = resolveBaseRate(baseKey, rules).rate;
+  return applyOriginSpecialRate(baseRate, resolvedOrigin, rules);
 }
 
-export function defaultTariffRateByProductClass(productClass: string): number {
-  return defaultTariffRateByTariffKey(productClass, DEFAULT_ORIGIN_COUNTRY);
+export function defaultTariffRateByProductClass(
+  productClass: string,
+  rules: TariffRuleSet = DEFAULT_TARIFF_RULES
+): number {
+  return defaultTariffRateByTariffKey(productClass, DEFAULT_ORIGIN_COUNTRY, rules);
 }
 
 export function buildTariffLookupKeys(
@@ -239,31 +606,95 @@ export function buildTariffLookupKeys(
   return Array.from(new Set(keys));
 }
 
+/**
+ * Duty rate for an order line. A manual rate for the origin-specific key is taken as
+ * is; a manual rate for the plain key gets the origin surcharges added; otherwise the
+ * rules price the key. An explicit `htsCode` (a classification override) is tried
+ * first, the same way, against manual rates keyed by the code and then the rule that
+ * covers it.
+ */
 export function resolveTariffRate(params: {
   baseTariffKey: string;
   originCountry?: string | null;
   tariffMap: Map<string, number>;
+  rules?: TariffRuleSet;
+  htsCode?: string | null;
 }): { rate: number; matchedKey: string | null } {
+  const rules = params.rules || DEFAULT_TARIFF_RULES;
   const normalizedBase = normalizeRateKey(params.baseTariffKey);
   const country = (params.originCountry || DEFAULT_ORIGIN_COUNTRY).toUpperCase();
-  const countryKey = `${country.toLowerCase()} | ${normalizedBase}`;
 
-  if (params.tariffMap.has(countryKey)) {
-    return {
-      rate: round4(clampRate(Number(params.tariffMap.get(countryKey) || 0))),
-      matchedKey: countryKey,
-    };
-  }
+  const fromMap = (key: string) => {
+    const countryKey = `${country.toLowerCase()} | ${key}`;
+    if (params.tariffMap.has(countryKey)) {
+      return {
+        rate: round4(clampRate(Number(params.tariffMap.get(countryKey) || 0))),
+        matchedKey: countryKey,
+      };
+    }
+    if (params.tariffMap.has(key)) {
+      return {
+        rate: applyOriginSpecialRate(Number(params.tariffMap.get(key) || 0), country, rules),
+        matchedKey: key,
+      };
+    }
+    return null;
+  };
 
-  if (params.tariffMap.has(normalizedBase)) {
-    return {
-      rate: applyOriginSpecialRate(Number(params.tariffMap.get(normalizedBase) || 0), country),
-      matchedKey: normalizedBase,
-    };
+  const htsCode = formatHtsCode(params.htsCode);
+  if (htsCode) {
+    const manual = fromMap(htsCode);
+    if (manual) return manual;
+    const matched = findBaseRateByHtsCode(htsCode, rules);
+    if (matched) {
+      return { rate: applyOriginSpecialRate(matched.rate, country, rules), matchedKey: null };
+    }
   }
 
-  return {
-    rate: defaultTariffRateByTariffKey(normalizedBase, country),
-    matchedKey: null,
-  };
+  return (
+    fromMap(normalizedBase) || {
+      rate: defaultTariffRateByTariffKey(normalizedBase, country, rules),
+      matchedKey: null,
+    }
+  );
+}
+
+export interface TariffRatePeriod {
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  rate: number;
+}
+
+/**
+ * How the rule-derived rate of a tariff key changed over time: one period per
+ * stretch with the same rate, split at every heading or surcharge date.
+ */
+export function tariffRuleTimeline(
+  tariffKey: string,
+  rules: TariffRuleSet,
+  originCountry?: string | null
+): TariffRatePeriod[] {
+  const dated = [...rules.headings, ...rules.surcharges];
+  const boundaries = Array.from(
+    new Set(
+      dated.flatMap((entry) => [entry.effectiveFrom, entry.effectiveTo]).filter(Boolean) as string[]
+    )
+  ).sort();
+
+  // '0000-01-01' sorts before every real date, so it stands in for "since always".
+  const starts = ['0000-01-01', ...boundaries];
+  const periods: TariffRatePeriod[] = [];
+  starts.forEach((start, index) => {
+    const rate = defaultTariffRateByTariffKey(
+      tariffKey,
+      originCountry,
+      tariffRulesAsOf(rules, start)
+    );
+    const effectiveFrom = index === 0 ? null : start;
+    const previous = periods[periods.length - 1];
+    if (previous && previous.rate === rate) return;
+    if (previous) previous.effectiveTo = effectiveFrom;
+    periods.push({ effectiveFrom, effectiveTo: null, rate });
+  });
+  return periods;
 }
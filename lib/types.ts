@@ -1,4 +1,7 @@
 import type { ExtractedOrderData } from '@/lib/parser';
+import type { ExtractionWarning, FieldConfidence } from '@/lib/extraction-validation';
+import type { OcrPageResult } from '@/lib/pdf-ocr';
+import type { SheetTable, SpreadsheetMapping } from '@/lib/spreadsheet-import';
 import { orders } from '@/db/schema';
 
 /**
@@ -14,7 +17,7 @@ export interface OrderFile {
   fileName?: string;
   fileSize?: number;
   /** The current processing status of the file. */
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'processing' | 'mapping' | 'completed' | 'error';
   /** The structured data extracted from the PDF, available on completion. */
   data?: ExtractedOrderData;
   /** An error message if processing fails. */
@@ -23,6 +26,46 @@ export interface OrderFile {
   processingStep?: string;
   /** The raw text extracted from the PDF. */
   originalText?: string;
+  /** Consistency warnings returned by the extraction validator. */
+  warnings?: ExtractionWarning[];
+  /** SHA-256 of the uploaded PDF. */
+  fileHash?: string;
+  /** Server-side copy of the PDF (`stored_files.id`), when storage succeeded. */
+  fileId?: string;
+  /** The provider and model that produced `data`, and its unprocessed response. */
+  provider?: string;
+  model?: string;
+  rawResponse?: string;
+  fieldConfidence?: FieldConfidence;
+  /** Per-page OCR results when some or all pages were scanned images. */
+  ocr?: OcrPageResult[];
+  /** Customer template that shaped the extraction prompt and post-processing. */
+  templateName?: string;
+  /** Spreadsheet POs: parsed sheets and the column mapping (status `mapping` until confirmed). */
+  spreadsheet?: {
+    sheets: SheetTable[];
+    mapping: SpreadsheetMapping;
+    customerName?: string;
+  };
+}
+
+/**
+ * Provenance sent with a save so the order keeps a record of the source PDF and
+ * the extraction that produced it.
+ */
+export interface ExtractionProvenance {
+  fileId?: string;
+  fileName?: string;
+  fileHash?: string;
+  fileSize?: number;
+  extractedText?: string;
+  provider?: string;
+  model?: string;
+  rawResponse?: string;
+  warnings?: ExtractionWarning[];
+  fieldConfidence?: FieldConfidence;
+  /** Customer template detected for the document, if any. */
+  templateName?: string;
 }
 
 /**
@@ -36,13 +79,14 @@ export type Order = typeof orders.$inferSelect;
  * This is necessary for passing order data from Server Components to Client Components,
  * as Date objects are not serializable and cannot be passed as props directly.
  */
-export type SerializedOrder = Omit<Order, 'orderDate' | 'expShipDate' | 'cancelDate' | 'deliveredAt' | 'closedAt' | 'createdAt'> & {
+export type SerializedOrder = Omit<Order, 'orderDate' | 'expShipDate' | 'cancelDate' | 'deliveredAt' | 'closedAt' | 'createdAt' | 'approvedAt'> & {
   orderDate: string | null;
   expShipDate: string | null;
   cancelDate: string | null;
   deliveredAt: string | null;
   closedAt: string | null;
   createdAt: string | null;
+  approvedAt: string | null;
 };
 
 export interface OrderItem {
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { hasHtsOverrideReason, htsCodeOverrideSchema, optionalCountryCode } from './schemas';
 
 // Schema for a single order item
 export const orderItemSchema = z.object({
@@ -19,20 +20,28 @@ export const orderItemSchema = z.object({
   sizeBreakdown: z.string().nullable().optional(),
   productClass: z.string().nullable().optional(),
   collection: z.string().nullable().optional(),
+  htsCodeOverride: htsCodeOverrideSchema, // Blank clears the override
+  htsOverrideReason: z.string().trim().nullable().optional(),
+  unitCbm: z.number().nonnegative().nullable().optional(), // m³ per piece; null clears it
+  originCountry: optionalCountryCode, // Null falls back to the order's origin
+}).refine(hasHtsOverrideReason, {
+  message: 'Give a reason for the HTS override',
+  path: ['htsOverrideReason'],
 });
 
-// Schema for updating an order (PATCH request)
+// Schema for updating an order (PATCH request). `status` is deliberately absent:
+// drafts are promoted through POST /api/orders/[id]/approve.
 export const orderPatchSchema = z.object({
   vpoNumber: z.string().nullable().optional(),
   customerName: z.string().nullable().optional(),
   customerAddress: z.string().nullable().optional(),
   supplierName: z.string().nullable().optional(),
   supplierAddress: z.string().nullable().optional(),
-  status: z.string().nullable().optional(),
   workflowStatus: z.string().nullable().optional(),
   soReference: z.string().nullable().optional(),
   shipTo: z.string().nullable().optional(),
   shipVia: z.string().nullable().optional(),
+  originCountry: optionalCountryCode, // Null goes back to the vendor master or the guess
   shipmentTerms: z.string().nullable().optional(),
   paymentTerms: z.string().nullable().optional(),
   customerNotes: z.string().nullable().optional(),
@@ -2,7 +2,11 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   output: 'standalone',
-  serverExternalPackages: ['@napi-rs/canvas', 'pdf-parse', 'pdfjs-dist'],
+  serverExternalPackages: ['@napi-rs/canvas', 'pdf-parse', 'pdfjs-dist', 'tesseract.js'],
+  // The OCR language model is loaded from disk at runtime, so tracing cannot see it.
+  outputFileTracingIncludes: {
+    '/api/**': ['./node_modules/@tesseract.js-data/eng/4.0.0_best_int/**'],
+  },
 };
 
 export default nextConfig;
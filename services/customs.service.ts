@@ -0,0 +1,253 @@
+import { db } from '@/db';
+import { containers, customsEntries, customsEntryLines, orderItems, orders } from '@/db/schema';
+import { and, desc, eq, inArray, or, type SQL } from 'drizzle-orm';
+import { isDraftOrder } from '@/lib/constants';
+import {
+    dutyVariance,
+    sumEntryLines,
+    type CustomsEntryInput,
+    type DutyVarianceGroup,
+} from '@/lib/customs-entry';
+import { parseDecimalInput } from '@/lib/finance-math';
+import { declaredHtsCode, formatHtsCode } from '@/lib/tariffs';
+
+const matchKey = (value: string | null | undefined) =>
+    (value || '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Save customs entries, replacing any already stored under the same entry number
+ * (brokers resend corrected files). Each line is linked to its order line by item
+ * id, or by VPO number and style; a style that appears on several lines of the
+ * order links the order only.
+ */
+export async function saveCustomsEntries(entries: CustomsEntryInput[], source: 'MANUAL' | 'CSV') {
+    return db.transaction(async (tx) => {
+        const containerNos = [
+            ...new Set(
+                entries.map((entry) => entry.containerNo?.trim()).filter((no): no is string => !!no)
+            ),
+        ];
+        const containerRows = containerNos.length
+            ? await tx
+                  .select({ id: containers.id, containerNo: containers.containerNo })
+                  .from(containers)
+                  .where(inArray(containers.containerNo, containerNos))
+            : [];
+        const containerIds = new Map(
+            containerRows.map((row) => [matchKey(row.containerNo), row.id])
+        );
+
+        const lines = entries.flatMap((entry) => entry.lines);
+        const vpoNumbers = [
+            ...new Set(
+                lines.map((line) => line.vpoNumber?.trim()).filter((no): no is string => !!no)
+            ),
+        ];
+        const itemIds = [
+            ...new Set(lines.map((line) => line.orderItemId).filter((id): id is string => !!id)),
+        ];
+
+        const orderRows = vpoNumbers.length
+            ? (
+                  await tx
+                      .select({
+                          id: orders.id,
+                          vpoNumber: orders.vpoNumber,
+                          status: orders.status,
+                      })
+                      .from(orders)
+                      .where(inArray(orders.vpoNumber, vpoNumbers))
+              ).filter((order) => !isDraftOrder(order))
+            : [];
+        const orderIds = orderRows.map((order) => order.id);
+        const itemFilters = [
+            ...(orderIds.length ? [inArray(orderItems.orderId, orderIds)] : []),
+            ...(itemIds.length ? [inArray(orderItems.id, itemIds)] : []),
+        ];
+        const itemRows = itemFilters.length
+            ? await tx
+                  .select({
+                      id: orderItems.id,
+                      orderId: orderItems.orderId,
+                      productCode: orderItems.productCode,
+                  })
+                  .from(orderItems)
+                  .where(or(...itemFilters))
+            : [];
+        const itemsById = new Map(itemRows.map((item) => [item.id, item]));
+
+        const resolveLine = (line: CustomsEntryInput['lines'][number]) => {
+            if (line.orderItemId && itemsById.has(line.orderItemId)) {
+                const item = itemsById.get(line.orderItemId)!;
+                return {
+                    orderId: item.orderId,
+                    orderItemId: item.id,
+                    productCode: line.productCode || item.productCode,
+                };
+            }
+            const matchingOrders = orderRows.filter(
+                (order) => matchKey(order.vpoNumber) === matchKey(line.vpoNumber)
+            );
+            const candidates = [...itemsById.values()].filter(
+                (item) =>
+                    matchingOrders.some((order) => order.id === item.orderId) &&
+                    !!line.productCode &&
+                    matchKey(item.productCode) === matchKey(line.productCode)
+            );
+            if (candidates.length === 1) {
+                return {
+                    orderId: candidates[0].orderId,
+                    orderItemId: candidates[0].id,
+                    productCode: line.productCode,
+                };
+            }
+            return {
+                orderId: matchingOrders.length === 1 ? matchingOrders[0].id : null,
+                orderItemId: null,
+                productCode: line.productCode || null,
+            };
+        };
+
+        let replaced = 0;
+        let unmatchedLines = 0;
+        for (const entry of entries) {
+            const [existing] = await tx
+                .select({ id: customsEntries.id })
+                .from(customsEntries)
+                .where(eq(customsEntries.entryNo, entry.entryNo.trim()));
+            if (existing) {
+                await tx.delete(customsEntries).where(eq(customsEntries.id, existing.id));
+                replaced++;
+            }
+
+            const totals = sumEntryLines(entry.lines);
+            const [saved] = await tx
+                .insert(customsEntries)
+                .values({
+                    entryNo: entry.entryNo.trim(),
+                    entryDate: entry.entryDate || null,
+                    containerId: containerIds.get(matchKey(entry.containerNo)) ?? null,
+                    broker: entry.broker?.trim() || null,
+                    enteredValue: totals.enteredValue.toFixed(2),
+                    dutyAmount: totals.dutyAmount.toFixed(2),
+                    mpfAmount: totals.mpfAmount.toFixed(2),
+                    hmfAmount: totals.hmfAmount.toFixed(2),
+                    source,
+                    notes: entry.notes || null,
+                })
+                .returning({ id: customsEntries.id });
+
+            await tx.insert(customsEntryLines).values(
+                entry.lines.map((line, index) => {
+                    const link = resolveLine(line);
+                    if (!link.orderItemId) unmatchedLines++;
+                    return {
+                        entryId: saved.id,
+                        lineNo: line.lineNo ?? index + 1,
+                        ...link,
+                        htsCode: formatHtsCode(line.htsCode) ?? (line.htsCode || null),
+                        quantity: line.quantity ?? null,
+                        enteredValue: line.enteredValue.toFixed(2),
+                        dutyAmount: line.dutyAmount.toFixed(2),
+                        mpfAmount: (line.mpfAmount ?? 0).toFixed(2),
+                        hmfAmount: (line.hmfAmount ?? 0).toFixed(2),
+                    };
+                })
+            );
+        }
+
+        return { saved: entries.length, replaced, lines: lines.length, unmatchedLines };
+    });
+}
+
+/** Entries newest first, with their container and the orders their lines cleared. */
+export async function listCustomsEntries() {
+    const [entryRows, lineRows] = await Promise.all([
+        db
+            .select({ entry: customsEntries, containerNo: containers.containerNo })
+            .from(customsEntries)
+            .leftJoin(containers, eq(customsEntries.containerId, containers.id))
+            .orderBy(desc(customsEntries.entryDate), desc(customsEntries.createdAt)),
+        db
+            .select({
+                entryId: customsEntryLines.entryId,
+                orderItemId: customsEntryLines.orderItemId,
+                vpoNumber: orders.vpoNumber,
+            })
+            .from(customsEntryLines)
+            .leftJoin(orders, eq(customsEntryLines.orderId, orders.id)),
+    ]);
+
+    return entryRows.map(({ entry, containerNo }) => {
+        const lines = lineRows.filter((line) => line.entryId === entry.id);
+        return {
+            ...entry,
+            containerNo,
+            lineCount: lines.length,
+            unmatchedLines: lines.filter((line) => !line.orderItemId).length,
+            vpoNumbers: [
+                ...new Set(lines.map((line) => line.vpoNumber).filter((no): no is string => !!no)),
+            ],
+        };
+    });
+}
+
+export async function deleteCustomsEntry(id: string) {
+    const [deleted] = await db.delete(customsEntries).where(eq(customsEntries.id, id)).returning();
+    if (!deleted) throw new Error('Customs entry not found');
+    return deleted;
+}
+
+/** Actual duty from the stored entries against the orders' estimates. */
+export async function getDutyVarianceReport(filters: {
+    groupBy: DutyVarianceGroup;
+    orderId?: string | null;
+    containerId?: string | null;
+}) {
+    const conditions: SQL[] = [];
+    if (filters.orderId) conditions.push(eq(customsEntryLines.orderId, filters.orderId));
+    if (filters.containerId) conditions.push(eq(customsEntries.containerId, filters.containerId));
+
+    const rows = await db
+        .select({
+            entryNo: customsEntries.entryNo,
+            line: customsEntryLines,
+            vpoNumber: orders.vpoNumber,
+            orderOrigin: orders.originCountry,
+            item: {
+                quantity: orderItems.quantity,
+                productCode: orderItems.productCode,
+                productClass: orderItems.productClass,
+                estimatedDutyCost: orderItems.estimatedDutyCost,
+                suggestedHtsCode: orderItems.suggestedHtsCode,
+                htsCodeOverride: orderItems.htsCodeOverride,
+                originCountry: orderItems.originCountry,
+            },
+        })
+        .from(customsEntryLines)
+        .innerJoin(customsEntries, eq(customsEntryLines.entryId, customsEntries.id))
+        .leftJoin(orders, eq(customsEntryLines.orderId, orders.id))
+        .leftJoin(orderItems, eq(customsEntryLines.orderItemId, orderItems.id))
+        .where(conditions.length ? and(...conditions) : undefined);
+
+    return dutyVariance(
+        rows.map(({ entryNo, line, vpoNumber, orderOrigin, item }) => ({
+            entryNo,
+            htsCode: line.htsCode,
+            quantity: line.quantity,
+            dutyAmount: parseDecimalInput(line.dutyAmount, 0),
+            mpfAmount: parseDecimalInput(line.mpfAmount, 0),
+            hmfAmount: parseDecimalInput(line.hmfAmount, 0),
+            orderId: line.orderId,
+            vpoNumber,
+            orderItemId: line.orderItemId,
+            productCode: item?.productCode ?? line.productCode,
+            productClass: item?.productClass ?? null,
+            itemQuantity: item?.quantity ?? null,
+            estimatedDutyCost: item ? parseDecimalInput(item.estimatedDutyCost, 0) : null,
+            declaredHtsCode: item ? declaredHtsCode(item) : null,
+            originCountry: item?.originCountry || orderOrigin,
+        })),
+        filters.groupBy
+    );
+}
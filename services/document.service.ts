@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { db } from '@/db';
+import { storedFiles } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getDocumentStorage, storageKeyForHash } from '@/lib/document-storage';
+
+export function hashFile(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Persist an uploaded file, reusing the existing record when the same bytes were
+ * stored before. Re-writes the bytes if the record exists but the file went missing.
+ * A reused record keeps the name of the first upload, so callers record the name of
+ * their own upload next to the file id.
+ */
+export async function storeUploadedFile(input: {
+    data: Buffer;
+    fileName: string;
+    contentType?: string;
+    /** Storage key extension; PDFs unless given. */
+    extension?: string;
+}) {
+    const storage = getDocumentStorage();
+    const fileHash = hashFile(input.data);
+    const storageKey = storageKeyForHash(fileHash, input.extension);
+
+    const existing = await db.query.storedFiles.findFirst({
+        where: eq(storedFiles.fileHash, fileHash),
+    });
+    if (existing) {
+        if (!(await storage.exists(existing.storageKey))) {
+            await storage.put(existing.storageKey, input.data);
+        }
+        return existing;
+    }
+
+    await storage.put(storageKey, input.data);
+    const [inserted] = await db
+        .insert(storedFiles)
+        .values({
+            fileHash,
+            fileName: input.fileName,
+            contentType: input.contentType || 'application/pdf',
+            fileSize: input.data.length,
+            storageKey,
+        })
+        .onConflictDoNothing({ target: storedFiles.fileHash })
+        .returning();
+
+    // A concurrent upload of the same file won the insert; return its row.
+    return (
+        inserted ??
+        (await db.query.storedFiles.findFirst({ where: eq(storedFiles.fileHash, fileHash) }))!
+    );
+}
+
+export async function readStoredFile(id: string) {
+    const file = await db.query.storedFiles.findFirst({ where: eq(storedFiles.id, id) });
+    if (!file) return null;
+
+    const data = await getDocumentStorage().get(file.storageKey);
+    if (!data) return null;
+    return { file, data };
+}
@@ -0,0 +1,245 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '@/db';
+import { importJobs, inboundEmails } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { parseEmail } from '@/lib/email-ingest';
+import { createImportJob } from '@/services/import.service';
+
+export type EmailSource = 'UPLOAD' | 'MAILDIR' | 'IMAP';
+
+/**
+ * Record an email and queue its PO attachments as an import job. A Message-ID seen
+ * before is not imported again, so polling the same mailbox twice is harmless. The
+ * email is only kept once its job exists: if queuing the attachments fails, the row is
+ * removed again so the next poll retries the message. Attachments with nothing to
+ * import (an empty ZIP) are not a failure; the email is kept without a job. The caller
+ * starts the returned job (the routes do it after responding).
+ */
+export async function ingestEmail(
+    raw: Buffer,
+    options: { source: EmailSource; mailbox?: string | null; createdBy?: string | null }
+) {
+    const parsed = await parseEmail(raw);
+
+    if (parsed.messageId) {
+        const existing = await db.query.inboundEmails.findFirst({
+            where: eq(inboundEmails.messageId, parsed.messageId),
+        });
+        if (existing) return { email: existing, job: null, duplicate: true };
+    }
+
+    const [email] = await db
+        .insert(inboundEmails)
+        .values({
+            messageId: parsed.messageId,
+            fromAddress: parsed.fromAddress,
+            fromName: parsed.fromName,
+            subject: parsed.subject,
+            sentAt: parsed.sentAt,
+            source: options.source,
+            mailbox: options.mailbox || null,
+            attachmentCount: parsed.attachments.length,
+            ignoredAttachments: parsed.ignored.length ? JSON.stringify(parsed.ignored) : null,
+        })
+        .onConflictDoNothing({ target: inboundEmails.messageId })
+        .returning();
+    // Lost a race with another poller for the same message.
+    if (!email) {
+        const existing = await db.query.inboundEmails.findFirst({
+            where: eq(inboundEmails.messageId, parsed.messageId!),
+        });
+        return { email: existing!, job: null, duplicate: true };
+    }
+
+    let job: Awaited<ReturnType<typeof createImportJob>> | null = null;
+    if (parsed.attachments.length > 0) {
+        try {
+            const createdBy = options.createdBy || parsed.fromAddress;
+            job = await createImportJob(parsed.attachments, createdBy, { sourceEmailId: email.id });
+        } catch (error: unknown) {
+            // Archives with nothing importable in them: retrying would fail the same way,
+            // so the email is kept with those attachments listed as ignored
+            if (getErrorMessage(error) === 'No files to import') {
+                const ignored = [...parsed.ignored, ...parsed.attachments.map((a) => a.fileName)];
+                const [updated] = await db
+                    .update(inboundEmails)
+                    .set({ ignoredAttachments: JSON.stringify(ignored) })
+                    .where(eq(inboundEmails.id, email.id))
+                    .returning();
+                return { email: updated ?? email, job: null, duplicate: false };
+            }
+            await db.delete(inboundEmails).where(eq(inboundEmails.id, email.id));
+            throw error;
+        }
+    }
+
+    return { email, job, duplicate: false };
+}
+
+export async function listInboundEmails(limit = 20) {
+    return db
+        .select({
+            id: inboundEmails.id,
+            fromAddress: inboundEmails.fromAddress,
+            fromName: inboundEmails.fromName,
+            subject: inboundEmails.subject,
+            sentAt: inboundEmails.sentAt,
+            source: inboundEmails.source,
+            mailbox: inboundEmails.mailbox,
+            attachmentCount: inboundEmails.attachmentCount,
+            ignoredAttachments: inboundEmails.ignoredAttachments,
+            receivedAt: inboundEmails.receivedAt,
+            jobId: importJobs.id,
+            jobStatus: importJobs.status,
+        })
+        .from(inboundEmails)
+        .leftJoin(importJobs, eq(importJobs.sourceEmailId, inboundEmails.id))
+        .orderBy(desc(inboundEmails.receivedAt))
+        .limit(limit);
+}
+
+export interface MailPollResult {
+    source: EmailSource;
+    mailbox: string;
+    imported: number;
+    duplicates: number;
+    failed: { message: string; error: string }[];
+    /** Import jobs created by this poll, for the caller to start. */
+    jobIds: string[];
+}
+
+function emptyResult(source: EmailSource, mailbox: string): MailPollResult {
+    return { source, mailbox, imported: 0, duplicates: 0, failed: [], jobIds: [] };
+}
+
+async function ingestInto(result: MailPollResult, raw: Buffer, label: string): Promise<boolean> {
+    try {
+        const { job, duplicate } = await ingestEmail(raw, {
+            source: result.source,
+            mailbox: result.mailbox,
+        });
+        if (duplicate) result.duplicates++;
+        else result.imported++;
+        if (job && job.status !== 'COMPLETED') result.jobIds.push(job.id);
+        return true;
+    } catch (error: unknown) {
+        console.warn(`Email ${label} could not be ingested:`, getErrorMessage(error));
+        result.failed.push({ message: label, error: getErrorMessage(error) });
+        return false;
+    }
+}
+
+/**
+ * Maildir delivery: every file in `new/` is one message. Ingested messages move to
+ * `cur/` flagged as seen, the way a mail client would; failures stay in `new/` and
+ * are retried on the next poll.
+ */
+export async function pollMaildir(dir: string): Promise<MailPollResult> {
+    const result = emptyResult('MAILDIR', dir);
+    const newDir = path.join(dir, 'new');
+    const curDir = path.join(dir, 'cur');
+    await fs.mkdir(curDir, { recursive: true });
+
+    const names = (await fs.readdir(newDir)).filter((name) => !name.startsWith('.')).sort();
+    for (const name of names) {
+        const raw = await fs.readFile(path.join(newDir, name));
+        if (await ingestInto(result, raw, name)) {
+            await fs.rename(path.join(newDir, name), path.join(curDir, `${name}:2,S`));
+        }
+    }
+    return result;
+}
+
+export interface ImapPollConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    password: string;
+    mailbox: string;
+    /** Off for local test servers with self-signed certificates. */
+    rejectUnauthorized: boolean;
+}
+
+/** Unseen messages in the mailbox; each is marked \Seen once ingested. */
+export async function pollImap(config: ImapPollConfig): Promise<MailPollResult> {
+    const { ImapFlow } = await import('imapflow');
+    const result = emptyResult('IMAP', `${config.user}@${config.host}/${config.mailbox}`);
+    const client = new ImapFlow({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: { user: config.user, pass: config.password },
+        tls: { rejectUnauthorized: config.rejectUnauthorized },
+        logger: false,
+    });
+
+    await client.connect();
+    try {
+        const lock = await client.getMailboxLock(config.mailbox);
+        try {
+            const uids = (await client.search({ seen: false }, { uid: true })) || [];
+            for (const uid of uids) {
+                const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+                if (!message || !message.source) continue;
+                if (await ingestInto(result, message.source, `UID ${uid}`)) {
+                    await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+                }
+            }
+        } finally {
+            lock.release();
+        }
+    } finally {
+        await client.logout();
+    }
+    return result;
+}
+
+/**
+ * Mail sources from the environment: `MAIL_MAILDIR` for a maildir path, and
+ * `MAIL_IMAP_HOST` / `MAIL_IMAP_USER` / `MAIL_IMAP_PASSWORD` (plus optional
+ * `MAIL_IMAP_PORT`, `MAIL_IMAP_SECURE`, `MAIL_IMAP_MAILBOX`, `MAIL_IMAP_TLS_VERIFY`)
+ * for an IMAP account.
+ */
+export function getMailPollConfig(env: Record<string, string | undefined> = process.env) {
+    const secure = env.MAIL_IMAP_SECURE !== 'false';
+    const imap: ImapPollConfig | null =
+        env.MAIL_IMAP_HOST && env.MAIL_IMAP_USER
+            ? {
+                  host: env.MAIL_IMAP_HOST,
+                  port: Number(env.MAIL_IMAP_PORT) || (secure ? 993 : 143),
+                  secure,
+                  user: env.MAIL_IMAP_USER,
+                  password: env.MAIL_IMAP_PASSWORD || '',
+                  mailbox: env.MAIL_IMAP_MAILBOX || 'INBOX',
+                  rejectUnauthorized: env.MAIL_IMAP_TLS_VERIFY !== 'false',
+              }
+            : null;
+    return { maildir: env.MAIL_MAILDIR || null, imap };
+}
+
+/** Poll every configured source once; a source that cannot be reached is reported, not thrown. */
+export async function pollMailSources() {
+    const config = getMailPollConfig();
+    const results: MailPollResult[] = [];
+    const errors: { source: EmailSource; error: string }[] = [];
+
+    if (config.maildir) {
+        try {
+            results.push(await pollMaildir(config.maildir));
+        } catch (error: unknown) {
+            errors.push({ source: 'MAILDIR', error: getErrorMessage(error) });
+        }
+    }
+    if (config.imap) {
+        try {
+            results.push(await pollImap(config.imap));
+        } catch (error: unknown) {
+            errors.push({ source: 'IMAP', error: getErrorMessage(error) });
+        }
+    }
+
+    return { configured: !!(config.maildir || config.imap), results, errors };
+}
@@ -0,0 +1,187 @@
+import { db } from '@/db';
+import { customerTemplates, extractionProviders, spreadsheetMappings } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { buildProviders, getEnvProviderConfigs } from '@/lib/extraction/config';
+import { runExtraction } from '@/lib/extraction/pipeline';
+import { buildSystemPrompt } from '@/lib/extraction/prompt';
+import {
+    applyCustomerTemplate,
+    detectCustomerTemplate,
+    formatTemplateInstructions,
+    type CustomerTemplate,
+} from '@/lib/extraction/templates';
+import type { PdfTableGrid } from '@/lib/pdf-layout';
+import type { OcrPageResult } from '@/lib/pdf-ocr';
+import {
+    averageOcrConfidence,
+    ocrTextWarning,
+    scoreFieldConfidence,
+    validateExtraction,
+} from '@/lib/extraction-validation';
+import type { ExtractionProvider, ExtractionProviderConfig } from '@/lib/extraction/providers';
+import { pickSavedMapping, type SpreadsheetMapping } from '@/lib/spreadsheet-import';
+import { readSpreadsheet } from '@/lib/spreadsheet-read';
+import { extractionProviderConfigSchema } from '@/lib/schemas';
+
+/**
+ * Resolve the provider chain: enabled rows from `extraction_providers` when any
+ * exist, otherwise the env configuration. A database outage never blocks parsing.
+ */
+export async function loadExtractionProviders(): Promise<ExtractionProvider[]> {
+    let configs: ExtractionProviderConfig[] = [];
+
+    try {
+        const rows = await db
+            .select()
+            .from(extractionProviders)
+            .where(eq(extractionProviders.enabled, true))
+            .orderBy(asc(extractionProviders.priority), asc(extractionProviders.name));
+
+        configs = rows.flatMap((row) => {
+            const parsed = extractionProviderConfigSchema.safeParse({
+                name: row.name,
+                kind: row.kind,
+                model: row.model ?? undefined,
+                endpoint: row.endpoint ?? undefined,
+                apiKeyEnv: row.apiKeyEnv ?? undefined,
+                timeoutMs: row.timeoutMs ?? undefined,
+                maxRetries: row.maxRetries ?? undefined,
+                retryDelayMs: row.retryDelayMs ?? undefined,
+            });
+            if (!parsed.success) {
+                console.warn(`Ignoring extraction provider row ${row.name}:`, parsed.error.message);
+                return [];
+            }
+            return [parsed.data];
+        });
+    } catch (error: unknown) {
+        console.warn('Could not load extraction providers from DB:', getErrorMessage(error));
+    }
+
+    return buildProviders(configs.length > 0 ? configs : getEnvProviderConfigs());
+}
+
+export function toCustomerTemplate(row: typeof customerTemplates.$inferSelect): CustomerTemplate {
+    return {
+        id: row.id,
+        name: row.name,
+        customerName: row.customerName,
+        enabled: row.enabled,
+        priority: row.priority,
+        keywords: JSON.parse(row.keywords),
+        headerFingerprint: JSON.parse(row.headerFingerprint),
+        minScore: row.minScore,
+        promptAdditions: row.promptAdditions,
+        fieldDefaults: JSON.parse(row.fieldDefaults),
+        sizeAliases: JSON.parse(row.sizeAliases),
+        rules: JSON.parse(row.rules),
+    };
+}
+
+/** Column values for an insert or full update; the JSON columns are stored as text. */
+export function toTemplateRow(template: Omit<CustomerTemplate, 'id'>) {
+    return {
+        name: template.name,
+        customerName: template.customerName || null,
+        enabled: template.enabled,
+        priority: template.priority,
+        keywords: JSON.stringify(template.keywords),
+        headerFingerprint: JSON.stringify(template.headerFingerprint),
+        minScore: template.minScore,
+        promptAdditions: template.promptAdditions?.trim() || null,
+        fieldDefaults: JSON.stringify(template.fieldDefaults),
+        sizeAliases: JSON.stringify(template.sizeAliases),
+        rules: JSON.stringify(template.rules),
+    };
+}
+
+/** Enabled customer templates; like providers, a database outage just means none apply. */
+export async function loadCustomerTemplates(): Promise<CustomerTemplate[]> {
+    try {
+        const rows = await db
+            .select()
+            .from(customerTemplates)
+            .where(eq(customerTemplates.enabled, true))
+            .orderBy(asc(customerTemplates.priority), asc(customerTemplates.name));
+        return rows.map(toCustomerTemplate);
+    } catch (error: unknown) {
+        console.warn('Could not load customer templates from DB:', getErrorMessage(error));
+        return [];
+    }
+}
+
+/**
+ * Run the provider chain on PDF text and attach validation warnings and field confidence.
+ * A matching customer template replaces the default buyer instructions in the prompt and
+ * post-processes the result. Text read by OCR adds an `OCR_TEXT` warning and scales every
+ * field's confidence by the OCR engine's average confidence (0.8 OCR turns 0.9 into 0.72).
+ */
+export async function extractOrderFromText(input: {
+    text: string;
+    tables?: PdfTableGrid[];
+    ocr?: OcrPageResult[];
+    /** Time budget for the whole provider chain; see `runExtraction`. */
+    deadlineMs?: number;
+}) {
+    const [providers, templates] = await Promise.all([
+        loadExtractionProviders(),
+        loadCustomerTemplates(),
+    ]);
+    const match = detectCustomerTemplate(templates, input.text, input.tables);
+    const systemPrompt = match
+        ? buildSystemPrompt(formatTemplateInstructions(match.template))
+        : undefined;
+
+    const extraction = await runExtraction(providers, { ...input, systemPrompt });
+    const result = match
+        ? { ...extraction, data: applyCustomerTemplate(extraction.data, match.template) }
+        : extraction;
+    const warnings = validateExtraction(result.data);
+    const confidence = scoreFieldConfidence(result.data, input.text, warnings);
+
+    const ocrWarning = ocrTextWarning(input.ocr ?? []);
+    if (ocrWarning) {
+        const ocrConfidence = averageOcrConfidence(input.ocr ?? []);
+        for (const field of Object.keys(confidence)) {
+            confidence[field] = Math.round(confidence[field] * ocrConfidence * 100) / 100;
+        }
+        warnings.push(ocrWarning);
+    }
+
+    return { ...result, warnings, confidence, templateName: match?.template.name };
+}
+
+/**
+ * Server-side counterpart of the uploader's spreadsheet step: apply the saved customer
+ * mapping `pickSavedMapping` settles on. Without one there is nobody to map the
+ * columns, so the file fails with a pointer to the uploader.
+ */
+export async function extractOrderFromSpreadsheet(data: Uint8Array) {
+    const sheets = readSpreadsheet(data).filter((sheet) => sheet.rows.length);
+    if (sheets.length === 0) throw new Error('The spreadsheet is empty');
+
+    const rows = await db
+        .select()
+        .from(spreadsheetMappings)
+        .orderBy(asc(spreadsheetMappings.customerName));
+    const { match, matching } = pickSavedMapping(
+        sheets,
+        rows.map((row) => ({
+            customerName: row.customerName,
+            mapping: JSON.parse(row.mapping) as SpreadsheetMapping,
+        }))
+    );
+    if (match) {
+        const { entry, extraction } = match;
+        return { ...extraction, provider: 'spreadsheet', customerName: entry.customerName };
+    }
+    if (matching.length > 1) {
+        throw new Error(
+            `Saved column mappings of ${matching.join(', ')} all match this spreadsheet; import it from the uploader to pick one`
+        );
+    }
+    throw new Error(
+        'No saved column mapping matches this spreadsheet; import it once from the uploader to map its columns'
+    );
+}
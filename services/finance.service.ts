@@ -2,22 +2,29 @@ import { db } from '@/db';
 import {
     commercialInvoices,
     containers,
+    financeNotes,
     logisticsBills,
     orderItems,
     orders,
     payments,
     vendorBills,
 } from '@/db/schema';
-import { and, eq } from 'drizzle-orm';
+import { and, desc, eq } from 'drizzle-orm';
+import { isDraftOrder } from '@/lib/constants';
 import { addDays, parseDecimalInput, round2 } from '@/lib/finance-math';
+import { defaultNoteNo, netAdjustment, noteLimitError } from '@/lib/finance-notes';
+import { normalizeCurrency, settleDocument } from '@/lib/fx';
 import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
 import {
     commercialInvoiceSchema,
+    financeNoteSchema,
     logisticsBillSchema,
     paymentSchema,
     vendorBillSchema,
 } from '@/lib/schemas';
 import { z } from 'zod';
+import { loadFxConverter } from '@/services/fx.service';
+import type { DbExecutor } from '@/services/revision.service';
 
 function createDefaultCode(prefix: string): string {
     const stamp = new Date()
@@ -27,52 +34,110 @@ function createDefaultCode(prefix: string): string {
     return `${prefix}-${stamp}`;
 }
 
+const DRAFT_ORDER_ERROR = 'Approve the draft order before billing it';
+
 export type PaymentTargetType = 'CUSTOMER_INVOICE' | 'VENDOR_BILL' | 'LOGISTICS_BILL';
 
+async function loadPaymentTarget(targetType: PaymentTargetType, targetId: string) {
+    const columns = {
+        orderId: true,
+        amount: true,
+        currency: true,
+        issueDate: true,
+    } as const;
+    if (targetType === 'CUSTOMER_INVOICE') {
+        return db.query.commercialInvoices.findFirst({
+            columns,
+            where: eq(commercialInvoices.id, targetId),
+        });
+    }
+    if (targetType === 'VENDOR_BILL') {
+        return db.query.vendorBills.findFirst({ columns, where: eq(vendorBills.id, targetId) });
+    }
+    return db.query.logisticsBills.findFirst({ columns, where: eq(logisticsBills.id, targetId) });
+}
+
+/** Lock the document row for the rest of `tx`, so notes against it are checked one at a time. */
+async function lockPaymentTarget(tx: DbExecutor, targetType: PaymentTargetType, targetId: string) {
+    const table =
+        targetType === 'CUSTOMER_INVOICE'
+            ? commercialInvoices
+            : targetType === 'VENDOR_BILL'
+              ? vendorBills
+              : logisticsBills;
+    const [target] = await tx
+        .select({ orderId: table.orderId, amount: table.amount, currency: table.currency })
+        .from(table)
+        .where(eq(table.id, targetId))
+        .for('update');
+    return target;
+}
+
+async function loadNoteAmounts(
+    targetType: PaymentTargetType,
+    targetId: string,
+    executor: DbExecutor = db
+) {
+    const rows = await executor
+        .select({ noteType: financeNotes.noteType, amount: financeNotes.amount })
+        .from(financeNotes)
+        .where(and(eq(financeNotes.targetType, targetType), eq(financeNotes.targetId, targetId)));
+    return rows.map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) }));
+}
+
+/**
+ * Re-derive a document's status from its payments and credit/debit notes. Payments
+ * made in another currency count at the rate on their payment date (see settleDocument).
+ */
 export async function refreshBillStatus(
     targetType: PaymentTargetType,
     targetId: string
 ): Promise<string | null> {
-    const paidRows = await db
-        .select({ amount: payments.amount })
-        .from(payments)
-        .where(and(eq(payments.targetType, targetType), eq(payments.targetId, targetId)));
+    const target = await loadPaymentTarget(targetType, targetId);
+    if (!target) return null;
+
+    const [paidRows, notes, fx] = await Promise.all([
+        db
+            .select({
+                amount: payments.amount,
+                currency: payments.currency,
+                paymentDate: payments.paymentDate,
+            })
+            .from(payments)
+            .where(and(eq(payments.targetType, targetType), eq(payments.targetId, targetId))),
+        loadNoteAmounts(targetType, targetId),
+        loadFxConverter(),
+    ]);
 
-    const paidAmount = round2(
-        paidRows.reduce((sum, row) => sum + parseDecimalInput(row.amount, 0), 0)
+    const { paid, outstanding } = settleDocument(
+        {
+            ...target,
+            amount: parseDecimalInput(target.amount, 0),
+            adjustment: netAdjustment(notes),
+        },
+        paidRows.map((row) => ({ ...row, amount: parseDecimalInput(row.amount, 0) })),
+        fx,
+        targetType === 'CUSTOMER_INVOICE' ? 'IN' : 'OUT'
     );
+    const status = outstanding <= 0 ? 'PAID' : paid > 0 ? 'PARTIAL' : 'OPEN';
 
     if (targetType === 'CUSTOMER_INVOICE') {
-        const invoice = await db.query.commercialInvoices.findFirst({
-            where: eq(commercialInvoices.id, targetId),
-        });
-        if (!invoice) return null;
-        const dueAmount = parseDecimalInput(invoice.amount, 0);
-        const status = paidAmount >= dueAmount ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'OPEN';
-        await db.update(commercialInvoices).set({ status }).where(eq(commercialInvoices.id, targetId));
-        return invoice.orderId;
-    }
-
-    if (targetType === 'VENDOR_BILL') {
-        const bill = await db.query.vendorBills.findFirst({ where: eq(vendorBills.id, targetId) });
-        if (!bill) return null;
-        const dueAmount = parseDecimalInput(bill.amount, 0);
-        const status = paidAmount >= dueAmount ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'OPEN';
+        await db
+            .update(commercialInvoices)
+            .set({ status })
+            .where(eq(commercialInvoices.id, targetId));
+    } else if (targetType === 'VENDOR_BILL') {
         await db.update(vendorBills).set({ status }).where(eq(vendorBills.id, targetId));
-        return bill.orderId;
+    } else {
+        await db.update(logisticsBills).set({ status }).where(eq(logisticsBills.id, targetId));
     }
-
-    const bill = await db.query.logisticsBills.findFirst({ where: eq(logisticsBills.id, targetId) });
-    if (!bill) return null;
-    const dueAmount = parseDecimalInput(bill.amount, 0);
-    const status = paidAmount >= dueAmount ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'OPEN';
-    await db.update(logisticsBills).set({ status }).where(eq(logisticsBills.id, targetId));
-    return bill.orderId ?? null;
+    return target.orderId ?? null;
 }
 
 export async function createCommercialInvoice(data: z.infer<typeof commercialInvoiceSchema>) {
     const order = await db.query.orders.findFirst({ where: eq(orders.id, data.orderId) });
     if (!order) throw new Error('Order not found');
+    if (isDraftOrder(order)) throw new Error(DRAFT_ORDER_ERROR);
 
     const issueDate = new Date();
     const amount = parseDecimalInput(data.amount, parseDecimalInput(order.totalAmount, 0));
@@ -104,6 +169,7 @@ export async function createCommercialInvoice(data: z.infer<typeof commercialInv
 export async function createVendorBill(data: z.infer<typeof vendorBillSchema>) {
     const order = await db.query.orders.findFirst({ where: eq(orders.id, data.orderId) });
     if (!order) throw new Error('Order not found');
+    if (isDraftOrder(order)) throw new Error(DRAFT_ORDER_ERROR);
 
     const issueDate = new Date();
     let amount = parseDecimalInput(data.amount, NaN);
@@ -154,6 +220,7 @@ export async function createLogisticsBill(data: z.infer<typeof logisticsBillSche
     const order = data.orderId
         ? await db.query.orders.findFirst({ where: eq(orders.id, data.orderId) })
         : null;
+    if (isDraftOrder(order)) throw new Error(DRAFT_ORDER_ERROR);
 
     const container = data.containerId
         ? await db.query.containers.findFirst({ where: eq(containers.id, data.containerId) })
@@ -190,12 +257,44 @@ export async function createLogisticsBill(data: z.infer<typeof logisticsBillSche
     return saved;
 }
 
+/**
+ * Why a payment in `currency` can't count toward its document, or null when it can:
+ * a payment in another currency needs rates for both currencies on its date.
+ */
+export async function paymentRateError(
+    targetType: PaymentTargetType,
+    targetId: string,
+    currency: string | null | undefined,
+    paymentDate: Date
+): Promise<string | null> {
+    if (!currency) return null;
+    const target = await loadPaymentTarget(targetType, targetId);
+    if (!target) return 'Payment target not found';
+    const docCurrency = normalizeCurrency(target.currency);
+    if (docCurrency === normalizeCurrency(currency)) return null;
+
+    const fx = await loadFxConverter();
+    const missing = [normalizeCurrency(currency), docCurrency].find(
+        (code) => fx.rateOn(code, paymentDate) === null
+    );
+    return missing ? `No ${missing} exchange rate on file` : null;
+}
+
 export async function createPayment(data: z.infer<typeof paymentSchema>) {
     const amount = parseDecimalInput(data.amount, NaN);
     if (!Number.isFinite(amount) || amount <= 0) {
         throw new Error('amount must be a positive number');
     }
 
+    const paymentDate = data.paymentDate ?? new Date();
+    const rateError = await paymentRateError(
+        data.targetType,
+        data.targetId,
+        data.currency,
+        paymentDate
+    );
+    if (rateError) throw new Error(rateError);
+
     const [saved] = await db
         .insert(payments)
         .values({
@@ -203,7 +302,8 @@ export async function createPayment(data: z.infer<typeof paymentSchema>) {
             targetId: data.targetId,
             direction: data.direction,
             amount: amount.toFixed(2),
-            paymentDate: new Date(),
+            currency: data.currency || null,
+            paymentDate,
             method: data.method || null,
             referenceNo: data.referenceNo || null,
             notes: data.notes || null,
@@ -217,3 +317,60 @@ export async function createPayment(data: z.infer<typeof paymentSchema>) {
 
     return saved;
 }
+
+/** Credit and debit notes, newest first; for one order when given. */
+export async function listFinanceNotes(orderId?: string | null) {
+    return db
+        .select()
+        .from(financeNotes)
+        .where(orderId ? eq(financeNotes.orderId, orderId) : undefined)
+        .orderBy(desc(financeNotes.issueDate), desc(financeNotes.createdAt));
+}
+
+/** Record a credit or debit note against an invoice or vendor bill and re-derive its status. */
+export async function createFinanceNote(data: z.infer<typeof financeNoteSchema>) {
+    // The document stays locked from the limit check to the insert, so two credits
+    // sent together cannot both fit under the same remaining amount
+    const saved = await db.transaction(async (tx) => {
+        const target = await lockPaymentTarget(tx, data.targetType, data.targetId);
+        if (!target?.orderId) throw new Error('Document not found');
+
+        const amount = parseDecimalInput(data.amount, NaN);
+        const limitError = noteLimitError(
+            parseDecimalInput(target.amount, 0),
+            await loadNoteAmounts(data.targetType, data.targetId, tx),
+            { noteType: data.noteType, amount }
+        );
+        if (limitError) throw new Error(limitError);
+
+        const [note] = await tx
+            .insert(financeNotes)
+            .values({
+                noteNo: data.noteNo || defaultNoteNo(data.noteType),
+                noteType: data.noteType,
+                targetType: data.targetType,
+                targetId: data.targetId,
+                orderId: target.orderId,
+                amount: amount.toFixed(2),
+                currency: normalizeCurrency(target.currency),
+                issueDate: data.issueDate ?? new Date(),
+                reason: data.reason,
+                description: data.description || null,
+            })
+            .returning();
+        return note;
+    });
+
+    await refreshBillStatus(data.targetType, data.targetId);
+    await recomputeOrderWorkflowStatus(saved.orderId);
+    return saved;
+}
+
+export async function deleteFinanceNote(id: string) {
+    const [deleted] = await db.delete(financeNotes).where(eq(financeNotes.id, id)).returning();
+    if (!deleted) throw new Error('Note not found');
+
+    await refreshBillStatus(deleted.targetType as PaymentTargetType, deleted.targetId);
+    await recomputeOrderWorkflowStatus(deleted.orderId);
+    return deleted;
+}
@@ -0,0 +1,65 @@
+import { db } from '@/db';
+import { fxRates } from '@/db/schema';
+import { asc, desc, eq } from 'drizzle-orm';
+import { createFxConverter, type FxConverter, type FxRateSource } from '@/lib/fx';
+import { parseDecimalInput } from '@/lib/finance-math';
+import { toTariffDate } from '@/lib/tariffs';
+import type { DbExecutor } from '@/services/revision.service';
+
+export interface FxRateInput {
+    currency: string;
+    rateDate: Date | string;
+    rate: number;
+    notes?: string | null;
+}
+
+/** Rates newest first, grouped by currency. */
+export async function listFxRates() {
+    const rows = await db
+        .select()
+        .from(fxRates)
+        .orderBy(asc(fxRates.currency), desc(fxRates.rateDate));
+    return rows.map((row) => ({ ...row, rate: parseDecimalInput(row.rate, 0) }));
+}
+
+/** Save rates; a rate already stored for the same currency and date is overwritten. */
+export async function saveFxRates(rates: FxRateInput[], source: FxRateSource) {
+    return db.transaction(async (tx) => {
+        let saved = 0;
+        for (const rate of rates) {
+            const values = {
+                currency: rate.currency.trim().toUpperCase(),
+                rateDate: toTariffDate(rate.rateDate),
+                rate: rate.rate.toFixed(8),
+                source,
+                notes: rate.notes || null,
+            };
+            await tx
+                .insert(fxRates)
+                .values(values)
+                .onConflictDoUpdate({ target: [fxRates.currency, fxRates.rateDate], set: values });
+            saved++;
+        }
+        return { saved };
+    });
+}
+
+export async function deleteFxRate(id: string) {
+    const [deleted] = await db.delete(fxRates).where(eq(fxRates.id, id)).returning();
+    if (!deleted) throw new Error('FX rate not found');
+    return deleted;
+}
+
+/** Every stored rate, ready to convert amounts into the base currency. */
+export async function loadFxConverter(executor: DbExecutor = db): Promise<FxConverter> {
+    const rows = await executor
+        .select({ currency: fxRates.currency, rateDate: fxRates.rateDate, rate: fxRates.rate })
+        .from(fxRates);
+    return createFxConverter(
+        rows.map((row) => ({
+            currency: row.currency,
+            rateDate: row.rateDate,
+            rate: parseDecimalInput(row.rate, 0),
+        }))
+    );
+}
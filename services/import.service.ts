@@ -0,0 +1,324 @@
+import { db } from '@/db';
+import { importJobFiles, importJobs, inboundEmails } from '@/db/schema';
+import { and, asc, desc, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+import { getErrorMessage } from '@/lib/api-helpers';
+import { ORDER_STATUS } from '@/lib/constants';
+import { toSaveOrderInput } from '@/lib/extraction/order-payload';
+import { isExtractionFailure } from '@/lib/extraction/pipeline';
+import {
+    createKeyedLock,
+    expandUploads,
+    runWithConcurrency,
+    type ImportUpload,
+    type RejectedUpload,
+} from '@/lib/import-files';
+import { describePdfError, extractPdfText } from '@/lib/pdf-text';
+import { saveOrderSchema } from '@/lib/schemas';
+import { isSpreadsheetFile } from '@/lib/spreadsheet-import';
+import { readStoredFile, storeUploadedFile } from '@/services/document.service';
+import {
+    extractOrderFromSpreadsheet,
+    extractOrderFromText,
+} from '@/services/extraction.service';
+import { createOrderFromExtraction, findOrderByVpoNumber } from '@/services/order.service';
+
+/** Status given to orders created by a batch import until someone reviews them. */
+export const IMPORTED_ORDER_STATUS = ORDER_STATUS.DRAFT;
+
+/** PDFs parsed at once per job. AI providers rate-limit, so keep this small. */
+function importConcurrency(): number {
+    const value = Number(process.env.IMPORT_CONCURRENCY);
+    return Number.isInteger(value) && value > 0 ? value : 2;
+}
+
+/** Jobs being worked on by this process, so polling does not start a second runner. */
+const activeJobs = new Set<string>();
+
+/**
+ * Held from the duplicate check until the draft is saved, so two files with the same
+ * VPO (in one job or two) cannot both find no order and both create one.
+ */
+const withVpoLock = createKeyedLock();
+
+const SPREADSHEET_CONTENT_TYPES: Record<string, string> = {
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    xlsm: 'application/vnd.ms-excel.sheet.macroEnabled.12',
+    xls: 'application/vnd.ms-excel',
+    csv: 'text/csv',
+};
+
+/**
+ * Create a job for the uploaded files. PDFs and spreadsheets (loose or inside ZIPs)
+ * are written to document storage up front, so the job can run after the request
+ * has returned and be resumed if the server restarts; rejected entries are recorded
+ * as failed. `sourceEmailId` tags the job and its orders with the email they came in.
+ */
+export async function createImportJob(
+    uploads: ImportUpload[],
+    createdBy?: string | null,
+    options: { sourceEmailId?: string | null } = {}
+) {
+    const { pdfs, spreadsheets, rejected } = await expandUploads(uploads);
+    const accepted = [...pdfs, ...spreadsheets];
+    if (accepted.length === 0 && rejected.length === 0) {
+        throw new Error('No files to import');
+    }
+
+    const stored: { fileName: string; storedFileId: string }[] = [];
+    const repeated: RejectedUpload[] = [];
+    for (const upload of accepted) {
+        const extension = isSpreadsheetFile(upload.fileName)
+            ? upload.fileName.split('.').pop()!.toLowerCase()
+            : 'pdf';
+        const file = await storeUploadedFile({
+            data: upload.data,
+            fileName: upload.fileName.split('/').pop() || upload.fileName,
+            contentType: SPREADSHEET_CONTENT_TYPES[extension] ?? 'application/pdf',
+            extension,
+        });
+        // Storage keeps one row per content, so the same PDF twice shares an id
+        const first = stored.find((entry) => entry.storedFileId === file.id);
+        if (first) {
+            repeated.push({
+                fileName: upload.fileName,
+                error: `Same file as ${first.fileName} in this import`,
+            });
+            continue;
+        }
+        stored.push({ fileName: upload.fileName, storedFileId: file.id });
+    }
+    rejected.push(...repeated);
+
+    return db.transaction(async (tx) => {
+        const [job] = await tx
+            .insert(importJobs)
+            .values({
+                status: stored.length > 0 ? 'QUEUED' : 'COMPLETED',
+                totalFiles: stored.length + rejected.length,
+                processedFiles: rejected.length,
+                failedFiles: rejected.length,
+                createdBy: createdBy || null,
+                sourceEmailId: options.sourceEmailId || null,
+                finishedAt: stored.length > 0 ? null : new Date(),
+            })
+            .returning();
+
+        const now = new Date();
+        if (stored.length + rejected.length === 0) return job;
+        await tx.insert(importJobFiles).values([
+            ...stored.map((file) => ({ jobId: job.id, ...file })),
+            ...rejected.map((file) => ({
+                jobId: job.id,
+                fileName: file.fileName,
+                status: 'FAILED',
+                error: file.error,
+                finishedAt: now,
+            })),
+        ]);
+
+        return job;
+    });
+}
+
+/** Read a stored file into order data: saved column mappings for spreadsheets, AI for PDFs. */
+async function extractImportFile(fileName: string, data: Buffer) {
+    if (isSpreadsheetFile(fileName)) {
+        const sheet = await extractOrderFromSpreadsheet(new Uint8Array(data));
+        return {
+            data: sheet.data,
+            text: sheet.text,
+            provider: sheet.provider,
+            model: undefined,
+            rawResponse: undefined,
+            warnings: sheet.warnings,
+            confidence: undefined,
+            templateName: undefined,
+        };
+    }
+
+    const pdf = await extractPdfText(data);
+    if (!pdf.text.trim()) throw new Error('No text could be read from the PDF');
+
+    const extraction = await extractOrderFromText({
+        text: pdf.text,
+        tables: pdf.tables,
+        ocr: pdf.ocr,
+    });
+    return { ...extraction, text: pdf.text };
+}
+
+/** Parse one stored file into a draft order and record the outcome on its job row. */
+async function processImportFile(
+    file: typeof importJobFiles.$inferSelect,
+    sourceEmailId: string | null
+) {
+    await db
+        .update(importJobFiles)
+        .set({ status: 'PROCESSING', startedAt: new Date(), error: null })
+        .where(eq(importJobFiles.id, file.id));
+
+    let succeeded = false;
+    let duplicateOfOrderId: string | null = null;
+    try {
+        const stored = file.storedFileId ? await readStoredFile(file.storedFileId) : null;
+        if (!stored) throw new Error('Stored file is missing');
+
+        const extraction = await extractImportFile(file.fileName, stored.data);
+        const input = toSaveOrderInput(extraction.data);
+        if (!input.vpoNumber) throw new Error(`No VPO number found in ${file.fileName}`);
+
+        const vpoNumber = input.vpoNumber;
+        const payload = saveOrderSchema.parse({
+            ...input,
+            status: IMPORTED_ORDER_STATUS,
+            sourceFileId: stored.file.id,
+            sourceFileName: file.fileName.split('/').pop() || file.fileName,
+            sourceEmailId,
+            extraction: {
+                fileName: file.fileName,
+                fileHash: stored.file.fileHash,
+                fileSize: stored.file.fileSize,
+                extractedText: extraction.text,
+                provider: extraction.provider,
+                model: extraction.model,
+                rawResponse: extraction.rawResponse,
+                warnings: extraction.warnings,
+                fieldConfidence: extraction.confidence,
+                templateName: extraction.templateName,
+            },
+        });
+        const { orderId } = await withVpoLock(vpoNumber.trim().toUpperCase(), async () => {
+            // A re-issued PO is reviewed as a revision of the saved order, not imported again
+            const duplicate = await findOrderByVpoNumber(vpoNumber);
+            if (duplicate) {
+                duplicateOfOrderId = duplicate.id;
+                throw new Error(
+                    `VPO ${vpoNumber} already exists. Upload the file from the home page to review it as a revision.`
+                );
+            }
+            return createOrderFromExtraction(payload);
+        });
+
+        await db
+            .update(importJobFiles)
+            .set({
+                status: 'SUCCEEDED',
+                orderId,
+                provider: extraction.provider,
+                warningCount: extraction.warnings.length,
+                finishedAt: new Date(),
+            })
+            .where(eq(importJobFiles.id, file.id));
+        succeeded = true;
+    } catch (error: unknown) {
+        console.warn(`Import of ${file.fileName} failed:`, getErrorMessage(error));
+        const message = isExtractionFailure(error)
+            ? error.attempts.map((a) => `${a.provider}: ${a.error}`).join('; ') || error.message
+            : describePdfError(error);
+        await db
+            .update(importJobFiles)
+            .set({ status: 'FAILED', error: message, duplicateOfOrderId, finishedAt: new Date() })
+            .where(eq(importJobFiles.id, file.id));
+    }
+
+    await db
+        .update(importJobs)
+        .set({
+            processedFiles: sql`${importJobs.processedFiles} + 1`,
+            succeededFiles: sql`${importJobs.succeededFiles} + ${succeeded ? 1 : 0}`,
+            failedFiles: sql`${importJobs.failedFiles} + ${succeeded ? 0 : 1}`,
+        })
+        .where(eq(importJobs.id, file.jobId));
+}
+
+async function runImportJob(jobId: string) {
+    const job = await db.query.importJobs.findFirst({ where: eq(importJobs.id, jobId) });
+    if (!job) return;
+
+    // Rows left PROCESSING by a crashed run are retried from the start.
+    await db
+        .update(importJobFiles)
+        .set({ status: 'PENDING' })
+        .where(and(eq(importJobFiles.jobId, jobId), eq(importJobFiles.status, 'PROCESSING')));
+
+    await db
+        .update(importJobs)
+        .set({ status: 'RUNNING', startedAt: sql`coalesce(${importJobs.startedAt}, now())` })
+        .where(eq(importJobs.id, jobId));
+
+    const pending = await db
+        .select()
+        .from(importJobFiles)
+        .where(and(eq(importJobFiles.jobId, jobId), eq(importJobFiles.status, 'PENDING')))
+        .orderBy(asc(importJobFiles.createdAt), asc(importJobFiles.fileName));
+
+    await runWithConcurrency(pending, importConcurrency(), (file) =>
+        processImportFile(file, job.sourceEmailId)
+    );
+
+    await db
+        .update(importJobs)
+        .set({ status: 'COMPLETED', finishedAt: new Date() })
+        .where(eq(importJobs.id, jobId));
+}
+
+/** Start (or resume) a job in the background unless this process is already running it. */
+export function startImportJob(jobId: string): Promise<void> {
+    if (activeJobs.has(jobId)) return Promise.resolve();
+    activeJobs.add(jobId);
+
+    return runImportJob(jobId)
+        .catch((error: unknown) => {
+            console.error(`Import job ${jobId} stopped:`, error);
+        })
+        .finally(() => {
+            activeJobs.delete(jobId);
+        });
+}
+
+export function isImportJobActive(jobId: string): boolean {
+    return activeJobs.has(jobId);
+}
+
+/** Job columns plus the sender and subject of the email it came from, if any. */
+const jobWithEmail = {
+    ...getTableColumns(importJobs),
+    emailFrom: inboundEmails.fromAddress,
+    emailFromName: inboundEmails.fromName,
+    emailSubject: inboundEmails.subject,
+};
+
+export async function getImportJob(jobId: string) {
+    const [job] = await db
+        .select(jobWithEmail)
+        .from(importJobs)
+        .leftJoin(inboundEmails, eq(importJobs.sourceEmailId, inboundEmails.id))
+        .where(eq(importJobs.id, jobId));
+    if (!job) return null;
+
+    const files = await db
+        .select()
+        .from(importJobFiles)
+        .where(eq(importJobFiles.jobId, jobId))
+        .orderBy(asc(importJobFiles.createdAt), asc(importJobFiles.fileName));
+
+    return { ...job, files };
+}
+
+export async function listImportJobs(limit = 20) {
+    return db
+        .select(jobWithEmail)
+        .from(importJobs)
+        .leftJoin(inboundEmails, eq(importJobs.sourceEmailId, inboundEmails.id))
+        .orderBy(desc(importJobs.createdAt))
+        .limit(limit);
+}
+
+/** Unfinished jobs that no runner in this process owns, e.g. after a restart. */
+export async function findStalledImportJobs() {
+    const rows = await db
+        .select({ id: importJobs.id })
+        .from(importJobs)
+        .where(inArray(importJobs.status, ['QUEUED', 'RUNNING']));
+    return rows.map((row) => row.id).filter((id) => !activeJobs.has(id));
+}
@@ -0,0 +1,74 @@
+import { db } from '@/db';
+import { landedCostComponents } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import {
+    DEFAULT_LANDED_COST_COMPONENTS,
+    componentsForOrder,
+    type LandedCostBasis,
+    type LandedCostComponent,
+    type LandedCostScope,
+} from '@/lib/landed-cost';
+import type { DbExecutor } from '@/services/revision.service';
+
+/**
+ * Landed-cost components as stored. Until some are saved the built-in defaults
+ * (the original 3PL estimate) apply, so a fresh database prices orders as before.
+ */
+export async function getLandedCostConfig(
+    executor: DbExecutor = db
+): Promise<{ configured: boolean; components: LandedCostComponent[] }> {
+    const rows = await executor
+        .select()
+        .from(landedCostComponents)
+        .orderBy(asc(landedCostComponents.sortOrder), asc(landedCostComponents.name));
+
+    if (rows.length === 0) {
+        return { configured: false, components: DEFAULT_LANDED_COST_COMPONENTS };
+    }
+
+    return {
+        configured: true,
+        components: rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            basis: row.basis as LandedCostBasis,
+            rate: Number(row.rate || 0),
+            containerCbm: row.containerCbm === null ? null : Number(row.containerCbm),
+            shipVia: row.shipVia,
+            originCountry: row.originCountry,
+            customerName: row.customerName,
+            enabled: row.enabled,
+            sortOrder: row.sortOrder,
+            notes: row.notes,
+        })),
+    };
+}
+
+/** The components that price an order with this ship-via, origin and customer. */
+export async function loadLandedCostComponents(executor: DbExecutor = db, scope: LandedCostScope) {
+    return componentsForOrder((await getLandedCostConfig(executor)).components, scope);
+}
+
+/** Replace every component; the settings page always sends the full list. */
+export async function saveLandedCostComponents(components: LandedCostComponent[]) {
+    await db.transaction(async (tx) => {
+        await tx.delete(landedCostComponents);
+        if (components.length === 0) return;
+        await tx.insert(landedCostComponents).values(
+            components.map((component, index) => ({
+                name: component.name,
+                basis: component.basis,
+                rate: component.rate.toFixed(6),
+                containerCbm:
+                    component.containerCbm == null ? null : component.containerCbm.toFixed(2),
+                shipVia: component.shipVia || null,
+                originCountry: component.originCountry || null,
+                customerName: component.customerName || null,
+                enabled: component.enabled,
+                sortOrder: component.sortOrder ?? (index + 1) * 10,
+                notes: component.notes || null,
+            }))
+        );
+    });
+    return getLandedCostConfig();
+}
@@ -1,5 +1,7 @@
 import { db } from '@/db';
-import { containerAllocations, containers, shippingDocuments } from '@/db/schema';
+import { containerAllocations, containers, orders, shippingDocuments } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { isDraftOrder } from '@/lib/constants';
 import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
 import {
     containerSchema,
@@ -35,6 +37,10 @@ export async function createContainer(data: z.infer<typeof containerSchema>) {
 }
 
 export async function createContainerAllocation(data: z.infer<typeof allocateContainerSchema>) {
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, data.orderId) });
+    if (!order) throw new Error('Order not found');
+    if (isDraftOrder(order)) throw new Error('Approve the draft order before allocating it');
+
     const [saved] = await db
         .insert(containerAllocations)
         .values({
@@ -55,6 +61,10 @@ export async function createContainerAllocation(data: z.infer<typeof allocateCon
 export async function createShippingDoc(
     data: z.infer<typeof shippingDocSchema> & { issueDate?: string | Date | null }
 ) {
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, data.orderId) });
+    if (!order) throw new Error('Order not found');
+    if (isDraftOrder(order)) throw new Error('Approve the draft order before shipping it');
+
     const [saved] = await db
         .insert(shippingDocuments)
         .values({
@@ -1,48 +1,68 @@
 import { db } from '@/db';
-import { orders, orderItems, tariffRates, vendors } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { orders, orderItems, orderExtractions, vendors } from '@/db/schema';
+import { and, asc, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { isDraftOrder, ORDER_STATUS } from '@/lib/constants';
 import { calculateEstimatedMargin, parseDecimalInput, round2, round4 } from '@/lib/finance-math';
 import {
     deriveTariffKey,
-    inferOriginCountry,
-    normalizeTariffKey,
     resolveTariffRate,
+    savedOriginCountry,
+    suggestHtsCode,
+    type TariffRuleSet,
 } from '@/lib/tariffs';
-import { saveOrderSchema } from '@/lib/schemas';
+import { componentsForOrder, type LandedCostComponent } from '@/lib/landed-cost';
+import { orderRecomputeSchema, saveOrderSchema } from '@/lib/schemas';
+import {
+    ESTIMATE_FIELDS,
+    changedEstimateFields,
+    lineUsesTariffKey,
+    recomputeNote,
+    sumEstimates,
+    type EstimateField,
+    type LineEstimates,
+} from '@/lib/order-recompute';
+import {
+    diffOrderSnapshots,
+    inheritLineDetails,
+    matchItems,
+    revisionOrderUpdate,
+    toSnapshotItem,
+    toSnapshotOrder,
+    type OrderSnapshot,
+    type SnapshotItem,
+} from '@/lib/order-diff';
+import { approvalUpdate, onlyDraftOrders } from '@/lib/order-status';
+import { recomputeOrderWorkflowStatus } from '@/lib/workflow-status';
+import {
+    ensureBaselineRevision,
+    getOrderRevision,
+    loadOrderSnapshot,
+    recordOrderRevision,
+    type DbExecutor,
+} from '@/services/revision.service';
+import { getLandedCostConfig, loadLandedCostComponents } from '@/services/landed-cost.service';
+import {
+    createTariffLookup,
+    loadTariffMap,
+    loadTariffRules,
+    resolveOriginFor,
+} from '@/services/tariff.service';
 import { z } from 'zod';
 
 type SaveOrderPayload = z.infer<typeof saveOrderSchema>;
 
-export async function createOrderFromExtraction(data: SaveOrderPayload) {
-    // 1. Preparation
-    const originCountry = inferOriginCountry(data.supplierName || '', data.supplierAddress || '');
-
-    const tariffRows = await db
-        .select({ productClass: tariffRates.productClass, tariffRate: tariffRates.tariffRate })
-        .from(tariffRates);
-
-    const tariffMap = new Map<string, number>(
-        tariffRows.map((row) => [normalizeTariffKey(row.productClass), Number(row.tariffRate || 0)])
-    );
-
-    // 1.5 Auto-save Vendor if new
-    if (data.supplierName) {
-        const existingVendor = await db
-            .select()
-            .from(vendors)
-            .where(eq(vendors.name, data.supplierName))
-            .limit(1);
-
-        if (existingVendor.length === 0) {
-            await db.insert(vendors).values({
-                name: data.supplierName,
-                address: data.supplierAddress || null,
-            });
-        }
-    }
-
-    // 2. Item Compilation
-    const itemPayloads = (data.items || []).map((item) => {
+/**
+ * Row values for each payload item, with tariff and margin estimates filled in. A
+ * line with its own origin is priced from there instead of the order's origin.
+ */
+function buildItemPayloads(
+    items: SaveOrderPayload['items'],
+    originCountry: string,
+    tariffMap: Map<string, number>,
+    rules: TariffRuleSet,
+    costComponents: LandedCostComponent[]
+) {
+    return (items || []).map((item) => {
         const baseTariffKey = deriveTariffKey({
             description: item.description || '',
             collection: item.collection || '',
@@ -55,21 +75,27 @@ export async function createOrderFromExtraction(data: SaveOrderPayload) {
         const customerUnitPrice = item.customerUnitPrice ?? item.unitPrice ?? 0;
         const vendorUnitPrice = item.vendorUnitPrice ?? 0;
 
+        // An overridden classification is priced by its own code
+        const htsCodeOverride = item.htsCodeOverride || null;
         const tariffRate = resolveTariffRate({
             baseTariffKey,
-            originCountry,
+            originCountry: item.originCountry || originCountry,
             tariffMap,
+            rules,
+            htsCode: htsCodeOverride,
         }).rate;
 
+        const unitCbm = item.unitCbm ?? null;
         const estimate = calculateEstimatedMargin({
             customerUnitPrice,
             vendorUnitPrice,
             qty,
             tariffRate,
+            costComponents,
+            unitCbm,
         });
 
         return {
-            orderId: '', // placeholder, will set after order insertion
             productCode: item.productCode,
             description: item.description,
             quantity: qty,
@@ -86,17 +112,93 @@ export async function createOrderFromExtraction(data: SaveOrderPayload) {
             sizeBreakdown: item.sizeBreakdown ? JSON.stringify(item.sizeBreakdown) : null,
             productClass: baseTariffKey,
             collection: item.collection,
+            suggestedHtsCode: suggestHtsCode(baseTariffKey, rules),
+            htsCodeOverride,
+            htsOverrideReason: htsCodeOverride ? item.htsOverrideReason || null : null,
+            unitCbm: unitCbm === null ? null : unitCbm.toFixed(5),
+            originCountry: item.originCountry || null,
+            landedCostBreakdown: JSON.stringify(estimate.costBreakdown),
         };
     });
+}
 
-    const totalRevenue = round2(
-        itemPayloads.reduce((sum, item) => sum + Number(item.total || 0), 0)
+function sumTotals(items: { total: string | null; estimatedMargin: string | null }[]) {
+    const revenue = round2(items.reduce((sum, item) => sum + parseDecimalInput(item.total, 0), 0));
+    const estimatedMargin = round2(
+        items.reduce((sum, item) => sum + parseDecimalInput(item.estimatedMargin, 0), 0)
     );
-    const totalEstimatedMargin = round2(
-        itemPayloads.reduce((sum, item) => sum + Number(item.estimatedMargin || 0), 0)
+    const estimatedMarginRate = revenue > 0 ? round4(estimatedMargin / revenue) : 0;
+    return { revenue, estimatedMargin, estimatedMarginRate };
+}
+
+async function insertExtractionRecord(
+    executor: DbExecutor,
+    orderId: string,
+    extraction: NonNullable<SaveOrderPayload['extraction']>
+) {
+    await executor.insert(orderExtractions).values({
+        orderId,
+        fileName: extraction.fileName,
+        fileHash: extraction.fileHash,
+        fileSize: extraction.fileSize,
+        extractedText: extraction.extractedText,
+        provider: extraction.provider,
+        model: extraction.model,
+        rawResponse: extraction.rawResponse,
+        warnings: extraction.warnings ? JSON.stringify(extraction.warnings) : null,
+        fieldConfidence: extraction.fieldConfidence
+            ? JSON.stringify(extraction.fieldConfidence)
+            : null,
+        templateName: extraction.templateName,
+    });
+}
+
+export async function createOrderFromExtraction(data: SaveOrderPayload) {
+    // 1. Preparation (tariffs as of the expected ship date)
+    const rules = await loadTariffRules(db, data.expShipDate);
+    const { originCountry, originSource } = await resolveOriginFor(
+        db,
+        {
+            originCountry: data.originCountry,
+            originSource: data.originCountry ? 'MANUAL' : null,
+            supplierName: data.supplierName,
+            supplierAddress: data.supplierAddress,
+        },
+        rules
+    );
+
+    const tariffMap = await loadTariffMap(db, data.expShipDate);
+    const costComponents = await loadLandedCostComponents(db, {
+        shipVia: data.shipVia,
+        originCountry,
+        customerName: data.customerName,
+    });
+
+    // 1.5 Auto-save Vendor if new
+    if (data.supplierName) {
+        const existingVendor = await db
+            .select()
+            .from(vendors)
+            .where(eq(vendors.name, data.supplierName))
+            .limit(1);
+
+        if (existingVendor.length === 0) {
+            await db.insert(vendors).values({
+                name: data.supplierName,
+                address: data.supplierAddress || null,
+            });
+        }
+    }
+
+    // 2. Item Compilation
+    const itemPayloads = buildItemPayloads(
+        data.items,
+        originCountry,
+        tariffMap,
+        rules,
+        costComponents
     );
-    const totalEstimatedMarginRate =
-        totalRevenue > 0 ? round4(totalEstimatedMargin / totalRevenue) : 0;
+    const totals = sumTotals(itemPayloads);
 
     // 3. Database Insertion (Orders)
     const [insertedOrder] = await db
@@ -108,22 +210,29 @@ export async function createOrderFromExtraction(data: SaveOrderPayload) {
             supplierName: data.supplierName,
             supplierAddress: data.supplierAddress,
             orderDate: data.orderDate,
-            totalAmount: totalRevenue.toFixed(2),
-            status: 'Confirmed',
+            totalAmount: totals.revenue.toFixed(2),
+            status: isDraftOrder(data)
+                ? ORDER_STATUS.DRAFT
+                : data.status || ORDER_STATUS.CONFIRMED,
             workflowStatus: 'PO_UPLOADED',
             soReference: data.soReference,
             expShipDate: data.expShipDate,
             cancelDate: data.cancelDate,
             shipTo: data.shipTo,
             shipVia: data.shipVia,
+            originCountry,
+            originSource,
             shipmentTerms: data.shipmentTerms,
             paymentTerms: data.paymentTerms,
             customerNotes: data.customerNotes,
-            estimatedMargin: totalEstimatedMargin.toFixed(2),
-            estimatedMarginRate: totalEstimatedMarginRate.toFixed(4),
+            estimatedMargin: totals.estimatedMargin.toFixed(2),
+            estimatedMarginRate: totals.estimatedMarginRate.toFixed(4),
             customerTermDays: data.customerTermDays || 30,
             vendorTermDays: data.vendorTermDays || 30,
             logisticsTermDays: data.logisticsTermDays || 15,
+            sourceFileId: data.sourceFileId || null,
+            sourceFileName: data.sourceFileId ? data.sourceFileName || null : null,
+            sourceEmailId: data.sourceEmailId || null,
         } as any)
         .returning({ id: orders.id });
 
@@ -141,12 +250,450 @@ export async function createOrderFromExtraction(data: SaveOrderPayload) {
         );
     }
 
+    // 5. Extraction provenance (what the PDF said and what the model returned)
+    if (data.extraction) {
+        await insertExtractionRecord(db, insertedOrder.id, data.extraction);
+    }
+
+    // 6. Version 1 of the order history
+    await recordOrderRevision(db, insertedOrder.id, {
+        source: 'BASELINE',
+        sourceFileId: data.sourceFileId,
+    });
+
     return {
         orderId: insertedOrder.id,
-        totals: {
-            revenue: totalRevenue,
-            estimatedMargin: totalEstimatedMargin,
-            estimatedMarginRate: totalEstimatedMarginRate,
-        },
+        totals,
     };
 }
+
+/** Most recent saved order with the same VPO number (case- and whitespace-insensitive). */
+export async function findOrderByVpoNumber(vpoNumber: string) {
+    const [match] = await db
+        .select({
+            id: orders.id,
+            vpoNumber: orders.vpoNumber,
+            customerName: orders.customerName,
+            workflowStatus: orders.workflowStatus,
+            createdAt: orders.createdAt,
+        })
+        .from(orders)
+        .where(sql`upper(trim(${orders.vpoNumber})) = upper(trim(${vpoNumber}))`)
+        .orderBy(desc(orders.createdAt))
+        .limit(1);
+    return match ?? null;
+}
+
+/**
+ * The header values a revision payload sets. An origin typed on the form is kept
+ * as a manual one; left empty, the saved origin stays.
+ */
+function revisionSource(data: SaveOrderPayload) {
+    return {
+        ...data,
+        originCountry: data.originCountry || undefined,
+        originSource: data.originCountry ? 'MANUAL' : undefined,
+    };
+}
+
+/**
+ * `data` as the next version of `current`. Lines keep the HTS overrides, unit
+ * volumes and origins of the saved lines they pair with, since a PO never has them.
+ */
+function payloadSnapshot(current: OrderSnapshot, data: SaveOrderPayload): OrderSnapshot {
+    return {
+        order: toSnapshotOrder(revisionSource(data)),
+        items: inheritLineDetails(
+            current.items,
+            (data.items || []).map((item) => toSnapshotItem({ ...item, id: null }))
+        ),
+    };
+}
+
+/** What applying `data` as a revision of `orderId` would change. */
+export async function previewOrderRevision(orderId: string, data: SaveOrderPayload) {
+    const current = await loadOrderSnapshot(db, orderId);
+    if (!current) throw new Error('Order not found');
+    return diffOrderSnapshots(current, payloadSnapshot(current, data));
+}
+
+function snapshotItemInput(item: SnapshotItem) {
+    return {
+        productCode: item.productCode,
+        description: item.description,
+        quantity: item.quantity,
+        customerUnitPrice: item.unitPrice,
+        vendorUnitPrice: item.vendorUnitPrice,
+        color: item.color,
+        material: item.material,
+        collection: item.collection,
+        sizeBreakdown: Object.keys(item.sizeBreakdown).length > 0 ? item.sizeBreakdown : null,
+        htsCodeOverride: item.htsCodeOverride,
+        htsOverrideReason: item.htsOverrideReason,
+        unitCbm: item.unitCbm,
+        originCountry: item.originCountry,
+    };
+}
+
+/**
+ * Bring an order's header and lines to `target` inside `tx`. Lines pair up as in
+ * the diff (saved id first, then product code + colour): paired rows are updated in
+ * place so container allocations keep pointing at them, unpaired target lines are
+ * inserted (reusing their id when the snapshot has one) and leftover rows are
+ * removed. Tariffs, estimates and order totals are recomputed from the result.
+ */
+async function writeOrderState(
+    tx: DbExecutor,
+    orderId: string,
+    current: OrderSnapshot,
+    target: { orderUpdate: Partial<typeof orders.$inferInsert>; items: SnapshotItem[] }
+) {
+    const order = await tx.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) throw new Error('Order not found');
+
+    const { orderUpdate } = target;
+    const tariffDate =
+        orderUpdate.expShipDate !== undefined ? orderUpdate.expShipDate : order.expShipDate;
+    const rules = await loadTariffRules(tx, tariffDate);
+    // A restored origin that was not set by hand is worked out again, as on save
+    const origin = await resolveOriginFor(
+        tx,
+        {
+            originCountry:
+                orderUpdate.originCountry !== undefined
+                    ? orderUpdate.originCountry
+                    : order.originCountry,
+            originSource:
+                orderUpdate.originSource !== undefined
+                    ? orderUpdate.originSource
+                    : order.originSource,
+            supplierName: orderUpdate.supplierName ?? order.supplierName,
+            supplierAddress: orderUpdate.supplierAddress ?? order.supplierAddress,
+        },
+        rules
+    );
+    const { originCountry } = origin;
+    const pairs = matchItems(current.items, target.items);
+
+    const itemPayloads = buildItemPayloads(
+        target.items.map(snapshotItemInput),
+        originCountry,
+        await loadTariffMap(tx, tariffDate),
+        rules,
+        await loadLandedCostComponents(tx, {
+            shipVia: target.orderUpdate.shipVia ?? order.shipVia,
+            originCountry,
+            customerName: target.orderUpdate.customerName ?? order.customerName,
+        })
+    );
+    const payloadFor = new Map(target.items.map((item, index) => [item, itemPayloads[index]]));
+    const existingIds = new Set(current.items.map((item) => item.id));
+
+    for (const pair of pairs) {
+        const payload = pair.after ? payloadFor.get(pair.after) : undefined;
+        if (pair.before?.id && payload) {
+            await tx.update(orderItems).set(payload).where(eq(orderItems.id, pair.before.id));
+        } else if (payload) {
+            const id = pair.after?.id && !existingIds.has(pair.after.id) ? pair.after.id : undefined;
+            await tx.insert(orderItems).values({ ...payload, ...(id ? { id } : {}), orderId });
+        } else if (pair.before?.id) {
+            await tx.delete(orderItems).where(eq(orderItems.id, pair.before.id));
+        }
+    }
+
+    const savedItems = await tx
+        .select({ total: orderItems.total, estimatedMargin: orderItems.estimatedMargin })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId));
+    const totals = sumTotals(savedItems);
+
+    await tx
+        .update(orders)
+        .set({
+            ...target.orderUpdate,
+            ...origin,
+            totalAmount: totals.revenue.toFixed(2),
+            estimatedMargin: totals.estimatedMargin.toFixed(2),
+            estimatedMarginRate: totals.estimatedMarginRate.toFixed(4),
+        })
+        .where(eq(orders.id, orderId));
+
+    return totals;
+}
+
+/**
+ * Apply a re-issued VPO to an existing order instead of saving a duplicate. Lines
+ * missing from the revision are removed; the result is recorded as a new version.
+ */
+export async function applyOrderRevision(orderId: string, data: SaveOrderPayload) {
+    return db.transaction(async (tx) => {
+        await ensureBaselineRevision(tx, orderId);
+        const current = await loadOrderSnapshot(tx, orderId);
+        if (!current) throw new Error('Order not found');
+        // Compared the way `findOrderByVpoNumber` matches them
+        const savedVpo = `${current.order.vpoNumber ?? ''}`.trim().toUpperCase();
+        if (savedVpo !== data.vpoNumber.trim().toUpperCase()) {
+            throw new Error(`VPO ${data.vpoNumber} does not match the order being revised`);
+        }
+
+        const orderUpdate = revisionOrderUpdate(revisionSource(data)) as Partial<
+            typeof orders.$inferInsert
+        >;
+        if (data.sourceFileId) {
+            orderUpdate.sourceFileId = data.sourceFileId;
+            orderUpdate.sourceFileName = data.sourceFileName || null;
+        }
+
+        const totals = await writeOrderState(tx, orderId, current, {
+            orderUpdate,
+            items: payloadSnapshot(current, data).items,
+        });
+
+        if (data.extraction) {
+            await insertExtractionRecord(tx, orderId, data.extraction);
+        }
+
+        const revision = await recordOrderRevision(tx, orderId, {
+            source: 'VPO_REVISION',
+            sourceFileId: data.sourceFileId,
+        });
+
+        return {
+            orderId,
+            totals,
+            version: revision.version,
+            changes: revision.changes ? JSON.parse(revision.changes) : null,
+        };
+    });
+}
+
+/**
+ * Roll an order back to the state stored in `version`. The restore itself becomes
+ * a new version, so it can be undone the same way; margins and the workflow stage
+ * are recomputed rather than copied from the snapshot.
+ */
+export async function restoreOrderVersion(
+    orderId: string,
+    version: number,
+    changedBy?: string | null
+) {
+    const result = await db.transaction(async (tx) => {
+        const target = await getOrderRevision(tx, orderId, version);
+        if (!target) return null;
+
+        await ensureBaselineRevision(tx, orderId);
+        const current = await loadOrderSnapshot(tx, orderId);
+        if (!current) return null;
+
+        const snapshot = JSON.parse(target.snapshot) as OrderSnapshot;
+        // Older snapshots may still carry a status; it is ignored, not restored. Ones
+        // stored before line details were tracked keep the details the lines have now
+        const orderUpdate = revisionOrderUpdate(snapshot.order);
+
+        const totals = await writeOrderState(tx, orderId, current, {
+            orderUpdate: orderUpdate as Partial<typeof orders.$inferInsert>,
+            items: inheritLineDetails(current.items, snapshot.items),
+        });
+
+        const revision = await recordOrderRevision(tx, orderId, {
+            source: 'RESTORE',
+            changedBy,
+            note: `Restored version ${version}`,
+        });
+
+        return { orderId, totals, version: revision.version };
+    });
+
+    if (result) await recomputeOrderWorkflowStatus(orderId);
+    return result;
+}
+
+/**
+ * Promote a reviewed DRAFT order to Confirmed, which lets it into dashboard totals
+ * and the shipping/finance workflow. Returns null when the order does not exist and
+ * throws when it is not a draft.
+ */
+export async function approveOrder(orderId: string, approvedBy?: string | null) {
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) return null;
+
+    const [approved] = await db
+        .update(orders)
+        .set(approvalUpdate(order, approvedBy))
+        .where(and(eq(orders.id, orderId), onlyDraftOrders()))
+        .returning();
+    // Someone else approved it between the read and the update
+    if (!approved) throw new Error('Order is not a draft');
+
+    return approved;
+}
+
+type OrderRecomputeFilters = Omit<z.infer<typeof orderRecomputeSchema>, 'apply'>;
+
+function lineEstimates(row: Partial<Record<EstimateField, string | null>>): LineEstimates {
+    return Object.fromEntries(ESTIMATE_FIELDS.map((field) => [field, row[field] ?? null])) as LineEstimates;
+}
+
+/**
+ * Reprice the saved lines of every order matching `filters` with the tariff rules
+ * and manual rates of its ship date, and return the orders whose estimates would
+ * change. Quantities and prices are used as saved.
+ */
+async function findStaleEstimates(executor: DbExecutor, filters: OrderRecomputeFilters) {
+    const conditions = [];
+    if (filters.orderIds?.length) conditions.push(inArray(orders.id, filters.orderIds));
+    if (filters.stages?.length) conditions.push(inArray(orders.workflowStatus, filters.stages));
+    if (filters.shipFrom) {
+        conditions.push(gte(orders.expShipDate, new Date(`${filters.shipFrom}T00:00:00Z`)));
+    }
+    if (filters.shipTo) {
+        conditions.push(lte(orders.expShipDate, new Date(`${filters.shipTo}T23:59:59.999Z`)));
+    }
+
+    const orderRows = await executor
+        .select()
+        .from(orders)
+        .where(and(...conditions))
+        .orderBy(asc(orders.expShipDate), asc(orders.vpoNumber));
+    if (orderRows.length === 0) return { scanned: 0, orders: [] };
+
+    const [itemRows, lookup, costConfig] = await Promise.all([
+        executor
+            .select()
+            .from(orderItems)
+            .where(inArray(orderItems.orderId, orderRows.map((order) => order.id)))
+            .orderBy(asc(orderItems.createdAt), asc(orderItems.id)),
+        createTariffLookup(executor),
+        getLandedCostConfig(executor),
+    ]);
+
+    let scanned = 0;
+    const stale = [];
+    for (const order of orderRows) {
+        const items = itemRows.filter((item) => item.orderId === order.id);
+        const { tariffKey } = filters;
+        if (tariffKey && !items.some((item) => lineUsesTariffKey(item, tariffKey))) continue;
+        scanned += 1;
+
+        const rules = lookup.rulesOn(order.expShipDate);
+        const originCountry = savedOriginCountry(order, rules);
+        const payloads = buildItemPayloads(
+            items.map((item) => ({
+                productCode: item.productCode,
+                description: item.description,
+                quantity: item.quantity,
+                customerUnitPrice: parseDecimalInput(item.customerUnitPrice ?? item.unitPrice, 0),
+                vendorUnitPrice: parseDecimalInput(item.vendorUnitPrice, 0),
+                material: item.material,
+                collection: item.collection,
+                htsCodeOverride: item.htsCodeOverride,
+                unitCbm: item.unitCbm === null ? null : Number(item.unitCbm),
+                originCountry: item.originCountry,
+            })),
+            originCountry,
+            await lookup.tariffMapOn(order.expShipDate),
+            rules,
+            componentsForOrder(costConfig.components, {
+                shipVia: order.shipVia,
+                originCountry,
+                customerName: order.customerName,
+            })
+        );
+
+        const lines = items
+            .map((item, index) => {
+                const before = lineEstimates(item);
+                const after = lineEstimates(payloads[index]);
+                return {
+                    itemId: item.id,
+                    productCode: item.productCode,
+                    description: item.description,
+                    fields: changedEstimateFields(before, after),
+                    before,
+                    after,
+                };
+            })
+            .filter((line) => line.fields.length > 0);
+        if (lines.length === 0) continue;
+
+        stale.push({
+            orderId: order.id,
+            vpoNumber: order.vpoNumber,
+            customerName: order.customerName,
+            workflowStatus: order.workflowStatus,
+            expShipDate: order.expShipDate,
+            before: sumEstimates(items),
+            after: sumEstimates(payloads),
+            lines,
+        });
+    }
+
+    return { scanned, orders: stale };
+}
+
+/** Which orders a recompute would change, and by how much. Nothing is written. */
+export async function previewOrderRecompute(filters: OrderRecomputeFilters) {
+    return findStaleEstimates(db, filters);
+}
+
+/**
+ * Rewrite the stale estimates found for `filters`. Each order is updated in its own
+ * transaction and gets a RECOMPUTE version whose note gives the before and after
+ * duty, 3PL and margin. The order and its lines are locked and repriced again inside
+ * that transaction, so an edit saved since the scan is priced rather than overwritten.
+ */
+export async function applyOrderRecompute(
+    filters: OrderRecomputeFilters,
+    changedBy?: string | null
+) {
+    const { scanned, orders: candidates } = await findStaleEstimates(db, filters);
+
+    const applied = [];
+    for (const candidate of candidates) {
+        const result = await db.transaction(async (tx) => {
+            await tx
+                .select({ id: orders.id })
+                .from(orders)
+                .where(eq(orders.id, candidate.orderId))
+                .for('update');
+            await tx
+                .select({ id: orderItems.id })
+                .from(orderItems)
+                .where(eq(orderItems.orderId, candidate.orderId))
+                .for('update');
+            const [entry] = (
+                await findStaleEstimates(tx, { ...filters, orderIds: [candidate.orderId] })
+            ).orders;
+            // Edited or repriced by someone else in the meantime
+            if (!entry) return null;
+
+            await ensureBaselineRevision(tx, entry.orderId);
+            for (const line of entry.lines) {
+                await tx.update(orderItems).set(line.after).where(eq(orderItems.id, line.itemId));
+            }
+
+            const savedItems = await tx
+                .select({ total: orderItems.total, estimatedMargin: orderItems.estimatedMargin })
+                .from(orderItems)
+                .where(eq(orderItems.orderId, entry.orderId));
+            const totals = sumTotals(savedItems);
+            await tx
+                .update(orders)
+                .set({
+                    estimatedMargin: totals.estimatedMargin.toFixed(2),
+                    estimatedMarginRate: totals.estimatedMarginRate.toFixed(4),
+                })
+                .where(eq(orders.id, entry.orderId));
+
+            const revision = await recordOrderRevision(tx, entry.orderId, {
+                source: 'RECOMPUTE',
+                changedBy,
+                note: recomputeNote(entry.before, entry.after),
+            });
+            return { ...entry, version: revision.version };
+        });
+        if (result) applied.push(result);
+    }
+
+    return { scanned, orders: applied };
+}
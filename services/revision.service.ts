@@ -0,0 +1,167 @@
+import { db } from '@/db';
+import { orders, orderItems, orderRevisions } from '@/db/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import {
+    diffOrderSnapshots,
+    toSnapshotItem,
+    toSnapshotOrder,
+    type OrderDiff,
+    type OrderSnapshot,
+} from '@/lib/order-diff';
+
+/** `db` itself or the `tx` handed to a `db.transaction` callback. */
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * BASELINE: first recorded state. VPO_REVISION: re-issued PO applied on save.
+ * EDIT: PATCH /api/orders/[id]. RESTORE: rolled back to an earlier version.
+ * RECOMPUTE: estimates repriced after a tariff change.
+ */
+export type RevisionSource = 'BASELINE' | 'VPO_REVISION' | 'EDIT' | 'RESTORE' | 'RECOMPUTE';
+
+export async function loadOrderSnapshot(
+    executor: DbExecutor,
+    orderId: string
+): Promise<OrderSnapshot | null> {
+    const order = await executor.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) return null;
+
+    const items = await executor
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId))
+        .orderBy(asc(orderItems.createdAt), asc(orderItems.id));
+
+    return {
+        order: toSnapshotOrder(order),
+        items: items.map(toSnapshotItem),
+    };
+}
+
+/**
+ * Append the order's current state as the next version. `changes` defaults to the
+ * diff against the previous version's snapshot.
+ */
+export async function recordOrderRevision(
+    executor: DbExecutor,
+    orderId: string,
+    options: {
+        source: RevisionSource;
+        changes?: OrderDiff | null;
+        sourceFileId?: string | null;
+        changedBy?: string | null;
+        note?: string | null;
+    }
+) {
+    const snapshot = await loadOrderSnapshot(executor, orderId);
+    if (!snapshot) throw new Error('Order not found');
+
+    const [latest] = await executor
+        .select({ version: orderRevisions.version, snapshot: orderRevisions.snapshot })
+        .from(orderRevisions)
+        .where(eq(orderRevisions.orderId, orderId))
+        .orderBy(desc(orderRevisions.version))
+        .limit(1);
+
+    let changes = options.changes;
+    if (changes === undefined && latest) {
+        changes = diffOrderSnapshots(JSON.parse(latest.snapshot) as OrderSnapshot, snapshot);
+    }
+
+    const [revision] = await executor
+        .insert(orderRevisions)
+        .values({
+            orderId,
+            version: (latest?.version ?? 0) + 1,
+            source: options.source,
+            changes: changes ? JSON.stringify(changes) : null,
+            snapshot: JSON.stringify(snapshot),
+            sourceFileId: options.sourceFileId || null,
+            changedBy: options.changedBy || null,
+            note: options.note || null,
+        })
+        .returning();
+
+    return revision;
+}
+
+/** Orders saved before history existed get their current state recorded as version 1. */
+export async function ensureBaselineRevision(executor: DbExecutor, orderId: string) {
+    const existing = await executor.query.orderRevisions.findFirst({
+        where: eq(orderRevisions.orderId, orderId),
+        columns: { id: true },
+    });
+    if (!existing) {
+        await recordOrderRevision(executor, orderId, { source: 'BASELINE', changes: null });
+    }
+}
+
+/**
+ * Record a manual edit made inside `executor`'s transaction. Edits that touch no
+ * tracked field (workflow status, totals) do not create a version.
+ */
+export async function recordOrderEdit(
+    executor: DbExecutor,
+    orderId: string,
+    changedBy?: string | null
+) {
+    const [latest] = await executor
+        .select({ snapshot: orderRevisions.snapshot })
+        .from(orderRevisions)
+        .where(eq(orderRevisions.orderId, orderId))
+        .orderBy(desc(orderRevisions.version))
+        .limit(1);
+    const current = await loadOrderSnapshot(executor, orderId);
+    if (!latest || !current) return null;
+
+    const changes = diffOrderSnapshots(JSON.parse(latest.snapshot) as OrderSnapshot, current);
+    if (!changes.hasChanges) return null;
+    return recordOrderRevision(executor, orderId, { source: 'EDIT', changes, changedBy });
+}
+
+export async function getOrderRevision(executor: DbExecutor, orderId: string, version: number) {
+    const revision = await executor.query.orderRevisions.findFirst({
+        where: and(eq(orderRevisions.orderId, orderId), eq(orderRevisions.version, version)),
+    });
+    return revision ?? null;
+}
+
+/** Newest first, without snapshots; `changes` is parsed. */
+export async function listOrderRevisions(orderId: string) {
+    const rows = await db
+        .select({
+            id: orderRevisions.id,
+            version: orderRevisions.version,
+            source: orderRevisions.source,
+            changes: orderRevisions.changes,
+            sourceFileId: orderRevisions.sourceFileId,
+            changedBy: orderRevisions.changedBy,
+            note: orderRevisions.note,
+            createdAt: orderRevisions.createdAt,
+        })
+        .from(orderRevisions)
+        .where(eq(orderRevisions.orderId, orderId))
+        .orderBy(desc(orderRevisions.version));
+
+    return rows.map((row) => ({
+        ...row,
+        changes: row.changes ? (JSON.parse(row.changes) as OrderDiff) : null,
+    }));
+}
+
+/** Diff two stored versions; `to` omitted compares against the order as it is now. */
+export async function diffOrderRevisions(orderId: string, from: number, to?: number) {
+    const fromRevision = await getOrderRevision(db, orderId, from);
+    if (!fromRevision) return null;
+
+    let toSnapshot: OrderSnapshot | null;
+    if (to === undefined) {
+        toSnapshot = await loadOrderSnapshot(db, orderId);
+    } else {
+        const toRevision = await getOrderRevision(db, orderId, to);
+        toSnapshot = toRevision ? (JSON.parse(toRevision.snapshot) as OrderSnapshot) : null;
+    }
+    if (!toSnapshot) return null;
+
+    return diffOrderSnapshots(JSON.parse(fromRevision.snapshot) as OrderSnapshot, toSnapshot);
+}
@@ -0,0 +1,89 @@
+import { db } from '@/db';
+import { orderItems, orders } from '@/db/schema';
+import { and, asc, inArray, isNull } from 'drizzle-orm';
+import { parseDecimalInput } from '@/lib/finance-math';
+import {
+    simulateOrder,
+    summarizeScenario,
+    type ScenarioOrderInput,
+    type TariffScenario,
+} from '@/lib/tariff-scenario';
+import { savedOriginCountry } from '@/lib/tariffs';
+import { excludeDraftOrders } from '@/lib/order-status';
+import { getLandedCostConfig } from '@/services/landed-cost.service';
+import { createTariffLookup } from '@/services/tariff.service';
+
+/** Orders a scenario runs on by default: approved and not yet delivered. */
+export async function listOpenOrders() {
+    return db
+        .select({
+            id: orders.id,
+            vpoNumber: orders.vpoNumber,
+            customerName: orders.customerName,
+            supplierName: orders.supplierName,
+            expShipDate: orders.expShipDate,
+            workflowStatus: orders.workflowStatus,
+            totalAmount: orders.totalAmount,
+        })
+        .from(orders)
+        .where(and(excludeDraftOrders(), isNull(orders.deliveredAt)))
+        .orderBy(asc(orders.expShipDate), asc(orders.vpoNumber));
+}
+
+/**
+ * Price `orderIds` (every open order when empty) as saved and under `scenario`.
+ * Each order keeps the rules and manual rates of its own ship date; the scenario
+ * only changes origins and surcharges. Nothing is written.
+ */
+export async function runTariffScenario(
+    orderIds: string[] | null | undefined,
+    scenario: TariffScenario
+) {
+    const ids = orderIds?.length ? orderIds : (await listOpenOrders()).map((order) => order.id);
+    if (ids.length === 0) {
+        return { orders: [], totals: summarizeScenario([]) };
+    }
+
+    const [orderRows, itemRows, lookup, costConfig] = await Promise.all([
+        db.select().from(orders).where(inArray(orders.id, ids)).orderBy(asc(orders.vpoNumber)),
+        db.select().from(orderItems).where(inArray(orderItems.orderId, ids)),
+        createTariffLookup(),
+        getLandedCostConfig(),
+    ]);
+
+    const inputs: ScenarioOrderInput[] = [];
+    for (const order of orderRows) {
+        const rules = lookup.rulesOn(order.expShipDate);
+        inputs.push({
+            id: order.id,
+            vpoNumber: order.vpoNumber,
+            customerName: order.customerName,
+            originCountry: savedOriginCountry(order, rules),
+            rules,
+            tariffMap: await lookup.tariffMapOn(order.expShipDate),
+            shipVia: order.shipVia,
+            costComponents: costConfig.components,
+            items: itemRows
+                .filter((item) => item.orderId === order.id)
+                .map((item) => ({
+                    id: item.id,
+                    productCode: item.productCode,
+                    description: item.description,
+                    collection: item.collection,
+                    material: item.material,
+                    quantity: item.quantity || 0,
+                    customerUnitPrice: parseDecimalInput(
+                        item.customerUnitPrice ?? item.unitPrice,
+                        0
+                    ),
+                    vendorUnitPrice: parseDecimalInput(item.vendorUnitPrice, 0),
+                    htsCodeOverride: item.htsCodeOverride,
+                    originCountry: item.originCountry,
+                    unitCbm: item.unitCbm === null ? null : Number(item.unitCbm),
+                })),
+        });
+    }
+
+    const results = inputs.map((input) => simulateOrder(input, scenario));
+    return { orders: results, totals: summarizeScenario(results) };
+}
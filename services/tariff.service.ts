@@ -0,0 +1,378 @@
+import { db } from '@/db';
+import {
+    htsBaseRates,
+    htsHeadings,
+    originKeywordRules,
+    tariffRates,
+    tariffSurcharges,
+    vendors,
+} from '@/db/schema';
+import { asc, eq, sql } from 'drizzle-orm';
+import { round4 } from '@/lib/finance-math';
+import {
+    DEFAULT_TARIFF_RULES,
+    defaultTariffRateByTariffKey,
+    isEffectiveOn,
+    normalizeTariffKey,
+    resolveOrderOrigin,
+    tariffRuleTimeline,
+    tariffRulesAsOf,
+    toTariffDate,
+    type FabricBucket,
+    type HtsHeadingRule,
+    type TariffRuleSet,
+} from '@/lib/tariffs';
+import type { DbExecutor } from '@/services/revision.service';
+
+/**
+ * Tariff rules as stored in the rule tables, every dated version included. Until
+ * someone saves rules from the tariffs page the tables are empty and the built-in
+ * defaults apply, so a fresh database prices duty exactly as before.
+ */
+export async function getTariffRuleConfig(
+    executor: DbExecutor = db
+): Promise<{ configured: boolean; rules: TariffRuleSet }> {
+    const [headingRows, rateRows, surchargeRows, keywordRows] = await Promise.all([
+        executor
+            .select()
+            .from(htsHeadings)
+            .orderBy(
+                asc(htsHeadings.priority),
+                asc(htsHeadings.code),
+                sql`${htsHeadings.effectiveFrom} asc nulls first`
+            ),
+        executor.select().from(htsBaseRates),
+        executor
+            .select()
+            .from(tariffSurcharges)
+            .orderBy(
+                asc(tariffSurcharges.countryCode),
+                sql`${tariffSurcharges.effectiveFrom} asc nulls first`,
+                asc(tariffSurcharges.createdAt)
+            ),
+        executor
+            .select()
+            .from(originKeywordRules)
+            .orderBy(asc(originKeywordRules.priority), asc(originKeywordRules.countryCode)),
+    ]);
+
+    if (headingRows.length === 0 && surchargeRows.length === 0 && keywordRows.length === 0) {
+        return { configured: false, rules: DEFAULT_TARIFF_RULES };
+    }
+
+    const headings = headingRows.map((row): HtsHeadingRule => {
+        const rates: HtsHeadingRule['rates'] = {};
+        for (const rate of rateRows.filter((rate) => rate.headingId === row.id)) {
+            rates[rate.fabricBucket as FabricBucket] = {
+                htsCode: rate.htsCode,
+                statisticalCodes: rate.statisticalCodes ? JSON.parse(rate.statisticalCodes) : null,
+                rate: Number(rate.rate || 0),
+            };
+        }
+        return {
+            id: row.id,
+            code: row.code,
+            description: row.description,
+            categoryKeywords: JSON.parse(row.categoryKeywords),
+            priority: row.priority,
+            isFallback: row.isFallback,
+            rates,
+            effectiveFrom: row.effectiveFrom,
+            effectiveTo: row.effectiveTo,
+        };
+    });
+
+    return {
+        configured: true,
+        rules: {
+            headings,
+            surcharges: surchargeRows.map((row) => ({
+                id: row.id,
+                countryCode: row.countryCode,
+                name: row.name,
+                rate: Number(row.rate || 0),
+                enabled: row.enabled,
+                notes: row.notes,
+                effectiveFrom: row.effectiveFrom,
+                effectiveTo: row.effectiveTo,
+            })),
+            originKeywords: keywordRows.map((row) => ({
+                id: row.id,
+                countryCode: row.countryCode,
+                keywords: JSON.parse(row.keywords),
+                priority: row.priority,
+            })),
+        },
+    };
+}
+
+/** The rules in force on a date (an order's ship date; today when none is given). */
+export async function loadTariffRules(
+    executor: DbExecutor = db,
+    asOf?: Date | string | null
+): Promise<TariffRuleSet> {
+    return tariffRulesAsOf((await getTariffRuleConfig(executor)).rules, asOf);
+}
+
+/**
+ * The origin an order should carry: its hand-set country, else the country on the
+ * vendor master for its supplier, else the guess from supplier keywords.
+ */
+export async function resolveOriginFor(
+    executor: DbExecutor,
+    order: Parameters<typeof resolveOrderOrigin>[0],
+    rules: TariffRuleSet
+) {
+    const [vendor] = order.supplierName
+        ? await executor
+              .select({ countryCode: vendors.countryCode })
+              .from(vendors)
+              .where(eq(vendors.name, order.supplierName))
+              .limit(1)
+        : [];
+    return resolveOrderOrigin(order, vendor?.countryCode, rules);
+}
+
+/**
+ * Manual tariff-key rates in force on a date. Auto-synced rows only mirror what the
+ * rules give today, so leaving them out lets older orders price from the rules that
+ * applied on their own dates.
+ */
+export async function loadTariffMap(executor: DbExecutor = db, asOf?: Date | string | null) {
+    const day = toTariffDate(asOf);
+    const rows = await executor
+        .select({
+            productClass: tariffRates.productClass,
+            tariffRate: tariffRates.tariffRate,
+            effectiveFrom: tariffRates.effectiveFrom,
+            effectiveTo: tariffRates.effectiveTo,
+        })
+        .from(tariffRates)
+        .where(eq(tariffRates.source, 'manual'));
+
+    return new Map<string, number>(
+        rows
+            .filter((row) => isEffectiveOn(row, day))
+            .map((row) => [normalizeTariffKey(row.productClass), Number(row.tariffRate || 0)])
+    );
+}
+
+/**
+ * Rules and manual rates for pricing many orders at once: the rule tables are read
+ * once and the manual rates once per distinct day.
+ */
+export async function createTariffLookup(executor: DbExecutor = db) {
+    const { rules } = await getTariffRuleConfig(executor);
+    const tariffMaps = new Map<string, Promise<Map<string, number>>>();
+
+    return {
+        rulesOn: (asOf?: Date | string | null) => tariffRulesAsOf(rules, asOf),
+        tariffMapOn: (asOf?: Date | string | null) => {
+            const day = toTariffDate(asOf);
+            if (!tariffMaps.has(day)) tariffMaps.set(day, loadTariffMap(executor, day));
+            return tariffMaps.get(day)!;
+        },
+    };
+}
+
+/**
+ * Give a tariff key a new rate from `effectiveFrom` (default today). The version in
+ * force that day is closed and a new one starts, so orders dated earlier keep the
+ * old rate; a version starting that same day, or one with the same rate, is updated
+ * in place.
+ */
+export async function setTariffKeyRate(
+    executor: DbExecutor,
+    input: {
+        productClass: string;
+        rate: number;
+        source: 'manual' | 'sync';
+        notes?: string | null;
+        effectiveFrom?: string | null;
+    }
+) {
+    const productClass = normalizeTariffKey(input.productClass);
+    const day = toTariffDate(input.effectiveFrom);
+    const tariffRate = round4(Math.max(0, input.rate)).toFixed(4);
+
+    const versions = await executor
+        .select()
+        .from(tariffRates)
+        .where(eq(tariffRates.productClass, productClass))
+        .orderBy(sql`${tariffRates.effectiveFrom} asc nulls first`);
+    const current = versions.find((version) => isEffectiveOn(version, day));
+
+    if (current && (current.effectiveFrom === day || current.tariffRate === tariffRate)) {
+        const [updated] = await executor
+            .update(tariffRates)
+            .set({
+                tariffRate,
+                source: input.source,
+                notes: input.notes === undefined ? current.notes : input.notes,
+                updatedAt: new Date(),
+            })
+            .where(eq(tariffRates.id, current.id))
+            .returning();
+        return updated;
+    }
+
+    // A key's first rate applies to every date unless told otherwise.
+    if (versions.length === 0) {
+        const [created] = await executor
+            .insert(tariffRates)
+            .values({
+                productClass,
+                tariffRate,
+                source: input.source,
+                notes: input.notes ?? null,
+                effectiveFrom: input.effectiveFrom ? day : null,
+            })
+            .returning();
+        return created;
+    }
+
+    // Without a current version the new one runs until the next version starts.
+    const next = versions.find((version) => version.effectiveFrom && version.effectiveFrom > day);
+    if (current) {
+        await executor
+            .update(tariffRates)
+            .set({ effectiveTo: day, updatedAt: new Date() })
+            .where(eq(tariffRates.id, current.id));
+    }
+    const [created] = await executor
+        .insert(tariffRates)
+        .values({
+            productClass,
+            tariffRate,
+            source: input.source,
+            notes: input.notes ?? current?.notes ?? null,
+            effectiveFrom: day,
+            effectiveTo: current ? current.effectiveTo : (next?.effectiveFrom ?? null),
+        })
+        .returning();
+    return created;
+}
+
+/**
+ * Reprice the auto-synced tariff keys with today's rules. A changed rate becomes a
+ * new version from today; manual rates are left alone.
+ */
+export async function refreshSyncedTariffRates(
+    rules: TariffRuleSet,
+    executor: DbExecutor = db
+): Promise<number> {
+    const today = toTariffDate();
+    const rows = await executor.select().from(tariffRates).where(eq(tariffRates.source, 'sync'));
+    const current = tariffRulesAsOf(rules, today);
+
+    let refreshed = 0;
+    for (const row of rows.filter((row) => isEffectiveOn(row, today))) {
+        const rate = defaultTariffRateByTariffKey(
+            normalizeTariffKey(row.productClass),
+            undefined,
+            current
+        );
+        await setTariffKeyRate(executor, {
+            productClass: row.productClass,
+            rate,
+            source: 'sync',
+            effectiveFrom: today,
+        });
+        refreshed++;
+    }
+    return refreshed;
+}
+
+/** Stored versions of a tariff key next to the rate its rules gave over time. */
+export async function getTariffKeyHistory(tariffKey: string) {
+    const productClass = normalizeTariffKey(tariffKey);
+    const [versions, config] = await Promise.all([
+        db
+            .select()
+            .from(tariffRates)
+            .where(eq(tariffRates.productClass, productClass))
+            .orderBy(sql`${tariffRates.effectiveFrom} asc nulls first`),
+        getTariffRuleConfig(),
+    ]);
+    return {
+        tariffKey: productClass,
+        versions: versions.map((version) => ({
+            ...version,
+            tariffRate: Number(version.tariffRate || 0),
+        })),
+        ruleTimeline: tariffRuleTimeline(productClass, config.rules),
+    };
+}
+
+/**
+ * Replace the whole rule set. The tariffs page edits headings, surcharges and
+ * keywords together, so a save rewrites all three in one transaction and reprices
+ * the auto-synced tariff keys with the new rules. Past versions stay in the set the
+ * page sends back, so history survives a save.
+ */
+export async function saveTariffRules(rules: TariffRuleSet) {
+    await db.transaction(async (tx) => {
+        await tx.delete(htsHeadings);
+        await tx.delete(tariffSurcharges);
+        await tx.delete(originKeywordRules);
+
+        for (const heading of rules.headings) {
+            const [saved] = await tx
+                .insert(htsHeadings)
+                .values({
+                    code: heading.code,
+                    description: heading.description || null,
+                    categoryKeywords: JSON.stringify(heading.categoryKeywords),
+                    priority: heading.priority,
+                    isFallback: heading.isFallback,
+                    effectiveFrom: heading.effectiveFrom || null,
+                    effectiveTo: heading.effectiveTo || null,
+                })
+                .returning({ id: htsHeadings.id });
+
+            const rates = Object.entries(heading.rates).filter(([, rate]) => rate);
+            if (rates.length > 0) {
+                await tx.insert(htsBaseRates).values(
+                    rates.map(([fabricBucket, rate]) => ({
+                        headingId: saved.id,
+                        fabricBucket,
+                        htsCode: rate!.htsCode || null,
+                        statisticalCodes:
+                            rate!.statisticalCodes && Object.keys(rate!.statisticalCodes).length > 0
+                                ? JSON.stringify(rate!.statisticalCodes)
+                                : null,
+                        rate: round4(rate!.rate).toFixed(4),
+                    }))
+                );
+            }
+        }
+
+        if (rules.surcharges.length > 0) {
+            await tx.insert(tariffSurcharges).values(
+                rules.surcharges.map((surcharge) => ({
+                    countryCode: surcharge.countryCode.toUpperCase(),
+                    name: surcharge.name,
+                    rate: round4(surcharge.rate).toFixed(4),
+                    enabled: surcharge.enabled,
+                    notes: surcharge.notes || null,
+                    effectiveFrom: surcharge.effectiveFrom || null,
+                    effectiveTo: surcharge.effectiveTo || null,
+                }))
+            );
+        }
+
+        if (rules.originKeywords.length > 0) {
+            await tx.insert(originKeywordRules).values(
+                rules.originKeywords.map((rule) => ({
+                    countryCode: rule.countryCode.toUpperCase(),
+                    keywords: JSON.stringify(rule.keywords),
+                    priority: rule.priority,
+                }))
+            );
+        }
+
+        await refreshSyncedTariffRates(rules, tx);
+    });
+
+    return getTariffRuleConfig();
+}